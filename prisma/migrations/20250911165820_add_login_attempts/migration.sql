@@ -0,0 +1,7 @@
+-- CreateTable
+CREATE TABLE "login_attempts" (
+    "key" TEXT NOT NULL PRIMARY KEY,
+    "failures" INTEGER NOT NULL DEFAULT 0,
+    "lastFailureAt" DATETIME NOT NULL,
+    "blockedUntil" DATETIME
+);
@@ -0,0 +1,51 @@
+-- CreateTable
+CREATE TABLE "project_roles" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "permissions" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "projectId" TEXT NOT NULL,
+    CONSTRAINT "project_roles_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_project_members" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "role" TEXT NOT NULL DEFAULT 'CONTRIBUTOR',
+    "joinedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "userId" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "customRoleId" TEXT,
+    CONSTRAINT "project_members_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "project_members_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "project_members_customRoleId_fkey" FOREIGN KEY ("customRoleId") REFERENCES "project_roles" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_project_members" ("id", "joinedAt", "projectId", "role", "userId") SELECT "id", "joinedAt", "projectId", "role", "userId" FROM "project_members";
+DROP TABLE "project_members";
+ALTER TABLE "new_project_members" RENAME TO "project_members";
+CREATE UNIQUE INDEX "project_members_userId_projectId_key" ON "project_members"("userId", "projectId");
+CREATE TABLE "new_project_invitations" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "email" TEXT NOT NULL,
+    "role" TEXT NOT NULL DEFAULT 'CONTRIBUTOR',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "projectId" TEXT NOT NULL,
+    "invitedById" TEXT,
+    "customRoleId" TEXT,
+    CONSTRAINT "project_invitations_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "project_invitations_invitedById_fkey" FOREIGN KEY ("invitedById") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "project_invitations_customRoleId_fkey" FOREIGN KEY ("customRoleId") REFERENCES "project_roles" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_project_invitations" ("createdAt", "email", "id", "invitedById", "projectId", "role") SELECT "createdAt", "email", "id", "invitedById", "projectId", "role" FROM "project_invitations";
+DROP TABLE "project_invitations";
+ALTER TABLE "new_project_invitations" RENAME TO "project_invitations";
+CREATE INDEX "project_invitations_email_idx" ON "project_invitations"("email");
+CREATE UNIQUE INDEX "project_invitations_projectId_email_key" ON "project_invitations"("projectId", "email");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "project_roles_projectId_name_key" ON "project_roles"("projectId", "name");
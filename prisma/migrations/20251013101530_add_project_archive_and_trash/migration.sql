@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "projects" ADD COLUMN "archivedAt" DATETIME;
+ALTER TABLE "projects" ADD COLUMN "deletedAt" DATETIME;
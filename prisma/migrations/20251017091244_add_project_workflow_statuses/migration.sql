@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "tasks" ADD COLUMN "statusCategory" TEXT NOT NULL DEFAULT 'TODO';
+
+-- Catégories des statuts par défaut
+UPDATE "tasks" SET "statusCategory" = 'IN_PROGRESS' WHERE "status" = 'IN_PROGRESS';
+UPDATE "tasks" SET "statusCategory" = 'DONE' WHERE "status" IN ('DONE', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "project_statuses" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "key" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "allowedTransitions" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "projectId" TEXT NOT NULL,
+    CONSTRAINT "project_statuses_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "project_statuses_projectId_key_key" ON "project_statuses"("projectId", "key");
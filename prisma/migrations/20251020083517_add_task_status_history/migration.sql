@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "project_statuses" ADD COLUMN "requiresReason" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "tasks" ADD COLUMN "completedAt" DATETIME;
+ALTER TABLE "tasks" ADD COLUMN "startedAt" DATETIME;
+
+-- Les tâches déjà terminées le sont au plus tard à leur dernière modification
+UPDATE "tasks" SET "completedAt" = "updatedAt" WHERE "statusCategory" = 'DONE';
+
+-- CreateTable
+CREATE TABLE "task_status_changes" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "fromStatus" TEXT NOT NULL,
+    "toStatus" TEXT NOT NULL,
+    "reason" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "taskId" TEXT NOT NULL,
+    "changedById" TEXT,
+    CONSTRAINT "task_status_changes_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "tasks" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "task_status_changes_changedById_fkey" FOREIGN KEY ("changedById") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "task_status_changes_taskId_idx" ON "task_status_changes"("taskId");
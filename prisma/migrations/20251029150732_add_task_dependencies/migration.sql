@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "task_dependencies" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "blockingTaskId" TEXT NOT NULL,
+    "blockedTaskId" TEXT NOT NULL,
+    CONSTRAINT "task_dependencies_blockingTaskId_fkey" FOREIGN KEY ("blockingTaskId") REFERENCES "tasks" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "task_dependencies_blockedTaskId_fkey" FOREIGN KEY ("blockedTaskId") REFERENCES "tasks" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "task_dependencies_blockedTaskId_idx" ON "task_dependencies"("blockedTaskId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "task_dependencies_blockingTaskId_blockedTaskId_key" ON "task_dependencies"("blockingTaskId", "blockedTaskId");
@@ -0,0 +1,52 @@
+-- CreateTable
+CREATE TABLE "task_recurrences" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "frequency" TEXT NOT NULL,
+    "interval" INTEGER NOT NULL DEFAULT 1,
+    "weekdays" TEXT,
+    "startDate" DATETIME NOT NULL,
+    "until" DATETIME,
+    "count" INTEGER,
+    "occurrenceCount" INTEGER NOT NULL DEFAULT 1,
+    "nextRunAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_tasks" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'TODO',
+    "statusCategory" TEXT NOT NULL DEFAULT 'TODO',
+    "priority" TEXT NOT NULL DEFAULT 'MEDIUM',
+    "dueDate" DATETIME,
+    "startedAt" DATETIME,
+    "completedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "creatorId" TEXT,
+    "milestoneId" TEXT,
+    "parentTaskId" TEXT,
+    "recurrenceId" TEXT,
+    CONSTRAINT "tasks_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "tasks_creatorId_fkey" FOREIGN KEY ("creatorId") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "tasks_milestoneId_fkey" FOREIGN KEY ("milestoneId") REFERENCES "milestones" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "tasks_parentTaskId_fkey" FOREIGN KEY ("parentTaskId") REFERENCES "tasks" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "tasks_recurrenceId_fkey" FOREIGN KEY ("recurrenceId") REFERENCES "task_recurrences" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_tasks" ("completedAt", "createdAt", "creatorId", "description", "dueDate", "id", "milestoneId", "parentTaskId", "priority", "projectId", "startedAt", "status", "statusCategory", "title", "updatedAt") SELECT "completedAt", "createdAt", "creatorId", "description", "dueDate", "id", "milestoneId", "parentTaskId", "priority", "projectId", "startedAt", "status", "statusCategory", "title", "updatedAt" FROM "tasks";
+DROP TABLE "tasks";
+ALTER TABLE "new_tasks" RENAME TO "tasks";
+CREATE INDEX "tasks_milestoneId_idx" ON "tasks"("milestoneId");
+CREATE INDEX "tasks_parentTaskId_idx" ON "tasks"("parentTaskId");
+CREATE INDEX "tasks_recurrenceId_idx" ON "tasks"("recurrenceId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "task_recurrences_nextRunAt_idx" ON "task_recurrences"("nextRunAt");
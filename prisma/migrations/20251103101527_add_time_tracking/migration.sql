@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "tasks" ADD COLUMN "estimateMinutes" INTEGER;
+
+-- CreateTable
+CREATE TABLE "time_entries" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "startedAt" DATETIME NOT NULL,
+    "endedAt" DATETIME,
+    "durationMinutes" INTEGER,
+    "note" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "taskId" TEXT NOT NULL,
+    "userId" TEXT,
+    CONSTRAINT "time_entries_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "tasks" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "time_entries_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "time_entries_taskId_idx" ON "time_entries"("taskId");
+
+-- CreateIndex
+CREATE INDEX "time_entries_userId_endedAt_idx" ON "time_entries"("userId", "endedAt");
@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "custom_fields" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "options" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "projectId" TEXT NOT NULL,
+    CONSTRAINT "custom_fields_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "task_custom_field_values" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "value" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "taskId" TEXT NOT NULL,
+    "fieldId" TEXT NOT NULL,
+    CONSTRAINT "task_custom_field_values_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "tasks" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "task_custom_field_values_fieldId_fkey" FOREIGN KEY ("fieldId") REFERENCES "custom_fields" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "custom_fields_projectId_name_key" ON "custom_fields"("projectId", "name");
+
+-- CreateIndex
+CREATE INDEX "task_custom_field_values_fieldId_idx" ON "task_custom_field_values"("fieldId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "task_custom_field_values_taskId_fieldId_key" ON "task_custom_field_values"("taskId", "fieldId");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "project_statuses" ADD COLUMN "isCancellation" BOOLEAN NOT NULL DEFAULT false;
+
+-- Les statuts CANCELLED existants sont des statuts d'abandon
+UPDATE "project_statuses" SET "isCancellation" = true WHERE "key" = 'CANCELLED';
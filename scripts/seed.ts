@@ -1,5 +1,6 @@
 import { PrismaClient } from "@prisma/client";
 import bcrypt from "bcryptjs";
+import { DEFAULT_WORKFLOW, getStatusTimestamps } from "../src/utils/workflow";
 
 const prisma = new PrismaClient();
 
@@ -418,6 +419,7 @@ async function seed() {
           email: userData.email,
           name: userData.name,
           password: hashedPassword,
+          emailVerifiedAt: new Date(),
         },
       });
       createdUsers[userData.email] = user.id;
@@ -464,11 +466,23 @@ async function seed() {
       const projectName = projectNames[taskIndex % projectNames.length];
       const projectId = createdProjects[projectName];
 
+      // Catégorie et dates de traitement selon le statut du workflow par défaut
+      const workflowStatus = DEFAULT_WORKFLOW.find(
+        (status) => status.key === taskData.status
+      )!;
+      const timestamps = getStatusTimestamps(
+        { startedAt: null, completedAt: null },
+        workflowStatus,
+        new Date()
+      );
+
       const task = await prisma.task.create({
         data: {
           title: taskData.title,
           description: taskData.description,
           status: taskData.status,
+          statusCategory: workflowStatus.category,
+          ...timestamps,
           priority: taskData.priority,
           dueDate: taskData.dueDate,
           projectId: projectId,
@@ -33,7 +33,8 @@ const options = {
           type: "http",
           scheme: "bearer",
           bearerFormat: "JWT",
-          description: "Token JWT obtenu lors de la connexion",
+          description:
+            "Token JWT obtenu lors de la connexion, ou token d'accès personnel (pat_...)",
         },
       },
       schemas: {
@@ -53,6 +54,12 @@ const options = {
               type: "string",
               description: "Nom de l'utilisateur",
             },
+            emailVerifiedAt: {
+              type: "string",
+              format: "date-time",
+              nullable: true,
+              description: "Date de vérification de l'adresse email",
+            },
             createdAt: {
               type: "string",
               format: "date-time",
@@ -81,10 +88,38 @@ const options = {
               type: "string",
               description: "Description du projet",
             },
+            requireTwoFactor: {
+              type: "boolean",
+              description:
+                "Les membres doivent avoir activé la double authentification pour accéder au projet",
+            },
+            blockParentCompletion: {
+              type: "boolean",
+              default: true,
+              description:
+                "Une tâche ne peut pas passer dans un statut de catégorie DONE tant que ses sous-tâches sont ouvertes",
+            },
             ownerId: {
               type: "string",
               description: "ID du propriétaire du projet",
             },
+            workspaceId: {
+              type: "string",
+              nullable: true,
+              description: "Espace de travail du projet (null pour un projet personnel)",
+            },
+            archivedAt: {
+              type: "string",
+              format: "date-time",
+              nullable: true,
+              description: "Date d'archivage (le projet archivé est en lecture seule)",
+            },
+            deletedAt: {
+              type: "string",
+              format: "date-time",
+              nullable: true,
+              description: "Date de mise à la corbeille",
+            },
             owner: {
               $ref: "#/components/schemas/User",
             },
@@ -94,6 +129,44 @@ const options = {
                 $ref: "#/components/schemas/ProjectMember",
               },
             },
+            userRole: {
+              type: "string",
+              enum: ["ADMIN", "CONTRIBUTOR", "VIEWER"],
+              description:
+                "Rôle de l'utilisateur connecté (ADMIN pour le propriétaire)",
+            },
+            permissions: {
+              type: "array",
+              items: {
+                type: "string",
+                enum: [
+                  "VIEW_PROJECT",
+                  "EDIT_PROJECT",
+                  "ARCHIVE_PROJECT",
+                  "DELETE_PROJECT",
+                  "TRANSFER_OWNERSHIP",
+                  "MANAGE_SECURITY",
+                  "MANAGE_MEMBERS",
+                  "MANAGE_ROLES",
+                  "MANAGE_WORKFLOW",
+                  "MANAGE_LABELS",
+                  "MANAGE_CUSTOM_FIELDS",
+                  "MANAGE_MILESTONES",
+                  "CREATE_TASK",
+                  "EDIT_TASK",
+                  "UPDATE_TASK_STATUS",
+                  "OVERRIDE_DEPENDENCIES",
+                  "DELETE_TASK",
+                  "DELETE_OWN_TASK",
+                  "LOG_TIME",
+                  "MANAGE_TIME_ENTRIES",
+                  "COMMENT",
+                  "MODERATE_COMMENTS",
+                ],
+              },
+              description:
+                "Actions autorisées pour l'utilisateur connecté (matrice de permissions ou rôle personnalisé)",
+            },
             createdAt: {
               type: "string",
               format: "date-time",
@@ -105,6 +178,343 @@ const options = {
           },
           required: ["id", "name", "ownerId"],
         },
+        Workspace: {
+          type: "object",
+          properties: {
+            id: {
+              type: "string",
+              description: "ID unique de l'espace de travail",
+            },
+            name: {
+              type: "string",
+            },
+            description: {
+              type: "string",
+              nullable: true,
+            },
+            userRole: {
+              type: "string",
+              enum: ["OWNER", "ADMIN", "MEMBER"],
+              description:
+                "Rôle de l'utilisateur connecté (OWNER et ADMIN gèrent tous les projets de l'espace)",
+            },
+            createdAt: {
+              type: "string",
+              format: "date-time",
+            },
+            updatedAt: {
+              type: "string",
+              format: "date-time",
+            },
+          },
+          required: ["id", "name"],
+        },
+        ProjectStatus: {
+          type: "object",
+          properties: {
+            key: {
+              type: "string",
+              example: "IN_REVIEW",
+              description: "Valeur enregistrée dans le statut des tâches",
+            },
+            name: {
+              type: "string",
+              example: "En revue",
+            },
+            category: {
+              type: "string",
+              enum: ["TODO", "IN_PROGRESS", "DONE"],
+            },
+            allowedTransitions: {
+              type: "array",
+              nullable: true,
+              items: {
+                type: "string",
+              },
+              description:
+                "Statuts accessibles depuis celui-ci (null : toutes les transitions)",
+            },
+            requiresReason: {
+              type: "boolean",
+              default: false,
+              description: "Motif (statusReason) obligatoire pour passer à ce statut",
+            },
+            isCancellation: {
+              type: "boolean",
+              default: false,
+              description: "Statut d'abandon (catégorie DONE) : une occurrence récurrente abandonnée ne crée pas aussitôt la suivante",
+            },
+          },
+          required: ["key", "name", "category"],
+        },
+        Label: {
+          type: "object",
+          properties: {
+            id: {
+              type: "string",
+              description: "ID unique de l'étiquette",
+            },
+            name: {
+              type: "string",
+              example: "Bug",
+            },
+            color: {
+              type: "string",
+              example: "#E53E3E",
+              description: "Couleur hexadécimale",
+            },
+            projectId: {
+              type: "string",
+            },
+          },
+          required: ["id", "name", "color"],
+        },
+        CustomField: {
+          type: "object",
+          properties: {
+            id: {
+              type: "string",
+              description: "ID unique du champ personnalisé",
+            },
+            name: {
+              type: "string",
+              example: "Environnement",
+            },
+            type: {
+              type: "string",
+              enum: [
+                "TEXT",
+                "NUMBER",
+                "DATE",
+                "SINGLE_SELECT",
+                "MULTI_SELECT",
+                "USER",
+              ],
+              description: "Type des valeurs (USER : ID d'un membre du projet)",
+            },
+            options: {
+              type: "array",
+              items: { type: "string" },
+              example: ["Développement", "Recette", "Production"],
+              description: "Choix possibles, dans l'ordre (vide hors SINGLE_SELECT et MULTI_SELECT)",
+            },
+          },
+          required: ["id", "name", "type", "options"],
+        },
+        Milestone: {
+          type: "object",
+          properties: {
+            id: {
+              type: "string",
+              description: "ID unique du jalon",
+            },
+            name: {
+              type: "string",
+              example: "Sprint 12",
+            },
+            goal: {
+              type: "string",
+              nullable: true,
+              description: "Objectif du jalon",
+            },
+            startDate: {
+              type: "string",
+              format: "date-time",
+              nullable: true,
+            },
+            endDate: {
+              type: "string",
+              format: "date-time",
+              nullable: true,
+            },
+            state: {
+              type: "string",
+              enum: ["PLANNED", "OPEN", "CLOSED"],
+            },
+            closedAt: {
+              type: "string",
+              format: "date-time",
+              nullable: true,
+            },
+            projectId: {
+              type: "string",
+            },
+            progress: {
+              type: "object",
+              description: "Avancement du jalon",
+              properties: {
+                total: { type: "integer" },
+                done: {
+                  type: "integer",
+                  description: "Tâches dans un statut de catégorie DONE",
+                },
+                percentDone: { type: "integer", example: 60 },
+                byStatus: {
+                  type: "object",
+                  additionalProperties: { type: "integer" },
+                },
+                byCategory: {
+                  type: "object",
+                  additionalProperties: { type: "integer" },
+                },
+              },
+            },
+          },
+          required: ["id", "name", "state"],
+        },
+        ProjectTemplate: {
+          type: "object",
+          properties: {
+            id: {
+              type: "string",
+              description: "ID unique du modèle",
+            },
+            name: {
+              type: "string",
+            },
+            description: {
+              type: "string",
+              nullable: true,
+            },
+            tasks: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  title: { type: "string" },
+                  description: { type: "string", nullable: true },
+                  priority: {
+                    type: "string",
+                    enum: ["LOW", "MEDIUM", "HIGH", "URGENT"],
+                  },
+                  dueOffsetDays: {
+                    type: "integer",
+                    nullable: true,
+                    description: "Échéance en jours après le démarrage du projet",
+                  },
+                },
+              },
+            },
+            createdById: {
+              type: "string",
+              nullable: true,
+            },
+            workspaceId: {
+              type: "string",
+              nullable: true,
+              description: "Espace de travail avec lequel le modèle est partagé (null pour un modèle personnel)",
+            },
+            createdAt: {
+              type: "string",
+              format: "date-time",
+            },
+            updatedAt: {
+              type: "string",
+              format: "date-time",
+            },
+          },
+          required: ["id", "name", "tasks"],
+        },
+        Session: {
+          type: "object",
+          properties: {
+            id: {
+              type: "string",
+              description: "ID unique de la session",
+            },
+            userAgent: {
+              type: "string",
+              description: "User agent du client à l'ouverture de la session",
+            },
+            ipAddress: {
+              type: "string",
+              description: "Adresse IP du client à l'ouverture de la session",
+            },
+            createdAt: {
+              type: "string",
+              format: "date-time",
+            },
+            lastSeenAt: {
+              type: "string",
+              format: "date-time",
+              description: "Dernière activité (précision d'une minute)",
+            },
+            current: {
+              type: "boolean",
+              description: "Session à l'origine de la requête",
+            },
+          },
+          required: ["id", "createdAt", "lastSeenAt", "current"],
+        },
+        ProjectInvitation: {
+          type: "object",
+          properties: {
+            id: {
+              type: "string",
+              description: "ID unique de l'invitation",
+            },
+            email: {
+              type: "string",
+              format: "email",
+              description: "Email invité",
+            },
+            role: {
+              type: "string",
+              enum: ["ADMIN", "CONTRIBUTOR", "VIEWER"],
+              description: "Rôle attribué à l'acceptation",
+            },
+            customRoleId: {
+              type: "string",
+              nullable: true,
+              description: "Rôle personnalisé attribué à l'acceptation",
+            },
+            projectId: {
+              type: "string",
+            },
+            invitedById: {
+              type: "string",
+              nullable: true,
+            },
+            createdAt: {
+              type: "string",
+              format: "date-time",
+            },
+          },
+          required: ["id", "email", "role", "projectId"],
+        },
+        ProjectRole: {
+          type: "object",
+          properties: {
+            id: {
+              type: "string",
+              description: "ID unique du rôle personnalisé",
+            },
+            name: {
+              type: "string",
+              description: "Nom du rôle, unique dans le projet",
+            },
+            permissions: {
+              type: "array",
+              items: {
+                type: "string",
+              },
+              description:
+                "Actions accordées (parmi celles d'un administrateur), VIEW_PROJECT étant implicite",
+            },
+            projectId: {
+              type: "string",
+            },
+            createdAt: {
+              type: "string",
+              format: "date-time",
+            },
+            updatedAt: {
+              type: "string",
+              format: "date-time",
+            },
+          },
+          required: ["id", "name", "permissions", "projectId"],
+        },
         ProjectMember: {
           type: "object",
           properties: {
@@ -113,9 +523,18 @@ const options = {
             },
             role: {
               type: "string",
-              enum: ["OWNER", "ADMIN", "CONTRIBUTOR"],
+              enum: ["ADMIN", "CONTRIBUTOR", "VIEWER"],
               description: "Rôle de l'utilisateur dans le projet",
             },
+            customRole: {
+              type: "object",
+              nullable: true,
+              description: "Rôle personnalisé, prioritaire sur le rôle standard",
+              properties: {
+                id: { type: "string" },
+                name: { type: "string" },
+              },
+            },
             user: {
               $ref: "#/components/schemas/User",
             },
@@ -142,8 +561,26 @@ const options = {
             },
             status: {
               type: "string",
-              enum: ["TODO", "IN_PROGRESS", "DONE", "CANCELLED"],
-              description: "Statut de la tâche",
+              example: "TODO",
+              description:
+                "Clé d'un statut du workflow du projet (TODO, IN_PROGRESS, DONE ou CANCELLED par défaut)",
+            },
+            statusCategory: {
+              type: "string",
+              enum: ["TODO", "IN_PROGRESS", "DONE"],
+              description: "Catégorie du statut, utilisée par les statistiques",
+            },
+            startedAt: {
+              type: "string",
+              format: "date-time",
+              nullable: true,
+              description: "Premier passage dans un statut de catégorie IN_PROGRESS (ou fin de la tâche si elle n'y est pas passée)",
+            },
+            completedAt: {
+              type: "string",
+              format: "date-time",
+              nullable: true,
+              description: "Passage dans un statut de catégorie DONE hors annulation (effacé à la réouverture)",
             },
             priority: {
               type: "string",
@@ -155,13 +592,111 @@ const options = {
               format: "date-time",
               description: "Date d'échéance de la tâche",
             },
+            estimateMinutes: {
+              type: "integer",
+              nullable: true,
+              description: "Estimation de l'effort, en minutes",
+            },
+            spentMinutes: {
+              type: "integer",
+              description: "Temps passé (saisies terminées), en minutes",
+            },
+            customFields: {
+              type: "object",
+              additionalProperties: true,
+              example: { clm789field: "Production" },
+              description: "Valeurs des champs personnalisés du projet, par ID de champ",
+            },
             projectId: {
               type: "string",
               description: "ID du projet associé",
             },
             creatorId: {
               type: "string",
-              description: "ID du créateur de la tâche",
+              nullable: true,
+              description:
+                "ID du créateur de la tâche (null si son compte a été supprimé)",
+            },
+            milestoneId: {
+              type: "string",
+              nullable: true,
+              description: "ID du jalon de la tâche",
+            },
+            parentTaskId: {
+              type: "string",
+              nullable: true,
+              description: "ID de la tâche parente (sous-tâche)",
+            },
+            subtaskProgress: {
+              $ref: "#/components/schemas/TaskProgress",
+            },
+            checklist: {
+              type: "array",
+              items: {
+                $ref: "#/components/schemas/ChecklistItem",
+              },
+            },
+            checklistProgress: {
+              $ref: "#/components/schemas/TaskProgress",
+            },
+            isBlocked: {
+              type: "boolean",
+              description: "Une tâche bloquante n'est pas encore terminée",
+            },
+            blockedBy: {
+              type: "array",
+              description: "Tâches qui bloquent celle-ci (ID de la dépendance et tâche)",
+              items: {
+                type: "object",
+                properties: {
+                  id: { type: "string" },
+                  task: { type: "object" },
+                },
+              },
+            },
+            blocks: {
+              type: "array",
+              description: "Tâches bloquées par celle-ci (ID de la dépendance et tâche)",
+              items: {
+                type: "object",
+                properties: {
+                  id: { type: "string" },
+                  task: { type: "object" },
+                },
+              },
+            },
+            recurrenceId: {
+              type: "string",
+              nullable: true,
+              description: "ID de la série de la tâche récurrente",
+            },
+            recurrence: {
+              type: "object",
+              nullable: true,
+              description:
+                "Règle de répétition, nombre d'occurrences créées et prochaine création",
+              properties: {
+                frequency: {
+                  type: "string",
+                  enum: ["DAILY", "WEEKLY", "MONTHLY"],
+                },
+                interval: { type: "integer" },
+                weekdays: {
+                  type: "array",
+                  items: {
+                    type: "string",
+                    enum: ["MO", "TU", "WE", "TH", "FR", "SA", "SU"],
+                  },
+                },
+                until: { type: "string", format: "date-time" },
+                count: { type: "integer" },
+                occurrenceCount: { type: "integer" },
+                nextRunAt: {
+                  type: "string",
+                  format: "date-time",
+                  nullable: true,
+                },
+              },
             },
             assignees: {
               type: "array",
@@ -169,6 +704,12 @@ const options = {
                 $ref: "#/components/schemas/TaskAssignee",
               },
             },
+            labels: {
+              type: "array",
+              items: {
+                $ref: "#/components/schemas/Label",
+              },
+            },
             comments: {
               type: "array",
               items: {
@@ -190,9 +731,118 @@ const options = {
             "status",
             "priority",
             "projectId",
-            "creatorId",
           ],
         },
+        TaskDependency: {
+          type: "object",
+          properties: {
+            id: {
+              type: "string",
+              description: "ID unique de la dépendance",
+            },
+            blockingTaskId: {
+              type: "string",
+              description: "Tâche qui doit être terminée en premier",
+            },
+            blockedTaskId: {
+              type: "string",
+              description: "Tâche bloquée",
+            },
+            createdAt: {
+              type: "string",
+              format: "date-time",
+            },
+          },
+          required: ["id", "blockingTaskId", "blockedTaskId"],
+        },
+        ChecklistItem: {
+          type: "object",
+          properties: {
+            id: {
+              type: "string",
+              description: "ID unique de l'élément",
+            },
+            text: {
+              type: "string",
+              example: "Relire la documentation",
+            },
+            done: {
+              type: "boolean",
+              default: false,
+            },
+            position: {
+              type: "integer",
+              description: "Rang dans la checklist",
+            },
+            taskId: {
+              type: "string",
+            },
+          },
+          required: ["id", "text", "done", "position"],
+        },
+        TaskProgress: {
+          type: "object",
+          description: "Avancement des sous-tâches (à tous les niveaux) ou de la checklist",
+          properties: {
+            total: { type: "integer" },
+            done: { type: "integer" },
+            percentDone: { type: "integer", example: 50 },
+          },
+        },
+        TimeEntry: {
+          type: "object",
+          properties: {
+            id: {
+              type: "string",
+              description: "ID unique de la saisie",
+            },
+            startedAt: {
+              type: "string",
+              format: "date-time",
+            },
+            endedAt: {
+              type: "string",
+              format: "date-time",
+              nullable: true,
+              description: "Fin de la saisie (null tant que le chronomètre tourne)",
+            },
+            durationMinutes: {
+              type: "integer",
+              nullable: true,
+              description: "Durée en minutes (null tant que le chronomètre tourne)",
+            },
+            note: {
+              type: "string",
+              nullable: true,
+            },
+            taskId: {
+              type: "string",
+            },
+            userId: {
+              type: "string",
+              nullable: true,
+              description: "Auteur de la saisie (null si son compte a été supprimé)",
+            },
+            user: {
+              type: "object",
+              nullable: true,
+              properties: {
+                id: { type: "string" },
+                name: { type: "string" },
+                email: { type: "string" },
+              },
+            },
+          },
+          required: ["id", "startedAt", "taskId"],
+        },
+        TimeTotals: {
+          type: "object",
+          description: "Temps estimé et temps passé, en minutes",
+          properties: {
+            estimateMinutes: { type: "integer" },
+            spentMinutes: { type: "integer" },
+          },
+        },
         TaskAssignee: {
           type: "object",
           properties: {
@@ -231,7 +881,9 @@ const options = {
             },
             authorId: {
               type: "string",
-              description: "ID de l'auteur du commentaire",
+              nullable: true,
+              description:
+                "ID de l'auteur du commentaire (null si son compte a été supprimé)",
             },
             author: {
               $ref: "#/components/schemas/User",
@@ -245,7 +897,7 @@ const options = {
               format: "date-time",
             },
           },
-          required: ["id", "content", "taskId", "authorId"],
+          required: ["id", "content", "taskId"],
         },
         Error: {
           type: "object",
@@ -0,0 +1,403 @@
+import { Request, Response } from "express";
+import bcrypt from "bcryptjs";
+import { PrismaClient } from "@prisma/client";
+import { AuthRequest, DeleteAccountRequest, WorkspaceRole } from "../types";
+import { validateDeleteAccountData } from "../utils/validation";
+import { verifySecondFactor } from "../utils/twoFactor";
+import { formatSession } from "../utils/sessions";
+import { formatPersonalAccessToken } from "../utils/personalAccessTokens";
+import { unlockAccount } from "../utils/loginAttempts";
+import {
+  sendSuccess,
+  sendError,
+  sendValidationError,
+  sendServerError,
+} from "../utils/response";
+
+const prisma = new PrismaClient();
+
+/**
+ * @swagger
+ * /auth/export:
+ *   get:
+ *     summary: Exporter les données personnelles de l'utilisateur connecté (RGPD)
+ *     description: Archive JSON du profil, des projets, des tâches créées ou assignées, des commentaires, des saisies de temps, des sessions et des tokens d'accès.
+ *     tags: [Authentification]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Archive générée avec succès (téléchargée en pièce jointe)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Success'
+ *       401:
+ *         description: Non authentifié
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export const exportAccountData = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: authReq.user.id },
+      include: {
+        ownedProjects: {
+          orderBy: { createdAt: "asc" },
+        },
+        projectMemberships: {
+          include: {
+            project: { select: { id: true, name: true } },
+          },
+          orderBy: { joinedAt: "asc" },
+        },
+        workspaceMemberships: {
+          include: {
+            workspace: { select: { id: true, name: true } },
+          },
+          orderBy: { joinedAt: "asc" },
+        },
+        createdTasks: {
+          include: {
+            project: { select: { id: true, name: true } },
+          },
+          orderBy: { createdAt: "asc" },
+        },
+        assignedTasks: {
+          include: {
+            task: {
+              include: {
+                project: { select: { id: true, name: true } },
+              },
+            },
+          },
+          orderBy: { assignedAt: "asc" },
+        },
+        comments: {
+          include: {
+            task: { select: { id: true, title: true, projectId: true } },
+          },
+          orderBy: { createdAt: "asc" },
+        },
+        timeEntries: {
+          include: {
+            task: { select: { id: true, title: true, projectId: true } },
+          },
+          orderBy: { startedAt: "asc" },
+        },
+        sessions: {
+          orderBy: { createdAt: "asc" },
+        },
+        personalAccessTokens: {
+          orderBy: { createdAt: "asc" },
+        },
+      },
+    });
+
+    if (!user) {
+      sendError(res, "Utilisateur non trouvé", "USER_NOT_FOUND", 404);
+      return;
+    }
+
+    // Les secrets (mot de passe, 2FA, empreintes de tokens) ne sont jamais exportés
+    const archive = {
+      exportedAt: new Date().toISOString(),
+      profile: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        emailVerifiedAt: user.emailVerifiedAt,
+        twoFactorEnabledAt: user.totpEnabledAt,
+        createdAt: user.createdAt,
+        updatedAt: user.updatedAt,
+      },
+      ownedProjects: user.ownedProjects.map((project) => ({
+        id: project.id,
+        name: project.name,
+        description: project.description,
+        createdAt: project.createdAt,
+        updatedAt: project.updatedAt,
+      })),
+      memberships: user.projectMemberships.map((membership) => ({
+        project: membership.project,
+        role: membership.role,
+        joinedAt: membership.joinedAt,
+      })),
+      workspaces: user.workspaceMemberships.map((membership) => ({
+        workspace: membership.workspace,
+        role: membership.role,
+        joinedAt: membership.joinedAt,
+      })),
+      createdTasks: user.createdTasks.map((task) => ({
+        id: task.id,
+        title: task.title,
+        description: task.description,
+        status: task.status,
+        priority: task.priority,
+        dueDate: task.dueDate,
+        project: task.project,
+        createdAt: task.createdAt,
+        updatedAt: task.updatedAt,
+      })),
+      assignedTasks: user.assignedTasks.map(({ task, assignedAt }) => ({
+        id: task.id,
+        title: task.title,
+        status: task.status,
+        priority: task.priority,
+        dueDate: task.dueDate,
+        project: task.project,
+        assignedAt,
+      })),
+      comments: user.comments.map((comment) => ({
+        id: comment.id,
+        content: comment.content,
+        task: comment.task,
+        createdAt: comment.createdAt,
+        updatedAt: comment.updatedAt,
+      })),
+      timeEntries: user.timeEntries.map((timeEntry) => ({
+        id: timeEntry.id,
+        startedAt: timeEntry.startedAt,
+        endedAt: timeEntry.endedAt,
+        durationMinutes: timeEntry.durationMinutes,
+        note: timeEntry.note,
+        task: timeEntry.task,
+      })),
+      sessions: user.sessions.map((session) => ({
+        ...formatSession(session, authReq.sessionId),
+        revokedAt: session.revokedAt,
+      })),
+      personalAccessTokens: user.personalAccessTokens.map(
+        formatPersonalAccessToken
+      ),
+    };
+
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="abricot-export-${user.id}.json"`
+    );
+    sendSuccess(res, "Export des données personnelles généré avec succès", {
+      export: archive,
+    });
+  } catch (error) {
+    console.error("Erreur lors de l'export des données:", error);
+    sendServerError(res, "Erreur lors de l'export des données");
+  }
+};
+
+/**
+ * @swagger
+ * /auth/account:
+ *   delete:
+ *     summary: Supprimer le compte de l'utilisateur connecté
+ *     description: |
+ *       Confirmation par le mot de passe, l'email du compte et, si la 2FA est activée, un code.
+ *       La propriété des projets doit être transférée (ou les projets supprimés) au préalable.
+ *       Les tâches, commentaires et saisies de temps sont conservés de façon anonyme.
+ *     tags: [Authentification]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - password
+ *               - confirmEmail
+ *             properties:
+ *               password:
+ *                 type: string
+ *               confirmEmail:
+ *                 type: string
+ *                 format: email
+ *                 description: Email du compte, à ressaisir pour confirmer
+ *               code:
+ *                 type: string
+ *                 description: Code TOTP (si la 2FA est activée)
+ *               recoveryCode:
+ *                 type: string
+ *                 description: Code de récupération (à la place du code TOTP)
+ *     responses:
+ *       200:
+ *         description: Compte supprimé avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Success'
+ *       400:
+ *         description: Données invalides ou confirmation incorrecte
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Mot de passe ou code 2FA incorrect
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: L'utilisateur est encore propriétaire de projets ou d'espaces de travail
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export const deleteAccount = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const {
+      password,
+      confirmEmail,
+      code,
+      recoveryCode,
+    }: DeleteAccountRequest = req.body;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Validation des données
+    const validationErrors = validateDeleteAccountData({
+      password,
+      confirmEmail,
+    });
+    if (validationErrors.length > 0) {
+      sendValidationError(
+        res,
+        "Données de suppression invalides",
+        validationErrors
+      );
+      return;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: authReq.user.id },
+    });
+
+    if (!user) {
+      sendError(res, "Utilisateur non trouvé", "USER_NOT_FOUND", 404);
+      return;
+    }
+
+    if (confirmEmail.toLowerCase() !== user.email) {
+      sendError(
+        res,
+        "L'email de confirmation ne correspond pas au compte",
+        "CONFIRMATION_MISMATCH",
+        400
+      );
+      return;
+    }
+
+    const isPasswordValid = await bcrypt.compare(password, user.password);
+    if (!isPasswordValid) {
+      sendError(
+        res,
+        "Mot de passe actuel incorrect",
+        "INVALID_CURRENT_PASSWORD",
+        401
+      );
+      return;
+    }
+
+    // Second facteur requis si la 2FA est activée
+    if (user.totpEnabledAt) {
+      if (!code && !recoveryCode) {
+        sendError(
+          res,
+          "Un code de vérification est requis pour supprimer le compte",
+          "TWO_FACTOR_CODE_REQUIRED",
+          400
+        );
+        return;
+      }
+
+      const isFactorValid = await verifySecondFactor(user, {
+        code,
+        recoveryCode,
+      });
+      if (!isFactorValid) {
+        sendError(
+          res,
+          "Code de vérification incorrect",
+          "INVALID_2FA_CODE",
+          401
+        );
+        return;
+      }
+    }
+
+    // Les projets possédés seraient supprimés en cascade : exiger un transfert au préalable
+    // (les projets de la corbeille sont supprimés avec le compte)
+    const ownedProjects = await prisma.project.findMany({
+      where: { ownerId: user.id, deletedAt: null },
+      select: { id: true, name: true },
+    });
+
+    if (ownedProjects.length > 0) {
+      sendError(
+        res,
+        `Transférez la propriété de vos projets ou supprimez-les avant de supprimer votre compte : ${ownedProjects
+          .map((project) => project.name)
+          .join(", ")}`,
+        "OWNERSHIP_TRANSFER_REQUIRED",
+        409
+      );
+      return;
+    }
+
+    // Un espace de travail sans propriétaire ne pourrait plus être administré ni supprimé
+    const ownedWorkspaces = await prisma.workspaceMember.findMany({
+      where: { userId: user.id, role: WorkspaceRole.OWNER },
+      include: { workspace: { select: { name: true } } },
+    });
+
+    if (ownedWorkspaces.length > 0) {
+      sendError(
+        res,
+        `Transférez la propriété de vos espaces de travail ou supprimez-les avant de supprimer votre compte : ${ownedWorkspaces
+          .map((membership) => membership.workspace.name)
+          .join(", ")}`,
+        "OWNERSHIP_TRANSFER_REQUIRED",
+        409
+      );
+      return;
+    }
+
+    // Un chronomètre en cours ne serait plus jamais arrêté
+    await prisma.timeEntry.deleteMany({
+      where: { userId: user.id, endedAt: null },
+    });
+
+    // Les tâches, commentaires et saisies de temps sont anonymisés
+    // (creatorId/authorId/userId à null), les adhésions, assignations, sessions et tokens sont supprimés en cascade
+    await prisma.user.delete({
+      where: { id: user.id },
+    });
+    await unlockAccount(user.email);
+
+    sendSuccess(res, "Compte supprimé avec succès");
+  } catch (error) {
+    console.error("Erreur lors de la suppression du compte:", error);
+    sendServerError(res, "Erreur lors de la suppression du compte");
+  }
+};
@@ -6,6 +6,9 @@ import {
   LoginRequest,
   UpdateProfileRequest,
   UpdatePasswordRequest,
+  RefreshTokenRequest,
+  ForgotPasswordRequest,
+  ResetPasswordRequest,
   AuthRequest,
 } from "../types";
 import {
@@ -13,13 +16,45 @@ import {
   validateLoginData,
   validateUpdateProfileData,
   validateUpdatePasswordData,
+  validateRefreshTokenData,
+  validateForgotPasswordData,
+  validateResetPasswordData,
 } from "../utils/validation";
-import { generateToken } from "../utils/jwt";
+import {
+  generateToken,
+  generateTwoFactorChallengeToken,
+} from "../utils/jwt";
+import { startAuthSession } from "../utils/authSession";
+import {
+  acceptPendingInvitations,
+  canJoinProjects,
+} from "../utils/invitations";
+import { getSessionContext, touchSession } from "../utils/sessions";
+import {
+  rotateRefreshToken,
+  revokeRefreshToken,
+  revokeAllUserRefreshTokens,
+} from "../utils/refreshTokens";
+import {
+  createPasswordResetToken,
+  consumePasswordResetToken,
+} from "../utils/passwordReset";
+import { sendMail, buildAppUrl } from "../utils/mailer";
+import {
+  sendEmailVerification,
+  verifyEmailToken,
+} from "../utils/emailVerification";
+import {
+  checkLoginAllowed,
+  recordLoginFailure,
+  unlockAccount,
+} from "../utils/loginAttempts";
 import {
   sendSuccess,
   sendError,
   sendValidationError,
   sendServerError,
+  sendRetryLaterError,
 } from "../utils/response";
 
 const prisma = new PrismaClient();
@@ -73,6 +108,9 @@ const prisma = new PrismaClient();
  *                         token:
  *                           type: string
  *                           description: Token JWT d'authentification
+ *                         refreshToken:
+ *                           type: string
+ *                           description: Refresh token permettant de renouveler le token JWT
  *       400:
  *         description: Données invalides
  *         content:
@@ -131,13 +169,29 @@ export const register = async (req: Request, res: Response): Promise<void> => {
         id: true,
         email: true,
         name: true,
+        emailVerifiedAt: true,
         createdAt: true,
         updatedAt: true,
       },
     });
 
-    // Générer le token JWT
-    const token = generateToken(newUser.id, newUser.email);
+    // Envoyer l'email de vérification (un échec n'empêche pas l'inscription)
+    try {
+      await sendEmailVerification(newUser);
+    } catch (error) {
+      console.error("Erreur lors de l'envoi de l'email de vérification:", error);
+    }
+
+    // Rejoindre les projets auxquels l'email a été invité
+    if (canJoinProjects(newUser)) {
+      await acceptPendingInvitations(newUser);
+    }
+
+    // Générer le token JWT et le refresh token
+    const { token, refreshToken } = await startAuthSession(
+      newUser,
+      getSessionContext(req)
+    );
 
     // Envoyer la réponse
     sendSuccess(
@@ -146,6 +200,7 @@ export const register = async (req: Request, res: Response): Promise<void> => {
       {
         user: newUser,
         token,
+        refreshToken,
       },
       201
     );
@@ -182,7 +237,7 @@ export const register = async (req: Request, res: Response): Promise<void> => {
  *                 example: "password123"
  *     responses:
  *       200:
- *         description: Connexion réussie
+ *         description: Connexion réussie, ou code de vérification requis si la 2FA est activée (twoFactorRequired et challengeToken à transmettre à /auth/login/2fa)
  *         content:
  *           application/json:
  *             schema:
@@ -193,17 +248,37 @@ export const register = async (req: Request, res: Response): Promise<void> => {
  *                     data:
  *                       type: object
  *                       properties:
+ *                         twoFactorRequired:
+ *                           type: boolean
+ *                         challengeToken:
+ *                           type: string
+ *                           description: Token de challenge 2FA (valable 5 minutes)
  *                         user:
  *                           $ref: '#/components/schemas/User'
  *                         token:
  *                           type: string
  *                           description: Token JWT d'authentification
+ *                         refreshToken:
+ *                           type: string
+ *                           description: Refresh token permettant de renouveler le token JWT
  *       401:
  *         description: Identifiants invalides
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       423:
+ *         description: Compte temporairement verrouillé (voir l'en-tête Retry-After)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         description: Trop de tentatives (voir l'en-tête Retry-After)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  */
 export const login = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -220,12 +295,37 @@ export const login = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
+    // Vérifier que le compte et l'IP ne sont pas temporairement bloqués
+    const clientIp = req.ip || "unknown";
+    const throttle = await checkLoginAllowed(email, clientIp);
+    if (!throttle.allowed) {
+      if (throttle.reason === "LOCKED") {
+        sendRetryLaterError(
+          res,
+          "Compte temporairement verrouillé suite à trop de tentatives échouées",
+          "ACCOUNT_LOCKED",
+          423,
+          throttle.retryAfterSeconds
+        );
+      } else {
+        sendRetryLaterError(
+          res,
+          "Trop de tentatives de connexion, veuillez réessayer plus tard",
+          "TOO_MANY_ATTEMPTS",
+          429,
+          throttle.retryAfterSeconds
+        );
+      }
+      return;
+    }
+
     // Rechercher l'utilisateur par email
     const user = await prisma.user.findUnique({
       where: { email: email.toLowerCase() },
     });
 
     if (!user) {
+      await recordLoginFailure(email, clientIp);
       sendError(
         res,
         "Email ou mot de passe incorrect",
@@ -237,9 +337,8 @@ export const login = async (req: Request, res: Response): Promise<void> => {
 
     // Vérifier le mot de passe
     const isPasswordValid = await bcrypt.compare(password, user.password);
-    console.log("password", password);
-    console.log("user.password", user.password);
     if (!isPasswordValid) {
+      await recordLoginFailure(email, clientIp);
       sendError(
         res,
         "Email ou mot de passe incorrect",
@@ -249,14 +348,29 @@ export const login = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    // Générer le token JWT
-    const token = generateToken(user.id, user.email);
+    // Si la 2FA est activée, renvoyer un token de challenge au lieu du token d'accès
+    if (user.totpEnabledAt) {
+      sendSuccess(res, "Code de vérification requis", {
+        twoFactorRequired: true,
+        challengeToken: generateTwoFactorChallengeToken(user.id, user.email),
+      });
+      return;
+    }
+
+    await unlockAccount(user.email);
+
+    // Générer le token JWT et le refresh token
+    const { token, refreshToken } = await startAuthSession(
+      user,
+      getSessionContext(req)
+    );
 
     // Préparer les données utilisateur pour la réponse
     const userData = {
       id: user.id,
       email: user.email,
       name: user.name,
+      emailVerifiedAt: user.emailVerifiedAt,
       createdAt: user.createdAt,
       updatedAt: user.updatedAt,
     };
@@ -265,6 +379,7 @@ export const login = async (req: Request, res: Response): Promise<void> => {
     sendSuccess(res, "Connexion réussie", {
       user: userData,
       token,
+      refreshToken,
     });
   } catch (error) {
     console.error("Erreur lors de la connexion:", error);
@@ -272,6 +387,171 @@ export const login = async (req: Request, res: Response): Promise<void> => {
   }
 };
 
+/**
+ * @swagger
+ * /auth/refresh:
+ *   post:
+ *     summary: Renouveler le token JWT à partir d'un refresh token
+ *     description: Le refresh token présenté est consommé et remplacé par un nouveau (rotation). Rejouer un refresh token déjà utilisé révoque toute la session.
+ *     tags: [Authentification]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - refreshToken
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *                 description: Refresh token obtenu lors de la connexion ou du dernier renouvellement
+ *     responses:
+ *       200:
+ *         description: Tokens renouvelés avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         token:
+ *                           type: string
+ *                           description: Nouveau token JWT d'authentification
+ *                         refreshToken:
+ *                           type: string
+ *                           description: Nouveau refresh token
+ *       401:
+ *         description: Refresh token invalide, expiré ou réutilisé
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export const refresh = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { refreshToken }: RefreshTokenRequest = req.body;
+
+    // Validation des données
+    const validationErrors = validateRefreshTokenData({ refreshToken });
+    if (validationErrors.length > 0) {
+      sendValidationError(
+        res,
+        "Données de renouvellement invalides",
+        validationErrors
+      );
+      return;
+    }
+
+    const rotation = await rotateRefreshToken(refreshToken);
+
+    if (rotation.status === "REUSED") {
+      sendError(
+        res,
+        "Refresh token déjà utilisé, la session a été révoquée",
+        "REFRESH_TOKEN_REUSED",
+        401
+      );
+      return;
+    }
+
+    if (rotation.status === "EXPIRED") {
+      sendError(res, "Refresh token expiré", "REFRESH_TOKEN_EXPIRED", 401);
+      return;
+    }
+
+    if (rotation.status !== "ROTATED") {
+      sendError(res, "Refresh token invalide", "INVALID_REFRESH_TOKEN", 401);
+      return;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: rotation.userId },
+    });
+
+    if (!user) {
+      sendError(res, "Utilisateur non trouvé", "USER_NOT_FOUND", 404);
+      return;
+    }
+
+    // Rattacher le nouveau token à la session (absente pour les connexions antérieures aux sessions)
+    const session = await touchSession(rotation.familyId, user.id);
+    const token = generateToken(user.id, user.email, session?.id);
+
+    sendSuccess(res, "Tokens renouvelés avec succès", {
+      token,
+      refreshToken: rotation.refreshToken,
+    });
+  } catch (error) {
+    console.error("Erreur lors du renouvellement du token:", error);
+    sendServerError(res, "Erreur lors du renouvellement du token");
+  }
+};
+
+/**
+ * @swagger
+ * /auth/logout:
+ *   post:
+ *     summary: Déconnexion (révocation du refresh token et de sa session)
+ *     tags: [Authentification]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - refreshToken
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *                 description: Refresh token de la session à fermer
+ *     responses:
+ *       200:
+ *         description: Déconnexion réussie
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Success'
+ *       400:
+ *         description: Données invalides
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export const logout = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { refreshToken }: RefreshTokenRequest = req.body;
+
+    // Validation des données
+    const validationErrors = validateRefreshTokenData({ refreshToken });
+    if (validationErrors.length > 0) {
+      sendValidationError(
+        res,
+        "Données de déconnexion invalides",
+        validationErrors
+      );
+      return;
+    }
+
+    // Un token inconnu ne révèle rien : la réponse reste identique
+    await revokeRefreshToken(refreshToken);
+
+    sendSuccess(res, "Déconnexion réussie");
+  } catch (error) {
+    console.error("Erreur lors de la déconnexion:", error);
+    sendServerError(res, "Erreur lors de la déconnexion");
+  }
+};
+
 /**
  * @swagger
  * /auth/profile:
@@ -347,8 +627,11 @@ export const updateProfile = async (
       return;
     }
 
+    const emailChanged =
+      !!email && email.toLowerCase() !== authReq.user.email.toLowerCase();
+
     // Vérifier si l'email est déjà utilisé par un autre utilisateur
-    if (email && email.toLowerCase() !== authReq.user.email.toLowerCase()) {
+    if (emailChanged) {
       const existingUser = await prisma.user.findUnique({
         where: { email: email.toLowerCase() },
       });
@@ -372,6 +655,10 @@ export const updateProfile = async (
     if (email !== undefined) {
       updateData.email = email.toLowerCase();
     }
+    // Une nouvelle adresse doit être vérifiée à nouveau
+    if (emailChanged) {
+      updateData.emailVerifiedAt = null;
+    }
 
     // Mettre à jour l'utilisateur
     const updatedUser = await prisma.user.update({
@@ -381,12 +668,30 @@ export const updateProfile = async (
         id: true,
         email: true,
         name: true,
+        emailVerifiedAt: true,
         createdAt: true,
         updatedAt: true,
       },
     });
 
-    sendSuccess(res, "Profil mis à jour avec succès", { user: updatedUser });
+    if (emailChanged) {
+      try {
+        await sendEmailVerification(updatedUser);
+      } catch (error) {
+        console.error(
+          "Erreur lors de l'envoi de l'email de vérification:",
+          error
+        );
+      }
+    }
+
+    sendSuccess(
+      res,
+      emailChanged
+        ? "Profil mis à jour avec succès, un email de vérification a été envoyé à la nouvelle adresse"
+        : "Profil mis à jour avec succès",
+      { user: updatedUser }
+    );
   } catch (error) {
     console.error("Erreur lors de la mise à jour du profil:", error);
     sendServerError(res, "Erreur lors de la mise à jour du profil");
@@ -465,3 +770,318 @@ export const updatePassword = async (
     sendServerError(res, "Erreur lors de la mise à jour du mot de passe");
   }
 };
+
+/**
+ * @swagger
+ * /auth/forgot-password:
+ *   post:
+ *     summary: Demander un lien de réinitialisation du mot de passe
+ *     description: La réponse est identique que l'email corresponde ou non à un compte.
+ *     tags: [Authentification]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 example: "user@example.com"
+ *     responses:
+ *       200:
+ *         description: Demande prise en compte
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Success'
+ *       400:
+ *         description: Données invalides
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export const forgotPassword = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { email }: ForgotPasswordRequest = req.body;
+
+    // Validation des données
+    const validationErrors = validateForgotPasswordData({ email });
+    if (validationErrors.length > 0) {
+      sendValidationError(
+        res,
+        "Données de réinitialisation invalides",
+        validationErrors
+      );
+      return;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: email.toLowerCase() },
+    });
+
+    if (user) {
+      const { token, expiresAt } = await createPasswordResetToken(user.id);
+      const resetUrl = buildAppUrl("/reset-password", { token });
+
+      await sendMail({
+        to: user.email,
+        subject: "Réinitialisation de votre mot de passe",
+        text: [
+          `Bonjour${user.name ? ` ${user.name}` : ""},`,
+          "",
+          "Pour choisir un nouveau mot de passe, ouvrez le lien suivant :",
+          resetUrl,
+          "",
+          `Ce lien est valable jusqu'au ${expiresAt.toISOString()} et ne peut être utilisé qu'une seule fois.`,
+          "Si vous n'êtes pas à l'origine de cette demande, ignorez cet email.",
+        ].join("\n"),
+      });
+    }
+
+    // Même réponse dans tous les cas pour ne pas révéler les comptes existants
+    sendSuccess(
+      res,
+      "Si un compte correspond à cet email, un lien de réinitialisation a été envoyé"
+    );
+  } catch (error) {
+    console.error("Erreur lors de la demande de réinitialisation:", error);
+    sendServerError(res, "Erreur lors de la demande de réinitialisation");
+  }
+};
+
+/**
+ * @swagger
+ * /auth/reset-password:
+ *   post:
+ *     summary: Réinitialiser le mot de passe avec le token reçu par email
+ *     description: Toutes les sessions existantes de l'utilisateur sont révoquées et un éventuel verrouillage du compte est levé.
+ *     tags: [Authentification]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *               - newPassword
+ *             properties:
+ *               token:
+ *                 type: string
+ *                 description: Token de réinitialisation reçu par email
+ *               newPassword:
+ *                 type: string
+ *                 description: Nouveau mot de passe
+ *     responses:
+ *       200:
+ *         description: Mot de passe réinitialisé avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Success'
+ *       400:
+ *         description: Données invalides, token invalide, expiré ou déjà utilisé
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export const resetPassword = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { token, newPassword }: ResetPasswordRequest = req.body;
+
+    // Validation des données
+    const validationErrors = validateResetPasswordData({ token, newPassword });
+    if (validationErrors.length > 0) {
+      sendValidationError(
+        res,
+        "Données de réinitialisation invalides",
+        validationErrors
+      );
+      return;
+    }
+
+    const consumption = await consumePasswordResetToken(token);
+
+    if (consumption.status === "EXPIRED") {
+      sendError(
+        res,
+        "Le lien de réinitialisation a expiré",
+        "RESET_TOKEN_EXPIRED",
+        400
+      );
+      return;
+    }
+
+    if (consumption.status === "USED") {
+      sendError(
+        res,
+        "Le lien de réinitialisation a déjà été utilisé",
+        "RESET_TOKEN_USED",
+        400
+      );
+      return;
+    }
+
+    if (consumption.status !== "VALID") {
+      sendError(
+        res,
+        "Lien de réinitialisation invalide",
+        "INVALID_RESET_TOKEN",
+        400
+      );
+      return;
+    }
+
+    // Hasher le nouveau mot de passe
+    const saltRounds = 12;
+    const hashedNewPassword = await bcrypt.hash(newPassword, saltRounds);
+
+    // Mettre à jour le mot de passe et invalider les sessions existantes
+    const user = await prisma.user.update({
+      where: { id: consumption.userId },
+      data: {
+        password: hashedNewPassword,
+        sessionsRevokedAt: new Date(),
+      },
+    });
+    await revokeAllUserRefreshTokens(consumption.userId);
+
+    // La réinitialisation lève un éventuel verrouillage du compte
+    await unlockAccount(user.email);
+
+    sendSuccess(res, "Mot de passe réinitialisé avec succès");
+  } catch (error) {
+    console.error("Erreur lors de la réinitialisation du mot de passe:", error);
+    sendServerError(res, "Erreur lors de la réinitialisation du mot de passe");
+  }
+};
+
+/**
+ * @swagger
+ * /auth/verify-email:
+ *   get:
+ *     summary: Vérifier l'adresse email avec le token reçu par email
+ *     tags: [Authentification]
+ *     parameters:
+ *       - in: query
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Token de vérification reçu par email
+ *     responses:
+ *       200:
+ *         description: Adresse email vérifiée avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Success'
+ *       400:
+ *         description: Token invalide, expiré ou déjà utilisé
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export const verifyEmail = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { token } = req.query;
+
+    if (!token || typeof token !== "string") {
+      sendError(
+        res,
+        "Token de vérification requis",
+        "MISSING_VERIFICATION_TOKEN",
+        400
+      );
+      return;
+    }
+
+    const result = await verifyEmailToken(token);
+
+    if (result.status === "EXPIRED") {
+      sendError(
+        res,
+        "Le lien de vérification a expiré",
+        "VERIFICATION_TOKEN_EXPIRED",
+        400
+      );
+      return;
+    }
+
+    if (result.status === "USED") {
+      sendError(
+        res,
+        "Le lien de vérification a déjà été utilisé",
+        "VERIFICATION_TOKEN_USED",
+        400
+      );
+      return;
+    }
+
+    if (result.status !== "VERIFIED") {
+      sendError(
+        res,
+        "Lien de vérification invalide",
+        "INVALID_VERIFICATION_TOKEN",
+        400
+      );
+      return;
+    }
+
+    sendSuccess(res, "Adresse email vérifiée avec succès");
+  } catch (error) {
+    console.error("Erreur lors de la vérification de l'email:", error);
+    sendServerError(res, "Erreur lors de la vérification de l'email");
+  }
+};
+
+/**
+ * Renvoyer l'email de vérification à l'utilisateur connecté
+ * POST /auth/verify-email/resend
+ */
+export const resendVerificationEmail = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    if (authReq.user.emailVerifiedAt) {
+      sendError(
+        res,
+        "L'adresse email est déjà vérifiée",
+        "EMAIL_ALREADY_VERIFIED",
+        400
+      );
+      return;
+    }
+
+    await sendEmailVerification(authReq.user);
+
+    sendSuccess(res, "Email de vérification envoyé");
+  } catch (error) {
+    console.error("Erreur lors de l'envoi de l'email de vérification:", error);
+    sendServerError(res, "Erreur lors de l'envoi de l'email de vérification");
+  }
+};
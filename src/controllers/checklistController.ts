@@ -0,0 +1,444 @@
+import { Request, Response } from "express";
+import { PrismaClient } from "@prisma/client";
+import {
+  AuthRequest,
+  CreateChecklistItemRequest,
+  ProjectAction,
+  UpdateChecklistItemRequest,
+} from "../types";
+import { can } from "../utils/permissions";
+import {
+  validateCreateChecklistItemData,
+  validateUpdateChecklistItemData,
+} from "../utils/validation";
+import {
+  getChecklistProgress,
+  getTaskChecklist,
+  moveChecklistItem,
+} from "../utils/taskChecklist";
+import {
+  sendSuccess,
+  sendError,
+  sendValidationError,
+  sendServerError,
+} from "../utils/response";
+
+const prisma = new PrismaClient();
+
+/**
+ * @swagger
+ * /projects/{id}/tasks/{taskId}/checklist:
+ *   get:
+ *     summary: Récupérer la checklist d'une tâche
+ *     tags: [Checklists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: taskId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Checklist récupérée avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         items:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/ChecklistItem'
+ *                         progress:
+ *                           $ref: '#/components/schemas/TaskProgress'
+ *       403:
+ *         description: Accès refusé au projet
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Tâche non trouvée
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export const getChecklist = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id, taskId } = req.params;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Vérifier l'accès au projet
+    const canView = await can(
+      authReq.user.id,
+      ProjectAction.VIEW_PROJECT,
+      id,
+      authReq.tokenScope
+    );
+    if (!canView) {
+      sendError(res, "Accès refusé au projet", "FORBIDDEN", 403);
+      return;
+    }
+
+    const task = await prisma.task.findFirst({
+      where: { id: taskId, projectId: id },
+      select: { id: true },
+    });
+
+    if (!task) {
+      sendError(res, "Tâche non trouvée", "TASK_NOT_FOUND", 404);
+      return;
+    }
+
+    const items = await getTaskChecklist(taskId);
+
+    sendSuccess(res, "Checklist récupérée avec succès", {
+      items,
+      progress: getChecklistProgress(items),
+    });
+  } catch (error) {
+    console.error("Erreur lors de la récupération de la checklist:", error);
+    sendServerError(res, "Erreur lors de la récupération de la checklist");
+  }
+};
+
+/**
+ * @swagger
+ * /projects/{id}/tasks/{taskId}/checklist:
+ *   post:
+ *     summary: Ajouter un élément à la checklist d'une tâche
+ *     tags: [Checklists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: taskId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - text
+ *             properties:
+ *               text:
+ *                 type: string
+ *                 example: "Relire la documentation"
+ *               position:
+ *                 type: integer
+ *                 description: Rang dans la checklist (à la fin par défaut)
+ *     responses:
+ *       201:
+ *         description: Élément ajouté avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         item:
+ *                           $ref: '#/components/schemas/ChecklistItem'
+ *       400:
+ *         description: Données invalides
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Permissions insuffisantes
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Tâche non trouvée
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export const createChecklistItem = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id, taskId } = req.params;
+    const { text, position }: CreateChecklistItemRequest = req.body;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Validation des données
+    const validationErrors = validateCreateChecklistItemData({
+      text,
+      position,
+    });
+    if (validationErrors.length > 0) {
+      sendValidationError(
+        res,
+        "Données de l'élément de checklist invalides",
+        validationErrors
+      );
+      return;
+    }
+
+    // Vérifier les permissions pour modifier des tâches
+    const canEdit = await can(
+      authReq.user.id,
+      ProjectAction.EDIT_TASK,
+      id,
+      authReq.tokenScope
+    );
+    if (!canEdit) {
+      sendError(
+        res,
+        "Vous n'avez pas les permissions pour modifier des tâches dans ce projet",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
+    const task = await prisma.task.findFirst({
+      where: { id: taskId, projectId: id },
+      select: { id: true },
+    });
+
+    if (!task) {
+      sendError(res, "Tâche non trouvée", "TASK_NOT_FOUND", 404);
+      return;
+    }
+
+    // Ajouter l'élément à la fin, puis le ranger au rang demandé
+    const count = await prisma.checklistItem.count({ where: { taskId } });
+    let item = await prisma.checklistItem.create({
+      data: {
+        text: text.trim(),
+        position: count,
+        taskId,
+      },
+    });
+
+    if (position !== undefined && position < count) {
+      await moveChecklistItem(taskId, item.id, position);
+      item = await prisma.checklistItem.findUniqueOrThrow({
+        where: { id: item.id },
+      });
+    }
+
+    sendSuccess(res, "Élément ajouté à la checklist", { item }, 201);
+  } catch (error) {
+    console.error("Erreur lors de l'ajout à la checklist:", error);
+    sendServerError(res, "Erreur lors de l'ajout à la checklist");
+  }
+};
+
+/**
+ * Mettre à jour un élément de checklist (texte, état coché, rang)
+ * PUT /projects/:id/tasks/:taskId/checklist/:itemId
+ */
+export const updateChecklistItem = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id, taskId, itemId } = req.params;
+    const { text, done, position }: UpdateChecklistItemRequest = req.body;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Validation des données
+    const validationErrors = validateUpdateChecklistItemData({
+      text,
+      done,
+      position,
+    });
+    if (validationErrors.length > 0) {
+      sendValidationError(
+        res,
+        "Données de l'élément de checklist invalides",
+        validationErrors
+      );
+      return;
+    }
+
+    // Vérifier les permissions pour modifier des tâches
+    // (cocher un élément seul suffit de UPDATE_TASK_STATUS)
+    const isDoneOnlyUpdate =
+      done !== undefined && text === undefined && position === undefined;
+    const canModify =
+      (await can(
+        authReq.user.id,
+        ProjectAction.EDIT_TASK,
+        id,
+        authReq.tokenScope
+      )) ||
+      (isDoneOnlyUpdate &&
+        (await can(
+          authReq.user.id,
+          ProjectAction.UPDATE_TASK_STATUS,
+          id,
+          authReq.tokenScope
+        )));
+    if (!canModify) {
+      sendError(
+        res,
+        "Vous n'avez pas les permissions pour modifier des tâches dans ce projet",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
+    const item = await prisma.checklistItem.findFirst({
+      where: { id: itemId, taskId, task: { projectId: id } },
+    });
+
+    if (!item) {
+      sendError(
+        res,
+        "Élément de checklist non trouvé",
+        "CHECKLIST_ITEM_NOT_FOUND",
+        404
+      );
+      return;
+    }
+
+    // Préparer les données de mise à jour
+    const updateData: any = {};
+    if (text !== undefined) {
+      updateData.text = text.trim();
+    }
+    if (done !== undefined) {
+      updateData.done = done;
+    }
+
+    if (Object.keys(updateData).length > 0) {
+      await prisma.checklistItem.update({
+        where: { id: itemId },
+        data: updateData,
+      });
+    }
+
+    if (position !== undefined && position !== item.position) {
+      await moveChecklistItem(taskId, itemId, position);
+    }
+
+    const updatedItem = await prisma.checklistItem.findUniqueOrThrow({
+      where: { id: itemId },
+    });
+
+    sendSuccess(res, "Élément de checklist mis à jour avec succès", {
+      item: updatedItem,
+    });
+  } catch (error) {
+    console.error("Erreur lors de la mise à jour de la checklist:", error);
+    sendServerError(res, "Erreur lors de la mise à jour de la checklist");
+  }
+};
+
+/**
+ * Supprimer un élément de checklist
+ * DELETE /projects/:id/tasks/:taskId/checklist/:itemId
+ */
+export const deleteChecklistItem = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id, taskId, itemId } = req.params;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Vérifier les permissions pour modifier des tâches
+    const canEdit = await can(
+      authReq.user.id,
+      ProjectAction.EDIT_TASK,
+      id,
+      authReq.tokenScope
+    );
+    if (!canEdit) {
+      sendError(
+        res,
+        "Vous n'avez pas les permissions pour modifier des tâches dans ce projet",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
+    const item = await prisma.checklistItem.findFirst({
+      where: { id: itemId, taskId, task: { projectId: id } },
+    });
+
+    if (!item) {
+      sendError(
+        res,
+        "Élément de checklist non trouvé",
+        "CHECKLIST_ITEM_NOT_FOUND",
+        404
+      );
+      return;
+    }
+
+    await prisma.checklistItem.delete({
+      where: { id: itemId },
+    });
+
+    // Renuméroter les éléments restants
+    await prisma.checklistItem.updateMany({
+      where: { taskId, position: { gt: item.position } },
+      data: { position: { decrement: 1 } },
+    });
+
+    sendSuccess(res, "Élément de checklist supprimé avec succès");
+  } catch (error) {
+    console.error("Erreur lors de la suppression de la checklist:", error);
+    sendServerError(res, "Erreur lors de la suppression de la checklist");
+  }
+};
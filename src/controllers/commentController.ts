@@ -4,12 +4,13 @@ import {
   CreateCommentRequest,
   UpdateCommentRequest,
   AuthRequest,
+  ProjectAction,
 } from "../types";
 import {
   validateCreateCommentData,
   validateUpdateCommentData,
 } from "../utils/validation";
-import { hasProjectAccess, canModifyTasks } from "../utils/permissions";
+import { can } from "../utils/permissions";
 import {
   sendSuccess,
   sendError,
@@ -52,12 +53,34 @@ export const createComment = async (
     }
 
     // Vérifier l'accès au projet
-    const hasAccess = await hasProjectAccess(authReq.user.id, projectId);
-    if (!hasAccess) {
+    const canView = await can(
+      authReq.user.id,
+      ProjectAction.VIEW_PROJECT,
+      projectId,
+      authReq.tokenScope
+    );
+    if (!canView) {
       sendError(res, "Accès refusé au projet", "FORBIDDEN", 403);
       return;
     }
 
+    // Vérifier les permissions pour commenter
+    const canComment = await can(
+      authReq.user.id,
+      ProjectAction.COMMENT,
+      projectId,
+      authReq.tokenScope
+    );
+    if (!canComment) {
+      sendError(
+        res,
+        "Vous n'avez pas les permissions pour commenter dans ce projet",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
     // Vérifier que la tâche existe et appartient au projet
     const task = await prisma.task.findFirst({
       where: {
@@ -123,8 +146,13 @@ export const getComments = async (
     }
 
     // Vérifier l'accès au projet
-    const hasAccess = await hasProjectAccess(authReq.user.id, projectId);
-    if (!hasAccess) {
+    const canView = await can(
+      authReq.user.id,
+      ProjectAction.VIEW_PROJECT,
+      projectId,
+      authReq.tokenScope
+    );
+    if (!canView) {
       sendError(res, "Accès refusé au projet", "FORBIDDEN", 403);
       return;
     }
@@ -191,8 +219,13 @@ export const getComment = async (
     }
 
     // Vérifier l'accès au projet
-    const hasAccess = await hasProjectAccess(authReq.user.id, projectId);
-    if (!hasAccess) {
+    const canView = await can(
+      authReq.user.id,
+      ProjectAction.VIEW_PROJECT,
+      projectId,
+      authReq.tokenScope
+    );
+    if (!canView) {
       sendError(res, "Accès refusé au projet", "FORBIDDEN", 403);
       return;
     }
@@ -268,8 +301,13 @@ export const updateComment = async (
     }
 
     // Vérifier l'accès au projet
-    const hasAccess = await hasProjectAccess(authReq.user.id, projectId);
-    if (!hasAccess) {
+    const canView = await can(
+      authReq.user.id,
+      ProjectAction.VIEW_PROJECT,
+      projectId,
+      authReq.tokenScope
+    );
+    if (!canView) {
       sendError(res, "Accès refusé au projet", "FORBIDDEN", 403);
       return;
     }
@@ -301,6 +339,23 @@ export const updateComment = async (
       return;
     }
 
+    // Vérifier les permissions pour commenter
+    const canComment = await can(
+      authReq.user.id,
+      ProjectAction.COMMENT,
+      projectId,
+      authReq.tokenScope
+    );
+    if (!canComment) {
+      sendError(
+        res,
+        "Vous n'avez pas les permissions pour commenter dans ce projet",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
     // Mettre à jour le commentaire
     const updatedComment = await prisma.comment.update({
       where: { id: commentId },
@@ -354,8 +409,13 @@ export const deleteComment = async (
     }
 
     // Vérifier l'accès au projet
-    const hasAccess = await hasProjectAccess(authReq.user.id, projectId);
-    if (!hasAccess) {
+    const canView = await can(
+      authReq.user.id,
+      ProjectAction.VIEW_PROJECT,
+      projectId,
+      authReq.tokenScope
+    );
+    if (!canView) {
       sendError(res, "Accès refusé au projet", "FORBIDDEN", 403);
       return;
     }
@@ -376,16 +436,40 @@ export const deleteComment = async (
       return;
     }
 
-    // Vérifier que l'utilisateur est l'auteur du commentaire ou a les permissions de modération
-    const canModify = await canModifyTasks(authReq.user.id, projectId);
-    if (existingComment.authorId !== authReq.user.id && !canModify) {
-      sendError(
-        res,
-        "Vous ne pouvez supprimer que vos propres commentaires",
-        "FORBIDDEN",
-        403
+    // Un modérateur supprime tous les commentaires (même sans le droit de commenter),
+    // l'auteur les siens s'il peut commenter
+    const canModerate = await can(
+      authReq.user.id,
+      ProjectAction.MODERATE_COMMENTS,
+      projectId,
+      authReq.tokenScope
+    );
+    if (!canModerate) {
+      if (existingComment.authorId !== authReq.user.id) {
+        sendError(
+          res,
+          "Vous ne pouvez supprimer que vos propres commentaires",
+          "FORBIDDEN",
+          403
+        );
+        return;
+      }
+
+      const canComment = await can(
+        authReq.user.id,
+        ProjectAction.COMMENT,
+        projectId,
+        authReq.tokenScope
       );
-      return;
+      if (!canComment) {
+        sendError(
+          res,
+          "Vous n'avez pas les permissions pour commenter dans ce projet",
+          "FORBIDDEN",
+          403
+        );
+        return;
+      }
     }
 
     // Supprimer le commentaire
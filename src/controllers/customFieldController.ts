@@ -0,0 +1,468 @@
+import { Request, Response } from "express";
+import { PrismaClient } from "@prisma/client";
+import {
+  AuthRequest,
+  CreateCustomFieldRequest,
+  CustomFieldType,
+  ProjectAction,
+  UpdateCustomFieldRequest,
+} from "../types";
+import { can } from "../utils/permissions";
+import {
+  validateCreateCustomFieldData,
+  validateUpdateCustomFieldData,
+} from "../utils/validation";
+import {
+  getProjectCustomFields,
+  toCustomFieldDefinition,
+} from "../utils/customFields";
+import {
+  sendSuccess,
+  sendError,
+  sendValidationError,
+  sendServerError,
+} from "../utils/response";
+
+const prisma = new PrismaClient();
+
+/**
+ * @swagger
+ * /projects/{id}/custom-fields:
+ *   get:
+ *     summary: Lister les champs personnalisés d'un projet
+ *     tags: [Champs personnalisés]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Champs personnalisés récupérés avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         customFields:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/CustomField'
+ *       403:
+ *         description: Accès refusé au projet
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export const getCustomFields = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Vérifier l'accès au projet
+    const canView = await can(
+      authReq.user.id,
+      ProjectAction.VIEW_PROJECT,
+      id,
+      authReq.tokenScope
+    );
+    if (!canView) {
+      sendError(res, "Accès refusé au projet", "FORBIDDEN", 403);
+      return;
+    }
+
+    const customFields = await getProjectCustomFields(id);
+
+    sendSuccess(res, "Champs personnalisés récupérés avec succès", {
+      customFields,
+    });
+  } catch (error) {
+    console.error(
+      "Erreur lors de la récupération des champs personnalisés:",
+      error
+    );
+    sendServerError(
+      res,
+      "Erreur lors de la récupération des champs personnalisés"
+    );
+  }
+};
+
+/**
+ * @swagger
+ * /projects/{id}/custom-fields:
+ *   post:
+ *     summary: Créer un champ personnalisé pour les tâches du projet
+ *     tags: [Champs personnalisés]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - type
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: "Environnement"
+ *               type:
+ *                 type: string
+ *                 enum: [TEXT, NUMBER, DATE, SINGLE_SELECT, MULTI_SELECT, USER]
+ *               options:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: ["Développement", "Recette", "Production"]
+ *                 description: Choix possibles (obligatoires pour SINGLE_SELECT et MULTI_SELECT)
+ *     responses:
+ *       201:
+ *         description: Champ personnalisé créé avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         customField:
+ *                           $ref: '#/components/schemas/CustomField'
+ *       400:
+ *         description: Données invalides
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Droits d'administration requis
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Un champ personnalisé porte déjà ce nom
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export const createCustomField = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { name, type, options }: CreateCustomFieldRequest = req.body;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Validation des données
+    const validationErrors = validateCreateCustomFieldData({
+      name,
+      type,
+      options,
+    });
+    if (validationErrors.length > 0) {
+      sendValidationError(
+        res,
+        "Données du champ personnalisé invalides",
+        validationErrors
+      );
+      return;
+    }
+
+    // Vérifier les permissions
+    const canManageCustomFields = await can(
+      authReq.user.id,
+      ProjectAction.MANAGE_CUSTOM_FIELDS,
+      id,
+      authReq.tokenScope
+    );
+    if (!canManageCustomFields) {
+      sendError(
+        res,
+        "Vous n'avez pas les permissions pour gérer les champs personnalisés de ce projet",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
+    const existingField = await prisma.customField.findUnique({
+      where: {
+        projectId_name: { projectId: id, name: name.trim() },
+      },
+    });
+
+    if (existingField) {
+      sendError(
+        res,
+        "Un champ personnalisé porte déjà ce nom dans ce projet",
+        "CUSTOM_FIELD_NAME_TAKEN",
+        409
+      );
+      return;
+    }
+
+    const customField = await prisma.customField.create({
+      data: {
+        name: name.trim(),
+        type,
+        options: options
+          ? JSON.stringify(options.map((option) => option.trim()))
+          : null,
+        projectId: id,
+      },
+    });
+
+    sendSuccess(
+      res,
+      "Champ personnalisé créé avec succès",
+      { customField: toCustomFieldDefinition(customField) },
+      201
+    );
+  } catch (error) {
+    console.error("Erreur lors de la création du champ personnalisé:", error);
+    sendServerError(res, "Erreur lors de la création du champ personnalisé");
+  }
+};
+
+/**
+ * Mettre à jour un champ personnalisé (nom, choix ; le type ne change pas)
+ * PUT /projects/:id/custom-fields/:fieldId
+ */
+export const updateCustomField = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id, fieldId } = req.params;
+    const { name, options }: UpdateCustomFieldRequest = req.body;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Validation des données
+    const validationErrors = validateUpdateCustomFieldData({ name, options });
+    if (validationErrors.length > 0) {
+      sendValidationError(
+        res,
+        "Données du champ personnalisé invalides",
+        validationErrors
+      );
+      return;
+    }
+
+    // Vérifier les permissions
+    const canManageCustomFields = await can(
+      authReq.user.id,
+      ProjectAction.MANAGE_CUSTOM_FIELDS,
+      id,
+      authReq.tokenScope
+    );
+    if (!canManageCustomFields) {
+      sendError(
+        res,
+        "Vous n'avez pas les permissions pour gérer les champs personnalisés de ce projet",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
+    const field = await prisma.customField.findFirst({
+      where: { id: fieldId, projectId: id },
+    });
+
+    if (!field) {
+      sendError(
+        res,
+        "Champ personnalisé non trouvé",
+        "CUSTOM_FIELD_NOT_FOUND",
+        404
+      );
+      return;
+    }
+
+    if (name !== undefined && name.trim() !== field.name) {
+      const existingField = await prisma.customField.findUnique({
+        where: {
+          projectId_name: { projectId: id, name: name.trim() },
+        },
+      });
+
+      if (existingField) {
+        sendError(
+          res,
+          "Un champ personnalisé porte déjà ce nom dans ce projet",
+          "CUSTOM_FIELD_NAME_TAKEN",
+          409
+        );
+        return;
+      }
+    }
+
+    // Préparer les données de mise à jour
+    const updateData: any = {};
+    if (name !== undefined) {
+      updateData.name = name.trim();
+    }
+
+    if (options !== undefined) {
+      if (
+        field.type !== CustomFieldType.SINGLE_SELECT &&
+        field.type !== CustomFieldType.MULTI_SELECT
+      ) {
+        sendError(
+          res,
+          "Seuls les champs à choix (SINGLE_SELECT, MULTI_SELECT) ont des choix",
+          "INVALID_CUSTOM_FIELD_OPTIONS",
+          400
+        );
+        return;
+      }
+
+      // Un choix retiré ne doit plus être utilisé par une tâche
+      const newOptions = options.map((option) => option.trim());
+      const removedOptions = toCustomFieldDefinition(field).options.filter(
+        (option) => !newOptions.includes(option)
+      );
+      if (removedOptions.length > 0) {
+        const values = await prisma.taskCustomFieldValue.findMany({
+          where: { fieldId },
+          select: { value: true },
+        });
+        const isInUse = values.some((item) =>
+          ([] as string[])
+            .concat(JSON.parse(item.value))
+            .some((value) => removedOptions.includes(value))
+        );
+
+        if (isInUse) {
+          sendError(
+            res,
+            "Un choix retiré est encore utilisé par des tâches",
+            "CUSTOM_FIELD_OPTION_IN_USE",
+            409
+          );
+          return;
+        }
+      }
+
+      updateData.options = JSON.stringify(newOptions);
+    }
+
+    const updatedField = await prisma.customField.update({
+      where: { id: fieldId },
+      data: updateData,
+    });
+
+    sendSuccess(res, "Champ personnalisé mis à jour avec succès", {
+      customField: toCustomFieldDefinition(updatedField),
+    });
+  } catch (error) {
+    console.error(
+      "Erreur lors de la mise à jour du champ personnalisé:",
+      error
+    );
+    sendServerError(res, "Erreur lors de la mise à jour du champ personnalisé");
+  }
+};
+
+/**
+ * Supprimer un champ personnalisé (ses valeurs sont retirées des tâches)
+ * DELETE /projects/:id/custom-fields/:fieldId
+ */
+export const deleteCustomField = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id, fieldId } = req.params;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Vérifier les permissions
+    const canManageCustomFields = await can(
+      authReq.user.id,
+      ProjectAction.MANAGE_CUSTOM_FIELDS,
+      id,
+      authReq.tokenScope
+    );
+    if (!canManageCustomFields) {
+      sendError(
+        res,
+        "Vous n'avez pas les permissions pour gérer les champs personnalisés de ce projet",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
+    const field = await prisma.customField.findFirst({
+      where: { id: fieldId, projectId: id },
+    });
+
+    if (!field) {
+      sendError(
+        res,
+        "Champ personnalisé non trouvé",
+        "CUSTOM_FIELD_NOT_FOUND",
+        404
+      );
+      return;
+    }
+
+    await prisma.customField.delete({
+      where: { id: fieldId },
+    });
+
+    sendSuccess(res, "Champ personnalisé supprimé avec succès");
+  } catch (error) {
+    console.error(
+      "Erreur lors de la suppression du champ personnalisé:",
+      error
+    );
+    sendServerError(res, "Erreur lors de la suppression du champ personnalisé");
+  }
+};
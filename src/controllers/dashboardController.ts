@@ -1,7 +1,22 @@
 import { Request, Response } from "express";
 import { PrismaClient } from "@prisma/client";
-import { AuthRequest } from "../types";
-import { sendSuccess, sendError, sendServerError } from "../utils/response";
+import { AuthRequest, StatusCategory } from "../types";
+import {
+  accessibleProjectsWhere,
+  getWorkspaceRole,
+  isWorkspaceAdminRole,
+  twoFactorProjectsWhere,
+} from "../utils/permissions";
+import { labelFilterWhere } from "../utils/taskLabels";
+import { getBlockedTaskIds } from "../utils/taskDependencies";
+import { getProjectsTimeTotals, getRunningTimer } from "../utils/timeTracking";
+import { validateTimePeriodData } from "../utils/validation";
+import {
+  sendSuccess,
+  sendError,
+  sendValidationError,
+  sendServerError,
+} from "../utils/response";
 
 const prisma = new PrismaClient();
 
@@ -13,6 +28,12 @@ const prisma = new PrismaClient();
  *     tags: [Tableau de Bord]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: labelIds
+ *         schema:
+ *           type: string
+ *         description: IDs d'étiquettes séparés par des virgules (tâches portant au moins l'une d'elles)
  *     responses:
  *       200:
  *         description: Tâches assignées récupérées avec succès
@@ -49,13 +70,24 @@ export const getAssignedTasks = async (
       return;
     }
 
+    // Restreindre aux projets couverts par le token d'accès personnel
+    const scopedProjectIds = authReq.tokenScope?.projectIds
+      ? { in: authReq.tokenScope.projectIds }
+      : undefined;
+
     const tasks = await prisma.task.findMany({
       where: {
+        projectId: scopedProjectIds,
+        project: {
+          deletedAt: null,
+          ...twoFactorProjectsWhere(authReq.user.id),
+        },
         assignees: {
           some: {
             userId: authReq.user.id,
           },
         },
+        ...labelFilterWhere(req.query.labelIds),
       },
       include: {
         project: {
@@ -65,6 +97,17 @@ export const getAssignedTasks = async (
             description: true,
           },
         },
+        labels: {
+          include: {
+            label: {
+              select: {
+                id: true,
+                name: true,
+                color: true,
+              },
+            },
+          },
+        },
         assignees: {
           include: {
             user: {
@@ -105,7 +148,16 @@ export const getAssignedTasks = async (
       ],
     });
 
-    sendSuccess(res, "Tâches assignées récupérées", { tasks });
+    // Signaler les tâches dont une tâche bloquante n'est pas terminée
+    const blockedTaskIds = await getBlockedTaskIds(tasks.map((task) => task.id));
+
+    sendSuccess(res, "Tâches assignées récupérées", {
+      tasks: tasks.map((task) => ({
+        ...task,
+        labels: task.labels.map((taskLabel) => taskLabel.label),
+        isBlocked: blockedTaskIds.has(task.id),
+      })),
+    });
   } catch (error) {
     console.error(
       "Erreur lors de la récupération des tâches assignées:",
@@ -166,9 +218,17 @@ export const getProjectsWithTasks = async (
       return;
     }
 
+    // Restreindre aux projets couverts par le token d'accès personnel
+    const scopedProjectIds = authReq.tokenScope?.projectIds
+      ? { in: authReq.tokenScope.projectIds }
+      : undefined;
+
     // Récupérer tous les projets où l'utilisateur a des tâches assignées
     const projects = await prisma.project.findMany({
       where: {
+        id: scopedProjectIds,
+        deletedAt: null,
+        ...twoFactorProjectsWhere(authReq.user.id),
         tasks: {
           some: {
             assignees: {
@@ -281,9 +341,19 @@ export const getDashboardStats = async (
       return;
     }
 
+    // Restreindre aux projets couverts par le token d'accès personnel
+    const scopedProjectIds = authReq.tokenScope?.projectIds
+      ? { in: authReq.tokenScope.projectIds }
+      : undefined;
+
     // Statistiques des tâches assignées
     const assignedTasksCount = await prisma.task.count({
       where: {
+        projectId: scopedProjectIds,
+        project: {
+          deletedAt: null,
+          ...twoFactorProjectsWhere(authReq.user.id),
+        },
         assignees: {
           some: {
             userId: authReq.user.id,
@@ -294,6 +364,11 @@ export const getDashboardStats = async (
 
     const urgentTasksCount = await prisma.task.count({
       where: {
+        projectId: scopedProjectIds,
+        project: {
+          deletedAt: null,
+          ...twoFactorProjectsWhere(authReq.user.id),
+        },
         assignees: {
           some: {
             userId: authReq.user.id,
@@ -307,6 +382,11 @@ export const getDashboardStats = async (
 
     const overdueTasksCount = await prisma.task.count({
       where: {
+        projectId: scopedProjectIds,
+        project: {
+          deletedAt: null,
+          ...twoFactorProjectsWhere(authReq.user.id),
+        },
         assignees: {
           some: {
             userId: authReq.user.id,
@@ -315,8 +395,8 @@ export const getDashboardStats = async (
         dueDate: {
           lt: new Date(),
         },
-        status: {
-          not: "DONE",
+        statusCategory: {
+          not: StatusCategory.DONE,
         },
       },
     });
@@ -324,6 +404,11 @@ export const getDashboardStats = async (
     const tasksByStatus = await prisma.task.groupBy({
       by: ["status"],
       where: {
+        projectId: scopedProjectIds,
+        project: {
+          deletedAt: null,
+          ...twoFactorProjectsWhere(authReq.user.id),
+        },
         assignees: {
           some: {
             userId: authReq.user.id,
@@ -335,9 +420,31 @@ export const getDashboardStats = async (
       },
     });
 
+    const tasksByCategory = await prisma.task.groupBy({
+      by: ["statusCategory"],
+      where: {
+        projectId: scopedProjectIds,
+        project: {
+          deletedAt: null,
+          ...twoFactorProjectsWhere(authReq.user.id),
+        },
+        assignees: {
+          some: {
+            userId: authReq.user.id,
+          },
+        },
+      },
+      _count: {
+        statusCategory: true,
+      },
+    });
+
     // Statistiques des projets
     const projectsCount = await prisma.project.count({
       where: {
+        id: scopedProjectIds,
+        deletedAt: null,
+        ...twoFactorProjectsWhere(authReq.user.id),
         tasks: {
           some: {
             assignees: {
@@ -359,6 +466,10 @@ export const getDashboardStats = async (
           acc[item.status] = item._count.status;
           return acc;
         }, {} as Record<string, number>),
+        byCategory: tasksByCategory.reduce((acc, item) => {
+          acc[item.statusCategory] = item._count.statusCategory;
+          return acc;
+        }, {} as Record<string, number>),
       },
       projects: {
         total: projectsCount,
@@ -371,3 +482,318 @@ export const getDashboardStats = async (
     sendServerError(res, "Erreur lors de la récupération des statistiques");
   }
 };
+
+/**
+ * @swagger
+ * /dashboard/workspaces/{workspaceId}:
+ *   get:
+ *     summary: Tableau de bord d'un espace de travail
+ *     description: Statistiques agrégées sur les projets de l'espace (tous pour un administrateur, ceux accessibles pour un membre).
+ *     tags: [Tableau de Bord]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: workspaceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Tableau de bord récupéré avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Success'
+ *       403:
+ *         description: Accès refusé à l'espace de travail
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export const getWorkspaceDashboard = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { workspaceId } = req.params;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Vérifier l'appartenance à l'espace de travail
+    const role = await getWorkspaceRole(authReq.user.id, workspaceId);
+    if (!role) {
+      sendError(res, "Accès refusé à l'espace de travail", "FORBIDDEN", 403);
+      return;
+    }
+
+    // Projets pris en compte : tous pour un administrateur, ceux accessibles sinon,
+    // restreints aux projets couverts par le token d'accès personnel
+    const projects = await prisma.project.findMany({
+      where: {
+        workspaceId,
+        deletedAt: null,
+        ...(!isWorkspaceAdminRole(role) &&
+          accessibleProjectsWhere(authReq.user.id)),
+        ...twoFactorProjectsWhere(authReq.user.id),
+        ...(authReq.tokenScope?.projectIds && {
+          id: { in: authReq.tokenScope.projectIds },
+        }),
+      },
+      select: {
+        id: true,
+        name: true,
+      },
+      orderBy: {
+        name: "asc",
+      },
+    });
+    const projectIds = projects.map((project) => project.id);
+
+    const tasksByProjectAndStatus = await prisma.task.groupBy({
+      by: ["projectId", "status", "statusCategory"],
+      where: {
+        projectId: { in: projectIds },
+      },
+      _count: {
+        status: true,
+      },
+    });
+
+    const overdueTasksCount = await prisma.task.count({
+      where: {
+        projectId: { in: projectIds },
+        dueDate: {
+          lt: new Date(),
+        },
+        statusCategory: {
+          not: StatusCategory.DONE,
+        },
+      },
+    });
+
+    const urgentTasksCount = await prisma.task.count({
+      where: {
+        projectId: { in: projectIds },
+        priority: {
+          in: ["URGENT", "HIGH"],
+        },
+        statusCategory: {
+          not: StatusCategory.DONE,
+        },
+      },
+    });
+
+    const membersCount = await prisma.workspaceMember.count({
+      where: { workspaceId },
+    });
+
+    const byStatus = tasksByProjectAndStatus.reduce((acc, item) => {
+      acc[item.status] = (acc[item.status] || 0) + item._count.status;
+      return acc;
+    }, {} as Record<string, number>);
+
+    const byCategory = tasksByProjectAndStatus.reduce((acc, item) => {
+      acc[item.statusCategory] =
+        (acc[item.statusCategory] || 0) + item._count.status;
+      return acc;
+    }, {} as Record<string, number>);
+
+    const stats = {
+      members: {
+        total: membersCount,
+      },
+      projects: {
+        total: projects.length,
+        items: projects.map((project) => {
+          const counts = tasksByProjectAndStatus.filter(
+            (item) => item.projectId === project.id
+          );
+          const total = counts.reduce(
+            (sum, item) => sum + item._count.status,
+            0
+          );
+          const done = counts
+            .filter((item) => item.statusCategory === StatusCategory.DONE)
+            .reduce((sum, item) => sum + item._count.status, 0);
+
+          return {
+            ...project,
+            tasks: { total, done },
+            progress: total > 0 ? Math.round((done / total) * 100) : 0,
+          };
+        }),
+      },
+      tasks: {
+        total: Object.values(byStatus).reduce((sum, count) => sum + count, 0),
+        urgent: urgentTasksCount,
+        overdue: overdueTasksCount,
+        byStatus,
+        byCategory,
+      },
+    };
+
+    sendSuccess(res, "Tableau de bord de l'espace de travail récupéré", {
+      stats,
+    });
+  } catch (error) {
+    console.error(
+      "Erreur lors de la récupération du tableau de bord de l'espace:",
+      error
+    );
+    sendServerError(
+      res,
+      "Erreur lors de la récupération du tableau de bord de l'espace"
+    );
+  }
+};
+
+/**
+ * @swagger
+ * /dashboard/time-tracking:
+ *   get:
+ *     summary: Temps estimé et temps passé par projet et par utilisateur
+ *     description: Totaux des projets accessibles (estimation des tâches, temps saisi au total et par utilisateur) et totaux de l'utilisateur connecté, avec son chronomètre en cours.
+ *     tags: [Tableau de Bord]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Ne compter que les saisies commencées à partir de cette date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Ne compter que les saisies commencées jusqu'à cette date
+ *     responses:
+ *       200:
+ *         description: Suivi du temps récupéré avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Success'
+ *       400:
+ *         description: Période invalide
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export const getTimeTracking = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Validation de la période
+    const { from, to } = req.query;
+    const validationErrors = validateTimePeriodData({ from, to });
+    if (validationErrors.length > 0) {
+      sendValidationError(res, "Période invalide", validationErrors);
+      return;
+    }
+    const period = {
+      from: typeof from === "string" ? new Date(from) : undefined,
+      to: typeof to === "string" ? new Date(to) : undefined,
+    };
+
+    // Projets accessibles, restreints aux projets couverts par le token d'accès personnel
+    const projects = await prisma.project.findMany({
+      where: {
+        ...accessibleProjectsWhere(authReq.user.id),
+        ...twoFactorProjectsWhere(authReq.user.id),
+        ...(authReq.tokenScope?.projectIds && {
+          id: { in: authReq.tokenScope.projectIds },
+        }),
+      },
+      select: {
+        id: true,
+        name: true,
+      },
+      orderBy: {
+        name: "asc",
+      },
+    });
+    const projectIds = projects.map((project) => project.id);
+
+    const totals = await getProjectsTimeTotals(projectIds, period);
+
+    // Utilisateurs ayant saisi du temps (null : comptes supprimés)
+    const userIds = new Set<string>();
+    for (const projectTotals of totals.values()) {
+      for (const userId of projectTotals.byUser.keys()) {
+        if (userId) userIds.add(userId);
+      }
+    }
+    const users = await prisma.user.findMany({
+      where: { id: { in: Array.from(userIds) } },
+      select: { id: true, name: true, email: true },
+    });
+    const usersById = new Map(users.map((user) => [user.id, user]));
+
+    // Estimation des tâches assignées à l'utilisateur connecté
+    const assignedEstimate = await prisma.task.aggregate({
+      where: {
+        projectId: { in: projectIds },
+        assignees: {
+          some: {
+            userId: authReq.user.id,
+          },
+        },
+      },
+      _sum: {
+        estimateMinutes: true,
+      },
+    });
+
+    const projectItems = projects.map((project) => {
+      const projectTotals = totals.get(project.id)!;
+
+      return {
+        ...project,
+        estimateMinutes: projectTotals.estimateMinutes,
+        spentMinutes: projectTotals.spentMinutes,
+        users: Array.from(projectTotals.byUser.entries())
+          .map(([userId, spentMinutes]) => ({
+            user: userId ? usersById.get(userId) ?? null : null,
+            spentMinutes,
+          }))
+          .sort((a, b) => b.spentMinutes - a.spentMinutes),
+      };
+    });
+
+    const stats = {
+      user: {
+        estimateMinutes: assignedEstimate._sum.estimateMinutes ?? 0,
+        spentMinutes: Array.from(totals.values()).reduce(
+          (sum, projectTotals) =>
+            sum + (projectTotals.byUser.get(authReq.user!.id) ?? 0),
+          0
+        ),
+        runningTimer: await getRunningTimer(authReq.user.id),
+      },
+      projects: projectItems,
+    };
+
+    sendSuccess(res, "Suivi du temps récupéré", { stats });
+  } catch (error) {
+    console.error("Erreur lors de la récupération du suivi du temps:", error);
+    sendServerError(res, "Erreur lors de la récupération du suivi du temps");
+  }
+};
@@ -0,0 +1,334 @@
+import { Request, Response } from "express";
+import { PrismaClient } from "@prisma/client";
+import { AuthRequest, ProjectAction } from "../types";
+import { can } from "../utils/permissions";
+import { acceptInvitation, canJoinProjects } from "../utils/invitations";
+import { sendSuccess, sendError, sendServerError } from "../utils/response";
+
+const prisma = new PrismaClient();
+
+/**
+ * @swagger
+ * /auth/invitations:
+ *   get:
+ *     summary: Lister les invitations en attente de l'utilisateur connecté
+ *     tags: [Invitations]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Invitations récupérées avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         invitations:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/ProjectInvitation'
+ *       401:
+ *         description: Non authentifié
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export const getMyInvitations = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    const invitations = await prisma.projectInvitation.findMany({
+      where: { email: authReq.user.email, project: { deletedAt: null } },
+      include: {
+        project: {
+          select: {
+            id: true,
+            name: true,
+            description: true,
+          },
+        },
+        invitedBy: {
+          select: {
+            id: true,
+            email: true,
+            name: true,
+          },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    sendSuccess(res, "Invitations récupérées avec succès", { invitations });
+  } catch (error) {
+    console.error("Erreur lors de la récupération des invitations:", error);
+    sendServerError(res, "Erreur lors de la récupération des invitations");
+  }
+};
+
+/**
+ * @swagger
+ * /auth/invitations/{invitationId}/accept:
+ *   post:
+ *     summary: Accepter une invitation et rejoindre le projet
+ *     tags: [Invitations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: invitationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invitation acceptée, l'utilisateur est membre du projet
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Success'
+ *       403:
+ *         description: Email non vérifié alors que la politique l'exige
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Invitation non trouvée
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export const acceptMyInvitation = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { invitationId } = req.params;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    const invitation = await prisma.projectInvitation.findFirst({
+      where: { id: invitationId, email: authReq.user.email },
+    });
+
+    if (!invitation) {
+      sendError(res, "Invitation non trouvée", "INVITATION_NOT_FOUND", 404);
+      return;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: authReq.user.id },
+      select: { emailVerifiedAt: true },
+    });
+
+    if (!user || !canJoinProjects(user)) {
+      sendError(
+        res,
+        "Vérifiez votre adresse email avant de rejoindre un projet",
+        "EMAIL_NOT_VERIFIED",
+        403
+      );
+      return;
+    }
+
+    await acceptInvitation(invitation, authReq.user.id);
+
+    sendSuccess(res, "Invitation acceptée avec succès", {
+      projectId: invitation.projectId,
+    });
+  } catch (error) {
+    console.error("Erreur lors de l'acceptation de l'invitation:", error);
+    sendServerError(res, "Erreur lors de l'acceptation de l'invitation");
+  }
+};
+
+/**
+ * Refuser une invitation
+ * POST /auth/invitations/:invitationId/decline
+ */
+export const declineMyInvitation = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { invitationId } = req.params;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    const deleted = await prisma.projectInvitation.deleteMany({
+      where: { id: invitationId, email: authReq.user.email },
+    });
+
+    if (deleted.count === 0) {
+      sendError(res, "Invitation non trouvée", "INVITATION_NOT_FOUND", 404);
+      return;
+    }
+
+    sendSuccess(res, "Invitation refusée avec succès");
+  } catch (error) {
+    console.error("Erreur lors du refus de l'invitation:", error);
+    sendServerError(res, "Erreur lors du refus de l'invitation");
+  }
+};
+
+/**
+ * @swagger
+ * /projects/{id}/invitations:
+ *   get:
+ *     summary: Lister les invitations en attente d'un projet
+ *     tags: [Invitations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invitations récupérées avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         invitations:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/ProjectInvitation'
+ *       403:
+ *         description: Droits d'administration requis
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export const getProjectInvitations = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Vérifier les permissions
+    const canManageMembers = await can(
+      authReq.user.id,
+      ProjectAction.MANAGE_MEMBERS,
+      id,
+      authReq.tokenScope
+    );
+    if (!canManageMembers) {
+      sendError(
+        res,
+        "Vous n'avez pas les permissions pour gérer les invitations de ce projet",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
+    const invitations = await prisma.projectInvitation.findMany({
+      where: { projectId: id },
+      include: {
+        invitedBy: {
+          select: {
+            id: true,
+            email: true,
+            name: true,
+          },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    sendSuccess(res, "Invitations récupérées avec succès", { invitations });
+  } catch (error) {
+    console.error("Erreur lors de la récupération des invitations:", error);
+    sendServerError(res, "Erreur lors de la récupération des invitations");
+  }
+};
+
+/**
+ * Révoquer une invitation en attente
+ * DELETE /projects/:id/invitations/:invitationId
+ */
+export const revokeProjectInvitation = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id, invitationId } = req.params;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Vérifier les permissions
+    const canManageMembers = await can(
+      authReq.user.id,
+      ProjectAction.MANAGE_MEMBERS,
+      id,
+      authReq.tokenScope
+    );
+    if (!canManageMembers) {
+      sendError(
+        res,
+        "Vous n'avez pas les permissions pour gérer les invitations de ce projet",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
+    const deleted = await prisma.projectInvitation.deleteMany({
+      where: { id: invitationId, projectId: id },
+    });
+
+    if (deleted.count === 0) {
+      sendError(res, "Invitation non trouvée", "INVITATION_NOT_FOUND", 404);
+      return;
+    }
+
+    sendSuccess(res, "Invitation révoquée avec succès");
+  } catch (error) {
+    console.error("Erreur lors de la révocation de l'invitation:", error);
+    sendServerError(res, "Erreur lors de la révocation de l'invitation");
+  }
+};
@@ -0,0 +1,385 @@
+import { Request, Response } from "express";
+import { PrismaClient } from "@prisma/client";
+import {
+  AuthRequest,
+  CreateLabelRequest,
+  ProjectAction,
+  UpdateLabelRequest,
+} from "../types";
+import { can } from "../utils/permissions";
+import {
+  validateCreateLabelData,
+  validateUpdateLabelData,
+} from "../utils/validation";
+import {
+  sendSuccess,
+  sendError,
+  sendValidationError,
+  sendServerError,
+} from "../utils/response";
+
+const prisma = new PrismaClient();
+
+/**
+ * @swagger
+ * /projects/{id}/labels:
+ *   get:
+ *     summary: Lister les étiquettes d'un projet
+ *     tags: [Étiquettes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Étiquettes récupérées avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         labels:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/Label'
+ *       403:
+ *         description: Accès refusé au projet
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export const getLabels = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Vérifier l'accès au projet
+    const canView = await can(
+      authReq.user.id,
+      ProjectAction.VIEW_PROJECT,
+      id,
+      authReq.tokenScope
+    );
+    if (!canView) {
+      sendError(res, "Accès refusé au projet", "FORBIDDEN", 403);
+      return;
+    }
+
+    const labels = await prisma.label.findMany({
+      where: { projectId: id },
+      include: {
+        _count: {
+          select: { tasks: true },
+        },
+      },
+      orderBy: { name: "asc" },
+    });
+
+    sendSuccess(res, "Étiquettes récupérées avec succès", { labels });
+  } catch (error) {
+    console.error("Erreur lors de la récupération des étiquettes:", error);
+    sendServerError(res, "Erreur lors de la récupération des étiquettes");
+  }
+};
+
+/**
+ * @swagger
+ * /projects/{id}/labels:
+ *   post:
+ *     summary: Créer une étiquette
+ *     tags: [Étiquettes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - color
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: "Bug"
+ *               color:
+ *                 type: string
+ *                 example: "#E53E3E"
+ *     responses:
+ *       201:
+ *         description: Étiquette créée avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         label:
+ *                           $ref: '#/components/schemas/Label'
+ *       400:
+ *         description: Données invalides
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Droits d'administration requis
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Une étiquette porte déjà ce nom
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export const createLabel = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { name, color }: CreateLabelRequest = req.body;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Validation des données
+    const validationErrors = validateCreateLabelData({ name, color });
+    if (validationErrors.length > 0) {
+      sendValidationError(
+        res,
+        "Données de l'étiquette invalides",
+        validationErrors
+      );
+      return;
+    }
+
+    // Vérifier les permissions
+    const canManageLabels = await can(
+      authReq.user.id,
+      ProjectAction.MANAGE_LABELS,
+      id,
+      authReq.tokenScope
+    );
+    if (!canManageLabels) {
+      sendError(
+        res,
+        "Vous n'avez pas les permissions pour gérer les étiquettes de ce projet",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
+    const existingLabel = await prisma.label.findUnique({
+      where: {
+        projectId_name: { projectId: id, name: name.trim() },
+      },
+    });
+
+    if (existingLabel) {
+      sendError(
+        res,
+        "Une étiquette porte déjà ce nom dans ce projet",
+        "LABEL_NAME_TAKEN",
+        409
+      );
+      return;
+    }
+
+    const label = await prisma.label.create({
+      data: {
+        name: name.trim(),
+        color: color.toUpperCase(),
+        projectId: id,
+      },
+    });
+
+    sendSuccess(res, "Étiquette créée avec succès", { label }, 201);
+  } catch (error) {
+    console.error("Erreur lors de la création de l'étiquette:", error);
+    sendServerError(res, "Erreur lors de la création de l'étiquette");
+  }
+};
+
+/**
+ * Mettre à jour une étiquette
+ * PUT /projects/:id/labels/:labelId
+ */
+export const updateLabel = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id, labelId } = req.params;
+    const { name, color }: UpdateLabelRequest = req.body;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Validation des données
+    const validationErrors = validateUpdateLabelData({ name, color });
+    if (validationErrors.length > 0) {
+      sendValidationError(
+        res,
+        "Données de l'étiquette invalides",
+        validationErrors
+      );
+      return;
+    }
+
+    // Vérifier les permissions
+    const canManageLabels = await can(
+      authReq.user.id,
+      ProjectAction.MANAGE_LABELS,
+      id,
+      authReq.tokenScope
+    );
+    if (!canManageLabels) {
+      sendError(
+        res,
+        "Vous n'avez pas les permissions pour gérer les étiquettes de ce projet",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
+    const label = await prisma.label.findFirst({
+      where: { id: labelId, projectId: id },
+    });
+
+    if (!label) {
+      sendError(res, "Étiquette non trouvée", "LABEL_NOT_FOUND", 404);
+      return;
+    }
+
+    if (name !== undefined && name.trim() !== label.name) {
+      const existingLabel = await prisma.label.findUnique({
+        where: {
+          projectId_name: { projectId: id, name: name.trim() },
+        },
+      });
+
+      if (existingLabel) {
+        sendError(
+          res,
+          "Une étiquette porte déjà ce nom dans ce projet",
+          "LABEL_NAME_TAKEN",
+          409
+        );
+        return;
+      }
+    }
+
+    // Préparer les données de mise à jour
+    const updateData: any = {};
+    if (name !== undefined) {
+      updateData.name = name.trim();
+    }
+    if (color !== undefined) {
+      updateData.color = color.toUpperCase();
+    }
+
+    const updatedLabel = await prisma.label.update({
+      where: { id: labelId },
+      data: updateData,
+    });
+
+    sendSuccess(res, "Étiquette mise à jour avec succès", {
+      label: updatedLabel,
+    });
+  } catch (error) {
+    console.error("Erreur lors de la mise à jour de l'étiquette:", error);
+    sendServerError(res, "Erreur lors de la mise à jour de l'étiquette");
+  }
+};
+
+/**
+ * Supprimer une étiquette (elle est retirée des tâches qui la portent)
+ * DELETE /projects/:id/labels/:labelId
+ */
+export const deleteLabel = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id, labelId } = req.params;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Vérifier les permissions
+    const canManageLabels = await can(
+      authReq.user.id,
+      ProjectAction.MANAGE_LABELS,
+      id,
+      authReq.tokenScope
+    );
+    if (!canManageLabels) {
+      sendError(
+        res,
+        "Vous n'avez pas les permissions pour gérer les étiquettes de ce projet",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
+    const label = await prisma.label.findFirst({
+      where: { id: labelId, projectId: id },
+    });
+
+    if (!label) {
+      sendError(res, "Étiquette non trouvée", "LABEL_NOT_FOUND", 404);
+      return;
+    }
+
+    await prisma.label.delete({
+      where: { id: labelId },
+    });
+
+    sendSuccess(res, "Étiquette supprimée avec succès");
+  } catch (error) {
+    console.error("Erreur lors de la suppression de l'étiquette:", error);
+    sendServerError(res, "Erreur lors de la suppression de l'étiquette");
+  }
+};
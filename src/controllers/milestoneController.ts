@@ -0,0 +1,720 @@
+import { Request, Response } from "express";
+import { PrismaClient } from "@prisma/client";
+import {
+  AuthRequest,
+  CloseMilestoneRequest,
+  CreateMilestoneRequest,
+  MilestoneState,
+  ProjectAction,
+  UpdateMilestoneRequest,
+} from "../types";
+import { can } from "../utils/permissions";
+import {
+  validateCloseMilestoneData,
+  validateCreateMilestoneData,
+  validateUpdateMilestoneData,
+} from "../utils/validation";
+import {
+  findNextMilestone,
+  getMilestonesProgress,
+  rollOverUnfinishedTasks,
+} from "../utils/milestones";
+import {
+  sendSuccess,
+  sendError,
+  sendValidationError,
+  sendServerError,
+} from "../utils/response";
+
+const prisma = new PrismaClient();
+
+/**
+ * @swagger
+ * /projects/{id}/milestones:
+ *   get:
+ *     summary: Lister les jalons d'un projet avec leur avancement
+ *     tags: [Jalons]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: state
+ *         schema:
+ *           type: string
+ *           enum: [PLANNED, OPEN, CLOSED]
+ *     responses:
+ *       200:
+ *         description: Jalons récupérés avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         milestones:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/Milestone'
+ *       403:
+ *         description: Accès refusé au projet
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export const getMilestones = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { state } = req.query;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Vérifier l'accès au projet
+    const canView = await can(
+      authReq.user.id,
+      ProjectAction.VIEW_PROJECT,
+      id,
+      authReq.tokenScope
+    );
+    if (!canView) {
+      sendError(res, "Accès refusé au projet", "FORBIDDEN", 403);
+      return;
+    }
+
+    const milestones = await prisma.milestone.findMany({
+      where: {
+        projectId: id,
+        ...(typeof state === "string" &&
+        Object.values(MilestoneState).includes(state as MilestoneState)
+          ? { state }
+          : {}),
+      },
+      orderBy: [{ startDate: "asc" }, { createdAt: "asc" }],
+    });
+
+    const progress = await getMilestonesProgress(
+      milestones.map((milestone) => milestone.id)
+    );
+
+    sendSuccess(res, "Jalons récupérés avec succès", {
+      milestones: milestones.map((milestone) => ({
+        ...milestone,
+        progress: progress.get(milestone.id),
+      })),
+    });
+  } catch (error) {
+    console.error("Erreur lors de la récupération des jalons:", error);
+    sendServerError(res, "Erreur lors de la récupération des jalons");
+  }
+};
+
+/**
+ * @swagger
+ * /projects/{id}/milestones:
+ *   post:
+ *     summary: Créer un jalon (sprint)
+ *     description: Le jalon est créé à l'état PLANNED.
+ *     tags: [Jalons]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: "Sprint 12"
+ *               goal:
+ *                 type: string
+ *                 example: "Livrer l'export PDF"
+ *               startDate:
+ *                 type: string
+ *                 format: date-time
+ *               endDate:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       201:
+ *         description: Jalon créé avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         milestone:
+ *                           $ref: '#/components/schemas/Milestone'
+ *       400:
+ *         description: Données invalides
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Droits d'administration requis
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export const createMilestone = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { name, goal, startDate, endDate }: CreateMilestoneRequest =
+      req.body;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Validation des données
+    const validationErrors = validateCreateMilestoneData({
+      name,
+      goal,
+      startDate,
+      endDate,
+    });
+    if (validationErrors.length > 0) {
+      sendValidationError(res, "Données du jalon invalides", validationErrors);
+      return;
+    }
+
+    // Vérifier les permissions
+    const canManageMilestones = await can(
+      authReq.user.id,
+      ProjectAction.MANAGE_MILESTONES,
+      id,
+      authReq.tokenScope
+    );
+    if (!canManageMilestones) {
+      sendError(
+        res,
+        "Vous n'avez pas les permissions pour gérer les jalons de ce projet",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
+    const milestone = await prisma.milestone.create({
+      data: {
+        name: name.trim(),
+        goal: goal?.trim() || null,
+        startDate: startDate ? new Date(startDate) : null,
+        endDate: endDate ? new Date(endDate) : null,
+        projectId: id,
+      },
+    });
+
+    sendSuccess(res, "Jalon créé avec succès", { milestone }, 201);
+  } catch (error) {
+    console.error("Erreur lors de la création du jalon:", error);
+    sendServerError(res, "Erreur lors de la création du jalon");
+  }
+};
+
+/**
+ * Récupérer un jalon et son avancement
+ * GET /projects/:id/milestones/:milestoneId
+ */
+export const getMilestone = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id, milestoneId } = req.params;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Vérifier l'accès au projet
+    const canView = await can(
+      authReq.user.id,
+      ProjectAction.VIEW_PROJECT,
+      id,
+      authReq.tokenScope
+    );
+    if (!canView) {
+      sendError(res, "Accès refusé au projet", "FORBIDDEN", 403);
+      return;
+    }
+
+    const milestone = await prisma.milestone.findFirst({
+      where: { id: milestoneId, projectId: id },
+    });
+
+    if (!milestone) {
+      sendError(res, "Jalon non trouvé", "MILESTONE_NOT_FOUND", 404);
+      return;
+    }
+
+    const progress = await getMilestonesProgress([milestone.id]);
+
+    sendSuccess(res, "Jalon récupéré avec succès", {
+      milestone: { ...milestone, progress: progress.get(milestone.id) },
+    });
+  } catch (error) {
+    console.error("Erreur lors de la récupération du jalon:", error);
+    sendServerError(res, "Erreur lors de la récupération du jalon");
+  }
+};
+
+/**
+ * Mettre à jour un jalon
+ * PUT /projects/:id/milestones/:milestoneId
+ */
+export const updateMilestone = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id, milestoneId } = req.params;
+    const { name, goal, startDate, endDate }: UpdateMilestoneRequest =
+      req.body;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Validation des données
+    const validationErrors = validateUpdateMilestoneData({
+      name,
+      goal,
+      startDate,
+      endDate,
+    });
+    if (validationErrors.length > 0) {
+      sendValidationError(res, "Données du jalon invalides", validationErrors);
+      return;
+    }
+
+    // Vérifier les permissions
+    const canManageMilestones = await can(
+      authReq.user.id,
+      ProjectAction.MANAGE_MILESTONES,
+      id,
+      authReq.tokenScope
+    );
+    if (!canManageMilestones) {
+      sendError(
+        res,
+        "Vous n'avez pas les permissions pour gérer les jalons de ce projet",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
+    const milestone = await prisma.milestone.findFirst({
+      where: { id: milestoneId, projectId: id },
+    });
+
+    if (!milestone) {
+      sendError(res, "Jalon non trouvé", "MILESTONE_NOT_FOUND", 404);
+      return;
+    }
+
+    // Préparer les données de mise à jour
+    const updateData: any = {};
+    if (name !== undefined) {
+      updateData.name = name.trim();
+    }
+    if (goal !== undefined) {
+      updateData.goal = goal?.trim() || null;
+    }
+    if (startDate !== undefined) {
+      updateData.startDate = startDate ? new Date(startDate) : null;
+    }
+    if (endDate !== undefined) {
+      updateData.endDate = endDate ? new Date(endDate) : null;
+    }
+
+    // La fin ne peut pas précéder le début, y compris avec les dates conservées
+    const nextStartDate =
+      updateData.startDate !== undefined
+        ? updateData.startDate
+        : milestone.startDate;
+    const nextEndDate =
+      updateData.endDate !== undefined ? updateData.endDate : milestone.endDate;
+    if (nextStartDate && nextEndDate && nextEndDate < nextStartDate) {
+      sendValidationError(res, "Données du jalon invalides", [
+        {
+          field: "endDate",
+          message: "La date de fin doit être postérieure à la date de début",
+        },
+      ]);
+      return;
+    }
+
+    const updatedMilestone = await prisma.milestone.update({
+      where: { id: milestoneId },
+      data: updateData,
+    });
+
+    sendSuccess(res, "Jalon mis à jour avec succès", {
+      milestone: updatedMilestone,
+    });
+  } catch (error) {
+    console.error("Erreur lors de la mise à jour du jalon:", error);
+    sendServerError(res, "Erreur lors de la mise à jour du jalon");
+  }
+};
+
+/**
+ * Supprimer un jalon (ses tâches sont conservées, hors jalon)
+ * DELETE /projects/:id/milestones/:milestoneId
+ */
+export const deleteMilestone = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id, milestoneId } = req.params;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Vérifier les permissions
+    const canManageMilestones = await can(
+      authReq.user.id,
+      ProjectAction.MANAGE_MILESTONES,
+      id,
+      authReq.tokenScope
+    );
+    if (!canManageMilestones) {
+      sendError(
+        res,
+        "Vous n'avez pas les permissions pour gérer les jalons de ce projet",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
+    const milestone = await prisma.milestone.findFirst({
+      where: { id: milestoneId, projectId: id },
+    });
+
+    if (!milestone) {
+      sendError(res, "Jalon non trouvé", "MILESTONE_NOT_FOUND", 404);
+      return;
+    }
+
+    await prisma.milestone.delete({
+      where: { id: milestoneId },
+    });
+
+    sendSuccess(res, "Jalon supprimé avec succès");
+  } catch (error) {
+    console.error("Erreur lors de la suppression du jalon:", error);
+    sendServerError(res, "Erreur lors de la suppression du jalon");
+  }
+};
+
+/**
+ * Ouvrir un jalon planifié, ou rouvrir un jalon clôturé
+ * POST /projects/:id/milestones/:milestoneId/open
+ */
+export const openMilestone = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id, milestoneId } = req.params;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Vérifier les permissions
+    const canManageMilestones = await can(
+      authReq.user.id,
+      ProjectAction.MANAGE_MILESTONES,
+      id,
+      authReq.tokenScope
+    );
+    if (!canManageMilestones) {
+      sendError(
+        res,
+        "Vous n'avez pas les permissions pour gérer les jalons de ce projet",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
+    const milestone = await prisma.milestone.findFirst({
+      where: { id: milestoneId, projectId: id },
+    });
+
+    if (!milestone) {
+      sendError(res, "Jalon non trouvé", "MILESTONE_NOT_FOUND", 404);
+      return;
+    }
+
+    if (milestone.state === MilestoneState.OPEN) {
+      sendError(res, "Ce jalon est déjà ouvert", "MILESTONE_ALREADY_OPEN", 409);
+      return;
+    }
+
+    const updatedMilestone = await prisma.milestone.update({
+      where: { id: milestoneId },
+      data: {
+        state: MilestoneState.OPEN,
+        startDate: milestone.startDate ?? new Date(),
+        closedAt: null,
+      },
+    });
+
+    sendSuccess(res, "Jalon ouvert avec succès", {
+      milestone: updatedMilestone,
+    });
+  } catch (error) {
+    console.error("Erreur lors de l'ouverture du jalon:", error);
+    sendServerError(res, "Erreur lors de l'ouverture du jalon");
+  }
+};
+
+/**
+ * @swagger
+ * /projects/{id}/milestones/{milestoneId}/close:
+ *   post:
+ *     summary: Clôturer un jalon ouvert
+ *     description: Avec rollOver, les tâches non terminées (catégorie autre que DONE) sont reportées sur le jalon cible, ou à défaut sur le prochain jalon planifié.
+ *     tags: [Jalons]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: milestoneId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               rollOver:
+ *                 type: boolean
+ *                 example: true
+ *               targetMilestoneId:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Jalon clôturé avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         milestone:
+ *                           $ref: '#/components/schemas/Milestone'
+ *                         rolledOverTasks:
+ *                           type: integer
+ *                         nextMilestone:
+ *                           $ref: '#/components/schemas/Milestone'
+ *       403:
+ *         description: Droits d'administration requis
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Jalon ou jalon cible non trouvé
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Jalon non ouvert, ou aucun jalon pour le report
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export const closeMilestone = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id, milestoneId } = req.params;
+    const { rollOver, targetMilestoneId }: CloseMilestoneRequest =
+      req.body ?? {};
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Validation des données
+    const validationErrors = validateCloseMilestoneData({
+      rollOver,
+      targetMilestoneId,
+    });
+    if (validationErrors.length > 0) {
+      sendValidationError(
+        res,
+        "Données de clôture invalides",
+        validationErrors
+      );
+      return;
+    }
+
+    // Vérifier les permissions
+    const canManageMilestones = await can(
+      authReq.user.id,
+      ProjectAction.MANAGE_MILESTONES,
+      id,
+      authReq.tokenScope
+    );
+    if (!canManageMilestones) {
+      sendError(
+        res,
+        "Vous n'avez pas les permissions pour gérer les jalons de ce projet",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
+    const milestone = await prisma.milestone.findFirst({
+      where: { id: milestoneId, projectId: id },
+    });
+
+    if (!milestone) {
+      sendError(res, "Jalon non trouvé", "MILESTONE_NOT_FOUND", 404);
+      return;
+    }
+
+    if (milestone.state !== MilestoneState.OPEN) {
+      sendError(
+        res,
+        "Seul un jalon ouvert peut être clôturé",
+        "MILESTONE_NOT_OPEN",
+        409
+      );
+      return;
+    }
+
+    // Déterminer le jalon qui reçoit les tâches non terminées
+    let nextMilestone = null;
+    if (rollOver) {
+      if (targetMilestoneId) {
+        nextMilestone = await prisma.milestone.findFirst({
+          where: {
+            id: targetMilestoneId,
+            projectId: id,
+            state: { not: MilestoneState.CLOSED },
+          },
+        });
+
+        if (!nextMilestone || nextMilestone.id === milestone.id) {
+          sendError(
+            res,
+            "Jalon cible non trouvé ou clôturé",
+            "MILESTONE_NOT_FOUND",
+            404
+          );
+          return;
+        }
+      } else {
+        nextMilestone = await findNextMilestone(milestone);
+
+        if (!nextMilestone) {
+          sendError(
+            res,
+            "Aucun jalon planifié ne peut recevoir les tâches non terminées",
+            "NO_NEXT_MILESTONE",
+            409
+          );
+          return;
+        }
+      }
+    }
+
+    const rolledOverTasks = nextMilestone
+      ? await rollOverUnfinishedTasks(milestone.id, nextMilestone.id)
+      : 0;
+
+    const closedMilestone = await prisma.milestone.update({
+      where: { id: milestoneId },
+      data: {
+        state: MilestoneState.CLOSED,
+        closedAt: new Date(),
+      },
+    });
+
+    const progress = await getMilestonesProgress([closedMilestone.id]);
+
+    sendSuccess(res, "Jalon clôturé avec succès", {
+      milestone: {
+        ...closedMilestone,
+        progress: progress.get(closedMilestone.id),
+      },
+      rolledOverTasks,
+      nextMilestone,
+    });
+  } catch (error) {
+    console.error("Erreur lors de la clôture du jalon:", error);
+    sendServerError(res, "Erreur lors de la clôture du jalon");
+  }
+};
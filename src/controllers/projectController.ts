@@ -5,18 +5,28 @@ import {
   UpdateProjectRequest,
   AddContributorRequest,
   AuthRequest,
+  CloneProjectRequest,
+  ContributorsResult,
+  ProjectAction,
+  Role,
+  TransferOwnershipRequest,
+  UpdateMemberRequest,
 } from "../types";
 import {
+  isValidEmail,
+  validateCloneProjectData,
   validateCreateProjectData,
   validateUpdateProjectData,
 } from "../utils/validation";
 import {
-  hasProjectAccess,
-  isProjectAdmin,
   isProjectOwner,
-  canModifyProject,
-  canDeleteProject,
+  can,
+  getProjectPermissions,
   getUserProjectRole,
+  getWorkspaceRole,
+  accessibleProjectsWhere,
+  restorableProjectsWhere,
+  canCreateProjects,
 } from "../utils/permissions";
 import {
   sendSuccess,
@@ -24,9 +34,44 @@ import {
   sendValidationError,
   sendServerError,
 } from "../utils/response";
+import {
+  addProjectContributors,
+  canJoinProjects,
+  inviteToProject,
+  syncProjectContributors,
+} from "../utils/invitations";
+import { unlockAccount } from "../utils/loginAttempts";
+import { getPurgeDate } from "../utils/projectTrash";
+import {
+  accessibleTemplatesWhere,
+  copyProjectMembers,
+  copyProjectTasks,
+  createTasksFromTemplate,
+  parseTemplateTasks,
+} from "../utils/projectTemplates";
+import { copyProjectWorkflow } from "../utils/workflow";
+import { copyProjectLabels } from "../utils/taskLabels";
+import { copyProjectCustomFields } from "../utils/customFields";
+import { stopRunningTimers } from "../utils/timeTracking";
 
 const prisma = new PrismaClient();
 
+/**
+ * Récupère un rôle personnalisé s'il appartient au projet
+ * @param projectId - ID du projet
+ * @param roleId - ID du rôle personnalisé
+ * @returns Le rôle ou null
+ */
+const findProjectRole = async (projectId: string, roleId: unknown) => {
+  if (typeof roleId !== "string") {
+    return null;
+  }
+
+  return prisma.projectRole.findFirst({
+    where: { id: roleId, projectId },
+  });
+};
+
 /**
  * @swagger
  * /projects:
@@ -55,10 +100,31 @@ const prisma = new PrismaClient();
  *               contributors:
  *                 type: array
  *                 items:
- *                   type: string
- *                   format: email
- *                 description: Liste des emails des contributeurs
- *                 example: ["user1@example.com", "user2@example.com"]
+ *                   oneOf:
+ *                     - type: string
+ *                       format: email
+ *                     - type: object
+ *                       required:
+ *                         - email
+ *                       properties:
+ *                         email:
+ *                           type: string
+ *                           format: email
+ *                         role:
+ *                           type: string
+ *                           enum: [ADMIN, CONTRIBUTOR, VIEWER]
+ *                 description: Emails des contributeurs, éventuellement avec leur rôle (CONTRIBUTOR par défaut)
+ *                 example: ["user1@example.com", { "email": "user2@example.com", "role": "ADMIN" }]
+ *               workspaceId:
+ *                 type: string
+ *                 description: Espace de travail du projet (l'utilisateur doit en être membre)
+ *               templateId:
+ *                 type: string
+ *                 description: Modèle dont les tâches sont reprises (statut initial du workflow)
+ *               startDate:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Démarrage du projet, référence des échéances du modèle (maintenant par défaut)
  *     responses:
  *       201:
  *         description: Projet créé avec succès
@@ -89,7 +155,14 @@ export const createProject = async (
   res: Response
 ): Promise<void> => {
   try {
-    const { name, description, contributors }: CreateProjectRequest = req.body;
+    const {
+      name,
+      description,
+      contributors,
+      workspaceId,
+      templateId,
+      startDate,
+    }: CreateProjectRequest = req.body;
     const authReq = req as AuthRequest;
 
     if (!authReq.user) {
@@ -97,11 +170,24 @@ export const createProject = async (
       return;
     }
 
+    if (!canCreateProjects(authReq.tokenScope)) {
+      sendError(
+        res,
+        "Ce token d'accès ne permet pas de créer des projets",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
     // Validation des données
     const validationErrors = validateCreateProjectData({
       name,
       description,
       contributors,
+      workspaceId,
+      templateId,
+      startDate,
     });
     if (validationErrors.length > 0) {
       sendValidationError(
@@ -112,12 +198,35 @@ export const createProject = async (
       return;
     }
 
+    // Seuls les membres d'un espace de travail peuvent y créer des projets
+    if (workspaceId && !(await getWorkspaceRole(authReq.user.id, workspaceId))) {
+      sendError(
+        res,
+        "Vous n'êtes pas membre de cet espace de travail",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
+    // Le modèle doit être accessible à l'utilisateur
+    const template = templateId
+      ? await prisma.projectTemplate.findFirst({
+          where: { id: templateId, ...accessibleTemplatesWhere(authReq.user.id) },
+        })
+      : null;
+    if (templateId && !template) {
+      sendError(res, "Modèle non trouvé", "TEMPLATE_NOT_FOUND", 404);
+      return;
+    }
+
     // Créer le projet
     const project = await prisma.project.create({
       data: {
         name: name.trim(),
         description: description?.trim() || null,
         ownerId: authReq.user.id,
+        workspaceId: workspaceId || null,
       },
       include: {
         owner: {
@@ -140,42 +249,35 @@ export const createProject = async (
                 updatedAt: true,
               },
             },
+            customRole: {
+              select: {
+                id: true,
+                name: true,
+              },
+            },
           },
         },
       },
     });
 
-    // Ajouter les contributeurs si fournis
+    // Ajouter les contributeurs si fournis (invitation pour les emails sans compte)
+    let contributorsResult: ContributorsResult = { members: [], invitations: [] };
     if (contributors && contributors.length > 0) {
-      const contributorUsers = await prisma.user.findMany({
-        where: {
-          email: {
-            in: contributors.map((email) => email.toLowerCase()),
-          },
-        },
-        select: {
-          id: true,
-          email: true,
-        },
-      });
+      contributorsResult = await addProjectContributors(
+        project.id,
+        contributors,
+        authReq.user
+      );
+    }
 
-      if (contributorUsers.length > 0) {
-        // Créer les membres un par un pour éviter les doublons
-        for (const user of contributorUsers) {
-          try {
-            await prisma.projectMember.create({
-              data: {
-                userId: user.id,
-                projectId: project.id,
-                role: "CONTRIBUTOR",
-              },
-            });
-          } catch (error) {
-            // Ignorer les erreurs de doublons
-            console.log(`Utilisateur ${user.email} déjà membre du projet`);
-          }
-        }
-      }
+    // Reprendre les tâches du modèle, échéances calculées depuis le démarrage
+    if (template) {
+      await createTasksFromTemplate(
+        project.id,
+        parseTemplateTasks(template.tasks),
+        authReq.user.id,
+        startDate ? new Date(startDate) : project.createdAt
+      );
     }
 
     // Récupérer le projet avec les membres mis à jour
@@ -202,6 +304,12 @@ export const createProject = async (
                 updatedAt: true,
               },
             },
+            customRole: {
+              select: {
+                id: true,
+                name: true,
+              },
+            },
           },
         },
         _count: {
@@ -215,7 +323,7 @@ export const createProject = async (
     sendSuccess(
       res,
       "Projet créé avec succès",
-      { project: projectWithMembers },
+      { project: projectWithMembers, contributors: contributorsResult },
       201
     );
   } catch (error) {
@@ -229,9 +337,21 @@ export const createProject = async (
  * /projects:
  *   get:
  *     summary: Récupérer tous les projets de l'utilisateur connecté
+ *     description: Projets dont l'utilisateur est propriétaire ou membre, et tous les projets des espaces de travail qu'il administre.
  *     tags: [Projets]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: workspaceId
+ *         schema:
+ *           type: string
+ *         description: Restreindre aux projets d'un espace de travail
+ *       - in: query
+ *         name: includeArchived
+ *         schema:
+ *           type: boolean
+ *         description: Inclure les projets archivés (masqués par défaut)
  *     responses:
  *       200:
  *         description: Liste des projets récupérée avec succès
@@ -268,18 +388,18 @@ export const getProjects = async (
       return;
     }
 
+    const { workspaceId, includeArchived } = req.query;
+
     const projects = await prisma.project.findMany({
       where: {
-        OR: [
-          { ownerId: authReq.user.id },
-          {
-            members: {
-              some: {
-                userId: authReq.user.id,
-              },
-            },
-          },
-        ],
+        ...accessibleProjectsWhere(authReq.user.id),
+        // Restreindre aux projets couverts par le token d'accès personnel
+        ...(authReq.tokenScope?.projectIds && {
+          id: { in: authReq.tokenScope.projectIds },
+        }),
+        ...(typeof workspaceId === "string" && { workspaceId }),
+        // Les projets archivés sont masqués par défaut
+        ...(includeArchived !== "true" && { archivedAt: null }),
       },
       include: {
         owner: {
@@ -303,6 +423,12 @@ export const getProjects = async (
                 updatedAt: true,
               },
             },
+            customRole: {
+              select: {
+                id: true,
+                name: true,
+              },
+            },
           },
         },
         _count: {
@@ -320,9 +446,15 @@ export const getProjects = async (
     const projectsWithRoles = await Promise.all(
       projects.map(async (project) => {
         const role = await getUserProjectRole(authReq.user!.id, project.id);
+        const permissions = await getProjectPermissions(
+          authReq.user!.id,
+          project.id,
+          authReq.tokenScope
+        );
         return {
           ...project,
           userRole: role,
+          permissions,
         };
       })
     );
@@ -354,8 +486,13 @@ export const getProject = async (
     }
 
     // Vérifier l'accès au projet
-    const hasAccess = await hasProjectAccess(authReq.user.id, id);
-    if (!hasAccess) {
+    const canView = await can(
+      authReq.user.id,
+      ProjectAction.VIEW_PROJECT,
+      id,
+      authReq.tokenScope
+    );
+    if (!canView) {
       sendError(res, "Accès refusé au projet", "FORBIDDEN", 403);
       return;
     }
@@ -383,6 +520,12 @@ export const getProject = async (
                 updatedAt: true,
               },
             },
+            customRole: {
+              select: {
+                id: true,
+                name: true,
+              },
+            },
           },
         },
         tasks: {
@@ -445,9 +588,14 @@ export const getProject = async (
 
     // Ajouter le rôle de l'utilisateur
     const role = await getUserProjectRole(authReq.user.id, id);
+    const permissions = await getProjectPermissions(
+      authReq.user.id,
+      id,
+      authReq.tokenScope
+    );
 
     sendSuccess(res, "Projet récupéré avec succès", {
-      project: { ...project, userRole: role },
+      project: { ...project, userRole: role, permissions },
     });
   } catch (error) {
     console.error("Erreur lors de la récupération du projet:", error);
@@ -457,6 +605,8 @@ export const getProject = async (
 /**
  * Mettre à jour un projet
  * PUT /projects/:id
+ * contributors est la liste complète des membres : les absents sont retirés,
+ * les membres conservés gardent leur adhésion et ne changent de rôle que sur demande
  */
 export const updateProject = async (
   req: Request,
@@ -464,7 +614,14 @@ export const updateProject = async (
 ): Promise<void> => {
   try {
     const { id } = req.params;
-    const { name, description, contributors }: UpdateProjectRequest = req.body;
+    const {
+      name,
+      description,
+      contributors,
+      requireTwoFactor,
+      blockParentCompletion,
+      workspaceId,
+    }: UpdateProjectRequest = req.body;
     const authReq = req as AuthRequest;
 
     if (!authReq.user) {
@@ -473,7 +630,14 @@ export const updateProject = async (
     }
 
     // Validation des données
-    const validationErrors = validateUpdateProjectData({ name, description, contributors });
+    const validationErrors = validateUpdateProjectData({
+      name,
+      description,
+      contributors,
+      requireTwoFactor,
+      blockParentCompletion,
+      workspaceId,
+    });
     if (validationErrors.length > 0) {
       sendValidationError(
         res,
@@ -484,8 +648,13 @@ export const updateProject = async (
     }
 
     // Vérifier les permissions
-    const canModify = await canModifyProject(authReq.user.id, id);
-    if (!canModify) {
+    const canEdit = await can(
+      authReq.user.id,
+      ProjectAction.EDIT_PROJECT,
+      id,
+      authReq.tokenScope
+    );
+    if (!canEdit) {
       sendError(
         res,
         "Vous n'avez pas les permissions pour modifier ce projet",
@@ -495,14 +664,105 @@ export const updateProject = async (
       return;
     }
 
+    if (
+      contributors !== undefined &&
+      !(await can(
+        authReq.user.id,
+        ProjectAction.MANAGE_MEMBERS,
+        id,
+        authReq.tokenScope
+      ))
+    ) {
+      sendError(
+        res,
+        "Vous n'avez pas les permissions pour gérer les membres de ce projet",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
+    // Seul le propriétaire peut changer l'exigence 2FA, et doit lui-même l'avoir activée
+    if (requireTwoFactor !== undefined) {
+      const canManageSecurity = await can(
+        authReq.user.id,
+        ProjectAction.MANAGE_SECURITY,
+        id,
+        authReq.tokenScope
+      );
+      if (!canManageSecurity) {
+        sendError(
+          res,
+          "Seul le propriétaire peut modifier l'exigence de double authentification",
+          "FORBIDDEN",
+          403
+        );
+        return;
+      }
+
+      if (requireTwoFactor) {
+        const owner = await prisma.user.findUnique({
+          where: { id: authReq.user.id },
+          select: { totpEnabledAt: true },
+        });
+        if (!owner?.totpEnabledAt) {
+          sendError(
+            res,
+            "Activez la double authentification sur votre compte avant de l'exiger pour ce projet",
+            "TWO_FACTOR_REQUIRED",
+            400
+          );
+          return;
+        }
+      }
+    }
+
+    // Déplacer le projet : mêmes droits que sa suppression, et appartenance à l'espace cible
+    if (workspaceId !== undefined) {
+      const canMove = await can(
+        authReq.user.id,
+        ProjectAction.DELETE_PROJECT,
+        id,
+        authReq.tokenScope
+      );
+      if (!canMove) {
+        sendError(
+          res,
+          "Vous n'avez pas les permissions pour déplacer ce projet",
+          "FORBIDDEN",
+          403
+        );
+        return;
+      }
+
+      if (workspaceId && !(await getWorkspaceRole(authReq.user.id, workspaceId))) {
+        sendError(
+          res,
+          "Vous n'êtes pas membre de cet espace de travail",
+          "FORBIDDEN",
+          403
+        );
+        return;
+      }
+    }
+
     // Préparer les données de mise à jour
     const updateData: any = {};
     if (name !== undefined) {
       updateData.name = name.trim();
     }
+    if (workspaceId !== undefined) {
+      updateData.workspaceId = workspaceId;
+    }
     if (description !== undefined) {
       updateData.description = description?.trim() || null;
     }
+    if (requireTwoFactor !== undefined) {
+      updateData.requireTwoFactor = requireTwoFactor;
+    }
+    if (blockParentCompletion !== undefined) {
+      updateData.blockParentCompletion = blockParentCompletion;
+    }
 
     const updatedProject = await prisma.project.update({
       where: { id },
@@ -510,52 +770,14 @@ export const updateProject = async (
     });
 
     // Mettre à jour les contributeurs si fournis
+    let contributorsResult: ContributorsResult | undefined;
     if (contributors !== undefined) {
-      // Récupérer le projet pour connaître le propriétaire
-      const project = await prisma.project.findUnique({
-        where: { id },
-        select: { ownerId: true },
-      });
-
-      // Supprimer tous les membres actuels (sauf le propriétaire qui n'est pas dans ProjectMember)
-      await prisma.projectMember.deleteMany({
-        where: { projectId: id },
-      });
-
-      // Ajouter les nouveaux contributeurs
-      if (contributors.length > 0) {
-        const contributorUsers = await prisma.user.findMany({
-          where: {
-            email: {
-              in: contributors.map((email) => email.toLowerCase()),
-            },
-            // Exclure le propriétaire de la liste des contributeurs
-            NOT: {
-              id: project?.ownerId,
-            },
-          },
-          select: {
-            id: true,
-            email: true,
-          },
-        });
-
-        if (contributorUsers.length > 0) {
-          for (const user of contributorUsers) {
-            try {
-              await prisma.projectMember.create({
-                data: {
-                  userId: user.id,
-                  projectId: id,
-                  role: "CONTRIBUTOR",
-                },
-              });
-            } catch (error) {
-              console.log(`Utilisateur ${user.email} déjà membre du projet`);
-            }
-          }
-        }
-      }
+      // Mise à jour différentielle : les membres conservés gardent leur adhésion
+      contributorsResult = await syncProjectContributors(
+        id,
+        contributors,
+        authReq.user
+      );
     }
 
     // Récupérer le projet avec les membres mis à jour
@@ -582,6 +804,12 @@ export const updateProject = async (
                 updatedAt: true,
               },
             },
+            customRole: {
+              select: {
+                id: true,
+                name: true,
+              },
+            },
           },
         },
         _count: {
@@ -594,6 +822,7 @@ export const updateProject = async (
 
     sendSuccess(res, "Projet mis à jour avec succès", {
       project: projectWithMembers,
+      ...(contributorsResult && { contributors: contributorsResult }),
     });
   } catch (error) {
     console.error("Erreur lors de la mise à jour du projet:", error);
@@ -602,7 +831,7 @@ export const updateProject = async (
 };
 
 /**
- * Supprimer un projet
+ * Supprimer un projet (mise à la corbeille, restaurable jusqu'à sa purge)
  * DELETE /projects/:id
  */
 export const deleteProject = async (
@@ -619,7 +848,12 @@ export const deleteProject = async (
     }
 
     // Vérifier les permissions
-    const canDelete = await canDeleteProject(authReq.user.id, id);
+    const canDelete = await can(
+      authReq.user.id,
+      ProjectAction.DELETE_PROJECT,
+      id,
+      authReq.tokenScope
+    );
     if (!canDelete) {
       sendError(
         res,
@@ -630,12 +864,21 @@ export const deleteProject = async (
       return;
     }
 
-    // Supprimer le projet (les relations seront supprimées automatiquement grâce à onDelete: Cascade)
-    await prisma.project.delete({
+    // Placer le projet dans la corbeille : la suppression définitive (en cascade)
+    // intervient à l'expiration de la durée de rétention
+    const deletedAt = new Date();
+    await prisma.project.update({
       where: { id },
+      data: { deletedAt },
     });
 
-    sendSuccess(res, "Projet supprimé avec succès");
+    // Plus personne ne peut saisir de temps dans le projet : arrêter les chronomètres
+    await stopRunningTimers({ task: { projectId: id } });
+
+    sendSuccess(res, "Projet placé dans la corbeille", {
+      deletedAt,
+      purgeAt: getPurgeDate(deletedAt),
+    });
   } catch (error) {
     console.error("Erreur lors de la suppression du projet:", error);
     sendServerError(res, "Erreur lors de la suppression du projet");
@@ -643,16 +886,46 @@ export const deleteProject = async (
 };
 
 /**
- * Ajouter un contributeur à un projet
- * POST /projects/:id/contributors
+ * @swagger
+ * /projects/{id}/archive:
+ *   post:
+ *     summary: Archiver un projet
+ *     description: Un projet archivé est en lecture seule et masqué de la liste des projets par défaut.
+ *     tags: [Projets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Projet archivé avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Success'
+ *       403:
+ *         description: Droits d'administration requis
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Projet déjà archivé
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  */
-export const addContributor = async (
+export const archiveProject = async (
   req: Request,
   res: Response
 ): Promise<void> => {
   try {
     const { id } = req.params;
-    const { email, role = "CONTRIBUTOR" }: AddContributorRequest = req.body;
     const authReq = req as AuthRequest;
 
     if (!authReq.user) {
@@ -661,73 +934,59 @@ export const addContributor = async (
     }
 
     // Vérifier les permissions
-    const canModify = await canModifyProject(authReq.user.id, id);
-    if (!canModify) {
+    const canArchive = await can(
+      authReq.user.id,
+      ProjectAction.ARCHIVE_PROJECT,
+      id,
+      authReq.tokenScope
+    );
+    if (!canArchive) {
       sendError(
         res,
-        "Vous n'avez pas les permissions pour modifier ce projet",
+        "Vous n'avez pas les permissions pour archiver ce projet",
         "FORBIDDEN",
         403
       );
       return;
     }
 
-    // Vérifier que l'utilisateur existe
-    const user = await prisma.user.findUnique({
-      where: { email: email.toLowerCase() },
+    const project = await prisma.project.findUnique({
+      where: { id },
+      select: { archivedAt: true },
     });
 
-    if (!user) {
-      sendError(res, "Utilisateur non trouvé", "USER_NOT_FOUND", 404);
+    if (project?.archivedAt) {
+      sendError(res, "Le projet est déjà archivé", "PROJECT_ARCHIVED", 409);
       return;
     }
 
-    // Vérifier que l'utilisateur n'est pas déjà membre
-    const existingMember = await prisma.projectMember.findUnique({
-      where: {
-        userId_projectId: {
-          userId: user.id,
-          projectId: id,
-        },
-      },
+    const archivedProject = await prisma.project.update({
+      where: { id },
+      data: { archivedAt: new Date() },
     });
 
-    if (existingMember) {
-      sendError(
-        res,
-        "L'utilisateur est déjà membre de ce projet",
-        "USER_ALREADY_MEMBER",
-        409
-      );
-      return;
-    }
+    // Le projet passe en lecture seule : arrêter les chronomètres en cours
+    await stopRunningTimers({ task: { projectId: id } });
 
-    // Ajouter le membre
-    await prisma.projectMember.create({
-      data: {
-        userId: user.id,
-        projectId: id,
-        role: role as "ADMIN" | "CONTRIBUTOR",
-      },
+    sendSuccess(res, "Projet archivé avec succès", {
+      project: archivedProject,
     });
-
-    sendSuccess(res, "Contributeur ajouté avec succès");
   } catch (error) {
-    console.error("Erreur lors de l'ajout du contributeur:", error);
-    sendServerError(res, "Erreur lors de l'ajout du contributeur");
+    console.error("Erreur lors de l'archivage du projet:", error);
+    sendServerError(res, "Erreur lors de l'archivage du projet");
   }
 };
 
 /**
- * Retirer un contributeur d'un projet
- * DELETE /projects/:id/contributors/:userId
+ * Désarchiver un projet
+ * POST /projects/:id/unarchive
  */
-export const removeContributor = async (
+export const unarchiveProject = async (
   req: Request,
   res: Response
 ): Promise<void> => {
   try {
-    const { id, userId } = req.params;
+    const { id } = req.params;
     const authReq = req as AuthRequest;
 
     if (!authReq.user) {
@@ -736,64 +995,63 @@ export const removeContributor = async (
     }
 
     // Vérifier les permissions
-    const canModify = await canModifyProject(authReq.user.id, id);
-    if (!canModify) {
+    const canArchive = await can(
+      authReq.user.id,
+      ProjectAction.ARCHIVE_PROJECT,
+      id,
+      authReq.tokenScope
+    );
+    if (!canArchive) {
       sendError(
         res,
-        "Vous n'avez pas les permissions pour modifier ce projet",
+        "Vous n'avez pas les permissions pour désarchiver ce projet",
         "FORBIDDEN",
         403
       );
       return;
     }
 
-    // Vérifier que l'utilisateur n'essaie pas de se retirer lui-même s'il est propriétaire
-    const isOwner = await isProjectOwner(authReq.user.id, id);
-    if (isOwner && authReq.user.id === userId) {
+    const project = await prisma.project.findUnique({
+      where: { id },
+      select: { archivedAt: true },
+    });
+
+    if (!project?.archivedAt) {
       sendError(
         res,
-        "Le propriétaire du projet ne peut pas se retirer",
-        "CANNOT_REMOVE_OWNER",
-        400
+        "Le projet n'est pas archivé",
+        "PROJECT_NOT_ARCHIVED",
+        409
       );
       return;
     }
 
-    // Supprimer le membre
-    await prisma.projectMember.deleteMany({
-      where: {
-        userId,
-        projectId: id,
-      },
+    const unarchivedProject = await prisma.project.update({
+      where: { id },
+      data: { archivedAt: null },
     });
 
-    sendSuccess(res, "Contributeur retiré avec succès");
+    sendSuccess(res, "Projet désarchivé avec succès", {
+      project: unarchivedProject,
+    });
   } catch (error) {
-    console.error("Erreur lors du retrait du contributeur:", error);
-    sendServerError(res, "Erreur lors du retrait du contributeur");
+    console.error("Erreur lors du désarchivage du projet:", error);
+    sendServerError(res, "Erreur lors du désarchivage du projet");
   }
 };
 
 /**
  * @swagger
- * /users/search:
+ * /projects/trash:
  *   get:
- *     summary: Rechercher des utilisateurs pour l'autocomplete
- *     tags: [Utilisateurs]
+ *     summary: Lister les projets de la corbeille
+ *     description: Projets supprimés dont l'utilisateur est propriétaire ou dont il administre l'espace de travail, avec leur date de purge.
+ *     tags: [Projets]
  *     security:
  *       - bearerAuth: []
- *     parameters:
- *       - in: query
- *         name: query
- *         required: true
- *         schema:
- *           type: string
- *           minLength: 2
- *         description: Terme de recherche (nom ou email)
- *         example: "alice"
  *     responses:
  *       200:
- *         description: Utilisateurs trouvés avec succès
+ *         description: Corbeille récupérée avec succès
  *         content:
  *           application/json:
  *             schema:
@@ -804,29 +1062,16 @@ export const removeContributor = async (
  *                     data:
  *                       type: object
  *                       properties:
- *                         users:
+ *                         projects:
  *                           type: array
  *                           items:
- *                             $ref: '#/components/schemas/User'
- *       400:
- *         description: Paramètre de recherche invalide
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/Error'
- *       401:
- *         description: Non authentifié
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/Error'
+ *                             $ref: '#/components/schemas/Project'
  */
-export const searchUsers = async (
+export const getTrash = async (
   req: Request,
   res: Response
 ): Promise<void> => {
   try {
-    const { query } = req.query;
     const authReq = req as AuthRequest;
 
     if (!authReq.user) {
@@ -834,8 +1079,1042 @@ export const searchUsers = async (
       return;
     }
 
-    if (!query || typeof query !== "string") {
-      sendError(res, "Paramètre de recherche requis", "MISSING_QUERY", 400);
+    const projects = await prisma.project.findMany({
+      where: {
+        ...restorableProjectsWhere(authReq.user.id),
+        // Restreindre aux projets couverts par le token d'accès personnel
+        ...(authReq.tokenScope?.projectIds && {
+          id: { in: authReq.tokenScope.projectIds },
+        }),
+      },
+      include: {
+        _count: {
+          select: {
+            tasks: true,
+          },
+        },
+      },
+      orderBy: {
+        deletedAt: "desc",
+      },
+    });
+
+    sendSuccess(res, "Corbeille récupérée avec succès", {
+      projects: projects.map((project) => ({
+        ...project,
+        purgeAt: getPurgeDate(project.deletedAt!),
+      })),
+    });
+  } catch (error) {
+    console.error("Erreur lors de la récupération de la corbeille:", error);
+    sendServerError(res, "Erreur lors de la récupération de la corbeille");
+  }
+};
+
+/**
+ * Restaurer un projet de la corbeille
+ * POST /projects/:id/restore
+ */
+export const restoreProject = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    if (!canCreateProjects(authReq.tokenScope)) {
+      sendError(
+        res,
+        "Ce token d'accès ne permet pas de restaurer des projets",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
+    const project = await prisma.project.findFirst({
+      where: {
+        id,
+        ...restorableProjectsWhere(authReq.user.id),
+      },
+    });
+
+    if (!project) {
+      sendError(
+        res,
+        "Projet non trouvé dans la corbeille",
+        "PROJECT_NOT_FOUND",
+        404
+      );
+      return;
+    }
+
+    const restoredProject = await prisma.project.update({
+      where: { id },
+      data: { deletedAt: null },
+    });
+
+    sendSuccess(res, "Projet restauré avec succès", {
+      project: restoredProject,
+    });
+  } catch (error) {
+    console.error("Erreur lors de la restauration du projet:", error);
+    sendServerError(res, "Erreur lors de la restauration du projet");
+  }
+};
+
+/**
+ * @swagger
+ * /projects/{id}/clone:
+ *   post:
+ *     summary: Cloner un projet
+ *     description: Crée un nouveau projet, dont l'utilisateur connecté est propriétaire, à partir d'un projet existant. Copier les membres nécessite le droit de gérer les membres du projet d'origine.
+ *     tags: [Projets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 description: Nom du nouveau projet ("<nom> (copie)" par défaut)
+ *               includeTasks:
+ *                 type: boolean
+ *                 default: true
+ *               includeAssignees:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Conserver les assignations des membres du nouveau projet
+ *               includeMembers:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Copier les membres et les rôles personnalisés
+ *               resetStatuses:
+ *                 type: boolean
+ *                 default: true
+ *                 description: Repasser toutes les tâches au statut initial du workflow
+ *               startDate:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Nouveau démarrage ; les échéances sont décalées d'autant par rapport à la création du projet d'origine
+ *     responses:
+ *       201:
+ *         description: Projet cloné avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         project:
+ *                           $ref: '#/components/schemas/Project'
+ *       400:
+ *         description: Données invalides
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Accès refusé au projet
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export const cloneProject = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const {
+      name,
+      includeTasks,
+      includeAssignees,
+      includeMembers,
+      resetStatuses,
+      startDate,
+    }: CloneProjectRequest = req.body;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    if (!canCreateProjects(authReq.tokenScope)) {
+      sendError(
+        res,
+        "Ce token d'accès ne permet pas de créer des projets",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
+    // Validation des données
+    const validationErrors = validateCloneProjectData({
+      name,
+      includeTasks,
+      includeAssignees,
+      includeMembers,
+      resetStatuses,
+      startDate,
+    });
+    if (validationErrors.length > 0) {
+      sendValidationError(
+        res,
+        "Options de clonage invalides",
+        validationErrors
+      );
+      return;
+    }
+
+    // Vérifier les permissions
+    const canView = await can(
+      authReq.user.id,
+      ProjectAction.VIEW_PROJECT,
+      id,
+      authReq.tokenScope
+    );
+    if (!canView) {
+      sendError(res, "Accès refusé au projet", "FORBIDDEN", 403);
+      return;
+    }
+
+    if (includeMembers) {
+      const canManageMembers = await can(
+        authReq.user.id,
+        ProjectAction.MANAGE_MEMBERS,
+        id,
+        authReq.tokenScope
+      );
+      if (!canManageMembers) {
+        sendError(
+          res,
+          "Vous n'avez pas les permissions pour copier les membres de ce projet",
+          "FORBIDDEN",
+          403
+        );
+        return;
+      }
+    }
+
+    const sourceProject = await prisma.project.findUnique({
+      where: { id },
+    });
+
+    if (!sourceProject) {
+      sendError(res, "Projet non trouvé", "PROJECT_NOT_FOUND", 404);
+      return;
+    }
+
+    // Le clone reste dans l'espace de travail si l'utilisateur en est membre
+    const workspaceId =
+      sourceProject.workspaceId &&
+      (await getWorkspaceRole(authReq.user.id, sourceProject.workspaceId))
+        ? sourceProject.workspaceId
+        : null;
+
+    const project = await prisma.project.create({
+      data: {
+        name: name?.trim() || `${sourceProject.name} (copie)`,
+        description: sourceProject.description,
+        requireTwoFactor: sourceProject.requireTwoFactor,
+        blockParentCompletion: sourceProject.blockParentCompletion,
+        ownerId: authReq.user.id,
+        workspaceId,
+      },
+    });
+
+    // Le workflow, les étiquettes et les champs personnalisés sont copiés
+    // pour que les tâches restent valides
+    await copyProjectWorkflow(id, project.id);
+    const labelIds = await copyProjectLabels(id, project.id);
+    const customFieldIds = await copyProjectCustomFields(id, project.id);
+
+    if (includeMembers) {
+      await copyProjectMembers(id, project.id, authReq.user.id);
+    }
+
+    if (includeTasks !== false) {
+      await copyProjectTasks(id, project.id, authReq.user.id, {
+        includeAssignees: includeAssignees === true,
+        resetStatuses: resetStatuses !== false,
+        shiftFrom: startDate ? sourceProject.createdAt : undefined,
+        shiftTo: startDate ? new Date(startDate) : undefined,
+        labelIds,
+        customFieldIds,
+      });
+    }
+
+    const clonedProject = await prisma.project.findUnique({
+      where: { id: project.id },
+      include: {
+        owner: {
+          select: {
+            id: true,
+            email: true,
+            name: true,
+            createdAt: true,
+            updatedAt: true,
+          },
+        },
+        members: {
+          include: {
+            user: {
+              select: {
+                id: true,
+                email: true,
+                name: true,
+                createdAt: true,
+                updatedAt: true,
+              },
+            },
+            customRole: {
+              select: {
+                id: true,
+                name: true,
+              },
+            },
+          },
+        },
+        _count: {
+          select: {
+            tasks: true,
+          },
+        },
+      },
+    });
+
+    sendSuccess(
+      res,
+      "Projet cloné avec succès",
+      { project: clonedProject },
+      201
+    );
+  } catch (error) {
+    console.error("Erreur lors du clonage du projet:", error);
+    sendServerError(res, "Erreur lors du clonage du projet");
+  }
+};
+
+/**
+ * Ajouter un contributeur à un projet
+ * POST /projects/:id/contributors
+ */
+export const addContributor = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const {
+      email,
+      role = "CONTRIBUTOR",
+      customRoleId,
+    }: AddContributorRequest = req.body;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Vérifier les permissions
+    const canManageMembers = await can(
+      authReq.user.id,
+      ProjectAction.MANAGE_MEMBERS,
+      id,
+      authReq.tokenScope
+    );
+    if (!canManageMembers) {
+      sendError(
+        res,
+        "Vous n'avez pas les permissions pour gérer les membres de ce projet",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
+    if (!email || !isValidEmail(email)) {
+      sendError(res, "Format d'email invalide", "INVALID_EMAIL", 400);
+      return;
+    }
+
+    if (!Object.values(Role).includes(role as Role)) {
+      sendError(
+        res,
+        "Le rôle doit être ADMIN, CONTRIBUTOR ou VIEWER",
+        "INVALID_ROLE",
+        400
+      );
+      return;
+    }
+
+    if (customRoleId !== undefined && !(await findProjectRole(id, customRoleId))) {
+      sendError(res, "Rôle personnalisé non trouvé", "ROLE_NOT_FOUND", 404);
+      return;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: email.toLowerCase() },
+    });
+
+    // Sans compte (ou email non vérifié si la politique l'exige) : invitation en attente
+    if (!user || !canJoinProjects(user)) {
+      await inviteToProject(id, email, role, authReq.user, customRoleId);
+
+      sendSuccess(
+        res,
+        "Invitation envoyée avec succès",
+        { contributors: { members: [], invitations: [email.toLowerCase()] } },
+        201
+      );
+      return;
+    }
+
+    // Vérifier que l'utilisateur n'est pas déjà membre
+    const existingMember = await prisma.projectMember.findUnique({
+      where: {
+        userId_projectId: {
+          userId: user.id,
+          projectId: id,
+        },
+      },
+    });
+
+    if (existingMember) {
+      sendError(
+        res,
+        "L'utilisateur est déjà membre de ce projet",
+        "USER_ALREADY_MEMBER",
+        409
+      );
+      return;
+    }
+
+    // Ajouter le membre
+    await prisma.projectMember.create({
+      data: {
+        userId: user.id,
+        projectId: id,
+        role,
+        customRoleId,
+      },
+    });
+
+    sendSuccess(res, "Contributeur ajouté avec succès", {
+      contributors: { members: [user.email], invitations: [] },
+    });
+  } catch (error) {
+    console.error("Erreur lors de l'ajout du contributeur:", error);
+    sendServerError(res, "Erreur lors de l'ajout du contributeur");
+  }
+};
+
+/**
+ * @swagger
+ * /projects/{id}/contributors/{userId}:
+ *   patch:
+ *     summary: Modifier le rôle d'un membre
+ *     description: Attribue un rôle standard et/ou un rôle personnalisé (customRoleId à null pour le retirer).
+ *     tags: [Projets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [ADMIN, CONTRIBUTOR, VIEWER]
+ *               customRoleId:
+ *                 type: string
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Rôle du membre mis à jour avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Success'
+ *       400:
+ *         description: Données invalides ou membre propriétaire
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Droits d'administration requis
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Membre ou rôle personnalisé non trouvé
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export const updateMember = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id, userId } = req.params;
+    const { role, customRoleId }: UpdateMemberRequest = req.body;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Vérifier les permissions
+    const canManageMembers = await can(
+      authReq.user.id,
+      ProjectAction.MANAGE_MEMBERS,
+      id,
+      authReq.tokenScope
+    );
+    if (!canManageMembers) {
+      sendError(
+        res,
+        "Vous n'avez pas les permissions pour gérer les membres de ce projet",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
+    // Validation des données
+    if (role === undefined && customRoleId === undefined) {
+      sendError(
+        res,
+        "Indiquez un rôle ou un rôle personnalisé",
+        "NO_CHANGES",
+        400
+      );
+      return;
+    }
+
+    if (role !== undefined && !Object.values(Role).includes(role as Role)) {
+      sendError(
+        res,
+        "Le rôle doit être ADMIN, CONTRIBUTOR ou VIEWER",
+        "INVALID_ROLE",
+        400
+      );
+      return;
+    }
+
+    if (
+      customRoleId !== undefined &&
+      customRoleId !== null &&
+      !(await findProjectRole(id, customRoleId))
+    ) {
+      sendError(res, "Rôle personnalisé non trouvé", "ROLE_NOT_FOUND", 404);
+      return;
+    }
+
+    // Le propriétaire n'a pas d'adhésion : ses droits ne se modifient pas
+    if (await isProjectOwner(userId, id)) {
+      sendError(
+        res,
+        "Le rôle du propriétaire du projet ne peut pas être modifié",
+        "CANNOT_CHANGE_OWNER_ROLE",
+        400
+      );
+      return;
+    }
+
+    const membership = await prisma.projectMember.findUnique({
+      where: {
+        userId_projectId: { userId, projectId: id },
+      },
+    });
+
+    if (!membership) {
+      sendError(
+        res,
+        "L'utilisateur n'est pas membre de ce projet",
+        "MEMBER_NOT_FOUND",
+        404
+      );
+      return;
+    }
+
+    const updatedMember = await prisma.projectMember.update({
+      where: { id: membership.id },
+      data: {
+        ...(role !== undefined && { role }),
+        ...(customRoleId !== undefined && { customRoleId }),
+      },
+      include: {
+        user: {
+          select: {
+            id: true,
+            email: true,
+            name: true,
+          },
+        },
+        customRole: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+    });
+
+    // Un membre qui ne peut plus saisir de temps n'a plus de chronomètre en cours
+    if (!(await can(userId, ProjectAction.LOG_TIME, id))) {
+      await stopRunningTimers({ userId, task: { projectId: id } });
+    }
+
+    sendSuccess(res, "Rôle du membre mis à jour avec succès", {
+      member: updatedMember,
+    });
+  } catch (error) {
+    console.error("Erreur lors de la mise à jour du membre:", error);
+    sendServerError(res, "Erreur lors de la mise à jour du membre");
+  }
+};
+
+/**
+ * Retirer un contributeur d'un projet
+ * DELETE /projects/:id/contributors/:userId
+ */
+export const removeContributor = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id, userId } = req.params;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Vérifier les permissions
+    const canManageMembers = await can(
+      authReq.user.id,
+      ProjectAction.MANAGE_MEMBERS,
+      id,
+      authReq.tokenScope
+    );
+    if (!canManageMembers) {
+      sendError(
+        res,
+        "Vous n'avez pas les permissions pour gérer les membres de ce projet",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
+    // Vérifier que l'utilisateur n'essaie pas de se retirer lui-même s'il est propriétaire
+    const isOwner = await isProjectOwner(authReq.user.id, id);
+    if (isOwner && authReq.user.id === userId) {
+      sendError(
+        res,
+        "Le propriétaire du projet ne peut pas se retirer",
+        "CANNOT_REMOVE_OWNER",
+        400
+      );
+      return;
+    }
+
+    // Supprimer le membre et arrêter ses chronomètres en cours dans le projet
+    await prisma.projectMember.deleteMany({
+      where: {
+        userId,
+        projectId: id,
+      },
+    });
+    await stopRunningTimers({ userId, task: { projectId: id } });
+
+    sendSuccess(res, "Contributeur retiré avec succès");
+  } catch (error) {
+    console.error("Erreur lors du retrait du contributeur:", error);
+    sendServerError(res, "Erreur lors du retrait du contributeur");
+  }
+};
+
+/**
+ * @swagger
+ * /projects/{id}/transfer-ownership:
+ *   post:
+ *     summary: Transférer la propriété d'un projet à un membre
+ *     description: L'ancien propriétaire devient administrateur du projet. Le transfert est historisé.
+ *     tags: [Projets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - userId
+ *             properties:
+ *               userId:
+ *                 type: string
+ *                 description: ID du membre qui devient propriétaire
+ *     responses:
+ *       200:
+ *         description: Propriété transférée avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/Project'
+ *       400:
+ *         description: Données invalides
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Seul le propriétaire peut transférer le projet
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Le nouveau propriétaire n'est pas membre du projet
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export const transferOwnership = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { userId }: TransferOwnershipRequest = req.body;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    if (!userId || typeof userId !== "string") {
+      sendError(
+        res,
+        "L'ID du nouveau propriétaire est requis",
+        "MISSING_USER_ID",
+        400
+      );
+      return;
+    }
+
+    // Seul le propriétaire du projet peut en transférer la propriété
+    const canTransfer = await can(
+      authReq.user.id,
+      ProjectAction.TRANSFER_OWNERSHIP,
+      id,
+      authReq.tokenScope
+    );
+    if (!canTransfer) {
+      sendError(
+        res,
+        "Seul le propriétaire du projet peut en transférer la propriété",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
+    if (userId === authReq.user.id) {
+      sendError(
+        res,
+        "Vous êtes déjà propriétaire de ce projet",
+        "ALREADY_OWNER",
+        400
+      );
+      return;
+    }
+
+    const membership = await prisma.projectMember.findUnique({
+      where: {
+        userId_projectId: {
+          userId,
+          projectId: id,
+        },
+      },
+    });
+
+    if (!membership) {
+      sendError(
+        res,
+        "Le nouveau propriétaire doit être membre du projet",
+        "MEMBER_NOT_FOUND",
+        404
+      );
+      return;
+    }
+
+    // Le nouveau propriétaire quitte les membres, l'ancien y entre comme administrateur
+    await prisma.$transaction([
+      prisma.projectMember.delete({
+        where: { id: membership.id },
+      }),
+      prisma.projectMember.create({
+        data: {
+          userId: authReq.user.id,
+          projectId: id,
+          role: "ADMIN",
+        },
+      }),
+      prisma.project.update({
+        where: { id },
+        data: { ownerId: userId },
+      }),
+      prisma.projectOwnershipTransfer.create({
+        data: {
+          projectId: id,
+          fromUserId: authReq.user.id,
+          toUserId: userId,
+        },
+      }),
+    ]);
+
+    const project = await prisma.project.findUnique({
+      where: { id },
+      include: {
+        owner: {
+          select: {
+            id: true,
+            email: true,
+            name: true,
+            createdAt: true,
+            updatedAt: true,
+          },
+        },
+        members: {
+          include: {
+            user: {
+              select: {
+                id: true,
+                email: true,
+                name: true,
+                createdAt: true,
+                updatedAt: true,
+              },
+            },
+            customRole: {
+              select: {
+                id: true,
+                name: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    sendSuccess(res, "Propriété du projet transférée avec succès", {
+      project,
+    });
+  } catch (error) {
+    console.error("Erreur lors du transfert de propriété:", error);
+    sendServerError(res, "Erreur lors du transfert de propriété");
+  }
+};
+
+/**
+ * Déverrouiller le compte d'un membre bloqué après trop d'échecs de connexion
+ * POST /projects/:id/contributors/:userId/unlock
+ */
+export const unlockContributor = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id, userId } = req.params;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Seul le propriétaire du projet peut déverrouiller un membre
+    const canManageSecurity = await can(
+      authReq.user.id,
+      ProjectAction.MANAGE_SECURITY,
+      id,
+      authReq.tokenScope
+    );
+    if (!canManageSecurity) {
+      sendError(
+        res,
+        "Seul le propriétaire du projet peut déverrouiller un membre",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
+    const membership = await prisma.projectMember.findUnique({
+      where: {
+        userId_projectId: {
+          userId,
+          projectId: id,
+        },
+      },
+      include: {
+        user: {
+          select: {
+            email: true,
+          },
+        },
+      },
+    });
+
+    if (!membership) {
+      sendError(
+        res,
+        "L'utilisateur n'est pas membre de ce projet",
+        "MEMBER_NOT_FOUND",
+        404
+      );
+      return;
+    }
+
+    await unlockAccount(membership.user.email);
+
+    sendSuccess(res, "Compte du membre déverrouillé avec succès");
+  } catch (error) {
+    console.error("Erreur lors du déverrouillage du membre:", error);
+    sendServerError(res, "Erreur lors du déverrouillage du membre");
+  }
+};
+
+/**
+ * @swagger
+ * /users/search:
+ *   get:
+ *     summary: Rechercher des utilisateurs pour l'autocomplete
+ *     description: |
+ *       Avec workspaceId, la recherche porte sur les membres de l'espace de travail.
+ *       Sinon, seuls les utilisateurs partageant un espace de travail ou un projet sont proposés,
+ *       ainsi que l'utilisateur dont l'email correspond exactement à la recherche.
+ *     tags: [Utilisateurs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: query
+ *         required: true
+ *         schema:
+ *           type: string
+ *           minLength: 2
+ *         description: Terme de recherche (nom ou email)
+ *         example: "alice"
+ *       - in: query
+ *         name: workspaceId
+ *         schema:
+ *           type: string
+ *         description: Restreindre aux membres d'un espace de travail
+ *     responses:
+ *       200:
+ *         description: Utilisateurs trouvés avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         users:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/User'
+ *       400:
+ *         description: Paramètre de recherche invalide
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Non authentifié
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export const searchUsers = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { query, workspaceId } = req.query;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    if (!query || typeof query !== "string") {
+      sendError(res, "Paramètre de recherche requis", "MISSING_QUERY", 400);
       return;
     }
 
@@ -850,19 +2129,67 @@ export const searchUsers = async (
       return;
     }
 
+    if (
+      workspaceId !== undefined &&
+      (typeof workspaceId !== "string" ||
+        !(await getWorkspaceRole(authReq.user.id, workspaceId)))
+    ) {
+      sendError(
+        res,
+        "Vous n'êtes pas membre de cet espace de travail",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
+    // Sans espace de travail, ne proposer que les utilisateurs avec qui l'on travaille déjà
+    const userId = authReq.user.id;
+    const visibilityFilter =
+      typeof workspaceId === "string"
+        ? { workspaceMemberships: { some: { workspaceId } } }
+        : {
+            OR: [
+              { email: searchQuery.toLowerCase() },
+              {
+                workspaceMemberships: {
+                  some: { workspace: { members: { some: { userId } } } },
+                },
+              },
+              { ownedProjects: { some: { members: { some: { userId } } } } },
+              {
+                projectMemberships: {
+                  some: {
+                    project: {
+                      OR: [
+                        { ownerId: userId },
+                        { members: { some: { userId } } },
+                      ],
+                    },
+                  },
+                },
+              },
+            ],
+          };
+
     const users = await prisma.user.findMany({
       where: {
-        OR: [
+        AND: [
           {
-            email: {
-              contains: searchQuery,
-            },
-          },
-          {
-            name: {
-              contains: searchQuery,
-            },
+            OR: [
+              {
+                email: {
+                  contains: searchQuery,
+                },
+              },
+              {
+                name: {
+                  contains: searchQuery,
+                },
+              },
+            ],
           },
+          visibilityFilter,
         ],
       },
       select: {
@@ -0,0 +1,421 @@
+import { Request, Response } from "express";
+import { PrismaClient, ProjectRole } from "@prisma/client";
+import {
+  AuthRequest,
+  CreateProjectRoleRequest,
+  ProjectAction,
+  UpdateProjectRoleRequest,
+} from "../types";
+import { can, parseRolePermissions } from "../utils/permissions";
+import {
+  validateCreateProjectRoleData,
+  validateUpdateProjectRoleData,
+} from "../utils/validation";
+import {
+  sendSuccess,
+  sendError,
+  sendValidationError,
+  sendServerError,
+} from "../utils/response";
+
+const prisma = new PrismaClient();
+
+/**
+ * Formate un rôle personnalisé pour la réponse (permissions décodées)
+ * @param role - Le rôle personnalisé
+ * @returns Le rôle avec son tableau de permissions
+ */
+const formatProjectRole = (role: ProjectRole) => ({
+  id: role.id,
+  name: role.name,
+  permissions: parseRolePermissions(role.permissions),
+  projectId: role.projectId,
+  createdAt: role.createdAt,
+  updatedAt: role.updatedAt,
+});
+
+/**
+ * @swagger
+ * /projects/{id}/roles:
+ *   get:
+ *     summary: Lister les rôles personnalisés d'un projet
+ *     tags: [Rôles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rôles récupérés avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         roles:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/ProjectRole'
+ *       403:
+ *         description: Accès refusé au projet
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export const getProjectRoles = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Vérifier l'accès au projet
+    const canView = await can(
+      authReq.user.id,
+      ProjectAction.VIEW_PROJECT,
+      id,
+      authReq.tokenScope
+    );
+    if (!canView) {
+      sendError(res, "Accès refusé au projet", "FORBIDDEN", 403);
+      return;
+    }
+
+    const roles = await prisma.projectRole.findMany({
+      where: { projectId: id },
+      orderBy: { name: "asc" },
+    });
+
+    sendSuccess(res, "Rôles récupérés avec succès", {
+      roles: roles.map(formatProjectRole),
+    });
+  } catch (error) {
+    console.error("Erreur lors de la récupération des rôles:", error);
+    sendServerError(res, "Erreur lors de la récupération des rôles");
+  }
+};
+
+/**
+ * @swagger
+ * /projects/{id}/roles:
+ *   post:
+ *     summary: Créer un rôle personnalisé
+ *     description: Les permissions possibles sont celles d'un administrateur ; la consultation du projet est toujours accordée.
+ *     tags: [Rôles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - permissions
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: "QA"
+ *               permissions:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: ["UPDATE_TASK_STATUS", "COMMENT"]
+ *     responses:
+ *       201:
+ *         description: Rôle créé avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         role:
+ *                           $ref: '#/components/schemas/ProjectRole'
+ *       400:
+ *         description: Données invalides
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Droits d'administration requis
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Un rôle porte déjà ce nom
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export const createProjectRole = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { name, permissions }: CreateProjectRoleRequest = req.body;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Validation des données
+    const validationErrors = validateCreateProjectRoleData({
+      name,
+      permissions,
+    });
+    if (validationErrors.length > 0) {
+      sendValidationError(res, "Données du rôle invalides", validationErrors);
+      return;
+    }
+
+    // Vérifier les permissions
+    const canManageRoles = await can(
+      authReq.user.id,
+      ProjectAction.MANAGE_ROLES,
+      id,
+      authReq.tokenScope
+    );
+    if (!canManageRoles) {
+      sendError(
+        res,
+        "Vous n'avez pas les permissions pour gérer les rôles de ce projet",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
+    const existingRole = await prisma.projectRole.findUnique({
+      where: {
+        projectId_name: { projectId: id, name: name.trim() },
+      },
+    });
+
+    if (existingRole) {
+      sendError(
+        res,
+        "Un rôle porte déjà ce nom dans ce projet",
+        "ROLE_NAME_TAKEN",
+        409
+      );
+      return;
+    }
+
+    const role = await prisma.projectRole.create({
+      data: {
+        name: name.trim(),
+        permissions: JSON.stringify(Array.from(new Set(permissions))),
+        projectId: id,
+      },
+    });
+
+    sendSuccess(
+      res,
+      "Rôle créé avec succès",
+      { role: formatProjectRole(role) },
+      201
+    );
+  } catch (error) {
+    console.error("Erreur lors de la création du rôle:", error);
+    sendServerError(res, "Erreur lors de la création du rôle");
+  }
+};
+
+/**
+ * Mettre à jour un rôle personnalisé
+ * PUT /projects/:id/roles/:roleId
+ */
+export const updateProjectRole = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id, roleId } = req.params;
+    const { name, permissions }: UpdateProjectRoleRequest = req.body;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Validation des données
+    const validationErrors = validateUpdateProjectRoleData({
+      name,
+      permissions,
+    });
+    if (validationErrors.length > 0) {
+      sendValidationError(res, "Données du rôle invalides", validationErrors);
+      return;
+    }
+
+    // Vérifier les permissions
+    const canManageRoles = await can(
+      authReq.user.id,
+      ProjectAction.MANAGE_ROLES,
+      id,
+      authReq.tokenScope
+    );
+    if (!canManageRoles) {
+      sendError(
+        res,
+        "Vous n'avez pas les permissions pour gérer les rôles de ce projet",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
+    const role = await prisma.projectRole.findFirst({
+      where: { id: roleId, projectId: id },
+    });
+
+    if (!role) {
+      sendError(res, "Rôle non trouvé", "ROLE_NOT_FOUND", 404);
+      return;
+    }
+
+    if (name !== undefined && name.trim() !== role.name) {
+      const existingRole = await prisma.projectRole.findUnique({
+        where: {
+          projectId_name: { projectId: id, name: name.trim() },
+        },
+      });
+
+      if (existingRole) {
+        sendError(
+          res,
+          "Un rôle porte déjà ce nom dans ce projet",
+          "ROLE_NAME_TAKEN",
+          409
+        );
+        return;
+      }
+    }
+
+    // Préparer les données de mise à jour
+    const updateData: any = {};
+    if (name !== undefined) {
+      updateData.name = name.trim();
+    }
+    if (permissions !== undefined) {
+      updateData.permissions = JSON.stringify(Array.from(new Set(permissions)));
+    }
+
+    const updatedRole = await prisma.projectRole.update({
+      where: { id: roleId },
+      data: updateData,
+    });
+
+    sendSuccess(res, "Rôle mis à jour avec succès", {
+      role: formatProjectRole(updatedRole),
+    });
+  } catch (error) {
+    console.error("Erreur lors de la mise à jour du rôle:", error);
+    sendServerError(res, "Erreur lors de la mise à jour du rôle");
+  }
+};
+
+/**
+ * Supprimer un rôle personnalisé (refusé tant qu'il est attribué)
+ * DELETE /projects/:id/roles/:roleId
+ */
+export const deleteProjectRole = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id, roleId } = req.params;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Vérifier les permissions
+    const canManageRoles = await can(
+      authReq.user.id,
+      ProjectAction.MANAGE_ROLES,
+      id,
+      authReq.tokenScope
+    );
+    if (!canManageRoles) {
+      sendError(
+        res,
+        "Vous n'avez pas les permissions pour gérer les rôles de ce projet",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
+    const role = await prisma.projectRole.findFirst({
+      where: { id: roleId, projectId: id },
+      include: {
+        _count: {
+          select: { members: true, invitations: true },
+        },
+      },
+    });
+
+    if (!role) {
+      sendError(res, "Rôle non trouvé", "ROLE_NOT_FOUND", 404);
+      return;
+    }
+
+    // Les membres concernés retomberaient sur leur rôle standard : exiger une réattribution
+    if (role._count.members > 0 || role._count.invitations > 0) {
+      sendError(
+        res,
+        "Ce rôle est encore attribué à des membres ou des invitations",
+        "ROLE_IN_USE",
+        409
+      );
+      return;
+    }
+
+    await prisma.projectRole.delete({
+      where: { id: roleId },
+    });
+
+    sendSuccess(res, "Rôle supprimé avec succès");
+  } catch (error) {
+    console.error("Erreur lors de la suppression du rôle:", error);
+    sendServerError(res, "Erreur lors de la suppression du rôle");
+  }
+};
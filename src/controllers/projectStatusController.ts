@@ -0,0 +1,213 @@
+import { Request, Response } from "express";
+import { PrismaClient } from "@prisma/client";
+import { AuthRequest, ProjectAction, UpdateWorkflowRequest } from "../types";
+import { can } from "../utils/permissions";
+import { validateUpdateWorkflowData } from "../utils/validation";
+import { getProjectWorkflow, replaceProjectWorkflow } from "../utils/workflow";
+import {
+  sendSuccess,
+  sendError,
+  sendValidationError,
+  sendServerError,
+} from "../utils/response";
+
+const prisma = new PrismaClient();
+
+/**
+ * @swagger
+ * /projects/{id}/statuses:
+ *   get:
+ *     summary: Récupérer le workflow des tâches d'un projet
+ *     description: Statuts dans l'ordre des colonnes ; le workflow par défaut (TODO, IN_PROGRESS, DONE, CANCELLED et leurs transitions) est renvoyé si le projet n'en a pas défini.
+ *     tags: [Workflow]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Workflow récupéré avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         statuses:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/ProjectStatus'
+ *       403:
+ *         description: Accès refusé au projet
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export const getProjectStatuses = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Vérifier l'accès au projet
+    const canView = await can(
+      authReq.user.id,
+      ProjectAction.VIEW_PROJECT,
+      id,
+      authReq.tokenScope
+    );
+    if (!canView) {
+      sendError(res, "Accès refusé au projet", "FORBIDDEN", 403);
+      return;
+    }
+
+    const statuses = await getProjectWorkflow(id);
+
+    sendSuccess(res, "Workflow récupéré avec succès", { statuses });
+  } catch (error) {
+    console.error("Erreur lors de la récupération du workflow:", error);
+    sendServerError(res, "Erreur lors de la récupération du workflow");
+  }
+};
+
+/**
+ * @swagger
+ * /projects/{id}/statuses:
+ *   put:
+ *     summary: Définir le workflow des tâches d'un projet
+ *     description: Remplace la liste complète des statuts (l'ordre du tableau est celui des colonnes). Un statut encore utilisé par des tâches ne peut pas être retiré.
+ *     tags: [Workflow]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - statuses
+ *             properties:
+ *               statuses:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/ProjectStatus'
+ *                 example:
+ *                   - { key: "TODO", name: "À faire", category: "TODO" }
+ *                   - { key: "IN_PROGRESS", name: "En cours", category: "IN_PROGRESS" }
+ *                   - { key: "IN_REVIEW", name: "En revue", category: "IN_PROGRESS", allowedTransitions: ["IN_PROGRESS", "DONE"] }
+ *                   - { key: "DONE", name: "Terminé", category: "DONE", allowedTransitions: ["IN_PROGRESS"] }
+ *                   - { key: "CANCELLED", name: "Annulé", category: "DONE", allowedTransitions: ["TODO"], requiresReason: true, isCancellation: true }
+ *     responses:
+ *       200:
+ *         description: Workflow mis à jour avec succès
+ *       400:
+ *         description: Données invalides
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Droits d'administration requis
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Des tâches utilisent un statut retiré
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export const updateProjectStatuses = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { statuses }: UpdateWorkflowRequest = req.body;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Validation des données
+    const validationErrors = validateUpdateWorkflowData({ statuses });
+    if (validationErrors.length > 0) {
+      sendValidationError(res, "Workflow invalide", validationErrors);
+      return;
+    }
+
+    // Vérifier les permissions
+    const canManageWorkflow = await can(
+      authReq.user.id,
+      ProjectAction.MANAGE_WORKFLOW,
+      id,
+      authReq.tokenScope
+    );
+    if (!canManageWorkflow) {
+      sendError(
+        res,
+        "Vous n'avez pas les permissions pour modifier le workflow de ce projet",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
+    // Les tâches doivent d'abord être déplacées vers un statut conservé
+    const orphanedStatuses = await prisma.task.groupBy({
+      by: ["status"],
+      where: {
+        projectId: id,
+        status: { notIn: statuses.map((status) => status.key) },
+      },
+    });
+
+    if (orphanedStatuses.length > 0) {
+      sendError(
+        res,
+        `Des tâches utilisent encore les statuts retirés : ${orphanedStatuses
+          .map((item) => item.status)
+          .join(", ")}`,
+        "STATUS_IN_USE",
+        409
+      );
+      return;
+    }
+
+    const workflow = await replaceProjectWorkflow(id, statuses);
+
+    sendSuccess(res, "Workflow mis à jour avec succès", {
+      statuses: workflow,
+    });
+  } catch (error) {
+    console.error("Erreur lors de la mise à jour du workflow:", error);
+    sendServerError(res, "Erreur lors de la mise à jour du workflow");
+  }
+};
@@ -0,0 +1,173 @@
+import { Request, Response } from "express";
+import { AuthRequest } from "../types";
+import {
+  getActiveSessions,
+  formatSession,
+  revokeSession,
+  revokeOtherSessions,
+} from "../utils/sessions";
+import { sendSuccess, sendError, sendServerError } from "../utils/response";
+
+/**
+ * @swagger
+ * /auth/sessions:
+ *   get:
+ *     summary: Lister les sessions actives de l'utilisateur connecté
+ *     description: Chaque connexion ouvre une session (appareil, IP, dernière activité). La session courante est signalée par current.
+ *     tags: [Authentification]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Sessions récupérées avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         sessions:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/Session'
+ *       401:
+ *         description: Non authentifié
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export const getSessions = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    const sessions = await getActiveSessions(authReq.user.id);
+
+    sendSuccess(res, "Sessions récupérées avec succès", {
+      sessions: sessions.map((session) =>
+        formatSession(session, authReq.sessionId)
+      ),
+    });
+  } catch (error) {
+    console.error("Erreur lors de la récupération des sessions:", error);
+    sendServerError(res, "Erreur lors de la récupération des sessions");
+  }
+};
+
+/**
+ * @swagger
+ * /auth/sessions/{sessionId}:
+ *   delete:
+ *     summary: Déconnecter une session à distance
+ *     tags: [Authentification]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Session révoquée avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Success'
+ *       404:
+ *         description: Session non trouvée
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export const deleteSession = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { sessionId } = req.params;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    const revoked = await revokeSession(authReq.user.id, sessionId);
+
+    if (!revoked) {
+      sendError(res, "Session non trouvée", "SESSION_NOT_FOUND", 404);
+      return;
+    }
+
+    sendSuccess(res, "Session révoquée avec succès");
+  } catch (error) {
+    console.error("Erreur lors de la révocation de la session:", error);
+    sendServerError(res, "Erreur lors de la révocation de la session");
+  }
+};
+
+/**
+ * @swagger
+ * /auth/sessions:
+ *   delete:
+ *     summary: Se déconnecter de toutes les autres sessions
+ *     description: Révoque toutes les sessions de l'utilisateur sauf la session courante.
+ *     tags: [Authentification]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Autres sessions révoquées avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         revokedCount:
+ *                           type: integer
+ */
+export const deleteOtherSessions = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    const revokedCount = await revokeOtherSessions(
+      authReq.user.id,
+      authReq.sessionId
+    );
+
+    sendSuccess(res, "Autres sessions révoquées avec succès", {
+      revokedCount,
+    });
+  } catch (error) {
+    console.error("Erreur lors de la révocation des sessions:", error);
+    sendServerError(res, "Erreur lors de la révocation des sessions");
+  }
+};
@@ -1,15 +1,18 @@
 import { Request, Response } from "express";
 import { PrismaClient } from "@prisma/client";
-import { CreateTaskRequest, UpdateTaskRequest, AuthRequest } from "../types";
+import {
+  CreateTaskRequest,
+  UpdateTaskRequest,
+  AuthRequest,
+  ProjectAction,
+  StatusCategory,
+  WorkflowStatus,
+} from "../types";
 import {
   validateCreateTaskData,
   validateUpdateTaskData,
 } from "../utils/validation";
-import {
-  hasProjectAccess,
-  canCreateTasks,
-  canModifyTasks,
-} from "../utils/permissions";
+import { can } from "../utils/permissions";
 import {
   sendSuccess,
   sendError,
@@ -22,6 +25,52 @@ import {
   getTaskAssignments,
 } from "../utils/taskAssignments";
 import { getTaskComments } from "../utils/taskComments";
+import {
+  getTaskLabels,
+  labelFilterWhere,
+  updateTaskLabels,
+  validateProjectLabels,
+} from "../utils/taskLabels";
+import {
+  milestoneFilterWhere,
+  validateProjectMilestone,
+} from "../utils/milestones";
+import {
+  getSubtaskDepth,
+  getSubtaskMaxDepth,
+  getSubtaskProgress,
+  getTaskSubtasks,
+  hasOpenSubtasks,
+  isValidParentTask,
+  parentTaskFilterWhere,
+} from "../utils/subtasks";
+import { getChecklistProgress, getTaskChecklist } from "../utils/taskChecklist";
+import {
+  generateNextOccurrence,
+  setTaskRecurrence,
+  toRecurrenceRule,
+} from "../utils/taskRecurrence";
+import { getSpentMinutesByTask } from "../utils/timeTracking";
+import {
+  compareCustomFieldValues,
+  getCustomFieldUserIds,
+  getCustomFieldValuesByTask,
+  getProjectCustomFields,
+  isSortableCustomField,
+  parseCustomFieldFilters,
+  setTaskCustomFieldValues,
+} from "../utils/customFields";
+import {
+  getBlockedTaskIds,
+  getOpenBlockers,
+  getTaskDependencies,
+} from "../utils/taskDependencies";
+import {
+  getInitialStatus,
+  getProjectWorkflow,
+  getStatusTimestamps,
+  isTransitionAllowed,
+} from "../utils/workflow";
 
 const prisma = new PrismaClient();
 
@@ -47,7 +96,13 @@ export const createTask = async (
       description,
       priority,
       dueDate,
+      estimateMinutes,
       assigneeIds,
+      labelIds,
+      milestoneId,
+      parentTaskId,
+      recurrence,
+      customFields,
     }: CreateTaskRequest = req.body;
     const authReq = req as AuthRequest;
 
@@ -55,14 +110,24 @@ export const createTask = async (
       sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
       return;
     }
-    // Validation des données
-    const validationErrors = validateCreateTaskData({
-      title,
-      description,
-      priority,
-      dueDate,
-      assigneeIds,
-    });
+    // Validation des données (les champs personnalisés selon ceux du projet)
+    const customFieldDefinitions = await getProjectCustomFields(projectId);
+    const validationErrors = validateCreateTaskData(
+      {
+        title,
+        description,
+        priority,
+        dueDate,
+        estimateMinutes,
+        assigneeIds,
+        labelIds,
+        milestoneId,
+        parentTaskId,
+        recurrence,
+        customFields,
+      },
+      customFieldDefinitions
+    );
     if (validationErrors.length > 0) {
       sendValidationError(
         res,
@@ -73,8 +138,13 @@ export const createTask = async (
     }
 
     // Vérifier l'accès au projet
-    const hasAccess = await hasProjectAccess(authReq.user.id, projectId);
-    if (!hasAccess) {
+    const canView = await can(
+      authReq.user.id,
+      ProjectAction.VIEW_PROJECT,
+      projectId,
+      authReq.tokenScope
+    );
+    if (!canView) {
       sendError(res, "Accès refusé au projet", "FORBIDDEN", 403);
       return;
     }
@@ -90,7 +160,12 @@ export const createTask = async (
     }
 
     // Vérifier les permissions pour créer des tâches
-    const canCreate = await canCreateTasks(authReq.user.id, projectId);
+    const canCreate = await can(
+      authReq.user.id,
+      ProjectAction.CREATE_TASK,
+      projectId,
+      authReq.tokenScope
+    );
     if (!canCreate) {
       sendError(
         res,
@@ -118,12 +193,95 @@ export const createTask = async (
       }
     }
 
+    // Vérifier que toutes les étiquettes appartiennent au projet
+    if (labelIds && labelIds.length > 0) {
+      const areValidLabels = await validateProjectLabels(projectId, labelIds);
+      if (!areValidLabels) {
+        sendError(
+          res,
+          "Certaines étiquettes n'appartiennent pas au projet",
+          "INVALID_LABELS",
+          400
+        );
+        return;
+      }
+    }
+
+    // Vérifier que les utilisateurs choisis dans les champs personnalisés sont membres du projet
+    const customFieldUserIds = customFields
+      ? getCustomFieldUserIds(customFieldDefinitions, customFields)
+      : [];
+    if (customFieldUserIds.length > 0) {
+      const areValidMembers = await validateProjectMembers(
+        projectId,
+        customFieldUserIds
+      );
+      if (!areValidMembers) {
+        sendError(
+          res,
+          "Certains utilisateurs des champs personnalisés ne sont pas membres du projet",
+          "INVALID_CUSTOM_FIELD_USER",
+          400
+        );
+        return;
+      }
+    }
+
+    // Vérifier que le jalon appartient au projet et n'est pas clôturé
+    if (milestoneId) {
+      const isValidMilestone = await validateProjectMilestone(
+        projectId,
+        milestoneId
+      );
+      if (!isValidMilestone) {
+        sendError(
+          res,
+          "Le jalon n'appartient pas au projet ou est clôturé",
+          "INVALID_MILESTONE",
+          400
+        );
+        return;
+      }
+    }
+
+    // Vérifier la tâche parente et la profondeur des sous-tâches
+    if (parentTaskId) {
+      const isValidParent = await isValidParentTask(projectId, parentTaskId);
+      if (!isValidParent) {
+        sendError(
+          res,
+          "La tâche parente n'appartient pas au projet",
+          "INVALID_PARENT_TASK",
+          400
+        );
+        return;
+      }
+
+      if ((await getSubtaskDepth(parentTaskId)) > getSubtaskMaxDepth()) {
+        sendError(
+          res,
+          `Les sous-tâches sont limitées à ${getSubtaskMaxDepth()} niveaux`,
+          "SUBTASK_DEPTH_EXCEEDED",
+          400
+        );
+        return;
+      }
+    }
+
+    // Les nouvelles tâches démarrent au statut initial du workflow du projet
+    const initialStatus = getInitialStatus(await getProjectWorkflow(projectId));
+
     // Créer la tâche
     const taskData = {
       title: title.trim(),
       description: description?.trim() || null,
+      status: initialStatus.key,
+      statusCategory: initialStatus.category,
       priority: priority || "MEDIUM",
       dueDate: dueDate ? new Date(dueDate) : null,
+      estimateMinutes: estimateMinutes ?? null,
+      milestoneId: milestoneId || null,
+      parentTaskId: parentTaskId || null,
       projectId,
       creatorId: authReq.user.id,
     };
@@ -142,6 +300,25 @@ export const createTask = async (
       await updateTaskAssignments(task.id, assigneeIds);
     }
 
+    // Ajouter les étiquettes si fournies
+    if (labelIds && labelIds.length > 0) {
+      await updateTaskLabels(task.id, labelIds);
+    }
+
+    // Enregistrer les valeurs des champs personnalisés si fournies
+    if (customFields) {
+      await setTaskCustomFieldValues(
+        task.id,
+        customFieldDefinitions,
+        customFields
+      );
+    }
+
+    // Démarrer la série si la tâche est récurrente
+    if (recurrence) {
+      await setTaskRecurrence(task, recurrence);
+    }
+
     // Récupérer la tâche complète avec les relations
     const taskWithRelations = await prisma.task.findUnique({
       where: { id: task.id },
@@ -159,6 +336,13 @@ export const createTask = async (
             name: true,
           },
         },
+        milestone: {
+          select: {
+            id: true,
+            name: true,
+            state: true,
+          },
+        },
       },
     });
 
@@ -172,14 +356,18 @@ export const createTask = async (
       return;
     }
 
-    // Ajouter les assignations et commentaires manuellement
+    // Ajouter les assignations, étiquettes et commentaires manuellement
     const assignees = await getTaskAssignments(task.id);
+    const labels = await getTaskLabels(task.id);
     const comments = await getTaskComments(task.id);
+    const customFieldValues = await getCustomFieldValuesByTask([task.id]);
 
     const taskResponse = {
       ...taskWithRelations,
       assignees,
+      labels,
       comments,
+      customFields: customFieldValues.get(task.id) ?? {},
     };
 
     sendSuccess(res, "Tâche créée avec succès", { task: taskResponse }, 201);
@@ -206,6 +394,40 @@ export const createTask = async (
  *           type: string
  *         description: ID du projet
  *         example: "clm123abc456"
+ *       - in: query
+ *         name: labelIds
+ *         schema:
+ *           type: string
+ *         description: IDs d'étiquettes séparés par des virgules (tâches portant au moins l'une d'elles)
+ *       - in: query
+ *         name: milestoneId
+ *         schema:
+ *           type: string
+ *         description: ID d'un jalon, ou "none" pour les tâches hors jalon
+ *       - in: query
+ *         name: parentTaskId
+ *         schema:
+ *           type: string
+ *         description: ID d'une tâche parente, ou "none" pour les tâches de premier niveau
+ *       - in: query
+ *         name: customField
+ *         style: deepObject
+ *         explode: true
+ *         schema:
+ *           type: object
+ *           additionalProperties: true
+ *         description: Filtres par champ personnalisé, customField[idDuChamp]=valeur ("none" pour les tâches sans valeur, valeurs séparées par des virgules pour les choix et utilisateurs, customField[idDuChamp][gte]/[lte] pour les nombres et dates)
+ *       - in: query
+ *         name: sortByCustomField
+ *         schema:
+ *           type: string
+ *         description: ID d'un champ personnalisé (texte, nombre, date ou choix unique) selon lequel trier les tâches, celles sans valeur en dernier
+ *       - in: query
+ *         name: sortOrder
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *         description: Ordre du tri par champ personnalisé (asc par défaut)
  *     responses:
  *       200:
  *         description: Tâches récupérées avec succès
@@ -223,6 +445,12 @@ export const createTask = async (
  *                           type: array
  *                           items:
  *                             $ref: '#/components/schemas/Task'
+ *       400:
+ *         description: Filtre ou tri par champ personnalisé invalide
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       401:
  *         description: Non authentifié
  *         content:
@@ -253,14 +481,58 @@ export const getTasks = async (req: Request, res: Response): Promise<void> => {
     }
 
     // Vérifier l'accès au projet
-    const hasAccess = await hasProjectAccess(authReq.user.id, projectId);
-    if (!hasAccess) {
+    const canView = await can(
+      authReq.user.id,
+      ProjectAction.VIEW_PROJECT,
+      projectId,
+      authReq.tokenScope
+    );
+    if (!canView) {
       sendError(res, "Accès refusé au projet", "FORBIDDEN", 403);
       return;
     }
 
-    const tasks = await prisma.task.findMany({
-      where: { projectId },
+    // Filtres et tri par champ personnalisé
+    const customFieldDefinitions = await getProjectCustomFields(projectId);
+    const customFieldFilters = parseCustomFieldFilters(
+      req.query.customField,
+      customFieldDefinitions
+    );
+    if (!customFieldFilters) {
+      sendError(
+        res,
+        "Filtre de champ personnalisé invalide",
+        "INVALID_CUSTOM_FIELD_FILTER",
+        400
+      );
+      return;
+    }
+
+    const sortField = req.query.sortByCustomField
+      ? customFieldDefinitions.find(
+          (definition) => definition.id === req.query.sortByCustomField
+        )
+      : undefined;
+    if (
+      req.query.sortByCustomField &&
+      (!sortField || !isSortableCustomField(sortField))
+    ) {
+      sendError(
+        res,
+        "Tri impossible selon ce champ personnalisé",
+        "INVALID_CUSTOM_FIELD_SORT",
+        400
+      );
+      return;
+    }
+
+    const allTasks = await prisma.task.findMany({
+      where: {
+        projectId,
+        ...labelFilterWhere(req.query.labelIds),
+        ...milestoneFilterWhere(req.query.milestoneId),
+        ...parentTaskFilterWhere(req.query.parentTaskId),
+      },
       include: {
         creator: {
           select: {
@@ -275,19 +547,61 @@ export const getTasks = async (req: Request, res: Response): Promise<void> => {
             name: true,
           },
         },
+        milestone: {
+          select: {
+            id: true,
+            name: true,
+            state: true,
+          },
+        },
+        _count: {
+          select: { subtasks: true, checklistItems: true },
+        },
       },
       orderBy: [{ priority: "desc" }, { createdAt: "desc" }],
     });
 
-    // Ajouter les assignations et commentaires pour chaque tâche
+    const customFieldValues = await getCustomFieldValuesByTask(
+      allTasks.map((task) => task.id)
+    );
+    const tasks = allTasks.filter((task) =>
+      customFieldFilters.every((filter) =>
+        filter(customFieldValues.get(task.id)!)
+      )
+    );
+    if (sortField) {
+      const compare = compareCustomFieldValues(
+        sortField,
+        req.query.sortOrder === "desc"
+      );
+      tasks.sort((a, b) =>
+        compare(
+          customFieldValues.get(a.id)![sortField.id],
+          customFieldValues.get(b.id)![sortField.id]
+        )
+      );
+    }
+
+    // Signaler les tâches dont une tâche bloquante n'est pas terminée
+    const blockedTaskIds = await getBlockedTaskIds(tasks.map((task) => task.id));
+    const spentMinutes = await getSpentMinutesByTask(
+      tasks.map((task) => task.id)
+    );
+
+    // Ajouter les assignations, étiquettes et commentaires pour chaque tâche
     const tasksWithAssignments = await Promise.all(
       tasks.map(async (task) => {
         const assignees = await getTaskAssignments(task.id);
+        const labels = await getTaskLabels(task.id);
         const comments = await getTaskComments(task.id);
         return {
           ...task,
           assignees,
+          labels,
           comments,
+          isBlocked: blockedTaskIds.has(task.id),
+          spentMinutes: spentMinutes.get(task.id) ?? 0,
+          customFields: customFieldValues.get(task.id)!,
         };
       })
     );
@@ -317,8 +631,13 @@ export const getTask = async (req: Request, res: Response): Promise<void> => {
     }
 
     // Vérifier l'accès au projet
-    const hasAccess = await hasProjectAccess(authReq.user.id, projectId);
-    if (!hasAccess) {
+    const canView = await can(
+      authReq.user.id,
+      ProjectAction.VIEW_PROJECT,
+      projectId,
+      authReq.tokenScope
+    );
+    if (!canView) {
       sendError(res, "Accès refusé au projet", "FORBIDDEN", 403);
       return;
     }
@@ -342,6 +661,33 @@ export const getTask = async (req: Request, res: Response): Promise<void> => {
             name: true,
           },
         },
+        milestone: {
+          select: {
+            id: true,
+            name: true,
+            state: true,
+          },
+        },
+        parentTask: {
+          select: {
+            id: true,
+            title: true,
+            status: true,
+          },
+        },
+        recurrence: true,
+        statusChanges: {
+          include: {
+            changedBy: {
+              select: {
+                id: true,
+                email: true,
+                name: true,
+              },
+            },
+          },
+          orderBy: { createdAt: "asc" },
+        },
       },
     });
 
@@ -350,14 +696,39 @@ export const getTask = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    // Ajouter les assignations et commentaires
+    // Ajouter les assignations, étiquettes, commentaires, sous-tâches, checklist et dépendances
     const assignees = await getTaskAssignments(task.id);
+    const labels = await getTaskLabels(task.id);
     const comments = await getTaskComments(task.id);
+    const subtasks = await getTaskSubtasks(task.id);
+    const subtaskProgress = await getSubtaskProgress(task.id);
+    const checklist = await getTaskChecklist(task.id);
+    const dependencies = await getTaskDependencies(task.id);
+    const spentMinutes = await getSpentMinutesByTask([task.id]);
+    const customFieldValues = await getCustomFieldValuesByTask([task.id]);
 
     const taskWithAssignments = {
       ...task,
+      recurrence: task.recurrence
+        ? {
+            ...toRecurrenceRule(task.recurrence),
+            occurrenceCount: task.recurrence.occurrenceCount,
+            nextRunAt: task.recurrence.nextRunAt,
+          }
+        : null,
       assignees,
+      labels,
       comments,
+      subtasks,
+      subtaskProgress,
+      checklist,
+      checklistProgress: getChecklistProgress(checklist),
+      ...dependencies,
+      isBlocked: dependencies.blockedBy.some(
+        (dependency) => dependency.task.statusCategory !== StatusCategory.DONE
+      ),
+      spentMinutes: spentMinutes.get(task.id) ?? 0,
+      customFields: customFieldValues.get(task.id) ?? {},
     };
 
     sendSuccess(res, "Tâche récupérée avec succès", {
@@ -384,9 +755,17 @@ export const updateTask = async (
       title,
       description,
       status,
+      statusReason,
       priority,
       dueDate,
+      estimateMinutes,
       assigneeIds,
+      labelIds,
+      milestoneId,
+      parentTaskId,
+      overrideDependencies,
+      recurrence,
+      customFields,
     }: UpdateTaskRequest = req.body;
     const authReq = req as AuthRequest;
 
@@ -395,15 +774,27 @@ export const updateTask = async (
       return;
     }
 
-    // Validation des données
-    const validationErrors = validateUpdateTaskData({
-      title,
-      description,
-      status,
-      priority,
-      dueDate,
-      assigneeIds,
-    });
+    // Validation des données (les champs personnalisés selon ceux du projet)
+    const customFieldDefinitions = await getProjectCustomFields(projectId);
+    const validationErrors = validateUpdateTaskData(
+      {
+        title,
+        description,
+        status,
+        statusReason,
+        priority,
+        dueDate,
+        estimateMinutes,
+        assigneeIds,
+        labelIds,
+        milestoneId,
+        parentTaskId,
+        overrideDependencies,
+        recurrence,
+        customFields,
+      },
+      customFieldDefinitions
+    );
     if (validationErrors.length > 0) {
       sendValidationError(
         res,
@@ -414,14 +805,48 @@ export const updateTask = async (
     }
 
     // Vérifier l'accès au projet
-    const hasAccess = await hasProjectAccess(authReq.user.id, projectId);
-    if (!hasAccess) {
+    const canView = await can(
+      authReq.user.id,
+      ProjectAction.VIEW_PROJECT,
+      projectId,
+      authReq.tokenScope
+    );
+    if (!canView) {
       sendError(res, "Accès refusé au projet", "FORBIDDEN", 403);
       return;
     }
 
     // Vérifier les permissions pour modifier des tâches
-    const canModify = await canModifyTasks(authReq.user.id, projectId);
+    // (un changement de statut seul suffit de UPDATE_TASK_STATUS)
+    const isStatusOnlyUpdate =
+      status !== undefined &&
+      [
+        title,
+        description,
+        priority,
+        dueDate,
+        estimateMinutes,
+        assigneeIds,
+        labelIds,
+        milestoneId,
+        parentTaskId,
+        recurrence,
+        customFields,
+      ].every((value) => value === undefined);
+    const canModify =
+      (await can(
+        authReq.user.id,
+        ProjectAction.EDIT_TASK,
+        projectId,
+        authReq.tokenScope
+      )) ||
+      (isStatusOnlyUpdate &&
+        (await can(
+          authReq.user.id,
+          ProjectAction.UPDATE_TASK_STATUS,
+          projectId,
+          authReq.tokenScope
+        )));
     if (!canModify) {
       sendError(
         res,
@@ -445,6 +870,26 @@ export const updateTask = async (
       return;
     }
 
+    // Une tâche récurrente garde une échéance, sur laquelle se cale la série
+    const nextDueDate =
+      dueDate !== undefined
+        ? dueDate
+          ? new Date(dueDate)
+          : null
+        : existingTask.dueDate;
+    if (
+      !nextDueDate &&
+      (recurrence || (recurrence === undefined && existingTask.recurrenceId))
+    ) {
+      sendValidationError(res, "Données de mise à jour invalides", [
+        {
+          field: "dueDate",
+          message: "Une tâche récurrente doit avoir une date d'échéance",
+        },
+      ]);
+      return;
+    }
+
     // Vérifier que tous les utilisateurs assignés sont membres du projet
     if (assigneeIds && assigneeIds.length > 0) {
       const areValidMembers = await validateProjectMembers(
@@ -462,6 +907,181 @@ export const updateTask = async (
       }
     }
 
+    // Vérifier que toutes les étiquettes appartiennent au projet
+    if (labelIds && labelIds.length > 0) {
+      const areValidLabels = await validateProjectLabels(projectId, labelIds);
+      if (!areValidLabels) {
+        sendError(
+          res,
+          "Certaines étiquettes n'appartiennent pas au projet",
+          "INVALID_LABELS",
+          400
+        );
+        return;
+      }
+    }
+
+    // Vérifier que les utilisateurs choisis dans les champs personnalisés sont membres du projet
+    const customFieldUserIds = customFields
+      ? getCustomFieldUserIds(customFieldDefinitions, customFields)
+      : [];
+    if (customFieldUserIds.length > 0) {
+      const areValidMembers = await validateProjectMembers(
+        projectId,
+        customFieldUserIds
+      );
+      if (!areValidMembers) {
+        sendError(
+          res,
+          "Certains utilisateurs des champs personnalisés ne sont pas membres du projet",
+          "INVALID_CUSTOM_FIELD_USER",
+          400
+        );
+        return;
+      }
+    }
+
+    // Vérifier que le jalon appartient au projet et n'est pas clôturé
+    if (milestoneId && milestoneId !== existingTask.milestoneId) {
+      const isValidMilestone = await validateProjectMilestone(
+        projectId,
+        milestoneId
+      );
+      if (!isValidMilestone) {
+        sendError(
+          res,
+          "Le jalon n'appartient pas au projet ou est clôturé",
+          "INVALID_MILESTONE",
+          400
+        );
+        return;
+      }
+    }
+
+    // Vérifier la tâche parente (ni la tâche, ni une de ses sous-tâches)
+    // et la profondeur atteinte par la tâche et ses sous-tâches
+    if (parentTaskId && parentTaskId !== existingTask.parentTaskId) {
+      const isValidParent = await isValidParentTask(
+        projectId,
+        parentTaskId,
+        taskId
+      );
+      if (!isValidParent) {
+        sendError(
+          res,
+          "La tâche parente doit appartenir au projet et ne peut pas être la tâche ou l'une de ses sous-tâches",
+          "INVALID_PARENT_TASK",
+          400
+        );
+        return;
+      }
+
+      if ((await getSubtaskDepth(parentTaskId, taskId)) > getSubtaskMaxDepth()) {
+        sendError(
+          res,
+          `Les sous-tâches sont limitées à ${getSubtaskMaxDepth()} niveaux`,
+          "SUBTASK_DEPTH_EXCEEDED",
+          400
+        );
+        return;
+      }
+    }
+
+    // Vérifier le statut et la transition selon le workflow du projet
+    let targetStatus: WorkflowStatus | undefined;
+    if (status !== undefined && status !== existingTask.status) {
+      const workflow = await getProjectWorkflow(projectId);
+      targetStatus = workflow.find((item) => item.key === status);
+
+      if (!targetStatus) {
+        sendValidationError(res, "Données de mise à jour invalides", [
+          {
+            field: "status",
+            message: `Le statut doit être l'un des statuts du projet : ${workflow
+              .map((item) => item.key)
+              .join(", ")}`,
+          },
+        ]);
+        return;
+      }
+
+      if (!isTransitionAllowed(workflow, existingTask.status, status)) {
+        sendError(
+          res,
+          `La transition de ${existingTask.status} vers ${status} n'est pas autorisée`,
+          "INVALID_STATUS_TRANSITION",
+          409
+        );
+        return;
+      }
+
+      // Une tâche parente reste ouverte tant que ses sous-tâches le sont
+      // (sauf si le projet a désactivé ce blocage)
+      if (targetStatus.category === StatusCategory.DONE) {
+        const project = await prisma.project.findUnique({
+          where: { id: projectId },
+          select: { blockParentCompletion: true },
+        });
+        if (project?.blockParentCompletion && (await hasOpenSubtasks(taskId))) {
+          sendError(
+            res,
+            "Terminez d'abord les sous-tâches de cette tâche",
+            "OPEN_SUBTASKS",
+            409
+          );
+          return;
+        }
+      }
+
+      // Une tâche ne démarre ni ne se termine avant ses tâches bloquantes,
+      // sauf passe-droit explicite d'un administrateur
+      if (
+        targetStatus.category === StatusCategory.IN_PROGRESS ||
+        targetStatus.category === StatusCategory.DONE
+      ) {
+        const openBlockers = await getOpenBlockers(taskId);
+        if (openBlockers.length > 0) {
+          if (!overrideDependencies) {
+            sendError(
+              res,
+              `Cette tâche est bloquée par : ${openBlockers
+                .map((blocker) => blocker.title)
+                .join(", ")}`,
+              "TASK_BLOCKED",
+              409
+            );
+            return;
+          }
+
+          const canOverride = await can(
+            authReq.user.id,
+            ProjectAction.OVERRIDE_DEPENDENCIES,
+            projectId,
+            authReq.tokenScope
+          );
+          if (!canOverride) {
+            sendError(
+              res,
+              "Seuls les administrateurs peuvent passer outre les tâches bloquantes",
+              "FORBIDDEN",
+              403
+            );
+            return;
+          }
+        }
+      }
+
+      if (targetStatus.requiresReason && !statusReason?.trim()) {
+        sendError(
+          res,
+          `Un motif (statusReason) est requis pour passer au statut ${status}`,
+          "STATUS_REASON_REQUIRED",
+          400
+        );
+        return;
+      }
+    }
+
     // Préparer les données de mise à jour
     const updateData: any = {};
     if (title !== undefined) {
@@ -470,8 +1090,13 @@ export const updateTask = async (
     if (description !== undefined) {
       updateData.description = description?.trim() || null;
     }
-    if (status !== undefined) {
-      updateData.status = status;
+    if (targetStatus) {
+      updateData.status = targetStatus.key;
+      updateData.statusCategory = targetStatus.category;
+      Object.assign(
+        updateData,
+        getStatusTimestamps(existingTask, targetStatus, new Date())
+      );
     }
     if (priority !== undefined) {
       updateData.priority = priority;
@@ -479,6 +1104,27 @@ export const updateTask = async (
     if (dueDate !== undefined) {
       updateData.dueDate = dueDate ? new Date(dueDate) : null;
     }
+    if (estimateMinutes !== undefined) {
+      updateData.estimateMinutes = estimateMinutes;
+    }
+    if (milestoneId !== undefined) {
+      updateData.milestoneId = milestoneId || null;
+    }
+    if (parentTaskId !== undefined) {
+      updateData.parentTaskId = parentTaskId || null;
+    }
+
+    // Définir, modifier ou arrêter la répétition si fournie
+    if (recurrence !== undefined) {
+      await setTaskRecurrence(
+        {
+          id: taskId,
+          dueDate: nextDueDate,
+          recurrenceId: existingTask.recurrenceId,
+        },
+        recurrence
+      );
+    }
 
     // Mettre à jour la tâche
     const updatedTask = await prisma.task.update({
@@ -498,25 +1144,73 @@ export const updateTask = async (
             name: true,
           },
         },
+        milestone: {
+          select: {
+            id: true,
+            name: true,
+            state: true,
+          },
+        },
       },
     });
 
+    // Conserver la trace du changement de statut
+    if (targetStatus) {
+      await prisma.taskStatusChange.create({
+        data: {
+          taskId,
+          fromStatus: existingTask.status,
+          toStatus: targetStatus.key,
+          reason: statusReason?.trim() || null,
+          changedById: authReq.user.id,
+        },
+      });
+    }
+
     // Mettre à jour les assignations si fournies
     if (assigneeIds !== undefined) {
       await updateTaskAssignments(taskId, assigneeIds);
     }
 
+    // Mettre à jour les étiquettes si fournies
+    if (labelIds !== undefined) {
+      await updateTaskLabels(taskId, labelIds);
+    }
+
+    // Mettre à jour les valeurs des champs personnalisés si fournies
+    if (customFields) {
+      await setTaskCustomFieldValues(
+        taskId,
+        customFieldDefinitions,
+        customFields
+      );
+    }
+
+    // Une occurrence terminée déclenche la création de la suivante ;
+    // une occurrence abandonnée est sautée (la suivante sera créée à son échéance)
+    const nextOccurrence =
+      targetStatus?.category === StatusCategory.DONE &&
+      !targetStatus.isCancellation &&
+      updatedTask.recurrenceId
+        ? await generateNextOccurrence(updatedTask.recurrenceId, taskId)
+        : null;
+
     // Récupérer la tâche avec les assignations et commentaires
     const assignees = await getTaskAssignments(taskId);
+    const labels = await getTaskLabels(taskId);
     const comments = await getTaskComments(taskId);
+    const customFieldValues = await getCustomFieldValuesByTask([taskId]);
     const taskWithAssignments = {
       ...updatedTask,
       assignees,
+      labels,
       comments,
+      customFields: customFieldValues.get(taskId) ?? {},
     };
 
     sendSuccess(res, "Tâche mise à jour avec succès", {
       task: taskWithAssignments,
+      ...(nextOccurrence ? { nextOccurrence } : {}),
     });
   } catch (error) {
     console.error("Erreur lors de la mise à jour de la tâche:", error);
@@ -543,24 +1237,17 @@ export const deleteTask = async (
     }
 
     // Vérifier l'accès au projet
-    const hasAccess = await hasProjectAccess(authReq.user.id, projectId);
-    if (!hasAccess) {
+    const canView = await can(
+      authReq.user.id,
+      ProjectAction.VIEW_PROJECT,
+      projectId,
+      authReq.tokenScope
+    );
+    if (!canView) {
       sendError(res, "Accès refusé au projet", "FORBIDDEN", 403);
       return;
     }
 
-    // Vérifier les permissions pour modifier des tâches
-    const canModify = await canModifyTasks(authReq.user.id, projectId);
-    if (!canModify) {
-      sendError(
-        res,
-        "Vous n'avez pas les permissions pour supprimer des tâches dans ce projet",
-        "FORBIDDEN",
-        403
-      );
-      return;
-    }
-
     // Vérifier que la tâche existe
     const existingTask = await prisma.task.findFirst({
       where: {
@@ -574,6 +1261,31 @@ export const deleteTask = async (
       return;
     }
 
+    // Vérifier les permissions : toute tâche, ou seulement celles créées par l'utilisateur
+    const canDelete =
+      (await can(
+        authReq.user.id,
+        ProjectAction.DELETE_TASK,
+        projectId,
+        authReq.tokenScope
+      )) ||
+      (existingTask.creatorId === authReq.user.id &&
+        (await can(
+          authReq.user.id,
+          ProjectAction.DELETE_OWN_TASK,
+          projectId,
+          authReq.tokenScope
+        )));
+    if (!canDelete) {
+      sendError(
+        res,
+        "Vous n'avez pas les permissions pour supprimer cette tâche",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
     // Supprimer la tâche
     await prisma.task.delete({
       where: { id: taskId },
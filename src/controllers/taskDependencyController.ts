@@ -0,0 +1,276 @@
+import { Request, Response } from "express";
+import { PrismaClient } from "@prisma/client";
+import {
+  AuthRequest,
+  CreateTaskDependencyRequest,
+  ProjectAction,
+} from "../types";
+import { can } from "../utils/permissions";
+import { validateCreateTaskDependencyData } from "../utils/validation";
+import { createsDependencyCycle } from "../utils/taskDependencies";
+import {
+  sendSuccess,
+  sendError,
+  sendValidationError,
+  sendServerError,
+} from "../utils/response";
+
+const prisma = new PrismaClient();
+
+/**
+ * @swagger
+ * /projects/{id}/tasks/{taskId}/dependencies:
+ *   post:
+ *     summary: Ajouter une dépendance entre deux tâches du projet
+ *     description: Avec blockingTaskId, la tâche est bloquée par l'autre tâche ; avec blockedTaskId, elle la bloque. Une dépendance qui fermerait un cycle est refusée.
+ *     tags: [Tâches]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: taskId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               blockingTaskId:
+ *                 type: string
+ *                 description: Tâche qui doit être terminée avant celle-ci
+ *               blockedTaskId:
+ *                 type: string
+ *                 description: Tâche qui attend celle-ci
+ *     responses:
+ *       201:
+ *         description: Dépendance ajoutée avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         dependency:
+ *                           $ref: '#/components/schemas/TaskDependency'
+ *       400:
+ *         description: Données invalides ou tâche liée hors du projet
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Permissions insuffisantes
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Tâche non trouvée
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Dépendance existante ou cycle de dépendances
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export const createTaskDependency = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id, taskId } = req.params;
+    const { blockingTaskId, blockedTaskId }: CreateTaskDependencyRequest =
+      req.body;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Validation des données
+    const validationErrors = validateCreateTaskDependencyData({
+      blockingTaskId,
+      blockedTaskId,
+    });
+    if (validationErrors.length > 0) {
+      sendValidationError(
+        res,
+        "Données de la dépendance invalides",
+        validationErrors
+      );
+      return;
+    }
+
+    // Vérifier les permissions pour modifier des tâches
+    const canEdit = await can(
+      authReq.user.id,
+      ProjectAction.EDIT_TASK,
+      id,
+      authReq.tokenScope
+    );
+    if (!canEdit) {
+      sendError(
+        res,
+        "Vous n'avez pas les permissions pour modifier des tâches dans ce projet",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
+    const task = await prisma.task.findFirst({
+      where: { id: taskId, projectId: id },
+      select: { id: true },
+    });
+
+    if (!task) {
+      sendError(res, "Tâche non trouvée", "TASK_NOT_FOUND", 404);
+      return;
+    }
+
+    // La tâche liée doit être une autre tâche du même projet
+    const linkedTaskId = (blockingTaskId ?? blockedTaskId)!;
+    const linkedTask = await prisma.task.findFirst({
+      where: { id: linkedTaskId, projectId: id },
+      select: { id: true },
+    });
+
+    if (!linkedTask || linkedTask.id === taskId) {
+      sendError(
+        res,
+        "La tâche liée doit être une autre tâche du projet",
+        "INVALID_DEPENDENCY",
+        400
+      );
+      return;
+    }
+
+    const blocking = blockingTaskId ? linkedTask.id : taskId;
+    const blocked = blockingTaskId ? taskId : linkedTask.id;
+
+    const existingDependency = await prisma.taskDependency.findUnique({
+      where: {
+        blockingTaskId_blockedTaskId: {
+          blockingTaskId: blocking,
+          blockedTaskId: blocked,
+        },
+      },
+    });
+
+    if (existingDependency) {
+      sendError(
+        res,
+        "Cette dépendance existe déjà",
+        "DEPENDENCY_EXISTS",
+        409
+      );
+      return;
+    }
+
+    if (await createsDependencyCycle(blocking, blocked)) {
+      sendError(
+        res,
+        "Cette dépendance créerait un cycle entre les tâches",
+        "DEPENDENCY_CYCLE",
+        409
+      );
+      return;
+    }
+
+    const dependency = await prisma.taskDependency.create({
+      data: {
+        blockingTaskId: blocking,
+        blockedTaskId: blocked,
+      },
+      include: {
+        blockingTask: {
+          select: { id: true, title: true, status: true },
+        },
+        blockedTask: {
+          select: { id: true, title: true, status: true },
+        },
+      },
+    });
+
+    sendSuccess(res, "Dépendance ajoutée avec succès", { dependency }, 201);
+  } catch (error) {
+    console.error("Erreur lors de l'ajout de la dépendance:", error);
+    sendServerError(res, "Erreur lors de l'ajout de la dépendance");
+  }
+};
+
+/**
+ * Supprimer une dépendance d'une tâche (dans un sens ou dans l'autre)
+ * DELETE /projects/:id/tasks/:taskId/dependencies/:dependencyId
+ */
+export const deleteTaskDependency = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id, taskId, dependencyId } = req.params;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Vérifier les permissions pour modifier des tâches
+    const canEdit = await can(
+      authReq.user.id,
+      ProjectAction.EDIT_TASK,
+      id,
+      authReq.tokenScope
+    );
+    if (!canEdit) {
+      sendError(
+        res,
+        "Vous n'avez pas les permissions pour modifier des tâches dans ce projet",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
+    const dependency = await prisma.taskDependency.findFirst({
+      where: {
+        id: dependencyId,
+        OR: [{ blockingTaskId: taskId }, { blockedTaskId: taskId }],
+        blockedTask: { projectId: id },
+      },
+    });
+
+    if (!dependency) {
+      sendError(res, "Dépendance non trouvée", "DEPENDENCY_NOT_FOUND", 404);
+      return;
+    }
+
+    await prisma.taskDependency.delete({
+      where: { id: dependencyId },
+    });
+
+    sendSuccess(res, "Dépendance supprimée avec succès");
+  } catch (error) {
+    console.error("Erreur lors de la suppression de la dépendance:", error);
+    sendServerError(res, "Erreur lors de la suppression de la dépendance");
+  }
+};
@@ -0,0 +1,336 @@
+import { Request, Response } from "express";
+import { PrismaClient, ProjectTemplate } from "@prisma/client";
+import {
+  AuthRequest,
+  CreateProjectTemplateRequest,
+  ProjectAction,
+} from "../types";
+import { validateCreateProjectTemplateData } from "../utils/validation";
+import {
+  can,
+  canCreateProjects,
+  getWorkspaceRole,
+  isWorkspaceAdminRole,
+} from "../utils/permissions";
+import {
+  accessibleTemplatesWhere,
+  parseTemplateTasks,
+  toTemplateTasks,
+} from "../utils/projectTemplates";
+import {
+  sendSuccess,
+  sendError,
+  sendValidationError,
+  sendServerError,
+} from "../utils/response";
+
+const prisma = new PrismaClient();
+
+/**
+ * Formate un modèle pour la réponse (tâches décodées)
+ * @param template - Le modèle de projet
+ * @returns Le modèle avec son tableau de tâches
+ */
+const formatTemplate = (template: ProjectTemplate) => ({
+  id: template.id,
+  name: template.name,
+  description: template.description,
+  tasks: parseTemplateTasks(template.tasks),
+  createdById: template.createdById,
+  workspaceId: template.workspaceId,
+  createdAt: template.createdAt,
+  updatedAt: template.updatedAt,
+});
+
+/**
+ * @swagger
+ * /projects/{id}/templates:
+ *   post:
+ *     summary: Enregistrer un projet comme modèle
+ *     description: Les tâches du projet sont enregistrées avec des échéances relatives à sa création. Le modèle est partagé avec les membres de l'espace de travail du projet.
+ *     tags: [Modèles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 description: Nom du modèle (nom du projet par défaut)
+ *               description:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Modèle créé avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         template:
+ *                           $ref: '#/components/schemas/ProjectTemplate'
+ *       403:
+ *         description: Accès refusé au projet
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export const createProjectTemplate = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { name, description }: CreateProjectTemplateRequest = req.body;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    if (!canCreateProjects(authReq.tokenScope)) {
+      sendError(
+        res,
+        "Ce token d'accès ne permet pas de gérer les modèles",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
+    // Validation des données
+    const validationErrors = validateCreateProjectTemplateData({
+      name,
+      description,
+    });
+    if (validationErrors.length > 0) {
+      sendValidationError(res, "Données du modèle invalides", validationErrors);
+      return;
+    }
+
+    // Vérifier l'accès au projet
+    const canView = await can(
+      authReq.user.id,
+      ProjectAction.VIEW_PROJECT,
+      id,
+      authReq.tokenScope
+    );
+    if (!canView) {
+      sendError(res, "Accès refusé au projet", "FORBIDDEN", 403);
+      return;
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id },
+      include: {
+        tasks: {
+          orderBy: { createdAt: "asc" },
+        },
+      },
+    });
+
+    if (!project) {
+      sendError(res, "Projet non trouvé", "PROJECT_NOT_FOUND", 404);
+      return;
+    }
+
+    const template = await prisma.projectTemplate.create({
+      data: {
+        name: name?.trim() || project.name,
+        description: description?.trim() || project.description,
+        tasks: JSON.stringify(toTemplateTasks(project.tasks, project.createdAt)),
+        createdById: authReq.user.id,
+        workspaceId: project.workspaceId,
+      },
+    });
+
+    sendSuccess(
+      res,
+      "Modèle créé avec succès",
+      { template: formatTemplate(template) },
+      201
+    );
+  } catch (error) {
+    console.error("Erreur lors de la création du modèle:", error);
+    sendServerError(res, "Erreur lors de la création du modèle");
+  }
+};
+
+/**
+ * @swagger
+ * /templates:
+ *   get:
+ *     summary: Lister les modèles de projets accessibles
+ *     description: Modèles créés par l'utilisateur et modèles de ses espaces de travail.
+ *     tags: [Modèles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: workspaceId
+ *         schema:
+ *           type: string
+ *         description: Restreindre aux modèles d'un espace de travail
+ *     responses:
+ *       200:
+ *         description: Modèles récupérés avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         templates:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/ProjectTemplate'
+ */
+export const getTemplates = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    const { workspaceId } = req.query;
+
+    const templates = await prisma.projectTemplate.findMany({
+      where: {
+        ...accessibleTemplatesWhere(authReq.user.id),
+        ...(typeof workspaceId === "string" && { workspaceId }),
+      },
+      orderBy: { name: "asc" },
+    });
+
+    sendSuccess(res, "Modèles récupérés avec succès", {
+      templates: templates.map(formatTemplate),
+    });
+  } catch (error) {
+    console.error("Erreur lors de la récupération des modèles:", error);
+    sendServerError(res, "Erreur lors de la récupération des modèles");
+  }
+};
+
+/**
+ * Récupérer un modèle de projet
+ * GET /templates/:id
+ */
+export const getTemplate = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    const template = await prisma.projectTemplate.findFirst({
+      where: { id, ...accessibleTemplatesWhere(authReq.user.id) },
+    });
+
+    if (!template) {
+      sendError(res, "Modèle non trouvé", "TEMPLATE_NOT_FOUND", 404);
+      return;
+    }
+
+    sendSuccess(res, "Modèle récupéré avec succès", {
+      template: formatTemplate(template),
+    });
+  } catch (error) {
+    console.error("Erreur lors de la récupération du modèle:", error);
+    sendServerError(res, "Erreur lors de la récupération du modèle");
+  }
+};
+
+/**
+ * Supprimer un modèle de projet (créateur ou administrateur de l'espace de travail)
+ * DELETE /templates/:id
+ */
+export const deleteTemplate = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    if (!canCreateProjects(authReq.tokenScope)) {
+      sendError(
+        res,
+        "Ce token d'accès ne permet pas de gérer les modèles",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
+    const template = await prisma.projectTemplate.findFirst({
+      where: { id, ...accessibleTemplatesWhere(authReq.user.id) },
+    });
+
+    if (!template) {
+      sendError(res, "Modèle non trouvé", "TEMPLATE_NOT_FOUND", 404);
+      return;
+    }
+
+    // Vérifier les permissions
+    const isCreator = template.createdById === authReq.user.id;
+    const isWorkspaceAdmin =
+      !!template.workspaceId &&
+      isWorkspaceAdminRole(
+        await getWorkspaceRole(authReq.user.id, template.workspaceId)
+      );
+    if (!isCreator && !isWorkspaceAdmin) {
+      sendError(
+        res,
+        "Vous n'avez pas les permissions pour supprimer ce modèle",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
+    await prisma.projectTemplate.delete({
+      where: { id },
+    });
+
+    sendSuccess(res, "Modèle supprimé avec succès");
+  } catch (error) {
+    console.error("Erreur lors de la suppression du modèle:", error);
+    sendServerError(res, "Erreur lors de la suppression du modèle");
+  }
+};
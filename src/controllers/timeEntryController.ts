@@ -0,0 +1,712 @@
+import { Request, Response } from "express";
+import { PrismaClient } from "@prisma/client";
+import {
+  AuthRequest,
+  CreateTimeEntryRequest,
+  ProjectAction,
+  TimerRequest,
+  UpdateTimeEntryRequest,
+} from "../types";
+import { can } from "../utils/permissions";
+import {
+  validateCreateTimeEntryData,
+  validateTimerData,
+  validateUpdateTimeEntryData,
+} from "../utils/validation";
+import {
+  getDurationMinutes,
+  getRunningTimer,
+  getTaskTimeTotals,
+  resolveTimeEntryPeriod,
+  timeEntryInclude,
+} from "../utils/timeTracking";
+import {
+  sendSuccess,
+  sendError,
+  sendValidationError,
+  sendServerError,
+} from "../utils/response";
+
+const prisma = new PrismaClient();
+
+/**
+ * @swagger
+ * /projects/{id}/tasks/{taskId}/time-entries:
+ *   get:
+ *     summary: Récupérer le temps saisi sur une tâche
+ *     description: Saisies de temps (chronomètres en cours compris) et totaux estimé/passé de la tâche, en minutes.
+ *     tags: [Suivi du temps]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: taskId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Saisies de temps récupérées avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         timeEntries:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/TimeEntry'
+ *                         totals:
+ *                           $ref: '#/components/schemas/TimeTotals'
+ *       403:
+ *         description: Accès refusé au projet
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Tâche non trouvée
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export const getTimeEntries = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id, taskId } = req.params;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Vérifier l'accès au projet
+    const canView = await can(
+      authReq.user.id,
+      ProjectAction.VIEW_PROJECT,
+      id,
+      authReq.tokenScope
+    );
+    if (!canView) {
+      sendError(res, "Accès refusé au projet", "FORBIDDEN", 403);
+      return;
+    }
+
+    const task = await prisma.task.findFirst({
+      where: { id: taskId, projectId: id },
+      select: { id: true, estimateMinutes: true },
+    });
+
+    if (!task) {
+      sendError(res, "Tâche non trouvée", "TASK_NOT_FOUND", 404);
+      return;
+    }
+
+    const timeEntries = await prisma.timeEntry.findMany({
+      where: { taskId },
+      include: timeEntryInclude,
+      orderBy: { startedAt: "desc" },
+    });
+
+    sendSuccess(res, "Saisies de temps récupérées avec succès", {
+      timeEntries,
+      totals: await getTaskTimeTotals(task),
+    });
+  } catch (error) {
+    console.error("Erreur lors de la récupération du temps saisi:", error);
+    sendServerError(res, "Erreur lors de la récupération du temps saisi");
+  }
+};
+
+/**
+ * @swagger
+ * /projects/{id}/tasks/{taskId}/time-entries:
+ *   post:
+ *     summary: Saisir du temps passé sur une tâche
+ *     description: Indiquer soit le début et la fin, soit une durée (terminée maintenant, ou au début indiqué augmenté de la durée).
+ *     tags: [Suivi du temps]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: taskId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               startedAt:
+ *                 type: string
+ *                 format: date-time
+ *               endedAt:
+ *                 type: string
+ *                 format: date-time
+ *               durationMinutes:
+ *                 type: integer
+ *                 example: 90
+ *               note:
+ *                 type: string
+ *                 example: "Revue de code"
+ *     responses:
+ *       201:
+ *         description: Temps saisi avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         timeEntry:
+ *                           $ref: '#/components/schemas/TimeEntry'
+ *       400:
+ *         description: Données invalides ou fin antérieure au début
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Permissions insuffisantes
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Tâche non trouvée
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export const createTimeEntry = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id, taskId } = req.params;
+    const {
+      startedAt,
+      endedAt,
+      durationMinutes,
+      note,
+    }: CreateTimeEntryRequest = req.body;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Validation des données
+    const validationErrors = validateCreateTimeEntryData({
+      startedAt,
+      endedAt,
+      durationMinutes,
+      note,
+    });
+    if (validationErrors.length > 0) {
+      sendValidationError(
+        res,
+        "Données de la saisie de temps invalides",
+        validationErrors
+      );
+      return;
+    }
+
+    // Vérifier les permissions pour saisir du temps
+    const canLog = await can(
+      authReq.user.id,
+      ProjectAction.LOG_TIME,
+      id,
+      authReq.tokenScope
+    );
+    if (!canLog) {
+      sendError(
+        res,
+        "Vous n'avez pas les permissions pour saisir du temps dans ce projet",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
+    const task = await prisma.task.findFirst({
+      where: { id: taskId, projectId: id },
+      select: { id: true },
+    });
+
+    if (!task) {
+      sendError(res, "Tâche non trouvée", "TASK_NOT_FOUND", 404);
+      return;
+    }
+
+    const period = resolveTimeEntryPeriod({
+      startedAt,
+      endedAt,
+      durationMinutes,
+    });
+    if (!period) {
+      sendError(
+        res,
+        "La fin de la saisie doit suivre son début",
+        "INVALID_TIME_RANGE",
+        400
+      );
+      return;
+    }
+
+    const timeEntry = await prisma.timeEntry.create({
+      data: {
+        ...period,
+        note: note?.trim() || null,
+        taskId,
+        userId: authReq.user.id,
+      },
+      include: timeEntryInclude,
+    });
+
+    sendSuccess(res, "Temps saisi avec succès", { timeEntry }, 201);
+  } catch (error) {
+    console.error("Erreur lors de la saisie du temps:", error);
+    sendServerError(res, "Erreur lors de la saisie du temps");
+  }
+};
+
+/**
+ * Modifier une saisie de temps (les siennes, ou toutes avec MANAGE_TIME_ENTRIES)
+ * PUT /projects/:id/tasks/:taskId/time-entries/:entryId
+ */
+export const updateTimeEntry = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id, taskId, entryId } = req.params;
+    const {
+      startedAt,
+      endedAt,
+      durationMinutes,
+      note,
+    }: UpdateTimeEntryRequest = req.body;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Validation des données
+    const validationErrors = validateUpdateTimeEntryData({
+      startedAt,
+      endedAt,
+      durationMinutes,
+      note,
+    });
+    if (validationErrors.length > 0) {
+      sendValidationError(
+        res,
+        "Données de la saisie de temps invalides",
+        validationErrors
+      );
+      return;
+    }
+
+    // Vérifier l'accès au projet
+    const canView = await can(
+      authReq.user.id,
+      ProjectAction.VIEW_PROJECT,
+      id,
+      authReq.tokenScope
+    );
+    if (!canView) {
+      sendError(res, "Accès refusé au projet", "FORBIDDEN", 403);
+      return;
+    }
+
+    const existingEntry = await prisma.timeEntry.findFirst({
+      where: { id: entryId, taskId, task: { projectId: id } },
+    });
+
+    if (!existingEntry) {
+      sendError(
+        res,
+        "Saisie de temps non trouvée",
+        "TIME_ENTRY_NOT_FOUND",
+        404
+      );
+      return;
+    }
+
+    // Vérifier les permissions : saisir du temps pour ses propres saisies,
+    // gérer le temps saisi pour celles des autres
+    const canModify = await can(
+      authReq.user.id,
+      existingEntry.userId === authReq.user.id
+        ? ProjectAction.LOG_TIME
+        : ProjectAction.MANAGE_TIME_ENTRIES,
+      id,
+      authReq.tokenScope
+    );
+    if (!canModify) {
+      sendError(
+        res,
+        "Vous ne pouvez modifier que vos propres saisies de temps",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
+    const period = resolveTimeEntryPeriod(
+      { startedAt, endedAt, durationMinutes },
+      existingEntry
+    );
+    if (!period) {
+      sendError(
+        res,
+        "La fin de la saisie doit suivre son début",
+        "INVALID_TIME_RANGE",
+        400
+      );
+      return;
+    }
+
+    const timeEntry = await prisma.timeEntry.update({
+      where: { id: entryId },
+      data: {
+        ...period,
+        ...(note !== undefined ? { note: note?.trim() || null } : {}),
+      },
+      include: timeEntryInclude,
+    });
+
+    sendSuccess(res, "Saisie de temps mise à jour avec succès", { timeEntry });
+  } catch (error) {
+    console.error("Erreur lors de la mise à jour du temps saisi:", error);
+    sendServerError(res, "Erreur lors de la mise à jour du temps saisi");
+  }
+};
+
+/**
+ * Supprimer une saisie de temps (les siennes, ou toutes avec MANAGE_TIME_ENTRIES)
+ * DELETE /projects/:id/tasks/:taskId/time-entries/:entryId
+ */
+export const deleteTimeEntry = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id, taskId, entryId } = req.params;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Vérifier l'accès au projet
+    const canView = await can(
+      authReq.user.id,
+      ProjectAction.VIEW_PROJECT,
+      id,
+      authReq.tokenScope
+    );
+    if (!canView) {
+      sendError(res, "Accès refusé au projet", "FORBIDDEN", 403);
+      return;
+    }
+
+    const existingEntry = await prisma.timeEntry.findFirst({
+      where: { id: entryId, taskId, task: { projectId: id } },
+    });
+
+    if (!existingEntry) {
+      sendError(
+        res,
+        "Saisie de temps non trouvée",
+        "TIME_ENTRY_NOT_FOUND",
+        404
+      );
+      return;
+    }
+
+    // Vérifier les permissions : saisir du temps pour ses propres saisies,
+    // gérer le temps saisi pour celles des autres
+    const canDelete = await can(
+      authReq.user.id,
+      existingEntry.userId === authReq.user.id
+        ? ProjectAction.LOG_TIME
+        : ProjectAction.MANAGE_TIME_ENTRIES,
+      id,
+      authReq.tokenScope
+    );
+    if (!canDelete) {
+      sendError(
+        res,
+        "Vous ne pouvez supprimer que vos propres saisies de temps",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
+    await prisma.timeEntry.delete({
+      where: { id: entryId },
+    });
+
+    sendSuccess(res, "Saisie de temps supprimée avec succès");
+  } catch (error) {
+    console.error("Erreur lors de la suppression du temps saisi:", error);
+    sendServerError(res, "Erreur lors de la suppression du temps saisi");
+  }
+};
+
+/**
+ * @swagger
+ * /projects/{id}/tasks/{taskId}/time-entries/start:
+ *   post:
+ *     summary: Démarrer le chronomètre sur une tâche
+ *     description: Un utilisateur n'a qu'un chronomètre en cours à la fois, toutes tâches confondues.
+ *     tags: [Suivi du temps]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: taskId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Chronomètre démarré
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         timeEntry:
+ *                           $ref: '#/components/schemas/TimeEntry'
+ *       403:
+ *         description: Permissions insuffisantes
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Tâche non trouvée
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Un chronomètre est déjà en cours
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export const startTimer = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id, taskId } = req.params;
+    const { note }: TimerRequest = req.body ?? {};
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Validation des données
+    const validationErrors = validateTimerData({ note });
+    if (validationErrors.length > 0) {
+      sendValidationError(
+        res,
+        "Données du chronomètre invalides",
+        validationErrors
+      );
+      return;
+    }
+
+    // Vérifier les permissions pour saisir du temps
+    const canLog = await can(
+      authReq.user.id,
+      ProjectAction.LOG_TIME,
+      id,
+      authReq.tokenScope
+    );
+    if (!canLog) {
+      sendError(
+        res,
+        "Vous n'avez pas les permissions pour saisir du temps dans ce projet",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
+    const task = await prisma.task.findFirst({
+      where: { id: taskId, projectId: id },
+      select: { id: true },
+    });
+
+    if (!task) {
+      sendError(res, "Tâche non trouvée", "TASK_NOT_FOUND", 404);
+      return;
+    }
+
+    // Un seul chronomètre en cours par utilisateur
+    const runningTimer = await getRunningTimer(authReq.user.id);
+    if (runningTimer) {
+      sendError(
+        res,
+        `Un chronomètre est déjà en cours sur la tâche « ${runningTimer.task.title} »`,
+        "TIMER_ALREADY_RUNNING",
+        409
+      );
+      return;
+    }
+
+    const timeEntry = await prisma.timeEntry.create({
+      data: {
+        startedAt: new Date(),
+        note: note?.trim() || null,
+        taskId,
+        userId: authReq.user.id,
+      },
+      include: timeEntryInclude,
+    });
+
+    sendSuccess(res, "Chronomètre démarré", { timeEntry }, 201);
+  } catch (error) {
+    console.error("Erreur lors du démarrage du chronomètre:", error);
+    sendServerError(res, "Erreur lors du démarrage du chronomètre");
+  }
+};
+
+/**
+ * Arrêter son chronomètre en cours sur une tâche
+ * POST /projects/:id/tasks/:taskId/time-entries/stop
+ */
+export const stopTimer = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id, taskId } = req.params;
+    const { note }: TimerRequest = req.body ?? {};
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Validation des données
+    const validationErrors = validateTimerData({ note });
+    if (validationErrors.length > 0) {
+      sendValidationError(
+        res,
+        "Données du chronomètre invalides",
+        validationErrors
+      );
+      return;
+    }
+
+    // Vérifier les permissions pour saisir du temps
+    const canLog = await can(
+      authReq.user.id,
+      ProjectAction.LOG_TIME,
+      id,
+      authReq.tokenScope
+    );
+    if (!canLog) {
+      sendError(
+        res,
+        "Vous n'avez pas les permissions pour saisir du temps dans ce projet",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
+    const runningEntry = await prisma.timeEntry.findFirst({
+      where: {
+        taskId,
+        task: { projectId: id },
+        userId: authReq.user.id,
+        endedAt: null,
+      },
+    });
+
+    if (!runningEntry) {
+      sendError(
+        res,
+        "Aucun chronomètre en cours sur cette tâche",
+        "NO_RUNNING_TIMER",
+        404
+      );
+      return;
+    }
+
+    const endedAt = new Date();
+    const timeEntry = await prisma.timeEntry.update({
+      where: { id: runningEntry.id },
+      data: {
+        endedAt,
+        durationMinutes: getDurationMinutes(runningEntry.startedAt, endedAt),
+        ...(note !== undefined ? { note: note.trim() || null } : {}),
+      },
+      include: timeEntryInclude,
+    });
+
+    sendSuccess(res, "Chronomètre arrêté", { timeEntry });
+  } catch (error) {
+    console.error("Erreur lors de l'arrêt du chronomètre:", error);
+    sendServerError(res, "Erreur lors de l'arrêt du chronomètre");
+  }
+};
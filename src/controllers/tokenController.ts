@@ -0,0 +1,234 @@
+import { Request, Response } from "express";
+import { PrismaClient } from "@prisma/client";
+import {
+  AuthRequest,
+  CreatePersonalAccessTokenRequest,
+  ProjectAction,
+  TokenAccess,
+} from "../types";
+import { validateCreatePersonalAccessTokenData } from "../utils/validation";
+import { can } from "../utils/permissions";
+import {
+  issuePersonalAccessToken,
+  formatPersonalAccessToken,
+} from "../utils/personalAccessTokens";
+import {
+  sendSuccess,
+  sendError,
+  sendValidationError,
+  sendServerError,
+} from "../utils/response";
+
+const prisma = new PrismaClient();
+
+/**
+ * @swagger
+ * /auth/tokens:
+ *   get:
+ *     summary: Lister les tokens d'accès personnels de l'utilisateur connecté
+ *     tags: [Authentification]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Tokens récupérés avec succès (sans leur valeur)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Success'
+ *       401:
+ *         description: Non authentifié
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export const getPersonalAccessTokens = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    const tokens = await prisma.personalAccessToken.findMany({
+      where: { userId: authReq.user.id },
+      orderBy: { createdAt: "desc" },
+    });
+
+    sendSuccess(res, "Tokens d'accès récupérés avec succès", {
+      tokens: tokens.map(formatPersonalAccessToken),
+    });
+  } catch (error) {
+    console.error("Erreur lors de la récupération des tokens d'accès:", error);
+    sendServerError(res, "Erreur lors de la récupération des tokens d'accès");
+  }
+};
+
+/**
+ * @swagger
+ * /auth/tokens:
+ *   post:
+ *     summary: Créer un token d'accès personnel (scripts, CI)
+ *     description: La valeur du token n'est renvoyée qu'une seule fois, à la création.
+ *     tags: [Authentification]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: "Pipeline CI"
+ *               scope:
+ *                 type: string
+ *                 enum: [READ, WRITE]
+ *                 default: READ
+ *               projectIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Restreindre le token à ces projets (tous les projets si absent)
+ *               expiresInDays:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 365
+ *                 default: 30
+ *     responses:
+ *       201:
+ *         description: Token créé avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Success'
+ *       400:
+ *         description: Données invalides
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export const createPersonalAccessToken = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const {
+      name,
+      scope = TokenAccess.READ,
+      projectIds,
+      expiresInDays = 30,
+    }: CreatePersonalAccessTokenRequest = req.body;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Validation des données
+    const validationErrors = validateCreatePersonalAccessTokenData({
+      name,
+      scope,
+      projectIds,
+      expiresInDays,
+    });
+    if (validationErrors.length > 0) {
+      sendValidationError(
+        res,
+        "Données de création de token invalides",
+        validationErrors
+      );
+      return;
+    }
+
+    // Vérifier que l'utilisateur a accès à chacun des projets ciblés
+    if (projectIds) {
+      for (const projectId of projectIds) {
+        const canView = await can(
+          authReq.user.id,
+          ProjectAction.VIEW_PROJECT,
+          projectId
+        );
+        if (!canView) {
+          sendError(
+            res,
+            "Certains projets sont introuvables ou inaccessibles",
+            "INVALID_PROJECT_IDS",
+            400
+          );
+          return;
+        }
+      }
+    }
+
+    const { token, record } = await issuePersonalAccessToken(
+      authReq.user.id,
+      {
+        name: name.trim(),
+        access: scope as TokenAccess,
+        projectIds: projectIds ? Array.from(new Set(projectIds)) : null,
+        expiresInDays,
+      }
+    );
+
+    sendSuccess(
+      res,
+      "Token d'accès créé avec succès, conservez-le : il ne sera plus affiché",
+      {
+        token,
+        personalAccessToken: formatPersonalAccessToken(record),
+      },
+      201
+    );
+  } catch (error) {
+    console.error("Erreur lors de la création du token d'accès:", error);
+    sendServerError(res, "Erreur lors de la création du token d'accès");
+  }
+};
+
+/**
+ * Révoquer un token d'accès personnel
+ * DELETE /auth/tokens/:tokenId
+ */
+export const deletePersonalAccessToken = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { tokenId } = req.params;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    const deleted = await prisma.personalAccessToken.deleteMany({
+      where: {
+        id: tokenId,
+        userId: authReq.user.id,
+      },
+    });
+
+    if (deleted.count === 0) {
+      sendError(res, "Token d'accès non trouvé", "TOKEN_NOT_FOUND", 404);
+      return;
+    }
+
+    sendSuccess(res, "Token d'accès révoqué avec succès");
+  } catch (error) {
+    console.error("Erreur lors de la révocation du token d'accès:", error);
+    sendServerError(res, "Erreur lors de la révocation du token d'accès");
+  }
+};
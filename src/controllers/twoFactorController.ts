@@ -0,0 +1,526 @@
+import { Request, Response } from "express";
+import bcrypt from "bcryptjs";
+import { PrismaClient } from "@prisma/client";
+import {
+  AuthRequest,
+  TwoFactorCodeRequest,
+  TwoFactorLoginRequest,
+  DisableTwoFactorRequest,
+} from "../types";
+import {
+  validateTwoFactorCodeData,
+  validateTwoFactorLoginData,
+  validateDisableTwoFactorData,
+} from "../utils/validation";
+import { verifyTwoFactorChallengeToken } from "../utils/jwt";
+import { startAuthSession } from "../utils/authSession";
+import { getSessionContext } from "../utils/sessions";
+import { generateTotpSecret, buildOtpauthUri } from "../utils/totp";
+import {
+  consumeTotpCode,
+  generateRecoveryCodes,
+  verifySecondFactor,
+} from "../utils/twoFactor";
+import {
+  checkLoginAllowed,
+  recordLoginFailure,
+  unlockAccount,
+} from "../utils/loginAttempts";
+import {
+  sendSuccess,
+  sendError,
+  sendValidationError,
+  sendServerError,
+  sendRetryLaterError,
+} from "../utils/response";
+
+const prisma = new PrismaClient();
+
+const TOTP_ISSUER = process.env.TOTP_ISSUER || "Abricot";
+
+/**
+ * @swagger
+ * /auth/2fa/setup:
+ *   post:
+ *     summary: Démarrer l'activation de la 2FA (TOTP)
+ *     description: Génère un secret et renvoie l'URI otpauth à scanner. La 2FA n'est active qu'après confirmation avec un premier code.
+ *     tags: [Authentification]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Secret généré
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         secret:
+ *                           type: string
+ *                         otpauthUri:
+ *                           type: string
+ *       409:
+ *         description: 2FA déjà activée
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export const setupTwoFactor = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: authReq.user.id },
+    });
+
+    if (!user) {
+      sendError(res, "Utilisateur non trouvé", "USER_NOT_FOUND", 404);
+      return;
+    }
+
+    if (user.totpEnabledAt) {
+      sendError(
+        res,
+        "L'authentification à deux facteurs est déjà activée",
+        "TWO_FACTOR_ALREADY_ENABLED",
+        409
+      );
+      return;
+    }
+
+    // Le secret reste en attente jusqu'à la confirmation
+    const secret = generateTotpSecret();
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { totpSecret: secret, totpLastUsedStep: null },
+    });
+
+    sendSuccess(res, "Secret 2FA généré, confirmez avec un premier code", {
+      secret,
+      otpauthUri: buildOtpauthUri(secret, user.email, TOTP_ISSUER),
+    });
+  } catch (error) {
+    console.error("Erreur lors de l'initialisation de la 2FA:", error);
+    sendServerError(res, "Erreur lors de l'initialisation de la 2FA");
+  }
+};
+
+/**
+ * @swagger
+ * /auth/2fa/confirm:
+ *   post:
+ *     summary: Confirmer l'activation de la 2FA avec un premier code
+ *     description: Renvoie les codes de récupération, affichés une seule fois.
+ *     tags: [Authentification]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: "123456"
+ *     responses:
+ *       200:
+ *         description: 2FA activée
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         recoveryCodes:
+ *                           type: array
+ *                           items:
+ *                             type: string
+ *       400:
+ *         description: Code invalide ou 2FA non initialisée
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export const confirmTwoFactor = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { code }: TwoFactorCodeRequest = req.body;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Validation des données
+    const validationErrors = validateTwoFactorCodeData({ code });
+    if (validationErrors.length > 0) {
+      sendValidationError(res, "Code de vérification invalide", validationErrors);
+      return;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: authReq.user.id },
+    });
+
+    if (!user) {
+      sendError(res, "Utilisateur non trouvé", "USER_NOT_FOUND", 404);
+      return;
+    }
+
+    if (user.totpEnabledAt) {
+      sendError(
+        res,
+        "L'authentification à deux facteurs est déjà activée",
+        "TWO_FACTOR_ALREADY_ENABLED",
+        409
+      );
+      return;
+    }
+
+    if (!user.totpSecret) {
+      sendError(
+        res,
+        "Aucune activation de la 2FA en cours",
+        "TWO_FACTOR_NOT_INITIALIZED",
+        400
+      );
+      return;
+    }
+
+    const isCodeValid = await consumeTotpCode(user, code);
+    if (!isCodeValid) {
+      sendError(res, "Code de vérification incorrect", "INVALID_2FA_CODE", 400);
+      return;
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { totpEnabledAt: new Date() },
+    });
+    const recoveryCodes = await generateRecoveryCodes(user.id);
+
+    sendSuccess(
+      res,
+      "Authentification à deux facteurs activée, conservez vos codes de récupération",
+      { recoveryCodes }
+    );
+  } catch (error) {
+    console.error("Erreur lors de la confirmation de la 2FA:", error);
+    sendServerError(res, "Erreur lors de la confirmation de la 2FA");
+  }
+};
+
+/**
+ * Régénérer les codes de récupération (les anciens deviennent invalides)
+ * POST /auth/2fa/recovery-codes
+ */
+export const regenerateRecoveryCodes = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { code }: TwoFactorCodeRequest = req.body;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Validation des données
+    const validationErrors = validateTwoFactorCodeData({ code });
+    if (validationErrors.length > 0) {
+      sendValidationError(res, "Code de vérification invalide", validationErrors);
+      return;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: authReq.user.id },
+    });
+
+    if (!user || !user.totpEnabledAt) {
+      sendError(
+        res,
+        "L'authentification à deux facteurs n'est pas activée",
+        "TWO_FACTOR_NOT_ENABLED",
+        400
+      );
+      return;
+    }
+
+    const isCodeValid = await consumeTotpCode(user, code);
+    if (!isCodeValid) {
+      sendError(res, "Code de vérification incorrect", "INVALID_2FA_CODE", 400);
+      return;
+    }
+
+    const recoveryCodes = await generateRecoveryCodes(user.id);
+
+    sendSuccess(res, "Codes de récupération régénérés", { recoveryCodes });
+  } catch (error) {
+    console.error("Erreur lors de la régénération des codes:", error);
+    sendServerError(res, "Erreur lors de la régénération des codes");
+  }
+};
+
+/**
+ * Désactiver la 2FA (mot de passe et second facteur requis)
+ * POST /auth/2fa/disable
+ */
+export const disableTwoFactor = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { password, code, recoveryCode }: DisableTwoFactorRequest =
+      req.body;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Validation des données
+    const validationErrors = validateDisableTwoFactorData({
+      password,
+      code,
+      recoveryCode,
+    });
+    if (validationErrors.length > 0) {
+      sendValidationError(
+        res,
+        "Données de désactivation invalides",
+        validationErrors
+      );
+      return;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: authReq.user.id },
+    });
+
+    if (!user || !user.totpEnabledAt) {
+      sendError(
+        res,
+        "L'authentification à deux facteurs n'est pas activée",
+        "TWO_FACTOR_NOT_ENABLED",
+        400
+      );
+      return;
+    }
+
+    const isPasswordValid = await bcrypt.compare(password, user.password);
+    if (!isPasswordValid) {
+      sendError(
+        res,
+        "Mot de passe actuel incorrect",
+        "INVALID_CURRENT_PASSWORD",
+        401
+      );
+      return;
+    }
+
+    const isFactorValid = await verifySecondFactor(user, {
+      code,
+      recoveryCode,
+    });
+    if (!isFactorValid) {
+      sendError(res, "Code de vérification incorrect", "INVALID_2FA_CODE", 400);
+      return;
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        totpSecret: null,
+        totpEnabledAt: null,
+        totpLastUsedStep: null,
+      },
+    });
+    await prisma.twoFactorRecoveryCode.deleteMany({
+      where: { userId: user.id },
+    });
+
+    sendSuccess(res, "Authentification à deux facteurs désactivée");
+  } catch (error) {
+    console.error("Erreur lors de la désactivation de la 2FA:", error);
+    sendServerError(res, "Erreur lors de la désactivation de la 2FA");
+  }
+};
+
+/**
+ * @swagger
+ * /auth/login/2fa:
+ *   post:
+ *     summary: Second étape de connexion avec un code TOTP ou un code de récupération
+ *     tags: [Authentification]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challengeToken
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *                 description: Token de challenge renvoyé par /auth/login
+ *               code:
+ *                 type: string
+ *                 description: Code TOTP à 6 chiffres
+ *               recoveryCode:
+ *                 type: string
+ *                 description: Code de récupération (à la place du code TOTP)
+ *     responses:
+ *       200:
+ *         description: Connexion réussie
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         user:
+ *                           $ref: '#/components/schemas/User'
+ *                         token:
+ *                           type: string
+ *                         refreshToken:
+ *                           type: string
+ *       401:
+ *         description: Token de challenge ou code invalide
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export const loginTwoFactor = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { challengeToken, code, recoveryCode }: TwoFactorLoginRequest =
+      req.body;
+
+    // Validation des données
+    const validationErrors = validateTwoFactorLoginData({
+      challengeToken,
+      code,
+      recoveryCode,
+    });
+    if (validationErrors.length > 0) {
+      sendValidationError(
+        res,
+        "Données de connexion invalides",
+        validationErrors
+      );
+      return;
+    }
+
+    let challenge;
+    try {
+      challenge = verifyTwoFactorChallengeToken(challengeToken);
+    } catch (error) {
+      sendError(
+        res,
+        error instanceof Error ? error.message : "Token de challenge invalide",
+        "INVALID_CHALLENGE_TOKEN",
+        401
+      );
+      return;
+    }
+
+    // Les codes erronés comptent comme des échecs de connexion
+    const clientIp = req.ip || "unknown";
+    const throttle = await checkLoginAllowed(challenge.email, clientIp);
+    if (!throttle.allowed) {
+      sendRetryLaterError(
+        res,
+        "Trop de tentatives de connexion, veuillez réessayer plus tard",
+        throttle.reason === "LOCKED" ? "ACCOUNT_LOCKED" : "TOO_MANY_ATTEMPTS",
+        throttle.reason === "LOCKED" ? 423 : 429,
+        throttle.retryAfterSeconds
+      );
+      return;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: challenge.userId },
+    });
+
+    if (!user || !user.totpEnabledAt) {
+      sendError(
+        res,
+        "Token de challenge invalide",
+        "INVALID_CHALLENGE_TOKEN",
+        401
+      );
+      return;
+    }
+
+    const isFactorValid = await verifySecondFactor(user, {
+      code,
+      recoveryCode,
+    });
+    if (!isFactorValid) {
+      await recordLoginFailure(user.email, clientIp);
+      sendError(res, "Code de vérification incorrect", "INVALID_2FA_CODE", 401);
+      return;
+    }
+
+    await unlockAccount(user.email);
+
+    // Générer le token JWT et le refresh token
+    const { token, refreshToken } = await startAuthSession(
+      user,
+      getSessionContext(req)
+    );
+
+    sendSuccess(res, "Connexion réussie", {
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        emailVerifiedAt: user.emailVerifiedAt,
+        createdAt: user.createdAt,
+        updatedAt: user.updatedAt,
+      },
+      token,
+      refreshToken,
+    });
+  } catch (error) {
+    console.error("Erreur lors de la vérification 2FA:", error);
+    sendServerError(res, "Erreur lors de la connexion");
+  }
+};
@@ -0,0 +1,833 @@
+import { Request, Response } from "express";
+import { PrismaClient } from "@prisma/client";
+import {
+  AddWorkspaceMemberRequest,
+  AuthRequest,
+  CreateWorkspaceRequest,
+  TransferOwnershipRequest,
+  UpdateWorkspaceMemberRequest,
+  UpdateWorkspaceRequest,
+  WorkspaceRole,
+} from "../types";
+import {
+  isValidEmail,
+  validateCreateWorkspaceData,
+  validateUpdateWorkspaceData,
+} from "../utils/validation";
+import {
+  accessibleProjectsWhere,
+  canCreateProjects,
+  getWorkspaceRole,
+  isWorkspaceAdminRole,
+} from "../utils/permissions";
+import {
+  sendSuccess,
+  sendError,
+  sendValidationError,
+  sendServerError,
+} from "../utils/response";
+
+const prisma = new PrismaClient();
+
+// Rôles attribuables à un membre (OWNER ne change que par transfert de propriété)
+const ASSIGNABLE_WORKSPACE_ROLES: string[] = [
+  WorkspaceRole.ADMIN,
+  WorkspaceRole.MEMBER,
+];
+
+/**
+ * @swagger
+ * /workspaces:
+ *   post:
+ *     summary: Créer un espace de travail
+ *     description: Le créateur en devient propriétaire (OWNER).
+ *     tags: [Espaces de travail]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: "Acme"
+ *               description:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Espace de travail créé avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         workspace:
+ *                           $ref: '#/components/schemas/Workspace'
+ *       400:
+ *         description: Données invalides
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export const createWorkspace = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { name, description }: CreateWorkspaceRequest = req.body;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    if (!canCreateProjects(authReq.tokenScope)) {
+      sendError(
+        res,
+        "Ce token d'accès ne permet pas de gérer les espaces de travail",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
+    // Validation des données
+    const validationErrors = validateCreateWorkspaceData({ name, description });
+    if (validationErrors.length > 0) {
+      sendValidationError(
+        res,
+        "Données de création d'espace de travail invalides",
+        validationErrors
+      );
+      return;
+    }
+
+    const workspace = await prisma.workspace.create({
+      data: {
+        name: name.trim(),
+        description: description?.trim() || null,
+        members: {
+          create: {
+            userId: authReq.user.id,
+            role: WorkspaceRole.OWNER,
+          },
+        },
+      },
+    });
+
+    sendSuccess(
+      res,
+      "Espace de travail créé avec succès",
+      { workspace: { ...workspace, userRole: WorkspaceRole.OWNER } },
+      201
+    );
+  } catch (error) {
+    console.error("Erreur lors de la création de l'espace de travail:", error);
+    sendServerError(res, "Erreur lors de la création de l'espace de travail");
+  }
+};
+
+/**
+ * @swagger
+ * /workspaces:
+ *   get:
+ *     summary: Lister les espaces de travail de l'utilisateur connecté
+ *     tags: [Espaces de travail]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Espaces de travail récupérés avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Success'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         workspaces:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/Workspace'
+ */
+export const getWorkspaces = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    const memberships = await prisma.workspaceMember.findMany({
+      where: { userId: authReq.user.id },
+      include: {
+        workspace: {
+          include: {
+            _count: {
+              select: {
+                members: true,
+                projects: true,
+              },
+            },
+          },
+        },
+      },
+      orderBy: { joinedAt: "asc" },
+    });
+
+    sendSuccess(res, "Espaces de travail récupérés avec succès", {
+      workspaces: memberships.map((membership) => ({
+        ...membership.workspace,
+        userRole: membership.role,
+      })),
+    });
+  } catch (error) {
+    console.error(
+      "Erreur lors de la récupération des espaces de travail:",
+      error
+    );
+    sendServerError(
+      res,
+      "Erreur lors de la récupération des espaces de travail"
+    );
+  }
+};
+
+/**
+ * Récupérer un espace de travail avec ses membres et ses projets
+ * (tous les projets pour un administrateur, ceux auxquels il a accès pour un membre)
+ * GET /workspaces/:id
+ */
+export const getWorkspace = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Vérifier l'appartenance à l'espace de travail
+    const role = await getWorkspaceRole(authReq.user.id, id);
+    if (!role) {
+      sendError(res, "Accès refusé à l'espace de travail", "FORBIDDEN", 403);
+      return;
+    }
+
+    const workspace = await prisma.workspace.findUnique({
+      where: { id },
+      include: {
+        members: {
+          include: {
+            user: {
+              select: {
+                id: true,
+                email: true,
+                name: true,
+              },
+            },
+          },
+          orderBy: { joinedAt: "asc" },
+        },
+        projects: {
+          where: isWorkspaceAdminRole(role)
+            ? { deletedAt: null }
+            : accessibleProjectsWhere(authReq.user.id),
+          select: {
+            id: true,
+            name: true,
+            description: true,
+            ownerId: true,
+            archivedAt: true,
+            createdAt: true,
+            updatedAt: true,
+          },
+          orderBy: { name: "asc" },
+        },
+      },
+    });
+
+    if (!workspace) {
+      sendError(
+        res,
+        "Espace de travail non trouvé",
+        "WORKSPACE_NOT_FOUND",
+        404
+      );
+      return;
+    }
+
+    sendSuccess(res, "Espace de travail récupéré avec succès", {
+      workspace: { ...workspace, userRole: role },
+    });
+  } catch (error) {
+    console.error(
+      "Erreur lors de la récupération de l'espace de travail:",
+      error
+    );
+    sendServerError(
+      res,
+      "Erreur lors de la récupération de l'espace de travail"
+    );
+  }
+};
+
+/**
+ * Mettre à jour un espace de travail
+ * PUT /workspaces/:id
+ */
+export const updateWorkspace = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { name, description }: UpdateWorkspaceRequest = req.body;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Validation des données
+    const validationErrors = validateUpdateWorkspaceData({ name, description });
+    if (validationErrors.length > 0) {
+      sendValidationError(
+        res,
+        "Données de mise à jour invalides",
+        validationErrors
+      );
+      return;
+    }
+
+    // Vérifier les permissions
+    const role = await getWorkspaceRole(authReq.user.id, id);
+    if (!isWorkspaceAdminRole(role) || !canCreateProjects(authReq.tokenScope)) {
+      sendError(
+        res,
+        "Vous n'avez pas les permissions pour modifier cet espace de travail",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
+    // Préparer les données de mise à jour
+    const updateData: any = {};
+    if (name !== undefined) {
+      updateData.name = name.trim();
+    }
+    if (description !== undefined) {
+      updateData.description = description?.trim() || null;
+    }
+
+    const workspace = await prisma.workspace.update({
+      where: { id },
+      data: updateData,
+    });
+
+    sendSuccess(res, "Espace de travail mis à jour avec succès", {
+      workspace: { ...workspace, userRole: role },
+    });
+  } catch (error) {
+    console.error(
+      "Erreur lors de la mise à jour de l'espace de travail:",
+      error
+    );
+    sendServerError(
+      res,
+      "Erreur lors de la mise à jour de l'espace de travail"
+    );
+  }
+};
+
+/**
+ * Supprimer un espace de travail (propriétaire uniquement, sans projet hors corbeille)
+ * DELETE /workspaces/:id
+ */
+export const deleteWorkspace = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Vérifier les permissions
+    const role = await getWorkspaceRole(authReq.user.id, id);
+    if (role !== WorkspaceRole.OWNER || !canCreateProjects(authReq.tokenScope)) {
+      sendError(
+        res,
+        "Seul le propriétaire peut supprimer l'espace de travail",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
+    // Les projets doivent être déplacés ou supprimés au préalable
+    // (ceux de la corbeille redeviennent des projets personnels)
+    const projectsCount = await prisma.project.count({
+      where: { workspaceId: id, deletedAt: null },
+    });
+    if (projectsCount > 0) {
+      sendError(
+        res,
+        "L'espace de travail contient encore des projets",
+        "WORKSPACE_NOT_EMPTY",
+        409
+      );
+      return;
+    }
+
+    await prisma.workspace.delete({
+      where: { id },
+    });
+
+    sendSuccess(res, "Espace de travail supprimé avec succès");
+  } catch (error) {
+    console.error(
+      "Erreur lors de la suppression de l'espace de travail:",
+      error
+    );
+    sendServerError(
+      res,
+      "Erreur lors de la suppression de l'espace de travail"
+    );
+  }
+};
+
+/**
+ * @swagger
+ * /workspaces/{id}/members:
+ *   post:
+ *     summary: Ajouter un membre à un espace de travail
+ *     tags: [Espaces de travail]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               role:
+ *                 type: string
+ *                 enum: [ADMIN, MEMBER]
+ *                 default: MEMBER
+ *     responses:
+ *       201:
+ *         description: Membre ajouté avec succès
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Success'
+ *       403:
+ *         description: Droits d'administration de l'espace requis
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Aucun utilisateur avec cet email
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: L'utilisateur est déjà membre
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+export const addWorkspaceMember = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const {
+      email,
+      role = WorkspaceRole.MEMBER,
+    }: AddWorkspaceMemberRequest = req.body;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Vérifier les permissions
+    const currentRole = await getWorkspaceRole(authReq.user.id, id);
+    if (
+      !isWorkspaceAdminRole(currentRole) ||
+      !canCreateProjects(authReq.tokenScope)
+    ) {
+      sendError(
+        res,
+        "Vous n'avez pas les permissions pour gérer les membres de cet espace de travail",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
+    if (!email || !isValidEmail(email)) {
+      sendError(res, "Format d'email invalide", "INVALID_EMAIL", 400);
+      return;
+    }
+
+    if (!ASSIGNABLE_WORKSPACE_ROLES.includes(role)) {
+      sendError(
+        res,
+        "Le rôle doit être ADMIN ou MEMBER",
+        "INVALID_ROLE",
+        400
+      );
+      return;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: email.toLowerCase() },
+    });
+
+    if (!user) {
+      sendError(
+        res,
+        "Aucun utilisateur avec cet email",
+        "USER_NOT_FOUND",
+        404
+      );
+      return;
+    }
+
+    const existingMember = await prisma.workspaceMember.findUnique({
+      where: {
+        userId_workspaceId: { userId: user.id, workspaceId: id },
+      },
+    });
+
+    if (existingMember) {
+      sendError(
+        res,
+        "L'utilisateur est déjà membre de cet espace de travail",
+        "USER_ALREADY_MEMBER",
+        409
+      );
+      return;
+    }
+
+    const member = await prisma.workspaceMember.create({
+      data: {
+        userId: user.id,
+        workspaceId: id,
+        role,
+      },
+      include: {
+        user: {
+          select: {
+            id: true,
+            email: true,
+            name: true,
+          },
+        },
+      },
+    });
+
+    sendSuccess(res, "Membre ajouté avec succès", { member }, 201);
+  } catch (error) {
+    console.error("Erreur lors de l'ajout du membre:", error);
+    sendServerError(res, "Erreur lors de l'ajout du membre");
+  }
+};
+
+/**
+ * Modifier le rôle d'un membre d'un espace de travail
+ * PATCH /workspaces/:id/members/:userId
+ */
+export const updateWorkspaceMember = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id, userId } = req.params;
+    const { role }: UpdateWorkspaceMemberRequest = req.body;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Vérifier les permissions
+    const currentRole = await getWorkspaceRole(authReq.user.id, id);
+    if (
+      !isWorkspaceAdminRole(currentRole) ||
+      !canCreateProjects(authReq.tokenScope)
+    ) {
+      sendError(
+        res,
+        "Vous n'avez pas les permissions pour gérer les membres de cet espace de travail",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
+    if (!role || !ASSIGNABLE_WORKSPACE_ROLES.includes(role)) {
+      sendError(
+        res,
+        "Le rôle doit être ADMIN ou MEMBER",
+        "INVALID_ROLE",
+        400
+      );
+      return;
+    }
+
+    const membership = await prisma.workspaceMember.findUnique({
+      where: {
+        userId_workspaceId: { userId, workspaceId: id },
+      },
+    });
+
+    if (!membership) {
+      sendError(
+        res,
+        "L'utilisateur n'est pas membre de cet espace de travail",
+        "MEMBER_NOT_FOUND",
+        404
+      );
+      return;
+    }
+
+    if (membership.role === WorkspaceRole.OWNER) {
+      sendError(
+        res,
+        "Le rôle du propriétaire de l'espace de travail ne peut pas être modifié",
+        "CANNOT_CHANGE_OWNER_ROLE",
+        400
+      );
+      return;
+    }
+
+    const member = await prisma.workspaceMember.update({
+      where: { id: membership.id },
+      data: { role },
+      include: {
+        user: {
+          select: {
+            id: true,
+            email: true,
+            name: true,
+          },
+        },
+      },
+    });
+
+    sendSuccess(res, "Rôle du membre mis à jour avec succès", { member });
+  } catch (error) {
+    console.error("Erreur lors de la mise à jour du membre:", error);
+    sendServerError(res, "Erreur lors de la mise à jour du membre");
+  }
+};
+
+/**
+ * Retirer un membre d'un espace de travail (ou le quitter soi-même)
+ * DELETE /workspaces/:id/members/:userId
+ */
+export const removeWorkspaceMember = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id, userId } = req.params;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    // Vérifier les permissions (un membre peut toujours quitter l'espace)
+    const currentRole = await getWorkspaceRole(authReq.user.id, id);
+    const isSelf = authReq.user.id === userId;
+    if (
+      !currentRole ||
+      (!isSelf && !isWorkspaceAdminRole(currentRole)) ||
+      !canCreateProjects(authReq.tokenScope)
+    ) {
+      sendError(
+        res,
+        "Vous n'avez pas les permissions pour gérer les membres de cet espace de travail",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
+    const membership = await prisma.workspaceMember.findUnique({
+      where: {
+        userId_workspaceId: { userId, workspaceId: id },
+      },
+    });
+
+    if (!membership) {
+      sendError(
+        res,
+        "L'utilisateur n'est pas membre de cet espace de travail",
+        "MEMBER_NOT_FOUND",
+        404
+      );
+      return;
+    }
+
+    if (membership.role === WorkspaceRole.OWNER) {
+      sendError(
+        res,
+        "Le propriétaire de l'espace de travail ne peut pas être retiré",
+        "CANNOT_REMOVE_OWNER",
+        400
+      );
+      return;
+    }
+
+    // Les projets du membre restent dans l'espace de travail
+    await prisma.workspaceMember.delete({
+      where: { id: membership.id },
+    });
+
+    sendSuccess(res, "Membre retiré avec succès");
+  } catch (error) {
+    console.error("Erreur lors du retrait du membre:", error);
+    sendServerError(res, "Erreur lors du retrait du membre");
+  }
+};
+
+/**
+ * Transférer la propriété d'un espace de travail à un de ses membres
+ * (l'ancien propriétaire en devient administrateur)
+ * POST /workspaces/:id/transfer-ownership
+ */
+export const transferWorkspaceOwnership = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { userId }: TransferOwnershipRequest = req.body;
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      sendError(res, "Utilisateur non authentifié", "UNAUTHORIZED", 401);
+      return;
+    }
+
+    if (!userId || typeof userId !== "string") {
+      sendError(
+        res,
+        "L'ID du nouveau propriétaire est requis",
+        "MISSING_USER_ID",
+        400
+      );
+      return;
+    }
+
+    // Seul le propriétaire de l'espace peut en transférer la propriété
+    const role = await getWorkspaceRole(authReq.user.id, id);
+    if (role !== WorkspaceRole.OWNER || !canCreateProjects(authReq.tokenScope)) {
+      sendError(
+        res,
+        "Seul le propriétaire peut transférer l'espace de travail",
+        "FORBIDDEN",
+        403
+      );
+      return;
+    }
+
+    if (userId === authReq.user.id) {
+      sendError(
+        res,
+        "Vous êtes déjà propriétaire de cet espace de travail",
+        "ALREADY_OWNER",
+        400
+      );
+      return;
+    }
+
+    const membership = await prisma.workspaceMember.findUnique({
+      where: {
+        userId_workspaceId: { userId, workspaceId: id },
+      },
+    });
+
+    if (!membership) {
+      sendError(
+        res,
+        "Le nouveau propriétaire doit être membre de l'espace de travail",
+        "MEMBER_NOT_FOUND",
+        404
+      );
+      return;
+    }
+
+    await prisma.$transaction([
+      prisma.workspaceMember.update({
+        where: { id: membership.id },
+        data: { role: WorkspaceRole.OWNER },
+      }),
+      prisma.workspaceMember.update({
+        where: {
+          userId_workspaceId: { userId: authReq.user.id, workspaceId: id },
+        },
+        data: { role: WorkspaceRole.ADMIN },
+      }),
+    ]);
+
+    sendSuccess(res, "Propriété de l'espace de travail transférée avec succès");
+  } catch (error) {
+    console.error("Erreur lors du transfert de l'espace de travail:", error);
+    sendServerError(res, "Erreur lors du transfert de l'espace de travail");
+  }
+};
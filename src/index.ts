@@ -10,6 +10,8 @@ import dotenv from "dotenv";
 import authRoutes from "./routes/authRoutes";
 import projectRoutes from "./routes/projectRoutes";
 import dashboardRoutes from "./routes/dashboardRoutes";
+import workspaceRoutes from "./routes/workspaceRoutes";
+import templateRoutes from "./routes/templateRoutes";
 import { searchUsers } from "./controllers/projectController";
 import taskRoutes from "./routes/taskRoutes";
 import commentRoutes from "./routes/commentRoutes";
@@ -20,6 +22,10 @@ import { authenticateToken } from "./middleware/auth";
 // Swagger
 import { specs } from "./config/swagger";
 
+// Tâches planifiées
+import { startTrashPurgeJob } from "./utils/projectTrash";
+import { startRecurringTasksJob } from "./utils/taskRecurrence";
+
 // Charger les variables d'environnement
 dotenv.config();
 
@@ -66,6 +72,8 @@ app.use(
 app.use("/auth", authRoutes);
 app.use("/projects", projectRoutes);
 app.use("/dashboard", dashboardRoutes);
+app.use("/workspaces", workspaceRoutes);
+app.use("/templates", templateRoutes);
 
 // Route pour la recherche d'utilisateurs
 app.get("/users/search", authenticateToken, searchUsers);
@@ -90,9 +98,31 @@ app.get("/", (req, res) => {
       auth: {
         register: "POST /auth/register",
         login: "POST /auth/login",
+        loginTwoFactor: "POST /auth/login/2fa",
+        refresh: "POST /auth/refresh",
+        logout: "POST /auth/logout",
         profile: "GET /auth/profile",
         updateProfile: "PUT /auth/profile",
         updatePassword: "PUT /auth/password",
+        exportAccount: "GET /auth/export",
+        deleteAccount: "DELETE /auth/account",
+        forgotPassword: "POST /auth/forgot-password",
+        resetPassword: "POST /auth/reset-password",
+        verifyEmail: "GET /auth/verify-email",
+        resendVerificationEmail: "POST /auth/verify-email/resend",
+        listTokens: "GET /auth/tokens",
+        createToken: "POST /auth/tokens",
+        deleteToken: "DELETE /auth/tokens/:tokenId",
+        listInvitations: "GET /auth/invitations",
+        acceptInvitation: "POST /auth/invitations/:invitationId/accept",
+        declineInvitation: "POST /auth/invitations/:invitationId/decline",
+        listSessions: "GET /auth/sessions",
+        deleteOtherSessions: "DELETE /auth/sessions",
+        deleteSession: "DELETE /auth/sessions/:sessionId",
+        setupTwoFactor: "POST /auth/2fa/setup",
+        confirmTwoFactor: "POST /auth/2fa/confirm",
+        regenerateRecoveryCodes: "POST /auth/2fa/recovery-codes",
+        disableTwoFactor: "POST /auth/2fa/disable",
       },
       projects: {
         create: "POST /projects",
@@ -100,8 +130,57 @@ app.get("/", (req, res) => {
         getOne: "GET /projects/:id",
         update: "PUT /projects/:id",
         delete: "DELETE /projects/:id",
+        archive: "POST /projects/:id/archive",
+        unarchive: "POST /projects/:id/unarchive",
+        trash: "GET /projects/trash",
+        restore: "POST /projects/:id/restore",
+        clone: "POST /projects/:id/clone",
+        saveAsTemplate: "POST /projects/:id/templates",
+        transferOwnership: "POST /projects/:id/transfer-ownership",
         addContributor: "POST /projects/:id/contributors",
+        updateMember: "PATCH /projects/:id/contributors/:userId",
         removeContributor: "DELETE /projects/:id/contributors/:userId",
+        unlockContributor: "POST /projects/:id/contributors/:userId/unlock",
+        listInvitations: "GET /projects/:id/invitations",
+        revokeInvitation: "DELETE /projects/:id/invitations/:invitationId",
+        listRoles: "GET /projects/:id/roles",
+        createRole: "POST /projects/:id/roles",
+        updateRole: "PUT /projects/:id/roles/:roleId",
+        deleteRole: "DELETE /projects/:id/roles/:roleId",
+        getStatuses: "GET /projects/:id/statuses",
+        updateStatuses: "PUT /projects/:id/statuses",
+        listLabels: "GET /projects/:id/labels",
+        createLabel: "POST /projects/:id/labels",
+        updateLabel: "PUT /projects/:id/labels/:labelId",
+        deleteLabel: "DELETE /projects/:id/labels/:labelId",
+        listCustomFields: "GET /projects/:id/custom-fields",
+        createCustomField: "POST /projects/:id/custom-fields",
+        updateCustomField: "PUT /projects/:id/custom-fields/:fieldId",
+        deleteCustomField: "DELETE /projects/:id/custom-fields/:fieldId",
+        listMilestones: "GET /projects/:id/milestones",
+        createMilestone: "POST /projects/:id/milestones",
+        getMilestone: "GET /projects/:id/milestones/:milestoneId",
+        updateMilestone: "PUT /projects/:id/milestones/:milestoneId",
+        deleteMilestone: "DELETE /projects/:id/milestones/:milestoneId",
+        openMilestone: "POST /projects/:id/milestones/:milestoneId/open",
+        closeMilestone: "POST /projects/:id/milestones/:milestoneId/close",
+      },
+      workspaces: {
+        create: "POST /workspaces",
+        getAll: "GET /workspaces",
+        getOne: "GET /workspaces/:id",
+        update: "PUT /workspaces/:id",
+        delete: "DELETE /workspaces/:id",
+        addMember: "POST /workspaces/:id/members",
+        updateMember: "PATCH /workspaces/:id/members/:userId",
+        removeMember: "DELETE /workspaces/:id/members/:userId",
+        transferOwnership: "POST /workspaces/:id/transfer-ownership",
+        dashboard: "GET /dashboard/workspaces/:workspaceId",
+      },
+      templates: {
+        getAll: "GET /templates",
+        getOne: "GET /templates/:id",
+        delete: "DELETE /templates/:id",
       },
       tasks: {
         create: "POST /projects/:projectId/tasks",
@@ -117,6 +196,27 @@ app.get("/", (req, res) => {
         update: "PUT /projects/:projectId/tasks/:taskId/comments/:commentId",
         delete: "DELETE /projects/:projectId/tasks/:taskId/comments/:commentId",
       },
+      dependencies: {
+        create: "POST /projects/:projectId/tasks/:taskId/dependencies",
+        delete:
+          "DELETE /projects/:projectId/tasks/:taskId/dependencies/:dependencyId",
+      },
+      checklist: {
+        getAll: "GET /projects/:projectId/tasks/:taskId/checklist",
+        create: "POST /projects/:projectId/tasks/:taskId/checklist",
+        update: "PUT /projects/:projectId/tasks/:taskId/checklist/:itemId",
+        delete: "DELETE /projects/:projectId/tasks/:taskId/checklist/:itemId",
+      },
+      timeEntries: {
+        getAll: "GET /projects/:projectId/tasks/:taskId/time-entries",
+        create: "POST /projects/:projectId/tasks/:taskId/time-entries",
+        start: "POST /projects/:projectId/tasks/:taskId/time-entries/start",
+        stop: "POST /projects/:projectId/tasks/:taskId/time-entries/stop",
+        update: "PUT /projects/:projectId/tasks/:taskId/time-entries/:entryId",
+        delete:
+          "DELETE /projects/:projectId/tasks/:taskId/time-entries/:entryId",
+        totals: "GET /dashboard/time-tracking",
+      },
       health: "GET /health",
     },
   });
@@ -159,6 +259,12 @@ const startServer = async () => {
     await prisma.$connect();
     console.log("✅ Connexion à la base de données établie");
 
+    // Purger régulièrement les projets restés trop longtemps dans la corbeille
+    startTrashPurgeJob();
+
+    // Créer les occurrences des tâches récurrentes arrivées à échéance
+    startRecurringTasksJob();
+
     // Démarrer le serveur
     app.listen(PORT, () => {
       console.log(`🚀 Serveur démarré sur le port ${PORT}`);
@@ -1,13 +1,106 @@
 import { Response, NextFunction } from "express";
 import { PrismaClient } from "@prisma/client";
-import { AuthRequest } from "../types";
+import { AuthRequest, JwtPayload, TokenScope } from "../types";
 import { verifyToken, extractTokenFromHeader } from "../utils/jwt";
-import { sendAuthError } from "../utils/response";
+import {
+  isPersonalAccessToken,
+  resolvePersonalAccessToken,
+} from "../utils/personalAccessTokens";
+import { touchSession } from "../utils/sessions";
+import { sendAuthError, sendError } from "../utils/response";
 
 const prisma = new PrismaClient();
 
+type ResolvedToken =
+  | {
+      user: NonNullable<AuthRequest["user"]>;
+      tokenScope?: TokenScope;
+      sessionId?: string;
+    }
+  | { error: string };
+
+/**
+ * Indique si un token a été émis avant la révocation des sessions de l'utilisateur
+ * @param decoded - Le payload du token
+ * @param sessionsRevokedAt - Date de révocation des sessions
+ * @returns true si le token doit être refusé
+ */
+const isTokenRevoked = (
+  decoded: JwtPayload,
+  sessionsRevokedAt: Date | null
+): boolean => {
+  if (!sessionsRevokedAt || !decoded.iat) {
+    return false;
+  }
+  return decoded.iat < Math.floor(sessionsRevokedAt.getTime() / 1000);
+};
+
 /**
- * Middleware d'authentification pour vérifier les tokens JWT
+ * Résout l'utilisateur associé à un token JWT ou à un token d'accès personnel
+ * @param token - Le token extrait du header Authorization
+ * @returns L'utilisateur (avec la portée du token d'accès personnel ou la session JWT) ou une erreur
+ */
+const resolveTokenUser = async (token: string): Promise<ResolvedToken> => {
+  let userId: string;
+  let tokenScope: TokenScope | undefined;
+  let decoded: JwtPayload | undefined;
+
+  if (isPersonalAccessToken(token)) {
+    const personalAccessToken = await resolvePersonalAccessToken(token);
+    if (!personalAccessToken) {
+      return { error: "Token d'accès personnel invalide ou expiré" };
+    }
+    userId = personalAccessToken.userId;
+    tokenScope = personalAccessToken.scope;
+  } else {
+    // Vérifier et décoder le token
+    decoded = verifyToken(token);
+    userId = decoded.userId;
+  }
+
+  // Récupérer l'utilisateur depuis la base de données
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      email: true,
+      name: true,
+      emailVerifiedAt: true,
+      createdAt: true,
+      updatedAt: true,
+      sessionsRevokedAt: true,
+    },
+  });
+
+  if (!user) {
+    return { error: "Utilisateur non trouvé" };
+  }
+
+  if (decoded && isTokenRevoked(decoded, user.sessionsRevokedAt)) {
+    return { error: "Session révoquée" };
+  }
+
+  // Un token rattaché à une session révoquée (déconnexion à distance) est refusé
+  if (decoded?.sessionId && !(await touchSession(decoded.sessionId, user.id))) {
+    return { error: "Session révoquée" };
+  }
+
+  return {
+    user: {
+      id: user.id,
+      email: user.email,
+      name: user.name || undefined,
+      emailVerifiedAt: user.emailVerifiedAt?.toISOString(),
+      createdAt: user.createdAt.toISOString(),
+      updatedAt: user.updatedAt.toISOString(),
+    },
+    tokenScope,
+    sessionId: decoded?.sessionId,
+  };
+};
+
+/**
+ * Middleware d'authentification pour vérifier les tokens JWT et les tokens d'accès personnels
  * Ajoute les informations de l'utilisateur à req.user si l'authentification réussit
  */
 export const authenticateToken = async (
@@ -25,34 +118,17 @@ export const authenticateToken = async (
       return;
     }
 
-    // Vérifier et décoder le token
-    const decoded = verifyToken(token);
-
-    // Récupérer l'utilisateur depuis la base de données
-    const user = await prisma.user.findUnique({
-      where: { id: decoded.userId },
-      select: {
-        id: true,
-        email: true,
-        name: true,
-        createdAt: true,
-        updatedAt: true,
-      },
-    });
-
-    if (!user) {
-      sendAuthError(res, "Utilisateur non trouvé");
+    const resolved = await resolveTokenUser(token);
+
+    if ("error" in resolved) {
+      sendAuthError(res, resolved.error);
       return;
     }
 
     // Ajouter les informations de l'utilisateur à la requête
-    req.user = {
-      id: user.id,
-      email: user.email,
-      name: user.name || undefined,
-      createdAt: user.createdAt.toISOString(),
-      updatedAt: user.updatedAt.toISOString(),
-    };
+    req.user = resolved.user;
+    req.tokenScope = resolved.tokenScope;
+    req.sessionId = resolved.sessionId;
     next();
   } catch (error) {
     console.error("Erreur d'authentification:", error);
@@ -65,6 +141,29 @@ export const authenticateToken = async (
   }
 };
 
+/**
+ * Middleware réservant une route aux sessions interactives (JWT)
+ * Refuse les tokens d'accès personnels, par exemple pour gérer les tokens eux-mêmes
+ * À placer après authenticateToken
+ */
+export const requireSessionAuth = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (req.tokenScope) {
+    sendError(
+      res,
+      "Cette action n'est pas autorisée avec un token d'accès personnel",
+      "SESSION_REQUIRED",
+      403
+    );
+    return;
+  }
+
+  next();
+};
+
 /**
  * Middleware optionnel d'authentification
  * Ne bloque pas la requête si l'utilisateur n'est pas authentifié
@@ -84,27 +183,12 @@ export const optionalAuth = async (
       return;
     }
 
-    const decoded = verifyToken(token);
-    const user = await prisma.user.findUnique({
-      where: { id: decoded.userId },
-      select: {
-        id: true,
-        email: true,
-        name: true,
-        createdAt: true,
-        updatedAt: true,
-      },
-    });
-
-    if (user) {
-      req.user = {
-        id: user.id,
-        email: user.email,
-        name: user.name || undefined,
-        createdAt: user.createdAt.toISOString(),
-        updatedAt: user.updatedAt.toISOString(),
-
-      };
+    const resolved = await resolveTokenUser(token);
+
+    if (!("error" in resolved)) {
+      req.user = resolved.user;
+      req.tokenScope = resolved.tokenScope;
+      req.sessionId = resolved.sessionId;
     }
 
     next();
@@ -2,11 +2,43 @@ import { Router } from "express";
 import {
   register,
   login,
+  refresh,
+  logout,
   getProfile,
   updateProfile,
   updatePassword,
+  forgotPassword,
+  resetPassword,
+  verifyEmail,
+  resendVerificationEmail,
 } from "../controllers/authController";
-import { authenticateToken } from "../middleware/auth";
+import {
+  getPersonalAccessTokens,
+  createPersonalAccessToken,
+  deletePersonalAccessToken,
+} from "../controllers/tokenController";
+import {
+  setupTwoFactor,
+  confirmTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  loginTwoFactor,
+} from "../controllers/twoFactorController";
+import {
+  getSessions,
+  deleteSession,
+  deleteOtherSessions,
+} from "../controllers/sessionController";
+import {
+  exportAccountData,
+  deleteAccount,
+} from "../controllers/accountController";
+import {
+  getMyInvitations,
+  acceptMyInvitation,
+  declineMyInvitation,
+} from "../controllers/invitationController";
+import { authenticateToken, requireSessionAuth } from "../middleware/auth";
 
 const router = Router();
 
@@ -26,6 +58,30 @@ router.post("/register", register);
  */
 router.post("/login", login);
 
+/**
+ * @route   POST /auth/login/2fa
+ * @desc    Seconde étape de connexion pour les comptes avec 2FA
+ * @access  Public
+ * @body    { challengeToken: string, code?: string, recoveryCode?: string }
+ */
+router.post("/login/2fa", loginTwoFactor);
+
+/**
+ * @route   POST /auth/refresh
+ * @desc    Renouveler le token JWT (rotation du refresh token)
+ * @access  Public
+ * @body    { refreshToken: string }
+ */
+router.post("/refresh", refresh);
+
+/**
+ * @route   POST /auth/logout
+ * @desc    Révoquer le refresh token et sa session
+ * @access  Public
+ * @body    { refreshToken: string }
+ */
+router.post("/logout", logout);
+
 /**
  * @route   GET /auth/profile
  * @desc    Récupérer le profil de l'utilisateur connecté
@@ -41,7 +97,7 @@ router.get("/profile", authenticateToken, getProfile);
  * @header  Authorization: Bearer <token>
  * @body    { name?: string, email?: string }
  */
-router.put("/profile", authenticateToken, updateProfile);
+router.put("/profile", authenticateToken, requireSessionAuth, updateProfile);
 
 /**
  * @route   PUT /auth/password
@@ -50,6 +106,218 @@ router.put("/profile", authenticateToken, updateProfile);
  * @header  Authorization: Bearer <token>
  * @body    { currentPassword: string, newPassword: string }
  */
-router.put("/password", authenticateToken, updatePassword);
+router.put("/password", authenticateToken, requireSessionAuth, updatePassword);
+
+/**
+ * @route   GET /auth/export
+ * @desc    Exporter les données personnelles de l'utilisateur connecté (RGPD)
+ * @access  Private (nécessite un token JWT valide, pas un token d'accès personnel)
+ * @header  Authorization: Bearer <token>
+ */
+router.get("/export", authenticateToken, requireSessionAuth, exportAccountData);
+
+/**
+ * @route   DELETE /auth/account
+ * @desc    Supprimer le compte de l'utilisateur connecté
+ * @access  Private (nécessite un token JWT valide, pas un token d'accès personnel)
+ * @header  Authorization: Bearer <token>
+ * @body    { password: string, confirmEmail: string, code?: string, recoveryCode?: string }
+ */
+router.delete("/account", authenticateToken, requireSessionAuth, deleteAccount);
+
+/**
+ * @route   POST /auth/forgot-password
+ * @desc    Envoyer un lien de réinitialisation du mot de passe
+ * @access  Public
+ * @body    { email: string }
+ */
+router.post("/forgot-password", forgotPassword);
+
+/**
+ * @route   POST /auth/reset-password
+ * @desc    Réinitialiser le mot de passe et révoquer les sessions existantes
+ * @access  Public
+ * @body    { token: string, newPassword: string }
+ */
+router.post("/reset-password", resetPassword);
+
+/**
+ * @route   GET /auth/verify-email
+ * @desc    Vérifier l'adresse email de l'utilisateur
+ * @access  Public
+ * @query   token: string
+ */
+router.get("/verify-email", verifyEmail);
+
+/**
+ * @route   POST /auth/verify-email/resend
+ * @desc    Renvoyer l'email de vérification
+ * @access  Private (nécessite un token JWT valide)
+ * @header  Authorization: Bearer <token>
+ */
+router.post("/verify-email/resend", authenticateToken, resendVerificationEmail);
+
+/**
+ * @route   GET /auth/tokens
+ * @desc    Lister les tokens d'accès personnels de l'utilisateur connecté
+ * @access  Private (nécessite un token JWT valide, pas un token d'accès personnel)
+ * @header  Authorization: Bearer <token>
+ */
+router.get(
+  "/tokens",
+  authenticateToken,
+  requireSessionAuth,
+  getPersonalAccessTokens
+);
+
+/**
+ * @route   POST /auth/tokens
+ * @desc    Créer un token d'accès personnel (affiché une seule fois)
+ * @access  Private (nécessite un token JWT valide, pas un token d'accès personnel)
+ * @header  Authorization: Bearer <token>
+ * @body    { name: string, scope?: 'READ' | 'WRITE', projectIds?: string[], expiresInDays?: number }
+ */
+router.post(
+  "/tokens",
+  authenticateToken,
+  requireSessionAuth,
+  createPersonalAccessToken
+);
+
+/**
+ * @route   DELETE /auth/tokens/:tokenId
+ * @desc    Révoquer un token d'accès personnel
+ * @access  Private (nécessite un token JWT valide, pas un token d'accès personnel)
+ * @header  Authorization: Bearer <token>
+ */
+router.delete(
+  "/tokens/:tokenId",
+  authenticateToken,
+  requireSessionAuth,
+  deletePersonalAccessToken
+);
+
+/**
+ * @route   GET /auth/invitations
+ * @desc    Lister les invitations en attente de l'utilisateur connecté
+ * @access  Private (nécessite un token JWT valide, pas un token d'accès personnel)
+ * @header  Authorization: Bearer <token>
+ */
+router.get(
+  "/invitations",
+  authenticateToken,
+  requireSessionAuth,
+  getMyInvitations
+);
+
+/**
+ * @route   POST /auth/invitations/:invitationId/accept
+ * @desc    Accepter une invitation et rejoindre le projet
+ * @access  Private (nécessite un token JWT valide, pas un token d'accès personnel)
+ * @header  Authorization: Bearer <token>
+ */
+router.post(
+  "/invitations/:invitationId/accept",
+  authenticateToken,
+  requireSessionAuth,
+  acceptMyInvitation
+);
+
+/**
+ * @route   POST /auth/invitations/:invitationId/decline
+ * @desc    Refuser une invitation
+ * @access  Private (nécessite un token JWT valide, pas un token d'accès personnel)
+ * @header  Authorization: Bearer <token>
+ */
+router.post(
+  "/invitations/:invitationId/decline",
+  authenticateToken,
+  requireSessionAuth,
+  declineMyInvitation
+);
+
+/**
+ * @route   GET /auth/sessions
+ * @desc    Lister les sessions actives de l'utilisateur connecté
+ * @access  Private (nécessite un token JWT valide, pas un token d'accès personnel)
+ * @header  Authorization: Bearer <token>
+ */
+router.get("/sessions", authenticateToken, requireSessionAuth, getSessions);
+
+/**
+ * @route   DELETE /auth/sessions
+ * @desc    Se déconnecter de toutes les autres sessions
+ * @access  Private (nécessite un token JWT valide, pas un token d'accès personnel)
+ * @header  Authorization: Bearer <token>
+ */
+router.delete(
+  "/sessions",
+  authenticateToken,
+  requireSessionAuth,
+  deleteOtherSessions
+);
+
+/**
+ * @route   DELETE /auth/sessions/:sessionId
+ * @desc    Déconnecter une session à distance
+ * @access  Private (nécessite un token JWT valide, pas un token d'accès personnel)
+ * @header  Authorization: Bearer <token>
+ */
+router.delete(
+  "/sessions/:sessionId",
+  authenticateToken,
+  requireSessionAuth,
+  deleteSession
+);
+
+/**
+ * @route   POST /auth/2fa/setup
+ * @desc    Générer un secret TOTP (activation en attente de confirmation)
+ * @access  Private (nécessite un token JWT valide, pas un token d'accès personnel)
+ * @header  Authorization: Bearer <token>
+ */
+router.post("/2fa/setup", authenticateToken, requireSessionAuth, setupTwoFactor);
+
+/**
+ * @route   POST /auth/2fa/confirm
+ * @desc    Activer la 2FA avec un premier code et obtenir les codes de récupération
+ * @access  Private (nécessite un token JWT valide, pas un token d'accès personnel)
+ * @header  Authorization: Bearer <token>
+ * @body    { code: string }
+ */
+router.post(
+  "/2fa/confirm",
+  authenticateToken,
+  requireSessionAuth,
+  confirmTwoFactor
+);
+
+/**
+ * @route   POST /auth/2fa/recovery-codes
+ * @desc    Régénérer les codes de récupération
+ * @access  Private (nécessite un token JWT valide, pas un token d'accès personnel)
+ * @header  Authorization: Bearer <token>
+ * @body    { code: string }
+ */
+router.post(
+  "/2fa/recovery-codes",
+  authenticateToken,
+  requireSessionAuth,
+  regenerateRecoveryCodes
+);
+
+/**
+ * @route   POST /auth/2fa/disable
+ * @desc    Désactiver la 2FA
+ * @access  Private (nécessite un token JWT valide, pas un token d'accès personnel)
+ * @header  Authorization: Bearer <token>
+ * @body    { password: string, code?: string, recoveryCode?: string }
+ */
+router.post(
+  "/2fa/disable",
+  authenticateToken,
+  requireSessionAuth,
+  disableTwoFactor
+);
 
 export default router;
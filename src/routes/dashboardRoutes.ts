@@ -4,6 +4,8 @@ import {
   getAssignedTasks,
   getProjectsWithTasks,
   getDashboardStats,
+  getWorkspaceDashboard,
+  getTimeTracking,
 } from "../controllers/dashboardController";
 
 const router = express.Router();
@@ -20,4 +22,10 @@ router.get("/projects-with-tasks", getProjectsWithTasks);
 // Récupérer les statistiques du tableau de bord
 router.get("/stats", getDashboardStats);
 
+// Récupérer le tableau de bord d'un espace de travail
+router.get("/workspaces/:workspaceId", getWorkspaceDashboard);
+
+// Récupérer le temps estimé et passé par projet et par utilisateur
+router.get("/time-tracking", getTimeTracking);
+
 export default router;
@@ -5,9 +5,53 @@ import {
   getProject,
   updateProject,
   deleteProject,
+  archiveProject,
+  unarchiveProject,
+  getTrash,
+  restoreProject,
+  cloneProject,
   addContributor,
+  updateMember,
   removeContributor,
+  unlockContributor,
+  transferOwnership,
 } from "../controllers/projectController";
+import {
+  getProjectInvitations,
+  revokeProjectInvitation,
+} from "../controllers/invitationController";
+import {
+  getProjectRoles,
+  createProjectRole,
+  updateProjectRole,
+  deleteProjectRole,
+} from "../controllers/projectRoleController";
+import {
+  getProjectStatuses,
+  updateProjectStatuses,
+} from "../controllers/projectStatusController";
+import { createProjectTemplate } from "../controllers/templateController";
+import {
+  getLabels,
+  createLabel,
+  updateLabel,
+  deleteLabel,
+} from "../controllers/labelController";
+import {
+  getCustomFields,
+  createCustomField,
+  updateCustomField,
+  deleteCustomField,
+} from "../controllers/customFieldController";
+import {
+  getMilestones,
+  createMilestone,
+  getMilestone,
+  updateMilestone,
+  deleteMilestone,
+  openMilestone,
+  closeMilestone,
+} from "../controllers/milestoneController";
 import { authenticateToken } from "../middleware/auth";
 
 const router = Router();
@@ -17,18 +61,26 @@ const router = Router();
  * @desc    Créer un nouveau projet
  * @access  Private (nécessite un token JWT valide)
  * @header  Authorization: Bearer <token>
- * @body    { name: string, description?: string, contributors?: string[] }
+ * @body    { name: string, description?: string, contributors?: (string | { email: string, role?: string })[], workspaceId?: string, templateId?: string, startDate?: string }
  */
 router.post("/", authenticateToken, createProject);
 
 /**
  * @route   GET /projects
- * @desc    Récupérer tous les projets de l'utilisateur connecté
+ * @desc    Récupérer tous les projets de l'utilisateur connecté (hors archivés, sauf ?includeArchived=true)
  * @access  Private (nécessite un token JWT valide)
  * @header  Authorization: Bearer <token>
  */
 router.get("/", authenticateToken, getProjects);
 
+/**
+ * @route   GET /projects/trash
+ * @desc    Récupérer les projets de la corbeille (propriétaire ou admin de l'espace)
+ * @access  Private (nécessite un token JWT valide)
+ * @header  Authorization: Bearer <token>
+ */
+router.get("/trash", authenticateToken, getTrash);
+
 /**
  * @route   GET /projects/:id
  * @desc    Récupérer un projet spécifique
@@ -42,27 +94,301 @@ router.get("/:id", authenticateToken, getProject);
  * @desc    Mettre à jour un projet
  * @access  Private (nécessite un token JWT valide et droits d'admin)
  * @header  Authorization: Bearer <token>
- * @body    { name?: string, description?: string }
+ * @body    { name?: string, description?: string, contributors?: (string | { email: string, role?: string })[], requireTwoFactor?: boolean, blockParentCompletion?: boolean }
  */
 router.put("/:id", authenticateToken, updateProject);
 
 /**
  * @route   DELETE /projects/:id
- * @desc    Supprimer un projet
+ * @desc    Placer un projet dans la corbeille (purgé après la durée de rétention)
  * @access  Private (nécessite un token JWT valide et être propriétaire)
  * @header  Authorization: Bearer <token>
  */
 router.delete("/:id", authenticateToken, deleteProject);
 
+/**
+ * @route   POST /projects/:id/restore
+ * @desc    Restaurer un projet de la corbeille
+ * @access  Private (nécessite un token JWT valide et être propriétaire)
+ * @header  Authorization: Bearer <token>
+ */
+router.post("/:id/restore", authenticateToken, restoreProject);
+
+/**
+ * @route   POST /projects/:id/archive
+ * @desc    Archiver un projet (lecture seule)
+ * @access  Private (nécessite un token JWT valide et droits d'admin)
+ * @header  Authorization: Bearer <token>
+ */
+router.post("/:id/archive", authenticateToken, archiveProject);
+
+/**
+ * @route   POST /projects/:id/unarchive
+ * @desc    Désarchiver un projet
+ * @access  Private (nécessite un token JWT valide et droits d'admin)
+ * @header  Authorization: Bearer <token>
+ */
+router.post("/:id/unarchive", authenticateToken, unarchiveProject);
+
+/**
+ * @route   POST /projects/:id/clone
+ * @desc    Cloner un projet (tâches, assignations, membres selon les options)
+ * @access  Private (nécessite un token JWT valide et accès au projet ; gestion des membres pour les copier)
+ * @header  Authorization: Bearer <token>
+ * @body    { name?: string, includeTasks?: boolean, includeAssignees?: boolean, includeMembers?: boolean, resetStatuses?: boolean, startDate?: string }
+ */
+router.post("/:id/clone", authenticateToken, cloneProject);
+
+/**
+ * @route   POST /projects/:id/templates
+ * @desc    Enregistrer un projet comme modèle réutilisable
+ * @access  Private (nécessite un token JWT valide et accès au projet)
+ * @header  Authorization: Bearer <token>
+ * @body    { name?: string, description?: string }
+ */
+router.post("/:id/templates", authenticateToken, createProjectTemplate);
+
+/**
+ * @route   POST /projects/:id/transfer-ownership
+ * @desc    Transférer la propriété du projet à un membre (l'ancien propriétaire devient admin)
+ * @access  Private (nécessite un token JWT valide et être propriétaire)
+ * @header  Authorization: Bearer <token>
+ * @body    { userId: string }
+ */
+router.post("/:id/transfer-ownership", authenticateToken, transferOwnership);
+
 /**
  * @route   POST /projects/:id/contributors
- * @desc    Ajouter un contributeur à un projet
+ * @desc    Ajouter un contributeur à un projet (invitation si l'email n'a pas de compte)
  * @access  Private (nécessite un token JWT valide et droits d'admin)
  * @header  Authorization: Bearer <token>
- * @body    { email: string, role?: 'ADMIN' | 'CONTRIBUTOR' }
+ * @body    { email: string, role?: 'ADMIN' | 'CONTRIBUTOR' | 'VIEWER', customRoleId?: string }
  */
 router.post("/:id/contributors", authenticateToken, addContributor);
 
+/**
+ * @route   GET /projects/:id/roles
+ * @desc    Lister les rôles personnalisés d'un projet
+ * @access  Private (nécessite un token JWT valide et accès au projet)
+ * @header  Authorization: Bearer <token>
+ */
+router.get("/:id/roles", authenticateToken, getProjectRoles);
+
+/**
+ * @route   POST /projects/:id/roles
+ * @desc    Créer un rôle personnalisé
+ * @access  Private (nécessite un token JWT valide et droits d'admin)
+ * @header  Authorization: Bearer <token>
+ * @body    { name: string, permissions: string[] }
+ */
+router.post("/:id/roles", authenticateToken, createProjectRole);
+
+/**
+ * @route   PUT /projects/:id/roles/:roleId
+ * @desc    Mettre à jour un rôle personnalisé
+ * @access  Private (nécessite un token JWT valide et droits d'admin)
+ * @header  Authorization: Bearer <token>
+ * @body    { name?: string, permissions?: string[] }
+ */
+router.put("/:id/roles/:roleId", authenticateToken, updateProjectRole);
+
+/**
+ * @route   DELETE /projects/:id/roles/:roleId
+ * @desc    Supprimer un rôle personnalisé (s'il n'est plus attribué)
+ * @access  Private (nécessite un token JWT valide et droits d'admin)
+ * @header  Authorization: Bearer <token>
+ */
+router.delete("/:id/roles/:roleId", authenticateToken, deleteProjectRole);
+
+/**
+ * @route   GET /projects/:id/statuses
+ * @desc    Récupérer le workflow des tâches d'un projet (statuts ordonnés)
+ * @access  Private (nécessite un token JWT valide et accès au projet)
+ * @header  Authorization: Bearer <token>
+ */
+router.get("/:id/statuses", authenticateToken, getProjectStatuses);
+
+/**
+ * @route   PUT /projects/:id/statuses
+ * @desc    Définir le workflow des tâches d'un projet
+ * @access  Private (nécessite un token JWT valide et droits d'admin)
+ * @header  Authorization: Bearer <token>
+ * @body    { statuses: { key: string, name: string, category: 'TODO' | 'IN_PROGRESS' | 'DONE', allowedTransitions?: string[] | null, requiresReason?: boolean, isCancellation?: boolean }[] }
+ */
+router.put("/:id/statuses", authenticateToken, updateProjectStatuses);
+
+/**
+ * @route   GET /projects/:id/labels
+ * @desc    Lister les étiquettes d'un projet
+ * @access  Private (nécessite un token JWT valide et accès au projet)
+ * @header  Authorization: Bearer <token>
+ */
+router.get("/:id/labels", authenticateToken, getLabels);
+
+/**
+ * @route   POST /projects/:id/labels
+ * @desc    Créer une étiquette
+ * @access  Private (nécessite un token JWT valide et droits d'admin)
+ * @header  Authorization: Bearer <token>
+ * @body    { name: string, color: string }
+ */
+router.post("/:id/labels", authenticateToken, createLabel);
+
+/**
+ * @route   PUT /projects/:id/labels/:labelId
+ * @desc    Mettre à jour une étiquette
+ * @access  Private (nécessite un token JWT valide et droits d'admin)
+ * @header  Authorization: Bearer <token>
+ * @body    { name?: string, color?: string }
+ */
+router.put("/:id/labels/:labelId", authenticateToken, updateLabel);
+
+/**
+ * @route   DELETE /projects/:id/labels/:labelId
+ * @desc    Supprimer une étiquette (retirée des tâches)
+ * @access  Private (nécessite un token JWT valide et droits d'admin)
+ * @header  Authorization: Bearer <token>
+ */
+router.delete("/:id/labels/:labelId", authenticateToken, deleteLabel);
+
+/**
+ * @route   GET /projects/:id/custom-fields
+ * @desc    Lister les champs personnalisés des tâches d'un projet
+ * @access  Private (nécessite un token JWT valide et accès au projet)
+ * @header  Authorization: Bearer <token>
+ */
+router.get("/:id/custom-fields", authenticateToken, getCustomFields);
+
+/**
+ * @route   POST /projects/:id/custom-fields
+ * @desc    Créer un champ personnalisé
+ * @access  Private (nécessite un token JWT valide et droits d'admin)
+ * @header  Authorization: Bearer <token>
+ * @body    { name: string, type: 'TEXT' | 'NUMBER' | 'DATE' | 'SINGLE_SELECT' | 'MULTI_SELECT' | 'USER', options?: string[] }
+ */
+router.post("/:id/custom-fields", authenticateToken, createCustomField);
+
+/**
+ * @route   PUT /projects/:id/custom-fields/:fieldId
+ * @desc    Mettre à jour un champ personnalisé (le type ne change pas)
+ * @access  Private (nécessite un token JWT valide et droits d'admin)
+ * @header  Authorization: Bearer <token>
+ * @body    { name?: string, options?: string[] }
+ */
+router.put("/:id/custom-fields/:fieldId", authenticateToken, updateCustomField);
+
+/**
+ * @route   DELETE /projects/:id/custom-fields/:fieldId
+ * @desc    Supprimer un champ personnalisé (valeurs retirées des tâches)
+ * @access  Private (nécessite un token JWT valide et droits d'admin)
+ * @header  Authorization: Bearer <token>
+ */
+router.delete(
+  "/:id/custom-fields/:fieldId",
+  authenticateToken,
+  deleteCustomField
+);
+
+/**
+ * @route   GET /projects/:id/milestones
+ * @desc    Lister les jalons d'un projet avec leur avancement (filtre ?state=PLANNED|OPEN|CLOSED)
+ * @access  Private (nécessite un token JWT valide et accès au projet)
+ * @header  Authorization: Bearer <token>
+ */
+router.get("/:id/milestones", authenticateToken, getMilestones);
+
+/**
+ * @route   POST /projects/:id/milestones
+ * @desc    Créer un jalon (sprint)
+ * @access  Private (nécessite un token JWT valide et droits d'admin)
+ * @header  Authorization: Bearer <token>
+ * @body    { name: string, goal?: string, startDate?: string, endDate?: string }
+ */
+router.post("/:id/milestones", authenticateToken, createMilestone);
+
+/**
+ * @route   GET /projects/:id/milestones/:milestoneId
+ * @desc    Récupérer un jalon et son avancement
+ * @access  Private (nécessite un token JWT valide et accès au projet)
+ * @header  Authorization: Bearer <token>
+ */
+router.get("/:id/milestones/:milestoneId", authenticateToken, getMilestone);
+
+/**
+ * @route   PUT /projects/:id/milestones/:milestoneId
+ * @desc    Mettre à jour un jalon
+ * @access  Private (nécessite un token JWT valide et droits d'admin)
+ * @header  Authorization: Bearer <token>
+ * @body    { name?: string, goal?: string | null, startDate?: string | null, endDate?: string | null }
+ */
+router.put("/:id/milestones/:milestoneId", authenticateToken, updateMilestone);
+
+/**
+ * @route   DELETE /projects/:id/milestones/:milestoneId
+ * @desc    Supprimer un jalon (ses tâches sont conservées, hors jalon)
+ * @access  Private (nécessite un token JWT valide et droits d'admin)
+ * @header  Authorization: Bearer <token>
+ */
+router.delete(
+  "/:id/milestones/:milestoneId",
+  authenticateToken,
+  deleteMilestone
+);
+
+/**
+ * @route   POST /projects/:id/milestones/:milestoneId/open
+ * @desc    Ouvrir un jalon planifié, ou rouvrir un jalon clôturé
+ * @access  Private (nécessite un token JWT valide et droits d'admin)
+ * @header  Authorization: Bearer <token>
+ */
+router.post(
+  "/:id/milestones/:milestoneId/open",
+  authenticateToken,
+  openMilestone
+);
+
+/**
+ * @route   POST /projects/:id/milestones/:milestoneId/close
+ * @desc    Clôturer un jalon, en reportant éventuellement ses tâches non terminées
+ * @access  Private (nécessite un token JWT valide et droits d'admin)
+ * @header  Authorization: Bearer <token>
+ * @body    { rollOver?: boolean, targetMilestoneId?: string }
+ */
+router.post(
+  "/:id/milestones/:milestoneId/close",
+  authenticateToken,
+  closeMilestone
+);
+
+/**
+ * @route   GET /projects/:id/invitations
+ * @desc    Lister les invitations en attente d'un projet
+ * @access  Private (nécessite un token JWT valide et droits d'admin)
+ * @header  Authorization: Bearer <token>
+ */
+router.get("/:id/invitations", authenticateToken, getProjectInvitations);
+
+/**
+ * @route   DELETE /projects/:id/invitations/:invitationId
+ * @desc    Révoquer une invitation en attente
+ * @access  Private (nécessite un token JWT valide et droits d'admin)
+ * @header  Authorization: Bearer <token>
+ */
+router.delete(
+  "/:id/invitations/:invitationId",
+  authenticateToken,
+  revokeProjectInvitation
+);
+
+/**
+ * @route   PATCH /projects/:id/contributors/:userId
+ * @desc    Modifier le rôle (standard ou personnalisé) d'un membre
+ * @access  Private (nécessite un token JWT valide et droits d'admin)
+ * @header  Authorization: Bearer <token>
+ * @body    { role?: 'ADMIN' | 'CONTRIBUTOR' | 'VIEWER', customRoleId?: string | null }
+ */
+router.patch("/:id/contributors/:userId", authenticateToken, updateMember);
+
 /**
  * @route   DELETE /projects/:id/contributors/:userId
  * @desc    Retirer un contributeur d'un projet
@@ -75,6 +401,18 @@ router.delete(
   removeContributor
 );
 
+/**
+ * @route   POST /projects/:id/contributors/:userId/unlock
+ * @desc    Déverrouiller le compte d'un membre après trop d'échecs de connexion
+ * @access  Private (nécessite un token JWT valide et être propriétaire)
+ * @header  Authorization: Bearer <token>
+ */
+router.post(
+  "/:id/contributors/:userId/unlock",
+  authenticateToken,
+  unlockContributor
+);
+
 // Routes pour les tâches
 import {
   createTask,
@@ -88,7 +426,7 @@ router.post("/:id/tasks", authenticateToken, createTask);
 
 /**
  * @route   GET /projects/:id/tasks
- * @desc    Récupérer toutes les tâches d'un projet
+ * @desc    Récupérer toutes les tâches d'un projet (filtres ?labelIds=id1,id2, ?milestoneId=id|none et ?parentTaskId=id|none)
  * @access  Private (nécessite un token JWT valide et accès au projet)
  * @header  Authorization: Bearer <token>
  */
@@ -124,4 +462,175 @@ router.delete(
   deleteComment
 );
 
+// Routes pour les dépendances entre tâches
+import {
+  createTaskDependency,
+  deleteTaskDependency,
+} from "../controllers/taskDependencyController";
+
+/**
+ * @route   POST /projects/:id/tasks/:taskId/dependencies
+ * @desc    Ajouter une dépendance (la tâche est bloquée par blockingTaskId, ou bloque blockedTaskId)
+ * @access  Private (nécessite un token JWT valide et droit de modifier les tâches)
+ * @header  Authorization: Bearer <token>
+ * @body    { blockingTaskId?: string, blockedTaskId?: string }
+ */
+router.post(
+  "/:id/tasks/:taskId/dependencies",
+  authenticateToken,
+  createTaskDependency
+);
+
+/**
+ * @route   DELETE /projects/:id/tasks/:taskId/dependencies/:dependencyId
+ * @desc    Supprimer une dépendance d'une tâche
+ * @access  Private (nécessite un token JWT valide et droit de modifier les tâches)
+ * @header  Authorization: Bearer <token>
+ */
+router.delete(
+  "/:id/tasks/:taskId/dependencies/:dependencyId",
+  authenticateToken,
+  deleteTaskDependency
+);
+
+// Routes pour les checklists
+import {
+  getChecklist,
+  createChecklistItem,
+  updateChecklistItem,
+  deleteChecklistItem,
+} from "../controllers/checklistController";
+
+/**
+ * @route   GET /projects/:id/tasks/:taskId/checklist
+ * @desc    Récupérer la checklist d'une tâche et son avancement
+ * @access  Private (nécessite un token JWT valide et accès au projet)
+ * @header  Authorization: Bearer <token>
+ */
+router.get("/:id/tasks/:taskId/checklist", authenticateToken, getChecklist);
+
+/**
+ * @route   POST /projects/:id/tasks/:taskId/checklist
+ * @desc    Ajouter un élément à la checklist d'une tâche
+ * @access  Private (nécessite un token JWT valide et droit de modifier les tâches)
+ * @header  Authorization: Bearer <token>
+ * @body    { text: string, position?: number }
+ */
+router.post(
+  "/:id/tasks/:taskId/checklist",
+  authenticateToken,
+  createChecklistItem
+);
+
+/**
+ * @route   PUT /projects/:id/tasks/:taskId/checklist/:itemId
+ * @desc    Mettre à jour un élément de checklist (cocher seul suffit du droit de changer le statut)
+ * @access  Private (nécessite un token JWT valide et droit de modifier les tâches)
+ * @header  Authorization: Bearer <token>
+ * @body    { text?: string, done?: boolean, position?: number }
+ */
+router.put(
+  "/:id/tasks/:taskId/checklist/:itemId",
+  authenticateToken,
+  updateChecklistItem
+);
+
+/**
+ * @route   DELETE /projects/:id/tasks/:taskId/checklist/:itemId
+ * @desc    Supprimer un élément de checklist
+ * @access  Private (nécessite un token JWT valide et droit de modifier les tâches)
+ * @header  Authorization: Bearer <token>
+ */
+router.delete(
+  "/:id/tasks/:taskId/checklist/:itemId",
+  authenticateToken,
+  deleteChecklistItem
+);
+
+// Routes pour le suivi du temps
+import {
+  getTimeEntries,
+  createTimeEntry,
+  updateTimeEntry,
+  deleteTimeEntry,
+  startTimer,
+  stopTimer,
+} from "../controllers/timeEntryController";
+
+/**
+ * @route   GET /projects/:id/tasks/:taskId/time-entries
+ * @desc    Récupérer le temps saisi sur une tâche et ses totaux (estimé, passé)
+ * @access  Private (nécessite un token JWT valide et accès au projet)
+ * @header  Authorization: Bearer <token>
+ */
+router.get(
+  "/:id/tasks/:taskId/time-entries",
+  authenticateToken,
+  getTimeEntries
+);
+
+/**
+ * @route   POST /projects/:id/tasks/:taskId/time-entries
+ * @desc    Saisir du temps passé sur une tâche (début et fin, ou durée)
+ * @access  Private (nécessite un token JWT valide et droit de saisir du temps)
+ * @header  Authorization: Bearer <token>
+ * @body    { startedAt?: string, endedAt?: string, durationMinutes?: number, note?: string }
+ */
+router.post(
+  "/:id/tasks/:taskId/time-entries",
+  authenticateToken,
+  createTimeEntry
+);
+
+/**
+ * @route   POST /projects/:id/tasks/:taskId/time-entries/start
+ * @desc    Démarrer le chronomètre sur une tâche (un seul chronomètre en cours par utilisateur)
+ * @access  Private (nécessite un token JWT valide et droit de saisir du temps)
+ * @header  Authorization: Bearer <token>
+ * @body    { note?: string }
+ */
+router.post(
+  "/:id/tasks/:taskId/time-entries/start",
+  authenticateToken,
+  startTimer
+);
+
+/**
+ * @route   POST /projects/:id/tasks/:taskId/time-entries/stop
+ * @desc    Arrêter son chronomètre en cours sur une tâche
+ * @access  Private (nécessite un token JWT valide et droit de saisir du temps)
+ * @header  Authorization: Bearer <token>
+ * @body    { note?: string }
+ */
+router.post(
+  "/:id/tasks/:taskId/time-entries/stop",
+  authenticateToken,
+  stopTimer
+);
+
+/**
+ * @route   PUT /projects/:id/tasks/:taskId/time-entries/:entryId
+ * @desc    Modifier une saisie de temps (les siennes, ou toutes pour un administrateur)
+ * @access  Private (nécessite un token JWT valide et droit de saisir du temps)
+ * @header  Authorization: Bearer <token>
+ * @body    { startedAt?: string, endedAt?: string, durationMinutes?: number, note?: string | null }
+ */
+router.put(
+  "/:id/tasks/:taskId/time-entries/:entryId",
+  authenticateToken,
+  updateTimeEntry
+);
+
+/**
+ * @route   DELETE /projects/:id/tasks/:taskId/time-entries/:entryId
+ * @desc    Supprimer une saisie de temps (les siennes, ou toutes pour un administrateur)
+ * @access  Private (nécessite un token JWT valide et droit de saisir du temps)
+ * @header  Authorization: Bearer <token>
+ */
+router.delete(
+  "/:id/tasks/:taskId/time-entries/:entryId",
+  authenticateToken,
+  deleteTimeEntry
+);
+
 export default router;
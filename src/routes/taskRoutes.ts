@@ -16,13 +16,13 @@ const router = Router();
  * @desc    Créer une nouvelle tâche dans un projet
  * @access  Private (nécessite un token JWT valide et accès au projet)
  * @header  Authorization: Bearer <token>
- * @body    { title: string, description?: string, priority?: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT', dueDate?: string }
+ * @body    { title: string, description?: string, priority?: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT', dueDate?: string, estimateMinutes?: number, labelIds?: string[], milestoneId?: string, parentTaskId?: string, recurrence?: { frequency: 'DAILY' | 'WEEKLY' | 'MONTHLY', interval?: number, weekdays?: string[], until?: string, count?: number }, customFields?: { [fieldId: string]: string | number | string[] } }
  */
 router.post("/", authenticateToken, createTask);
 
 /**
  * @route   GET /projects/:projectId/tasks
- * @desc    Récupérer toutes les tâches d'un projet
+ * @desc    Récupérer toutes les tâches d'un projet (filtres ?labelIds=id1,id2, ?milestoneId=id|none, ?parentTaskId=id|none et ?customField[fieldId]=valeur ; tri ?sortByCustomField=fieldId&sortOrder=asc|desc)
  * @access  Private (nécessite un token JWT valide et accès au projet)
  * @header  Authorization: Bearer <token>
  */
@@ -41,7 +41,7 @@ router.get("/:taskId", authenticateToken, getTask);
  * @desc    Mettre à jour une tâche
  * @access  Private (nécessite un token JWT valide et accès au projet)
  * @header  Authorization: Bearer <token>
- * @body    { title?: string, description?: string, status?: 'TODO' | 'IN_PROGRESS' | 'DONE' | 'CANCELLED', priority?: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT', dueDate?: string }
+ * @body    { title?: string, description?: string, status?: string, statusReason?: string, priority?: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT', dueDate?: string, estimateMinutes?: number | null, labelIds?: string[], milestoneId?: string | null, parentTaskId?: string | null, overrideDependencies?: boolean, recurrence?: object | null, customFields?: { [fieldId: string]: string | number | string[] | null } }
  */
 router.put("/:taskId", authenticateToken, updateTask);
 
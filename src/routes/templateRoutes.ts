@@ -0,0 +1,35 @@
+import { Router } from "express";
+import {
+  getTemplates,
+  getTemplate,
+  deleteTemplate,
+} from "../controllers/templateController";
+import { authenticateToken } from "../middleware/auth";
+
+const router = Router();
+
+/**
+ * @route   GET /templates
+ * @desc    Récupérer les modèles de projets accessibles (créés ou partagés par un espace de travail)
+ * @access  Private (nécessite un token JWT valide)
+ * @header  Authorization: Bearer <token>
+ */
+router.get("/", authenticateToken, getTemplates);
+
+/**
+ * @route   GET /templates/:id
+ * @desc    Récupérer un modèle de projet avec ses tâches
+ * @access  Private (nécessite un token JWT valide et accès au modèle)
+ * @header  Authorization: Bearer <token>
+ */
+router.get("/:id", authenticateToken, getTemplate);
+
+/**
+ * @route   DELETE /templates/:id
+ * @desc    Supprimer un modèle de projet
+ * @access  Private (nécessite un token JWT valide et être son créateur ou admin de l'espace)
+ * @header  Authorization: Bearer <token>
+ */
+router.delete("/:id", authenticateToken, deleteTemplate);
+
+export default router;
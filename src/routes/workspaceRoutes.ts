@@ -0,0 +1,98 @@
+import { Router } from "express";
+import {
+  createWorkspace,
+  getWorkspaces,
+  getWorkspace,
+  updateWorkspace,
+  deleteWorkspace,
+  addWorkspaceMember,
+  updateWorkspaceMember,
+  removeWorkspaceMember,
+  transferWorkspaceOwnership,
+} from "../controllers/workspaceController";
+import { authenticateToken } from "../middleware/auth";
+
+const router = Router();
+
+/**
+ * @route   POST /workspaces
+ * @desc    Créer un espace de travail (le créateur en devient propriétaire)
+ * @access  Private (nécessite un token JWT valide)
+ * @header  Authorization: Bearer <token>
+ * @body    { name: string, description?: string }
+ */
+router.post("/", authenticateToken, createWorkspace);
+
+/**
+ * @route   GET /workspaces
+ * @desc    Récupérer les espaces de travail de l'utilisateur connecté
+ * @access  Private (nécessite un token JWT valide)
+ * @header  Authorization: Bearer <token>
+ */
+router.get("/", authenticateToken, getWorkspaces);
+
+/**
+ * @route   GET /workspaces/:id
+ * @desc    Récupérer un espace de travail avec ses membres et ses projets
+ * @access  Private (nécessite un token JWT valide et être membre de l'espace)
+ * @header  Authorization: Bearer <token>
+ */
+router.get("/:id", authenticateToken, getWorkspace);
+
+/**
+ * @route   PUT /workspaces/:id
+ * @desc    Mettre à jour un espace de travail
+ * @access  Private (nécessite un token JWT valide et droits d'admin de l'espace)
+ * @header  Authorization: Bearer <token>
+ * @body    { name?: string, description?: string }
+ */
+router.put("/:id", authenticateToken, updateWorkspace);
+
+/**
+ * @route   DELETE /workspaces/:id
+ * @desc    Supprimer un espace de travail sans projet (hors corbeille)
+ * @access  Private (nécessite un token JWT valide et être propriétaire de l'espace)
+ * @header  Authorization: Bearer <token>
+ */
+router.delete("/:id", authenticateToken, deleteWorkspace);
+
+/**
+ * @route   POST /workspaces/:id/members
+ * @desc    Ajouter un membre à un espace de travail
+ * @access  Private (nécessite un token JWT valide et droits d'admin de l'espace)
+ * @header  Authorization: Bearer <token>
+ * @body    { email: string, role?: 'ADMIN' | 'MEMBER' }
+ */
+router.post("/:id/members", authenticateToken, addWorkspaceMember);
+
+/**
+ * @route   PATCH /workspaces/:id/members/:userId
+ * @desc    Modifier le rôle d'un membre d'un espace de travail
+ * @access  Private (nécessite un token JWT valide et droits d'admin de l'espace)
+ * @header  Authorization: Bearer <token>
+ * @body    { role: 'ADMIN' | 'MEMBER' }
+ */
+router.patch("/:id/members/:userId", authenticateToken, updateWorkspaceMember);
+
+/**
+ * @route   DELETE /workspaces/:id/members/:userId
+ * @desc    Retirer un membre d'un espace de travail (ou le quitter)
+ * @access  Private (nécessite un token JWT valide et droits d'admin de l'espace, sauf pour soi-même)
+ * @header  Authorization: Bearer <token>
+ */
+router.delete("/:id/members/:userId", authenticateToken, removeWorkspaceMember);
+
+/**
+ * @route   POST /workspaces/:id/transfer-ownership
+ * @desc    Transférer la propriété d'un espace de travail à un membre (l'ancien propriétaire devient administrateur)
+ * @access  Private (nécessite un token JWT valide et être propriétaire de l'espace)
+ * @header  Authorization: Bearer <token>
+ * @body    { userId: string }
+ */
+router.post(
+  "/:id/transfer-ownership",
+  authenticateToken,
+  transferWorkspaceOwnership
+);
+
+export default router;
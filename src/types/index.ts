@@ -6,9 +6,14 @@ export interface AuthRequest extends Request {
     id: string;
     email: string;
     name?: string;
+    emailVerifiedAt?: string;
     createdAt: string;
     updatedAt: string;
   };
+  // Portée du token d'accès personnel (absente pour une session JWT)
+  tokenScope?: TokenScope;
+  // Session à l'origine du token JWT (absente pour un token d'accès personnel)
+  sessionId?: string;
 }
 
 // Types pour les réponses d'API
@@ -43,44 +48,356 @@ export interface UpdatePasswordRequest {
   newPassword: string;
 }
 
+export interface RefreshTokenRequest {
+  refreshToken: string;
+}
+
+export interface ForgotPasswordRequest {
+  email: string;
+}
+
+export interface ResetPasswordRequest {
+  token: string;
+  newPassword: string;
+}
+
+// Types pour l'authentification à deux facteurs
+export interface TwoFactorCodeRequest {
+  code: string;
+}
+
+export interface TwoFactorLoginRequest {
+  challengeToken: string;
+  code?: string;
+  recoveryCode?: string;
+}
+
+export interface DisableTwoFactorRequest {
+  password: string;
+  code?: string;
+  recoveryCode?: string;
+}
+
+// Types pour la suppression de compte
+export interface DeleteAccountRequest {
+  password: string;
+  confirmEmail: string; // Doit reprendre l'email du compte
+  code?: string; // Requis si la 2FA est activée (ou recoveryCode)
+  recoveryCode?: string;
+}
+
+// Types pour l'envoi d'emails
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Types pour les tokens d'accès personnels
+export interface TokenScope {
+  access: TokenAccess;
+  projectIds: string[] | null; // null = tous les projets de l'utilisateur
+}
+
+export interface CreatePersonalAccessTokenRequest {
+  name: string;
+  scope?: "READ" | "WRITE";
+  projectIds?: string[];
+  expiresInDays?: number;
+}
+
+// Types pour la protection contre les attaques par force brute
+export interface LoginAttemptRecord {
+  failures: number;
+  lastFailureAt: Date;
+  blockedUntil: Date | null;
+}
+
+export interface LoginAttemptStore {
+  get(key: string): Promise<LoginAttemptRecord | null>;
+  set(key: string, record: LoginAttemptRecord): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
 // Types pour les projets
+// Contributeur : email seul (rôle CONTRIBUTOR par défaut) ou email avec un rôle
+export type ContributorInput =
+  | string
+  | { email: string; role?: "ADMIN" | "CONTRIBUTOR" | "VIEWER" };
+
 export interface CreateProjectRequest {
   name: string;
   description?: string;
-  contributors?: string[]; // Array d'emails des contributeurs
+  contributors?: ContributorInput[];
+  workspaceId?: string; // Espace de travail du projet (projet personnel si absent)
+  templateId?: string; // Modèle dont les tâches sont reprises
+  startDate?: string; // ISO date string : démarrage du projet pour les échéances du modèle (maintenant par défaut)
 }
 
 export interface UpdateProjectRequest {
   name?: string;
   description?: string;
-  contributors?: string[];
+  contributors?: ContributorInput[]; // Liste complète : les membres absents sont retirés
+  requireTwoFactor?: boolean;
+  blockParentCompletion?: boolean; // Interdire de terminer une tâche dont des sous-tâches sont ouvertes
+  workspaceId?: string | null; // null pour sortir le projet de son espace de travail
 }
 
 export interface AddContributorRequest {
   email: string;
-  role?: "ADMIN" | "CONTRIBUTOR";
+  role?: "ADMIN" | "CONTRIBUTOR" | "VIEWER";
+  customRoleId?: string; // Rôle personnalisé du projet, à la place de role
+}
+
+export interface UpdateMemberRequest {
+  role?: "ADMIN" | "CONTRIBUTOR" | "VIEWER";
+  customRoleId?: string | null; // null pour revenir à un rôle standard
+}
+
+// Types pour les rôles personnalisés d'un projet
+export interface CreateProjectRoleRequest {
+  name: string;
+  permissions: string[]; // Actions accordées (ProjectAction)
+}
+
+export interface UpdateProjectRoleRequest {
+  name?: string;
+  permissions?: string[];
+}
+
+export interface TransferOwnershipRequest {
+  userId: string; // Membre actuel qui devient propriétaire
+}
+
+// Résultat de l'ajout de contributeurs : membres ajoutés et emails invités
+export interface ContributorsResult {
+  members: string[];
+  invitations: string[];
+  removed?: string[]; // Membres retirés lors d'une mise à jour de la liste
 }
 
 export interface RemoveContributorRequest {
   userId: string;
 }
 
+// Types pour le clonage et les modèles de projets
+export interface CloneProjectRequest {
+  name?: string; // "<nom> (copie)" par défaut
+  includeTasks?: boolean; // true par défaut
+  includeAssignees?: boolean; // Assignations conservées pour les membres du nouveau projet
+  includeMembers?: boolean; // Membres et rôles personnalisés
+  resetStatuses?: boolean; // Repasser les tâches au statut initial du workflow (true par défaut)
+  startDate?: string; // ISO date string : décale les échéances par rapport à la création du projet source
+}
+
+export interface CreateProjectTemplateRequest {
+  name?: string; // Nom du projet par défaut
+  description?: string;
+}
+
+export interface TemplateTask {
+  title: string;
+  description: string | null;
+  priority: string;
+  dueOffsetDays: number | null; // Échéance en jours après le démarrage du projet
+}
+
+// Types pour les espaces de travail
+export interface CreateWorkspaceRequest {
+  name: string;
+  description?: string;
+}
+
+export interface UpdateWorkspaceRequest {
+  name?: string;
+  description?: string;
+}
+
+export interface AddWorkspaceMemberRequest {
+  email: string;
+  role?: "ADMIN" | "MEMBER";
+}
+
+export interface UpdateWorkspaceMemberRequest {
+  role: "ADMIN" | "MEMBER";
+}
+
 // Types pour les tâches
 export interface CreateTaskRequest {
   title: string;
   description?: string;
   priority?: "LOW" | "MEDIUM" | "HIGH" | "URGENT";
   dueDate?: string; // ISO date string
+  estimateMinutes?: number | null; // Estimation de l'effort, en minutes
   assigneeIds?: string[]; // IDs des utilisateurs assignés à la tâche
+  labelIds?: string[]; // IDs des étiquettes du projet
+  milestoneId?: string | null; // Jalon du projet
+  parentTaskId?: string | null; // Tâche parente, pour créer une sous-tâche
+  recurrence?: RecurrenceRule; // Répéter la tâche (échéance requise)
+  customFields?: CustomFieldValues; // Valeurs des champs personnalisés du projet
 }
 
 export interface UpdateTaskRequest {
   title?: string;
   description?: string;
-  status?: "TODO" | "IN_PROGRESS" | "DONE" | "CANCELLED";
+  status?: string; // Clé d'un statut du workflow du projet
+  statusReason?: string; // Motif du changement de statut (obligatoire selon le statut visé)
   priority?: "LOW" | "MEDIUM" | "HIGH" | "URGENT";
   dueDate?: string; // ISO date string
+  estimateMinutes?: number | null; // Estimation de l'effort en minutes, null pour l'effacer
   assigneeIds?: string[]; // IDs des utilisateurs assignés à la tâche
+  labelIds?: string[]; // IDs des étiquettes du projet
+  milestoneId?: string | null; // Jalon du projet, null pour l'en retirer
+  parentTaskId?: string | null; // Tâche parente, null pour en faire une tâche de premier niveau
+  overrideDependencies?: boolean; // Démarrer ou terminer malgré des tâches bloquantes (administrateurs)
+  recurrence?: RecurrenceRule | null; // Règle de la série, null pour arrêter la répétition
+  customFields?: CustomFieldValues; // Valeurs à modifier (null pour effacer une valeur)
+}
+
+// Règle de répétition d'une tâche (sous-ensemble des RRULE)
+export interface RecurrenceRule {
+  frequency: "DAILY" | "WEEKLY" | "MONTHLY";
+  interval?: number; // Toutes les N périodes (1 par défaut)
+  weekdays?: string[]; // Jours de la semaine (MO, TU, WE, TH, FR, SA, SU), pour WEEKLY
+  until?: string; // ISO date string : pas d'occurrence après cette date
+  count?: number; // Nombre total d'occurrences (la tâche d'origine comprise)
+}
+
+// Types pour les dépendances entre tâches (une seule des deux directions)
+export interface CreateTaskDependencyRequest {
+  blockingTaskId?: string; // La tâche est bloquée par celle-ci
+  blockedTaskId?: string; // La tâche bloque celle-ci
+}
+
+// Avancement d'une tâche (sous-tâches ou checklist)
+export interface TaskProgress {
+  total: number;
+  done: number;
+  percentDone: number;
+}
+
+// Types pour les checklists des tâches
+export interface CreateChecklistItemRequest {
+  text: string;
+  position?: number; // Rang dans la checklist (à la fin par défaut)
+}
+
+export interface UpdateChecklistItemRequest {
+  text?: string;
+  done?: boolean;
+  position?: number;
+}
+
+// Types pour le suivi du temps passé sur les tâches
+export interface CreateTimeEntryRequest {
+  startedAt?: string; // ISO date string, requis avec endedAt
+  endedAt?: string; // ISO date string
+  durationMinutes?: number; // À la place de endedAt
+  note?: string;
+}
+
+export interface UpdateTimeEntryRequest {
+  startedAt?: string;
+  endedAt?: string;
+  durationMinutes?: number;
+  note?: string | null;
+}
+
+export interface TimerRequest {
+  note?: string;
+}
+
+// Temps estimé et temps passé (en minutes)
+export interface TimeTotals {
+  estimateMinutes: number;
+  spentMinutes: number;
+}
+
+// Types pour le workflow des tâches
+export interface WorkflowStatus {
+  key: string;
+  name: string;
+  category: StatusCategory;
+  allowedTransitions: string[] | null; // null = toutes les transitions sont autorisées
+  requiresReason: boolean; // Motif obligatoire pour passer à ce statut
+  isCancellation: boolean; // Statut d'abandon : une occurrence récurrente abandonnée est sautée
+}
+
+export interface UpdateWorkflowRequest {
+  statuses: {
+    key: string;
+    name: string;
+    category: "TODO" | "IN_PROGRESS" | "DONE";
+    allowedTransitions?: string[] | null;
+    requiresReason?: boolean;
+    isCancellation?: boolean;
+  }[]; // Liste ordonnée et complète des statuts
+}
+
+// Types pour les étiquettes
+export interface CreateLabelRequest {
+  name: string;
+  color: string; // Couleur hexadécimale (#RRGGBB)
+}
+
+export interface UpdateLabelRequest {
+  name?: string;
+  color?: string;
+}
+
+// Types pour les champs personnalisés des tâches
+export interface CreateCustomFieldRequest {
+  name: string;
+  type: "TEXT" | "NUMBER" | "DATE" | "SINGLE_SELECT" | "MULTI_SELECT" | "USER";
+  options?: string[]; // Choix possibles, pour SINGLE_SELECT et MULTI_SELECT
+}
+
+export interface UpdateCustomFieldRequest {
+  name?: string;
+  options?: string[]; // Liste complète des choix
+}
+
+// Champ personnalisé, avec ses choix décodés
+export interface CustomFieldDefinition {
+  id: string;
+  name: string;
+  type: CustomFieldType;
+  options: string[];
+}
+
+// Valeurs des champs personnalisés d'une tâche, par ID de champ
+export type CustomFieldValues = Record<string, unknown>;
+
+// Types pour les jalons
+export interface CreateMilestoneRequest {
+  name: string;
+  goal?: string;
+  startDate?: string; // ISO date string
+  endDate?: string; // ISO date string
+}
+
+export interface UpdateMilestoneRequest {
+  name?: string;
+  goal?: string | null;
+  startDate?: string | null;
+  endDate?: string | null;
+}
+
+export interface CloseMilestoneRequest {
+  rollOver?: boolean; // Reporter les tâches non terminées sur un autre jalon
+  targetMilestoneId?: string; // Jalon cible (par défaut, le prochain jalon planifié)
+}
+
+export interface MilestoneProgress {
+  total: number;
+  done: number; // Tâches dans un statut de catégorie DONE
+  percentDone: number;
+  byStatus: Record<string, number>;
+  byCategory: Record<StatusCategory, number>;
 }
 
 // Types pour les commentaires
@@ -96,10 +413,18 @@ export interface UpdateCommentRequest {
 export interface JwtPayload {
   userId: string;
   email: string;
+  sessionId?: string;
+  purpose?: "2fa_challenge"; // Absent pour un token d'accès
   iat?: number;
   exp?: number;
 }
 
+// Contexte d'ouverture d'une session (appareil et adresse du client)
+export interface SessionContext {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
 // Types pour les erreurs
 export interface ValidationError {
   field: string;
@@ -110,8 +435,52 @@ export interface ValidationError {
 export enum Role {
   ADMIN = "ADMIN",
   CONTRIBUTOR = "CONTRIBUTOR",
+  VIEWER = "VIEWER",
+}
+
+// Actions soumises à la matrice de permissions d'un projet
+export enum ProjectAction {
+  VIEW_PROJECT = "VIEW_PROJECT", // Seule action autorisée aux tokens en lecture seule
+  EDIT_PROJECT = "EDIT_PROJECT",
+  ARCHIVE_PROJECT = "ARCHIVE_PROJECT", // Archiver et désarchiver
+  DELETE_PROJECT = "DELETE_PROJECT",
+  TRANSFER_OWNERSHIP = "TRANSFER_OWNERSHIP",
+  MANAGE_SECURITY = "MANAGE_SECURITY", // Exigence 2FA, déverrouillage des membres
+  MANAGE_MEMBERS = "MANAGE_MEMBERS",
+  MANAGE_ROLES = "MANAGE_ROLES", // Rôles personnalisés du projet
+  MANAGE_WORKFLOW = "MANAGE_WORKFLOW", // Statuts et transitions des tâches
+  MANAGE_LABELS = "MANAGE_LABELS", // Étiquettes du projet
+  MANAGE_CUSTOM_FIELDS = "MANAGE_CUSTOM_FIELDS", // Champs personnalisés des tâches
+  MANAGE_MILESTONES = "MANAGE_MILESTONES", // Jalons (sprints) du projet
+  CREATE_TASK = "CREATE_TASK",
+  EDIT_TASK = "EDIT_TASK",
+  UPDATE_TASK_STATUS = "UPDATE_TASK_STATUS", // Changer uniquement le statut d'une tâche
+  OVERRIDE_DEPENDENCIES = "OVERRIDE_DEPENDENCIES", // Passer outre les tâches bloquantes
+  DELETE_TASK = "DELETE_TASK",
+  DELETE_OWN_TASK = "DELETE_OWN_TASK",
+  LOG_TIME = "LOG_TIME", // Saisir son temps passé sur les tâches
+  MANAGE_TIME_ENTRIES = "MANAGE_TIME_ENTRIES", // Modifier le temps saisi par les autres
+  COMMENT = "COMMENT",
+  MODERATE_COMMENTS = "MODERATE_COMMENTS",
 }
 
+// Rôle pris en compte par la matrice : le propriétaire a ses propres droits,
+// les administrateurs de l'espace de travail gèrent tous ses projets
+export type PermissionRole = Role | "OWNER" | "WORKSPACE_ADMIN";
+
+// Rôles au sein d'un espace de travail
+export enum WorkspaceRole {
+  OWNER = "OWNER",
+  ADMIN = "ADMIN",
+  MEMBER = "MEMBER",
+}
+
+export enum TokenAccess {
+  READ = "READ",
+  WRITE = "WRITE",
+}
+
+// Statuts du workflow par défaut d'un projet
 export enum TaskStatus {
   TODO = "TODO",
   IN_PROGRESS = "IN_PROGRESS",
@@ -119,6 +488,36 @@ export enum TaskStatus {
   CANCELLED = "CANCELLED",
 }
 
+// Catégorie d'un statut de workflow, utilisée par les statistiques
+export enum StatusCategory {
+  TODO = "TODO",
+  IN_PROGRESS = "IN_PROGRESS",
+  DONE = "DONE",
+}
+
+// Fréquences de répétition des tâches
+export enum RecurrenceFrequency {
+  DAILY = "DAILY",
+  WEEKLY = "WEEKLY",
+  MONTHLY = "MONTHLY",
+}
+
+// États d'un jalon
+export enum CustomFieldType {
+  TEXT = "TEXT",
+  NUMBER = "NUMBER",
+  DATE = "DATE",
+  SINGLE_SELECT = "SINGLE_SELECT",
+  MULTI_SELECT = "MULTI_SELECT",
+  USER = "USER", // ID d'un membre du projet
+}
+
+export enum MilestoneState {
+  PLANNED = "PLANNED",
+  OPEN = "OPEN",
+  CLOSED = "CLOSED",
+}
+
 export enum Priority {
   LOW = "LOW",
   MEDIUM = "MEDIUM",
@@ -0,0 +1,27 @@
+import { SessionContext } from "../types";
+import { generateToken } from "./jwt";
+import { issueRefreshToken } from "./refreshTokens";
+import { createSession } from "./sessions";
+
+/**
+ * Ouvre une session authentifiée pour un utilisateur
+ * (connexion, inscription, second facteur validé)
+ * @param user - L'utilisateur authentifié
+ * @param context - User agent et IP du client
+ * @returns Le token JWT d'accès et le refresh token associé
+ */
+export const startAuthSession = async (
+  user: {
+    id: string;
+    email: string;
+  },
+  context: SessionContext
+): Promise<{ token: string; refreshToken: string }> => {
+  const session = await createSession(user.id, context);
+
+  // La famille de rotation des refresh tokens porte l'ID de la session
+  const token = generateToken(user.id, user.email, session.id);
+  const { refreshToken } = await issueRefreshToken(user.id, session.id);
+
+  return { token, refreshToken };
+};
@@ -0,0 +1,359 @@
+import { CustomField, PrismaClient } from "@prisma/client";
+import {
+  CustomFieldDefinition,
+  CustomFieldType,
+  CustomFieldValues,
+} from "../types";
+
+const prisma = new PrismaClient();
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Décode les choix d'un champ personnalisé (tableau JSON)
+ * @param options - Choix stockés en base
+ * @returns Les choix, ou un tableau vide si absents ou illisibles
+ */
+const parseOptions = (options: string | null): string[] => {
+  if (!options) return [];
+  try {
+    const parsed = JSON.parse(options);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Convertit un champ personnalisé enregistré en définition (choix décodés)
+ * @param field - Le champ
+ * @returns La définition du champ
+ */
+export const toCustomFieldDefinition = (
+  field: CustomField
+): CustomFieldDefinition => ({
+  id: field.id,
+  name: field.name,
+  type: field.type as CustomFieldType,
+  options: parseOptions(field.options),
+});
+
+/**
+ * Récupère les champs personnalisés d'un projet
+ * @param projectId - ID du projet
+ * @returns Les définitions des champs, par ordre de création
+ */
+export const getProjectCustomFields = async (
+  projectId: string
+): Promise<CustomFieldDefinition[]> => {
+  const fields = await prisma.customField.findMany({
+    where: { projectId },
+    orderBy: { createdAt: "asc" },
+  });
+
+  return fields.map(toCustomFieldDefinition);
+};
+
+/**
+ * Liste les utilisateurs choisis dans les champs de type USER
+ * @param definitions - Champs personnalisés du projet
+ * @param values - Valeurs par ID de champ
+ * @returns Les IDs des utilisateurs, pour vérifier qu'ils sont membres du projet
+ */
+export const getCustomFieldUserIds = (
+  definitions: CustomFieldDefinition[],
+  values: CustomFieldValues
+): string[] => {
+  const userFieldIds = new Set(
+    definitions
+      .filter((definition) => definition.type === CustomFieldType.USER)
+      .map((definition) => definition.id)
+  );
+
+  return Array.from(
+    new Set(
+      Object.entries(values)
+        .filter(([fieldId, value]) => userFieldIds.has(fieldId) && value)
+        .map(([, value]) => value as string)
+    )
+  );
+};
+
+/**
+ * Met en forme une valeur validée avant son enregistrement
+ * @param type - Type du champ
+ * @param value - La valeur
+ * @returns La valeur normalisée (texte sans espaces superflus, date ISO, choix uniques)
+ */
+const normalizeValue = (type: string, value: unknown): unknown => {
+  switch (type) {
+    case CustomFieldType.TEXT:
+      return (value as string).trim();
+    case CustomFieldType.DATE:
+      return new Date(value as string).toISOString();
+    case CustomFieldType.MULTI_SELECT:
+      return Array.from(new Set(value as string[]));
+    default:
+      return value;
+  }
+};
+
+/**
+ * Enregistre les valeurs des champs personnalisés d'une tâche
+ * (seuls les champs fournis sont modifiés, null ou texte vide efface la valeur)
+ * @param taskId - ID de la tâche
+ * @param definitions - Champs personnalisés du projet
+ * @param values - Valeurs validées, par ID de champ
+ */
+export const setTaskCustomFieldValues = async (
+  taskId: string,
+  definitions: CustomFieldDefinition[],
+  values: CustomFieldValues
+): Promise<void> => {
+  for (const [fieldId, value] of Object.entries(values)) {
+    const definition = definitions.find((item) => item.id === fieldId);
+    if (!definition) continue;
+
+    const normalized =
+      value === null ? null : normalizeValue(definition.type, value);
+    if (
+      normalized === null ||
+      normalized === "" ||
+      (Array.isArray(normalized) && normalized.length === 0)
+    ) {
+      await prisma.taskCustomFieldValue.deleteMany({
+        where: { taskId, fieldId },
+      });
+      continue;
+    }
+
+    await prisma.taskCustomFieldValue.upsert({
+      where: { taskId_fieldId: { taskId, fieldId } },
+      create: { taskId, fieldId, value: JSON.stringify(normalized) },
+      update: { value: JSON.stringify(normalized) },
+    });
+  }
+};
+
+/**
+ * Récupère les valeurs des champs personnalisés de plusieurs tâches
+ * @param taskIds - IDs des tâches
+ * @returns Les valeurs par ID de champ, pour chaque ID de tâche
+ */
+export const getCustomFieldValuesByTask = async (
+  taskIds: string[]
+): Promise<Map<string, CustomFieldValues>> => {
+  const valuesByTask = new Map<string, CustomFieldValues>(
+    taskIds.map((taskId) => [taskId, {}])
+  );
+  if (taskIds.length === 0) {
+    return valuesByTask;
+  }
+
+  const values = await prisma.taskCustomFieldValue.findMany({
+    where: { taskId: { in: taskIds } },
+  });
+
+  for (const item of values) {
+    try {
+      valuesByTask.get(item.taskId)![item.fieldId] = JSON.parse(item.value);
+    } catch {
+      // Valeur illisible : ignorée
+    }
+  }
+
+  return valuesByTask;
+};
+
+/**
+ * Construit une condition de filtre sur un champ personnalisé
+ * @param definition - Le champ filtré
+ * @param filter - Valeur du paramètre de requête : "none" (sans valeur), valeur
+ * ou liste séparée par des virgules, ou bornes { gte, lte } (nombres et dates)
+ * @returns La condition sur la valeur, ou null si le filtre est invalide
+ */
+const buildFilter = (
+  definition: CustomFieldDefinition,
+  filter: unknown
+): ((value: unknown) => boolean) | null => {
+  if (filter === "none") {
+    return (value) => value === undefined;
+  }
+
+  if (
+    definition.type === CustomFieldType.NUMBER ||
+    definition.type === CustomFieldType.DATE
+  ) {
+    const toNumber = (raw: unknown): number => {
+      if (typeof raw !== "string") return NaN;
+      return definition.type === CustomFieldType.NUMBER
+        ? Number(raw)
+        : new Date(raw).getTime();
+    };
+    const valueOf = (value: unknown): number =>
+      definition.type === CustomFieldType.NUMBER
+        ? (value as number)
+        : new Date(value as string).getTime();
+
+    if (typeof filter === "string") {
+      const target = toNumber(filter);
+      if (Number.isNaN(target)) return null;
+      // Une date seule désigne toute la journée (UTC)
+      const upper =
+        definition.type === CustomFieldType.DATE && filter.length === 10
+          ? target + DAY_IN_MS
+          : null;
+      return (value) =>
+        value !== undefined &&
+        (upper === null
+          ? valueOf(value) === target
+          : valueOf(value) >= target && valueOf(value) < upper);
+    }
+
+    if (filter && typeof filter === "object" && !Array.isArray(filter)) {
+      const { gte, lte } = filter as Record<string, unknown>;
+      const min = gte === undefined ? -Infinity : toNumber(gte);
+      const max = lte === undefined ? Infinity : toNumber(lte);
+      if (Number.isNaN(min) || Number.isNaN(max)) return null;
+      return (value) =>
+        value !== undefined && valueOf(value) >= min && valueOf(value) <= max;
+    }
+
+    return null;
+  }
+
+  if (typeof filter !== "string" || !filter.trim()) {
+    return null;
+  }
+
+  if (definition.type === CustomFieldType.TEXT) {
+    const search = filter.trim().toLowerCase();
+    return (value) =>
+      typeof value === "string" && value.toLowerCase().includes(search);
+  }
+
+  // Choix et utilisateurs : au moins une des valeurs listées
+  const accepted = filter
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+  if (definition.type === CustomFieldType.MULTI_SELECT) {
+    return (value) =>
+      Array.isArray(value) && value.some((item) => accepted.includes(item));
+  }
+  return (value) => typeof value === "string" && accepted.includes(value);
+};
+
+/**
+ * Analyse les filtres par champ personnalisé des listes de tâches
+ * @param query - Paramètre de requête customField ({ idDuChamp: filtre })
+ * @param definitions - Champs personnalisés du projet
+ * @returns Les conditions sur les valeurs d'une tâche, ou null si un filtre est invalide
+ */
+export const parseCustomFieldFilters = (
+  query: unknown,
+  definitions: CustomFieldDefinition[]
+): ((values: CustomFieldValues) => boolean)[] | null => {
+  if (query === undefined) {
+    return [];
+  }
+  if (!query || typeof query !== "object" || Array.isArray(query)) {
+    return null;
+  }
+
+  const filters: ((values: CustomFieldValues) => boolean)[] = [];
+  for (const [fieldId, filter] of Object.entries(query)) {
+    const definition = definitions.find((item) => item.id === fieldId);
+    const condition = definition ? buildFilter(definition, filter) : null;
+    if (!condition) return null;
+
+    filters.push((values) => condition(values[fieldId]));
+  }
+
+  return filters;
+};
+
+/**
+ * Indique si les tâches peuvent être triées selon un champ personnalisé
+ * @param definition - Le champ
+ * @returns true pour les textes, nombres, dates et choix uniques
+ */
+export const isSortableCustomField = (
+  definition: CustomFieldDefinition
+): boolean => {
+  return (
+    definition.type !== CustomFieldType.MULTI_SELECT &&
+    definition.type !== CustomFieldType.USER
+  );
+};
+
+/**
+ * Compare deux valeurs d'un champ personnalisé pour le tri des tâches
+ * (les tâches sans valeur sont placées en dernier)
+ * @param definition - Le champ trié
+ * @param descending - Tri décroissant
+ * @returns La fonction de comparaison des valeurs
+ */
+export const compareCustomFieldValues = (
+  definition: CustomFieldDefinition,
+  descending: boolean
+) => {
+  const sortKey = (value: unknown): number | string => {
+    switch (definition.type) {
+      case CustomFieldType.NUMBER:
+        return value as number;
+      case CustomFieldType.DATE:
+        return new Date(value as string).getTime();
+      case CustomFieldType.SINGLE_SELECT:
+        // Dans l'ordre des choix du champ
+        return definition.options.indexOf(value as string);
+      default:
+        return String(value).toLowerCase();
+    }
+  };
+
+  return (a: unknown, b: unknown): number => {
+    if (a === undefined || b === undefined) {
+      return (a === undefined ? 1 : 0) - (b === undefined ? 1 : 0);
+    }
+
+    const keyA = sortKey(a);
+    const keyB = sortKey(b);
+    const order =
+      typeof keyA === "string"
+        ? keyA.localeCompare(keyB as string)
+        : keyA - (keyB as number);
+    return descending ? -order : order;
+  };
+};
+
+/**
+ * Copie les champs personnalisés d'un projet dans un autre projet
+ * @param sourceProjectId - ID du projet d'origine
+ * @param targetProjectId - ID du nouveau projet
+ * @returns La correspondance entre les IDs d'origine et ceux des copies
+ */
+export const copyProjectCustomFields = async (
+  sourceProjectId: string,
+  targetProjectId: string
+): Promise<Map<string, string>> => {
+  const fields = await prisma.customField.findMany({
+    where: { projectId: sourceProjectId },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const fieldIds = new Map<string, string>();
+  for (const field of fields) {
+    const copiedField = await prisma.customField.create({
+      data: {
+        name: field.name,
+        type: field.type,
+        options: field.options,
+        projectId: targetProjectId,
+      },
+    });
+    fieldIds.set(field.id, copiedField.id);
+  }
+
+  return fieldIds;
+};
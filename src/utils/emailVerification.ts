@@ -0,0 +1,106 @@
+import { PrismaClient } from "@prisma/client";
+import { generateOpaqueToken, hashToken } from "./tokens";
+import { sendMail, buildAppUrl } from "./mailer";
+
+const prisma = new PrismaClient();
+
+export type EmailVerificationResult =
+  | { status: "VERIFIED"; userId: string }
+  | { status: "INVALID" | "EXPIRED" | "USED" };
+
+/**
+ * Indique si seuls les utilisateurs à l'email vérifié peuvent être ajoutés aux projets
+ * (REQUIRE_VERIFIED_EMAIL_FOR_PROJECTS=true)
+ * @returns true si la vérification est exigée
+ */
+export const isVerifiedEmailRequiredForProjects = (): boolean => {
+  return process.env.REQUIRE_VERIFIED_EMAIL_FOR_PROJECTS === "true";
+};
+
+/**
+ * Crée un token de vérification et l'envoie à l'adresse de l'utilisateur
+ * Les tokens précédents encore valides sont annulés
+ * @param user - L'utilisateur dont l'email doit être vérifié
+ */
+export const sendEmailVerification = async (user: {
+  id: string;
+  email: string;
+  name?: string | null;
+}): Promise<void> => {
+  const hours = parseInt(
+    process.env.EMAIL_VERIFICATION_EXPIRES_IN_HOURS || "48",
+    10
+  );
+  const token = generateOpaqueToken(32);
+  const expiresAt = new Date(Date.now() + hours * 60 * 60 * 1000);
+
+  await prisma.emailVerificationToken.updateMany({
+    where: { userId: user.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  await prisma.emailVerificationToken.create({
+    data: {
+      tokenHash: hashToken(token),
+      email: user.email,
+      expiresAt,
+      userId: user.id,
+    },
+  });
+
+  await sendMail({
+    to: user.email,
+    subject: "Vérifiez votre adresse email",
+    text: [
+      `Bonjour${user.name ? ` ${user.name}` : ""},`,
+      "",
+      "Pour confirmer votre adresse email, ouvrez le lien suivant :",
+      buildAppUrl("/verify-email", { token }),
+      "",
+      `Ce lien est valable jusqu'au ${expiresAt.toISOString()}.`,
+    ].join("\n"),
+  });
+};
+
+/**
+ * Vérifie l'adresse email associée à un token
+ * Le token n'est accepté que si l'utilisateur a toujours la même adresse
+ * @param token - Le token en clair reçu par email
+ * @returns Le résultat de la vérification
+ */
+export const verifyEmailToken = async (
+  token: string
+): Promise<EmailVerificationResult> => {
+  const stored = await prisma.emailVerificationToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { user: { select: { email: true } } },
+  });
+
+  if (!stored || stored.user.email !== stored.email) {
+    return { status: "INVALID" };
+  }
+
+  if (stored.usedAt) {
+    return { status: "USED" };
+  }
+
+  if (stored.expiresAt < new Date()) {
+    return { status: "EXPIRED" };
+  }
+
+  const consumed = await prisma.emailVerificationToken.updateMany({
+    where: { id: stored.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  if (consumed.count === 0) {
+    return { status: "USED" };
+  }
+
+  await prisma.user.update({
+    where: { id: stored.userId },
+    data: { emailVerifiedAt: new Date() },
+  });
+
+  return { status: "VERIFIED", userId: stored.userId };
+};
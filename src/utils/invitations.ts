@@ -0,0 +1,328 @@
+import { PrismaClient, ProjectInvitation } from "@prisma/client";
+import { ContributorInput, ContributorsResult, Role } from "../types";
+import { isVerifiedEmailRequiredForProjects } from "./emailVerification";
+import { sendMail, buildAppUrl } from "./mailer";
+import { stopRunningTimers } from "./timeTracking";
+
+const prisma = new PrismaClient();
+
+/**
+ * Indique si un utilisateur peut rejoindre un projet directement
+ * (email vérifié si REQUIRE_VERIFIED_EMAIL_FOR_PROJECTS=true)
+ * @param user - L'utilisateur
+ * @returns true si l'utilisateur peut devenir membre
+ */
+export const canJoinProjects = (user: {
+  emailVerifiedAt: Date | null;
+}): boolean => {
+  return !isVerifiedEmailRequiredForProjects() || !!user.emailVerifiedAt;
+};
+
+/**
+ * Envoie l'email d'invitation à un projet
+ * @param invitation - L'invitation
+ * @param context - Nom du projet, auteur de l'invitation et existence d'un compte
+ */
+const sendInvitationEmail = async (
+  invitation: ProjectInvitation,
+  context: { projectName: string; inviterName: string; hasAccount: boolean }
+): Promise<void> => {
+  const link = context.hasAccount
+    ? buildAppUrl("/invitations")
+    : buildAppUrl("/register", { email: invitation.email });
+
+  await sendMail({
+    to: invitation.email,
+    subject: `Invitation au projet ${context.projectName}`,
+    text: [
+      "Bonjour,",
+      "",
+      `${context.inviterName} vous invite à rejoindre le projet "${context.projectName}" sur Abricot.`,
+      context.hasAccount
+        ? "Pour accepter ou refuser l'invitation, ouvrez le lien suivant :"
+        : "Pour rejoindre le projet, créez votre compte avec cette adresse email :",
+      link,
+    ].join("\n"),
+  });
+};
+
+/**
+ * Crée (ou met à jour) une invitation en attente et l'envoie par email
+ * @param projectId - ID du projet
+ * @param email - Email invité
+ * @param role - Rôle attribué à l'acceptation
+ * @param invitedBy - Utilisateur à l'origine de l'invitation
+ * @param customRoleId - Rôle personnalisé attribué à l'acceptation, le cas échéant
+ * @returns L'invitation
+ */
+export const inviteToProject = async (
+  projectId: string,
+  email: string,
+  role: string,
+  invitedBy: { id: string; email: string; name?: string | null },
+  customRoleId: string | null = null
+): Promise<ProjectInvitation> => {
+  const normalizedEmail = email.toLowerCase();
+
+  const invitation = await prisma.projectInvitation.upsert({
+    where: {
+      projectId_email: { projectId, email: normalizedEmail },
+    },
+    update: { role, customRoleId, invitedById: invitedBy.id },
+    create: {
+      projectId,
+      email: normalizedEmail,
+      role,
+      customRoleId,
+      invitedById: invitedBy.id,
+    },
+    include: { project: { select: { name: true } } },
+  });
+
+  const existingUser = await prisma.user.findUnique({
+    where: { email: normalizedEmail },
+    select: { id: true },
+  });
+
+  // Un échec d'envoi n'annule pas l'invitation
+  try {
+    await sendInvitationEmail(invitation, {
+      projectName: invitation.project.name,
+      inviterName: invitedBy.name || invitedBy.email,
+      hasAccount: !!existingUser,
+    });
+  } catch (error) {
+    console.error("Erreur lors de l'envoi de l'email d'invitation:", error);
+  }
+
+  return invitation;
+};
+
+/**
+ * Normalise une liste de contributeurs : emails en minuscules, sans doublon
+ * (le dernier rôle indiqué pour un email est retenu)
+ * @param contributors - Emails seuls ou objets { email, role }
+ * @returns Le rôle demandé par email (undefined si aucun rôle n'est précisé)
+ */
+const normalizeContributors = (
+  contributors: ContributorInput[]
+): Map<string, Role | undefined> => {
+  const entries = new Map<string, Role | undefined>();
+
+  for (const contributor of contributors) {
+    if (typeof contributor === "string") {
+      const email = contributor.toLowerCase();
+      entries.set(email, entries.get(email));
+    } else {
+      entries.set(
+        contributor.email.toLowerCase(),
+        contributor.role as Role | undefined
+      );
+    }
+  }
+
+  return entries;
+};
+
+/**
+ * Ajoute des contributeurs à un projet : les utilisateurs existants deviennent membres,
+ * les autres emails reçoivent une invitation en attente
+ * @param projectId - ID du projet
+ * @param contributors - Emails des contributeurs, avec leur rôle éventuel (CONTRIBUTOR par défaut)
+ * @param invitedBy - Utilisateur à l'origine de l'ajout
+ * @returns Les emails devenus membres et les emails invités
+ */
+export const addProjectContributors = async (
+  projectId: string,
+  contributors: ContributorInput[],
+  invitedBy: { id: string; email: string; name?: string | null }
+): Promise<ContributorsResult> => {
+  const result: ContributorsResult = { members: [], invitations: [] };
+  const entries = normalizeContributors(contributors);
+  const normalizedEmails = Array.from(entries.keys());
+
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { ownerId: true },
+  });
+
+  const users = await prisma.user.findMany({
+    where: { email: { in: normalizedEmails } },
+    select: { id: true, email: true, emailVerifiedAt: true },
+  });
+
+  for (const email of normalizedEmails) {
+    const user = users.find((candidate) => candidate.email === email);
+    const role = entries.get(email) ?? Role.CONTRIBUTOR;
+
+    // Le propriétaire n'apparaît pas dans les membres
+    if (user && user.id === project?.ownerId) {
+      continue;
+    }
+
+    if (user && canJoinProjects(user)) {
+      try {
+        await prisma.projectMember.create({
+          data: {
+            userId: user.id,
+            projectId,
+            role,
+          },
+        });
+      } catch (error) {
+        // Ignorer les erreurs de doublons
+        console.log(`Utilisateur ${user.email} déjà membre du projet`);
+      }
+      result.members.push(email);
+    } else {
+      await inviteToProject(projectId, email, role, invitedBy);
+      result.invitations.push(email);
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Aligne les membres et invitations d'un projet sur une liste complète de contributeurs
+ * Les adhésions existantes sont conservées (date d'arrivée, rôle personnalisé) et ne
+ * changent de rôle que si un rôle est explicitement indiqué ; les absents sont retirés
+ * @param projectId - ID du projet
+ * @param contributors - Liste complète des contributeurs, avec leur rôle éventuel
+ * @param invitedBy - Utilisateur à l'origine de la mise à jour
+ * @returns Les membres, les emails invités et les membres retirés
+ */
+export const syncProjectContributors = async (
+  projectId: string,
+  contributors: ContributorInput[],
+  invitedBy: { id: string; email: string; name?: string | null }
+): Promise<ContributorsResult> => {
+  const entries = normalizeContributors(contributors);
+  const emails = Array.from(entries.keys());
+
+  const currentMembers = await prisma.projectMember.findMany({
+    where: { projectId },
+    include: { user: { select: { email: true } } },
+  });
+  const currentInvitations = await prisma.projectInvitation.findMany({
+    where: { projectId },
+  });
+
+  // Retirer les membres et invitations absents de la liste
+  const removedMembers = currentMembers.filter(
+    (member) => !entries.has(member.user.email)
+  );
+  await prisma.projectMember.deleteMany({
+    where: { id: { in: removedMembers.map((member) => member.id) } },
+  });
+  await stopRunningTimers({
+    userId: { in: removedMembers.map((member) => member.userId) },
+    task: { projectId },
+  });
+  await prisma.projectInvitation.deleteMany({
+    where: { projectId, email: { notIn: emails } },
+  });
+
+  // Appliquer les rôles explicites aux membres et invitations conservés
+  const keptMembers = currentMembers.filter((member) =>
+    entries.has(member.user.email)
+  );
+  for (const member of keptMembers) {
+    const role = entries.get(member.user.email);
+    if (role && role !== member.role) {
+      await prisma.projectMember.update({
+        where: { id: member.id },
+        data: { role },
+      });
+    }
+  }
+
+  const keptInvitations = currentInvitations.filter((invitation) =>
+    entries.has(invitation.email)
+  );
+  for (const invitation of keptInvitations) {
+    const role = entries.get(invitation.email);
+    if (role && role !== invitation.role) {
+      await prisma.projectInvitation.update({
+        where: { id: invitation.id },
+        data: { role },
+      });
+    }
+  }
+
+  // Ajouter les nouveaux contributeurs (invitation pour les emails sans compte)
+  const knownEmails = new Set([
+    ...keptMembers.map((member) => member.user.email),
+    ...keptInvitations.map((invitation) => invitation.email),
+  ]);
+  const added = await addProjectContributors(
+    projectId,
+    emails
+      .filter((email) => !knownEmails.has(email))
+      .map((email) => ({ email, role: entries.get(email) })),
+    invitedBy
+  );
+
+  return {
+    members: [
+      ...keptMembers.map((member) => member.user.email),
+      ...added.members,
+    ],
+    invitations: [
+      ...keptInvitations.map((invitation) => invitation.email),
+      ...added.invitations,
+    ],
+    removed: removedMembers.map((member) => member.user.email),
+  };
+};
+
+/**
+ * Accepte une invitation : crée l'adhésion au projet et supprime l'invitation
+ * @param invitation - L'invitation à accepter
+ * @param userId - ID de l'utilisateur invité
+ */
+export const acceptInvitation = async (
+  invitation: ProjectInvitation,
+  userId: string
+): Promise<void> => {
+  const existingMember = await prisma.projectMember.findUnique({
+    where: {
+      userId_projectId: { userId, projectId: invitation.projectId },
+    },
+  });
+
+  if (!existingMember) {
+    await prisma.projectMember.create({
+      data: {
+        userId,
+        projectId: invitation.projectId,
+        role: invitation.role,
+        customRoleId: invitation.customRoleId,
+      },
+    });
+  }
+
+  await prisma.projectInvitation.delete({
+    where: { id: invitation.id },
+  });
+};
+
+/**
+ * Accepte toutes les invitations en attente d'un utilisateur (à l'inscription)
+ * @param user - L'utilisateur
+ * @returns Les IDs des projets rejoints
+ */
+export const acceptPendingInvitations = async (user: {
+  id: string;
+  email: string;
+}): Promise<string[]> => {
+  const invitations = await prisma.projectInvitation.findMany({
+    where: { email: user.email },
+  });
+
+  for (const invitation of invitations) {
+    await acceptInvitation(invitation, user.id);
+  }
+
+  return invitations.map((invitation) => invitation.projectId);
+};
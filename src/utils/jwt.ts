@@ -2,19 +2,26 @@ import jwt, { SignOptions } from "jsonwebtoken";
 import { JwtPayload } from "../types";
 
 /**
- * Génère un token JWT pour un utilisateur
+ * Génère un token JWT d'accès (courte durée) pour un utilisateur
+ * Le renouvellement passe par un refresh token (voir utils/refreshTokens)
  * @param userId - L'ID de l'utilisateur
  * @param email - L'email de l'utilisateur
+ * @param sessionId - ID de la session à laquelle rattacher le token
  * @returns Le token JWT généré
  */
-export const generateToken = (userId: string, email: string): string => {
+export const generateToken = (
+  userId: string,
+  email: string,
+  sessionId?: string
+): string => {
   const payload: JwtPayload = {
     userId,
     email,
+    sessionId,
   };
 
   const secret = process.env.JWT_SECRET;
-  const expiresIn = process.env.JWT_EXPIRES_IN || "7d";
+  const expiresIn = process.env.JWT_EXPIRES_IN || "15m";
 
   if (!secret) {
     throw new Error("JWT_SECRET is not defined in environment variables");
@@ -36,9 +43,9 @@ export const verifyToken = (token: string): JwtPayload => {
     throw new Error("JWT_SECRET is not defined in environment variables");
   }
 
+  let decoded: JwtPayload;
   try {
-    const decoded = jwt.verify(token, secret) as JwtPayload;
-    return decoded;
+    decoded = jwt.verify(token, secret) as JwtPayload;
   } catch (error) {
     if (error instanceof jwt.TokenExpiredError) {
       throw new Error("Token expiré");
@@ -48,6 +55,65 @@ export const verifyToken = (token: string): JwtPayload => {
       throw new Error("Erreur de vérification du token");
     }
   }
+
+  // Un token de challenge 2FA ne donne pas accès à l'API
+  if (decoded.purpose) {
+    throw new Error("Token invalide");
+  }
+
+  return decoded;
+};
+
+/**
+ * Génère un token de challenge 2FA, échangé contre un token d'accès
+ * une fois le code TOTP vérifié
+ * @param userId - L'ID de l'utilisateur
+ * @param email - L'email de l'utilisateur
+ * @returns Le token de challenge (valable 5 minutes)
+ */
+export const generateTwoFactorChallengeToken = (
+  userId: string,
+  email: string
+): string => {
+  const payload: JwtPayload = {
+    userId,
+    email,
+    purpose: "2fa_challenge",
+  };
+
+  const secret = process.env.JWT_SECRET;
+
+  if (!secret) {
+    throw new Error("JWT_SECRET is not defined in environment variables");
+  }
+
+  return jwt.sign(payload, secret, { expiresIn: "5m" });
+};
+
+/**
+ * Vérifie et décode un token de challenge 2FA
+ * @param token - Le token de challenge
+ * @returns Le payload décodé du token
+ */
+export const verifyTwoFactorChallengeToken = (token: string): JwtPayload => {
+  const secret = process.env.JWT_SECRET;
+
+  if (!secret) {
+    throw new Error("JWT_SECRET is not defined in environment variables");
+  }
+
+  try {
+    const decoded = jwt.verify(token, secret) as JwtPayload;
+    if (decoded.purpose !== "2fa_challenge") {
+      throw new Error("Token de challenge invalide");
+    }
+    return decoded;
+  } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      throw new Error("Token de challenge expiré");
+    }
+    throw new Error("Token de challenge invalide");
+  }
 };
 
 /**
@@ -0,0 +1,210 @@
+import { PrismaClient } from "@prisma/client";
+import { LoginAttemptRecord, LoginAttemptStore } from "../types";
+
+const prisma = new PrismaClient();
+
+export type LoginThrottle =
+  | { allowed: true }
+  | {
+      allowed: false;
+      reason: "LOCKED" | "THROTTLED";
+      retryAfterSeconds: number;
+    };
+
+/**
+ * Stockage en mémoire des tentatives (par défaut, propre à chaque processus)
+ */
+export class MemoryLoginAttemptStore implements LoginAttemptStore {
+  private readonly records = new Map<string, LoginAttemptRecord>();
+
+  async get(key: string): Promise<LoginAttemptRecord | null> {
+    return this.records.get(key) || null;
+  }
+
+  async set(key: string, record: LoginAttemptRecord): Promise<void> {
+    this.records.set(key, record);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+}
+
+/**
+ * Stockage des tentatives en base, partagé entre plusieurs instances de l'API
+ */
+export class PrismaLoginAttemptStore implements LoginAttemptStore {
+  async get(key: string): Promise<LoginAttemptRecord | null> {
+    const attempt = await prisma.loginAttempt.findUnique({ where: { key } });
+
+    if (!attempt) {
+      return null;
+    }
+
+    return {
+      failures: attempt.failures,
+      lastFailureAt: attempt.lastFailureAt,
+      blockedUntil: attempt.blockedUntil,
+    };
+  }
+
+  async set(key: string, record: LoginAttemptRecord): Promise<void> {
+    await prisma.loginAttempt.upsert({
+      where: { key },
+      create: { key, ...record },
+      update: record,
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    await prisma.loginAttempt.deleteMany({ where: { key } });
+  }
+}
+
+let store: LoginAttemptStore =
+  process.env.LOGIN_ATTEMPT_STORE === "prisma"
+    ? new PrismaLoginAttemptStore()
+    : new MemoryLoginAttemptStore();
+
+/**
+ * Remplace le stockage utilisé pour les compteurs de tentatives
+ * @param loginAttemptStore - Le stockage à utiliser
+ */
+export const setLoginAttemptStore = (
+  loginAttemptStore: LoginAttemptStore
+): void => {
+  store = loginAttemptStore;
+};
+
+const readIntEnv = (name: string, defaultValue: number): number => {
+  const value = parseInt(process.env[name] || "", 10);
+  return isNaN(value) ? defaultValue : value;
+};
+
+const getPolicy = () => ({
+  maxAccountFailures: readIntEnv("LOGIN_MAX_FAILURES", 5),
+  maxIpFailures: readIntEnv("LOGIN_MAX_FAILURES_PER_IP", 20),
+  lockoutSeconds: readIntEnv("LOGIN_LOCKOUT_SECONDS", 900),
+  windowSeconds: readIntEnv("LOGIN_ATTEMPT_WINDOW_SECONDS", 900),
+});
+
+const MAX_BACKOFF_SECONDS = 30;
+const MAX_LOCKOUT_SECONDS = 24 * 60 * 60;
+
+const accountKey = (email: string): string => `account:${email.toLowerCase()}`;
+const ipKey = (ip: string): string => `ip:${ip}`;
+
+/**
+ * Calcule le blocage à appliquer après un échec
+ * Avant le seuil : attente exponentielle (1s, 2s, 4s... plafonnée)
+ * Au-delà : verrouillage dont la durée double à chaque nouvel échec
+ */
+const computeBlockedUntil = (
+  failures: number,
+  maxFailures: number,
+  lockoutSeconds: number,
+  now: Date
+): Date => {
+  const seconds =
+    failures >= maxFailures
+      ? Math.min(
+          lockoutSeconds * Math.pow(2, failures - maxFailures),
+          MAX_LOCKOUT_SECONDS
+        )
+      : Math.min(Math.pow(2, failures - 1), MAX_BACKOFF_SECONDS);
+
+  return new Date(now.getTime() + seconds * 1000);
+};
+
+const getRetryAfterSeconds = (
+  record: LoginAttemptRecord | null,
+  now: Date
+): number => {
+  if (!record?.blockedUntil || record.blockedUntil <= now) {
+    return 0;
+  }
+  return Math.ceil((record.blockedUntil.getTime() - now.getTime()) / 1000);
+};
+
+const registerFailure = async (
+  key: string,
+  maxFailures: number,
+  now: Date
+): Promise<void> => {
+  const { lockoutSeconds, windowSeconds } = getPolicy();
+  const existing = await store.get(key);
+
+  // Les échecs anciens (hors fenêtre et sans blocage en cours) sont oubliés
+  const isStale =
+    !existing ||
+    (getRetryAfterSeconds(existing, now) === 0 &&
+      now.getTime() - existing.lastFailureAt.getTime() > windowSeconds * 1000);
+
+  const failures = isStale ? 1 : existing.failures + 1;
+
+  await store.set(key, {
+    failures,
+    lastFailureAt: now,
+    blockedUntil: computeBlockedUntil(failures, maxFailures, lockoutSeconds, now),
+  });
+};
+
+/**
+ * Vérifie si une tentative de connexion est autorisée pour ce compte et cette IP
+ * @param email - L'email saisi (le compte n'a pas besoin d'exister)
+ * @param ip - L'adresse IP du client
+ * @returns L'autorisation ou la durée d'attente à respecter
+ */
+export const checkLoginAllowed = async (
+  email: string,
+  ip: string
+): Promise<LoginThrottle> => {
+  const { maxAccountFailures } = getPolicy();
+  const now = new Date();
+
+  const account = await store.get(accountKey(email));
+  const accountRetryAfter = getRetryAfterSeconds(account, now);
+  if (account && accountRetryAfter > 0) {
+    return {
+      allowed: false,
+      reason: account.failures >= maxAccountFailures ? "LOCKED" : "THROTTLED",
+      retryAfterSeconds: accountRetryAfter,
+    };
+  }
+
+  const ipRetryAfter = getRetryAfterSeconds(await store.get(ipKey(ip)), now);
+  if (ipRetryAfter > 0) {
+    return {
+      allowed: false,
+      reason: "THROTTLED",
+      retryAfterSeconds: ipRetryAfter,
+    };
+  }
+
+  return { allowed: true };
+};
+
+/**
+ * Enregistre un échec de connexion pour le compte et l'IP
+ * @param email - L'email saisi
+ * @param ip - L'adresse IP du client
+ */
+export const recordLoginFailure = async (
+  email: string,
+  ip: string
+): Promise<void> => {
+  const { maxAccountFailures, maxIpFailures } = getPolicy();
+  const now = new Date();
+
+  await registerFailure(accountKey(email), maxAccountFailures, now);
+  await registerFailure(ipKey(ip), maxIpFailures, now);
+};
+
+/**
+ * Réinitialise les compteurs d'un compte (connexion réussie ou déverrouillage)
+ * Le compteur de l'IP n'est pas remis à zéro pour ne pas être contourné
+ * @param email - L'email du compte
+ */
+export const unlockAccount = async (email: string): Promise<void> => {
+  await store.delete(accountKey(email));
+};
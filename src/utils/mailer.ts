@@ -0,0 +1,63 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { MailMessage, MailTransport } from "../types";
+
+/**
+ * Transport par défaut : écrit chaque message dans un fichier JSON
+ * du dossier outbox (MAIL_OUTBOX_DIR, défaut ./outbox) au lieu de l'envoyer
+ */
+export class OutboxMailTransport implements MailTransport {
+  constructor(
+    private readonly directory: string = process.env.MAIL_OUTBOX_DIR ||
+      path.resolve(process.cwd(), "outbox")
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const sentAt = new Date();
+    const recipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, "_");
+    const fileName = `${sentAt.getTime()}-${recipient}.json`;
+
+    await fs.writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ ...message, sentAt: sentAt.toISOString() }, null, 2),
+      "utf8"
+    );
+  }
+}
+
+let transport: MailTransport = new OutboxMailTransport();
+
+/**
+ * Remplace le transport utilisé pour l'envoi des emails (SMTP, service tiers...)
+ * @param mailTransport - Le transport à utiliser
+ */
+export const setMailTransport = (mailTransport: MailTransport): void => {
+  transport = mailTransport;
+};
+
+/**
+ * Envoie un email via le transport configuré
+ * @param message - Le message à envoyer
+ */
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  await transport.send(message);
+};
+
+/**
+ * Construit une URL de l'application front (APP_URL, défaut http://localhost:8001)
+ * @param pathname - Le chemin de la page
+ * @param params - Les paramètres de requête
+ * @returns L'URL complète
+ */
+export const buildAppUrl = (
+  pathname: string,
+  params: Record<string, string> = {}
+): string => {
+  const url = new URL(pathname, process.env.APP_URL || "http://localhost:8001");
+  Object.entries(params).forEach(([key, value]) =>
+    url.searchParams.set(key, value)
+  );
+  return url.toString();
+};
@@ -0,0 +1,147 @@
+import { Milestone, Prisma, PrismaClient } from "@prisma/client";
+import { MilestoneProgress, MilestoneState, StatusCategory } from "../types";
+
+const prisma = new PrismaClient();
+
+/**
+ * Vérifie si un jalon appartient au projet et peut encore recevoir des tâches
+ * @param projectId - ID du projet
+ * @param milestoneId - ID du jalon à vérifier
+ * @returns true si le jalon appartient au projet et n'est pas clôturé, false sinon
+ */
+export const validateProjectMilestone = async (
+  projectId: string,
+  milestoneId: string
+): Promise<boolean> => {
+  const count = await prisma.milestone.count({
+    where: {
+      id: milestoneId,
+      projectId,
+      state: { not: MilestoneState.CLOSED },
+    },
+  });
+
+  return count > 0;
+};
+
+/**
+ * Condition Prisma du filtre par jalon des listes de tâches
+ * @param milestoneId - Paramètre de requête milestoneId ("none" pour les tâches hors jalon)
+ * @returns La condition à combiner
+ */
+export const milestoneFilterWhere = (
+  milestoneId: unknown
+): Prisma.TaskWhereInput => {
+  if (typeof milestoneId !== "string" || !milestoneId.trim()) {
+    return {};
+  }
+
+  return {
+    milestoneId: milestoneId.trim() === "none" ? null : milestoneId.trim(),
+  };
+};
+
+/**
+ * Calcule l'avancement de plusieurs jalons
+ * @param milestoneIds - IDs des jalons
+ * @returns L'avancement de chaque jalon, indexé par son ID
+ */
+export const getMilestonesProgress = async (
+  milestoneIds: string[]
+): Promise<Map<string, MilestoneProgress>> => {
+  const progress = new Map<string, MilestoneProgress>();
+  for (const milestoneId of milestoneIds) {
+    progress.set(milestoneId, {
+      total: 0,
+      done: 0,
+      percentDone: 0,
+      byStatus: {},
+      byCategory: {
+        [StatusCategory.TODO]: 0,
+        [StatusCategory.IN_PROGRESS]: 0,
+        [StatusCategory.DONE]: 0,
+      },
+    });
+  }
+
+  if (milestoneIds.length === 0) {
+    return progress;
+  }
+
+  const groups = await prisma.task.groupBy({
+    by: ["milestoneId", "status", "statusCategory"],
+    where: { milestoneId: { in: milestoneIds } },
+    _count: { _all: true },
+  });
+
+  for (const group of groups) {
+    const item = group.milestoneId
+      ? progress.get(group.milestoneId)
+      : undefined;
+    if (!item) continue;
+
+    const count = group._count._all;
+    item.total += count;
+    item.byStatus[group.status] = (item.byStatus[group.status] ?? 0) + count;
+    item.byCategory[group.statusCategory as StatusCategory] += count;
+    if (group.statusCategory === StatusCategory.DONE) {
+      item.done += count;
+    }
+  }
+
+  for (const item of progress.values()) {
+    item.percentDone =
+      item.total > 0 ? Math.round((item.done / item.total) * 100) : 0;
+  }
+
+  return progress;
+};
+
+/**
+ * Recherche le jalon qui suit un jalon du projet : le prochain jalon planifié,
+ * par date de début puis par date de création
+ * @param milestone - Jalon de référence
+ * @returns Le jalon suivant, ou null s'il n'y en a pas
+ */
+export const findNextMilestone = async (
+  milestone: Milestone
+): Promise<Milestone | null> => {
+  const candidates = await prisma.milestone.findMany({
+    where: {
+      projectId: milestone.projectId,
+      id: { not: milestone.id },
+      state: MilestoneState.PLANNED,
+    },
+    orderBy: [{ startDate: "asc" }, { createdAt: "asc" }],
+  });
+
+  // Les jalons sans date de début passent après ceux qui sont datés
+  const reference = milestone.startDate ?? milestone.createdAt;
+  const dated = candidates.filter(
+    (candidate) => candidate.startDate && candidate.startDate >= reference
+  );
+  const undated = candidates.filter((candidate) => !candidate.startDate);
+
+  return dated[0] ?? undated[0] ?? null;
+};
+
+/**
+ * Reporte les tâches non terminées d'un jalon sur un autre jalon
+ * @param fromMilestoneId - ID du jalon clôturé
+ * @param toMilestoneId - ID du jalon cible
+ * @returns Le nombre de tâches reportées
+ */
+export const rollOverUnfinishedTasks = async (
+  fromMilestoneId: string,
+  toMilestoneId: string
+): Promise<number> => {
+  const result = await prisma.task.updateMany({
+    where: {
+      milestoneId: fromMilestoneId,
+      statusCategory: { not: StatusCategory.DONE },
+    },
+    data: { milestoneId: toMilestoneId },
+  });
+
+  return result.count;
+};
@@ -0,0 +1,77 @@
+import { PrismaClient } from "@prisma/client";
+import { generateOpaqueToken, hashToken } from "./tokens";
+
+const prisma = new PrismaClient();
+
+export type PasswordResetConsumption =
+  | { status: "VALID"; userId: string }
+  | { status: "INVALID" | "EXPIRED" | "USED" };
+
+/**
+ * Crée un token de réinitialisation de mot de passe
+ * Les demandes précédentes encore valides de l'utilisateur sont annulées
+ * @param userId - ID de l'utilisateur
+ * @returns Le token en clair (à envoyer par email) et sa date d'expiration
+ */
+export const createPasswordResetToken = async (
+  userId: string
+): Promise<{ token: string; expiresAt: Date }> => {
+  const minutes = parseInt(
+    process.env.PASSWORD_RESET_EXPIRES_IN_MINUTES || "60",
+    10
+  );
+  const token = generateOpaqueToken(32);
+  const expiresAt = new Date(Date.now() + minutes * 60 * 1000);
+
+  await prisma.passwordResetToken.updateMany({
+    where: { userId, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  await prisma.passwordResetToken.create({
+    data: {
+      tokenHash: hashToken(token),
+      expiresAt,
+      userId,
+    },
+  });
+
+  return { token, expiresAt };
+};
+
+/**
+ * Consomme un token de réinitialisation (usage unique)
+ * @param token - Le token en clair reçu par email
+ * @returns Le résultat de la consommation
+ */
+export const consumePasswordResetToken = async (
+  token: string
+): Promise<PasswordResetConsumption> => {
+  const stored = await prisma.passwordResetToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+  });
+
+  if (!stored) {
+    return { status: "INVALID" };
+  }
+
+  if (stored.usedAt) {
+    return { status: "USED" };
+  }
+
+  if (stored.expiresAt < new Date()) {
+    return { status: "EXPIRED" };
+  }
+
+  // Marquer le token comme utilisé de façon atomique
+  const consumed = await prisma.passwordResetToken.updateMany({
+    where: { id: stored.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  if (consumed.count === 0) {
+    return { status: "USED" };
+  }
+
+  return { status: "VALID", userId: stored.userId };
+};
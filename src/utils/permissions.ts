@@ -1,73 +1,336 @@
-import { PrismaClient } from "@prisma/client";
-import { Role } from "../types";
+import { Prisma, PrismaClient, ProjectRole } from "@prisma/client";
+import {
+  PermissionRole,
+  ProjectAction,
+  Role,
+  TokenAccess,
+  TokenScope,
+  WorkspaceRole,
+} from "../types";
 
 const prisma = new PrismaClient();
 
 /**
- * Vérifie si un utilisateur a accès à un projet
- * @param userId - ID de l'utilisateur
+ * Matrice des permissions : rôles autorisés pour chaque action sur un projet
+ * Hormis VIEW_PROJECT, ces actions sont des écritures, refusées aux tokens d'accès en lecture seule
+ */
+export const PERMISSION_MATRIX: Record<ProjectAction, PermissionRole[]> = {
+  [ProjectAction.VIEW_PROJECT]: [
+    "OWNER",
+    "WORKSPACE_ADMIN",
+    Role.ADMIN,
+    Role.CONTRIBUTOR,
+    Role.VIEWER,
+  ],
+  [ProjectAction.EDIT_PROJECT]: ["OWNER", "WORKSPACE_ADMIN", Role.ADMIN],
+  [ProjectAction.ARCHIVE_PROJECT]: ["OWNER", "WORKSPACE_ADMIN", Role.ADMIN],
+  [ProjectAction.DELETE_PROJECT]: ["OWNER", "WORKSPACE_ADMIN"],
+  [ProjectAction.TRANSFER_OWNERSHIP]: ["OWNER"],
+  [ProjectAction.MANAGE_SECURITY]: ["OWNER"],
+  [ProjectAction.MANAGE_MEMBERS]: ["OWNER", "WORKSPACE_ADMIN", Role.ADMIN],
+  [ProjectAction.MANAGE_ROLES]: ["OWNER", "WORKSPACE_ADMIN", Role.ADMIN],
+  [ProjectAction.MANAGE_WORKFLOW]: ["OWNER", "WORKSPACE_ADMIN", Role.ADMIN],
+  [ProjectAction.MANAGE_LABELS]: ["OWNER", "WORKSPACE_ADMIN", Role.ADMIN],
+  [ProjectAction.MANAGE_CUSTOM_FIELDS]: ["OWNER", "WORKSPACE_ADMIN", Role.ADMIN],
+  [ProjectAction.MANAGE_MILESTONES]: ["OWNER", "WORKSPACE_ADMIN", Role.ADMIN],
+  [ProjectAction.CREATE_TASK]: [
+    "OWNER",
+    "WORKSPACE_ADMIN",
+    Role.ADMIN,
+    Role.CONTRIBUTOR,
+  ],
+  [ProjectAction.EDIT_TASK]: [
+    "OWNER",
+    "WORKSPACE_ADMIN",
+    Role.ADMIN,
+    Role.CONTRIBUTOR,
+  ],
+  [ProjectAction.UPDATE_TASK_STATUS]: [
+    "OWNER",
+    "WORKSPACE_ADMIN",
+    Role.ADMIN,
+    Role.CONTRIBUTOR,
+  ],
+  [ProjectAction.OVERRIDE_DEPENDENCIES]: ["OWNER", "WORKSPACE_ADMIN", Role.ADMIN],
+  [ProjectAction.DELETE_TASK]: ["OWNER", "WORKSPACE_ADMIN", Role.ADMIN],
+  [ProjectAction.DELETE_OWN_TASK]: [
+    "OWNER",
+    "WORKSPACE_ADMIN",
+    Role.ADMIN,
+    Role.CONTRIBUTOR,
+  ],
+  [ProjectAction.LOG_TIME]: [
+    "OWNER",
+    "WORKSPACE_ADMIN",
+    Role.ADMIN,
+    Role.CONTRIBUTOR,
+  ],
+  [ProjectAction.MANAGE_TIME_ENTRIES]: ["OWNER", "WORKSPACE_ADMIN", Role.ADMIN],
+  [ProjectAction.COMMENT]: [
+    "OWNER",
+    "WORKSPACE_ADMIN",
+    Role.ADMIN,
+    Role.CONTRIBUTOR,
+  ],
+  [ProjectAction.MODERATE_COMMENTS]: ["OWNER", "WORKSPACE_ADMIN", Role.ADMIN],
+};
+
+/**
+ * Actions autorisées avec un token d'accès personnel en lecture seule
+ */
+const READ_ACTIONS: ProjectAction[] = [ProjectAction.VIEW_PROJECT];
+
+/**
+ * Actions encore autorisées sur un projet archivé (lecture seule)
+ */
+const ARCHIVED_PROJECT_ACTIONS: ProjectAction[] = [
+  ProjectAction.VIEW_PROJECT,
+  ProjectAction.ARCHIVE_PROJECT,
+  ProjectAction.DELETE_PROJECT,
+];
+
+/**
+ * Actions pouvant être accordées par un rôle personnalisé : celles d'un administrateur,
+ * la consultation du projet étant toujours accordée
+ */
+export const CUSTOM_ROLE_ACTIONS: ProjectAction[] = Object.values(
+  ProjectAction
+).filter(
+  (action) =>
+    action !== ProjectAction.VIEW_PROJECT &&
+    PERMISSION_MATRIX[action].includes(Role.ADMIN)
+);
+
+/**
+ * Décode les permissions d'un rôle personnalisé (tableau JSON d'actions)
+ * Les actions inconnues ou non délégables sont ignorées
+ * @param permissions - Permissions stockées en base
+ * @returns Les actions accordées par le rôle
+ */
+export const parseRolePermissions = (permissions: string): ProjectAction[] => {
+  try {
+    const actions = JSON.parse(permissions);
+    return Array.isArray(actions)
+      ? CUSTOM_ROLE_ACTIONS.filter((action) => actions.includes(action))
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Vérifie si la portée d'un token d'accès personnel couvre un projet
  * @param projectId - ID du projet
- * @returns true si l'utilisateur a accès, false sinon
+ * @param scope - Portée du token (absente pour une session JWT)
+ * @returns true si le projet est couvert, false sinon
  */
-export const hasProjectAccess = async (
+export const isProjectInScope = (
+  projectId: string,
+  scope?: TokenScope
+): boolean => {
+  return !scope || !scope.projectIds || scope.projectIds.includes(projectId);
+};
+
+/**
+ * Vérifie si la portée d'un token d'accès personnel autorise l'écriture
+ * @param scope - Portée du token (absente pour une session JWT)
+ * @returns true si l'écriture est autorisée, false sinon
+ */
+export const hasWriteScope = (scope?: TokenScope): boolean => {
+  return !scope || scope.access === TokenAccess.WRITE;
+};
+
+/**
+ * Vérifie si un utilisateur peut créer des projets
+ * Un token d'accès personnel doit être en écriture et non restreint à des projets
+ * @param scope - Portée du token (absente pour une session JWT)
+ * @returns true si l'utilisateur peut créer des projets, false sinon
+ */
+export const canCreateProjects = (scope?: TokenScope): boolean => {
+  return hasWriteScope(scope) && !scope?.projectIds;
+};
+
+/**
+ * Rôles d'un espace de travail donnant la gestion de tous ses projets
+ */
+const WORKSPACE_ADMIN_ROLES: string[] = [WorkspaceRole.OWNER, WorkspaceRole.ADMIN];
+
+/**
+ * Condition Prisma des projets accessibles à un utilisateur : propriétaire, membre,
+ * ou administrateur de l'espace de travail du projet
+ * @param userId - ID de l'utilisateur
+ * @returns La condition à combiner dans une requête sur les projets
+ */
+export const accessibleProjectsWhere = (
+  userId: string
+): Prisma.ProjectWhereInput => ({
+  // Les projets dans la corbeille ne sont plus accessibles
+  deletedAt: null,
+  OR: [
+    { ownerId: userId },
+    {
+      members: {
+        some: {
+          userId: userId,
+        },
+      },
+    },
+    {
+      workspace: {
+        members: {
+          some: {
+            userId: userId,
+            role: { in: WORKSPACE_ADMIN_ROLES },
+          },
+        },
+      },
+    },
+  ],
+});
+
+/**
+ * Condition Prisma des projets dont l'utilisateur remplit l'exigence 2FA :
+ * projets sans exigence, ou utilisateur ayant activé la 2FA
+ * @param userId - ID de l'utilisateur
+ * @returns La condition à combiner avec accessibleProjectsWhere
+ */
+export const twoFactorProjectsWhere = (
+  userId: string
+): Prisma.ProjectWhereInput => {
+  const twoFactorUser = {
+    userId: userId,
+    user: { totpEnabledAt: { not: null } },
+  };
+
+  return {
+    AND: [
+      {
+        OR: [
+          { requireTwoFactor: false },
+          // L'utilisateur accède au projet par au moins un de ces liens
+          { owner: { id: userId, totpEnabledAt: { not: null } } },
+          { members: { some: twoFactorUser } },
+          { workspace: { members: { some: twoFactorUser } } },
+        ],
+      },
+    ],
+  };
+};
+
+/**
+ * Condition Prisma des projets de la corbeille qu'un utilisateur peut restaurer :
+ * ceux dont il est propriétaire ou dont il administre l'espace de travail
+ * @param userId - ID de l'utilisateur
+ * @returns La condition à combiner dans une requête sur les projets
+ */
+export const restorableProjectsWhere = (
+  userId: string
+): Prisma.ProjectWhereInput => ({
+  deletedAt: { not: null },
+  OR: [
+    { ownerId: userId },
+    {
+      workspace: {
+        members: {
+          some: {
+            userId: userId,
+            role: { in: WORKSPACE_ADMIN_ROLES },
+          },
+        },
+      },
+    },
+  ],
+});
+
+/**
+ * Récupère le rôle d'un utilisateur dans un espace de travail
+ * @param userId - ID de l'utilisateur
+ * @param workspaceId - ID de l'espace de travail
+ * @returns Le rôle ou null si l'utilisateur n'est pas membre
+ */
+export const getWorkspaceRole = async (
   userId: string,
-  projectId: string
-): Promise<boolean> => {
+  workspaceId: string
+): Promise<WorkspaceRole | null> => {
   try {
-    const project = await prisma.project.findFirst({
+    const membership = await prisma.workspaceMember.findUnique({
       where: {
-        id: projectId,
-        OR: [
-          { ownerId: userId },
-          {
-            members: {
-              some: {
-                userId: userId,
-              },
-            },
-          },
-        ],
+        userId_workspaceId: { userId, workspaceId },
       },
     });
 
-    return !!project;
+    return membership ? (membership.role as WorkspaceRole) : null;
   } catch (error) {
-    console.error("Erreur lors de la vérification d'accès au projet:", error);
-    return false;
+    console.error("Erreur lors de la récupération du rôle d'espace:", error);
+    return null;
   }
 };
 
 /**
- * Vérifie si un utilisateur est administrateur d'un projet
+ * Vérifie si un rôle d'espace de travail donne les droits d'administration
+ * @param role - Le rôle dans l'espace de travail
+ * @returns true pour OWNER et ADMIN
+ */
+export const isWorkspaceAdminRole = (role: WorkspaceRole | null): boolean => {
+  return !!role && WORKSPACE_ADMIN_ROLES.includes(role);
+};
+
+/**
+ * Vérifie si un utilisateur administre l'espace de travail d'un projet
  * @param userId - ID de l'utilisateur
  * @param projectId - ID du projet
- * @returns true si l'utilisateur est admin, false sinon
+ * @returns true si l'utilisateur est OWNER ou ADMIN de l'espace du projet
  */
-export const isProjectAdmin = async (
+const isProjectWorkspaceAdmin = async (
   userId: string,
   projectId: string
 ): Promise<boolean> => {
+  const project = await prisma.project.findFirst({
+    where: {
+      id: projectId,
+      workspace: {
+        members: {
+          some: {
+            userId: userId,
+            role: { in: WORKSPACE_ADMIN_ROLES },
+          },
+        },
+      },
+    },
+  });
+
+  return !!project;
+};
+
+/**
+ * Vérifie si un utilisateur a accès à un projet
+ * @param userId - ID de l'utilisateur
+ * @param projectId - ID du projet
+ * @param scope - Portée du token d'accès personnel, le cas échéant
+ * @returns true si l'utilisateur a accès, false sinon
+ */
+export const hasProjectAccess = async (
+  userId: string,
+  projectId: string,
+  scope?: TokenScope
+): Promise<boolean> => {
+  if (!isProjectInScope(projectId, scope)) {
+    return false;
+  }
+
   try {
     const project = await prisma.project.findFirst({
       where: {
         id: projectId,
-        OR: [
-          { ownerId: userId },
-          {
-            members: {
-              some: {
-                userId: userId,
-                role: Role.ADMIN,
-              },
-            },
-          },
-        ],
+        ...accessibleProjectsWhere(userId),
+        // Un projet peut exiger que ses membres aient activé la 2FA
+        ...twoFactorProjectsWhere(userId),
       },
     });
 
     return !!project;
   } catch (error) {
-    console.error("Erreur lors de la vérification des droits d'admin:", error);
+    console.error("Erreur lors de la vérification d'accès au projet:", error);
     return false;
   }
 };
@@ -98,85 +361,149 @@ export const isProjectOwner = async (
 };
 
 /**
- * Vérifie si un utilisateur peut créer des tâches dans un projet
+ * Récupère le rôle d'un utilisateur dans un projet
  * @param userId - ID de l'utilisateur
  * @param projectId - ID du projet
- * @returns true si l'utilisateur peut créer des tâches, false sinon
+ * @returns Le rôle de l'utilisateur ou null s'il n'a pas accès
  */
-export const canCreateTasks = async (
+export const getUserProjectRole = async (
   userId: string,
   projectId: string
-): Promise<boolean> => {
-  return await hasProjectAccess(userId, projectId);
+): Promise<Role | null> => {
+  try {
+    // Vérifier si l'utilisateur est propriétaire ou administre l'espace de travail
+    const isOwner = await isProjectOwner(userId, projectId);
+    if (isOwner || (await isProjectWorkspaceAdmin(userId, projectId))) {
+      return Role.ADMIN;
+    }
+
+    // Vérifier le rôle dans les membres
+    const membership = await prisma.projectMember.findFirst({
+      where: {
+        userId: userId,
+        projectId: projectId,
+      },
+    });
+
+    return membership ? (membership.role as Role) : null;
+  } catch (error) {
+    console.error("Erreur lors de la récupération du rôle:", error);
+    return null;
+  }
 };
 
 /**
- * Vérifie si un utilisateur peut modifier/supprimer des tâches dans un projet
+ * Récupère le rôle personnalisé attribué à un membre d'un projet
  * @param userId - ID de l'utilisateur
  * @param projectId - ID du projet
- * @returns true si l'utilisateur peut modifier des tâches, false sinon
+ * @returns Le rôle personnalisé ou null si le membre a un rôle standard
  */
-export const canModifyTasks = async (
+export const getUserCustomRole = async (
   userId: string,
   projectId: string
-): Promise<boolean> => {
-  return await hasProjectAccess(userId, projectId);
+): Promise<ProjectRole | null> => {
+  try {
+    const membership = await prisma.projectMember.findUnique({
+      where: {
+        userId_projectId: { userId, projectId },
+      },
+      include: { customRole: true },
+    });
+
+    return membership?.customRole ?? null;
+  } catch (error) {
+    console.error("Erreur lors de la récupération du rôle personnalisé:", error);
+    return null;
+  }
 };
 
 /**
- * Vérifie si un utilisateur peut modifier un projet
+ * Récupère le rôle d'un utilisateur tel que pris en compte par la matrice de permissions
  * @param userId - ID de l'utilisateur
  * @param projectId - ID du projet
- * @returns true si l'utilisateur peut modifier le projet, false sinon
+ * @returns OWNER pour le propriétaire, WORKSPACE_ADMIN pour un administrateur de
+ * l'espace de travail, le rôle de membre sinon, ou null sans accès
  */
-export const canModifyProject = async (
+const getPermissionRole = async (
   userId: string,
   projectId: string
-): Promise<boolean> => {
-  return await isProjectAdmin(userId, projectId);
+): Promise<PermissionRole | null> => {
+  if (await isProjectOwner(userId, projectId)) {
+    return "OWNER";
+  }
+
+  if (await isProjectWorkspaceAdmin(userId, projectId)) {
+    return "WORKSPACE_ADMIN";
+  }
+
+  return getUserProjectRole(userId, projectId);
 };
 
 /**
- * Vérifie si un utilisateur peut supprimer un projet
+ * Calcule les permissions effectives d'un utilisateur sur un projet
+ * Un rôle personnalisé remplace la matrice du rôle standard du membre ;
+ * un projet archivé n'autorise que la consultation, le désarchivage et la suppression
  * @param userId - ID de l'utilisateur
  * @param projectId - ID du projet
- * @returns true si l'utilisateur peut supprimer le projet, false sinon
+ * @param scope - Portée du token d'accès personnel, le cas échéant
+ * @returns Les actions autorisées
  */
-export const canDeleteProject = async (
+export const getProjectPermissions = async (
   userId: string,
-  projectId: string
-): Promise<boolean> => {
-  return await isProjectOwner(userId, projectId);
+  projectId: string,
+  scope?: TokenScope
+): Promise<ProjectAction[]> => {
+  if (!(await hasProjectAccess(userId, projectId, scope))) {
+    return [];
+  }
+
+  const role = await getPermissionRole(userId, projectId);
+  if (!role) {
+    return [];
+  }
+
+  const customRole =
+    role === "OWNER" || role === "WORKSPACE_ADMIN"
+      ? null
+      : await getUserCustomRole(userId, projectId);
+
+  const permissions = customRole
+    ? [ProjectAction.VIEW_PROJECT, ...parseRolePermissions(customRole.permissions)]
+    : Object.values(ProjectAction).filter((action) =>
+        PERMISSION_MATRIX[action].includes(role)
+      );
+
+  if (!hasWriteScope(scope)) {
+    return permissions.filter((action) => READ_ACTIONS.includes(action));
+  }
+
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { archivedAt: true },
+  });
+  if (project?.archivedAt) {
+    return permissions.filter((action) =>
+      ARCHIVED_PROJECT_ACTIONS.includes(action)
+    );
+  }
+
+  return permissions;
 };
 
 /**
- * Récupère le rôle d'un utilisateur dans un projet
+ * Vérifie si un utilisateur peut effectuer une action sur un projet
  * @param userId - ID de l'utilisateur
+ * @param action - L'action à effectuer
  * @param projectId - ID du projet
- * @returns Le rôle de l'utilisateur ou null s'il n'a pas accès
+ * @param scope - Portée du token d'accès personnel, le cas échéant
+ * @returns true si l'action est autorisée, false sinon
  */
-export const getUserProjectRole = async (
+export const can = async (
   userId: string,
-  projectId: string
-): Promise<Role | null> => {
-  try {
-    // Vérifier si l'utilisateur est propriétaire
-    const isOwner = await isProjectOwner(userId, projectId);
-    if (isOwner) {
-      return Role.ADMIN;
-    }
-
-    // Vérifier le rôle dans les membres
-    const membership = await prisma.projectMember.findFirst({
-      where: {
-        userId: userId,
-        projectId: projectId,
-      },
-    });
-
-    return membership ? (membership.role as Role) : null;
-  } catch (error) {
-    console.error("Erreur lors de la récupération du rôle:", error);
-    return null;
-  }
+  action: ProjectAction,
+  projectId: string,
+  scope?: TokenScope
+): Promise<boolean> => {
+  const permissions = await getProjectPermissions(userId, projectId, scope);
+  return permissions.includes(action);
 };
@@ -0,0 +1,102 @@
+import { PrismaClient, PersonalAccessToken } from "@prisma/client";
+import { TokenAccess, TokenScope } from "../types";
+import { generateOpaqueToken, hashToken } from "./tokens";
+
+const prisma = new PrismaClient();
+
+export const PERSONAL_ACCESS_TOKEN_PREFIX = "pat_";
+
+/**
+ * Indique si un token Bearer est un token d'accès personnel (et non un JWT)
+ * @param token - Le token extrait du header Authorization
+ * @returns true si c'est un token d'accès personnel
+ */
+export const isPersonalAccessToken = (token: string): boolean => {
+  return token.startsWith(PERSONAL_ACCESS_TOKEN_PREFIX);
+};
+
+/**
+ * Convertit la portée stockée en base
+ * @param token - Le token d'accès personnel
+ * @returns La portée du token
+ */
+const toTokenScope = (token: PersonalAccessToken): TokenScope => ({
+  access: token.scope === TokenAccess.WRITE ? TokenAccess.WRITE : TokenAccess.READ,
+  projectIds: token.projectIds ? JSON.parse(token.projectIds) : null,
+});
+
+/**
+ * Formate un token d'accès personnel pour les réponses (sans l'empreinte)
+ * @param token - Le token d'accès personnel
+ * @returns Les informations publiques du token
+ */
+export const formatPersonalAccessToken = (token: PersonalAccessToken) => {
+  const scope = toTokenScope(token);
+
+  return {
+    id: token.id,
+    name: token.name,
+    tokenPrefix: token.tokenPrefix,
+    scope: scope.access,
+    projectIds: scope.projectIds,
+    expiresAt: token.expiresAt,
+    lastUsedAt: token.lastUsedAt,
+    createdAt: token.createdAt,
+  };
+};
+
+/**
+ * Crée un token d'accès personnel
+ * @param userId - ID de l'utilisateur
+ * @param data - Nom, portée, projets autorisés et durée de validité
+ * @returns Le token en clair (affiché une seule fois) et l'enregistrement créé
+ */
+export const issuePersonalAccessToken = async (
+  userId: string,
+  data: {
+    name: string;
+    access: TokenAccess;
+    projectIds: string[] | null;
+    expiresInDays: number;
+  }
+): Promise<{ token: string; record: PersonalAccessToken }> => {
+  const token = `${PERSONAL_ACCESS_TOKEN_PREFIX}${generateOpaqueToken(32)}`;
+
+  const record = await prisma.personalAccessToken.create({
+    data: {
+      name: data.name,
+      tokenHash: hashToken(token),
+      tokenPrefix: token.slice(0, PERSONAL_ACCESS_TOKEN_PREFIX.length + 8),
+      scope: data.access,
+      projectIds: data.projectIds ? JSON.stringify(data.projectIds) : null,
+      expiresAt: new Date(Date.now() + data.expiresInDays * 24 * 60 * 60 * 1000),
+      userId,
+    },
+  });
+
+  return { token, record };
+};
+
+/**
+ * Résout un token d'accès personnel présenté dans une requête
+ * @param token - Le token en clair
+ * @returns L'ID de l'utilisateur et la portée du token, ou null s'il est invalide ou expiré
+ */
+export const resolvePersonalAccessToken = async (
+  token: string
+): Promise<{ userId: string; scope: TokenScope } | null> => {
+  const stored = await prisma.personalAccessToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+  });
+
+  if (!stored || stored.expiresAt < new Date()) {
+    return null;
+  }
+
+  await prisma.personalAccessToken.update({
+    where: { id: stored.id },
+    data: { lastUsedAt: new Date() },
+  });
+
+  return { userId: stored.userId, scope: toTokenScope(stored) };
+};
@@ -0,0 +1,310 @@
+import { Prisma, PrismaClient } from "@prisma/client";
+import { CustomFieldType, TemplateTask } from "../types";
+import { getInitialStatus, getProjectWorkflow } from "./workflow";
+
+const prisma = new PrismaClient();
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Condition Prisma des modèles qu'un utilisateur peut consulter et instancier :
+ * ceux qu'il a créés et ceux des espaces de travail dont il est membre
+ * @param userId - ID de l'utilisateur
+ * @returns La condition à combiner dans une requête sur les modèles
+ */
+export const accessibleTemplatesWhere = (
+  userId: string
+): Prisma.ProjectTemplateWhereInput => ({
+  OR: [
+    { createdById: userId },
+    {
+      workspace: {
+        members: {
+          some: { userId: userId },
+        },
+      },
+    },
+  ],
+});
+
+/**
+ * Décale une échéance pour conserver son écart avec la date de démarrage
+ * @param dueDate - Échéance d'origine
+ * @param from - Démarrage d'origine
+ * @param to - Nouveau démarrage
+ * @returns L'échéance décalée, ou null sans échéance
+ */
+export const shiftDueDate = (
+  dueDate: Date | null,
+  from: Date,
+  to: Date
+): Date | null => {
+  if (!dueDate) {
+    return null;
+  }
+
+  return new Date(dueDate.getTime() + (to.getTime() - from.getTime()));
+};
+
+/**
+ * Convertit les tâches d'un projet en tâches de modèle (échéances relatives)
+ * @param tasks - Tâches du projet
+ * @param startDate - Démarrage du projet, référence des échéances
+ * @returns Les tâches à enregistrer dans le modèle
+ */
+export const toTemplateTasks = (
+  tasks: {
+    title: string;
+    description: string | null;
+    priority: string;
+    dueDate: Date | null;
+  }[],
+  startDate: Date
+): TemplateTask[] => {
+  return tasks.map((task) => ({
+    title: task.title,
+    description: task.description,
+    priority: task.priority,
+    dueOffsetDays: task.dueDate
+      ? Math.round((task.dueDate.getTime() - startDate.getTime()) / DAY_IN_MS)
+      : null,
+  }));
+};
+
+/**
+ * Décode les tâches d'un modèle (tableau JSON)
+ * @param tasks - Tâches stockées en base
+ * @returns Les tâches du modèle, ou un tableau vide si illisibles
+ */
+export const parseTemplateTasks = (tasks: string): TemplateTask[] => {
+  try {
+    const parsed = JSON.parse(tasks);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Crée dans un projet les tâches d'un modèle
+ * @param projectId - ID du projet
+ * @param tasks - Tâches du modèle
+ * @param creatorId - ID de l'utilisateur qui instancie le modèle
+ * @param startDate - Démarrage du projet, référence des échéances
+ * @returns Le nombre de tâches créées
+ */
+export const createTasksFromTemplate = async (
+  projectId: string,
+  tasks: TemplateTask[],
+  creatorId: string,
+  startDate: Date
+): Promise<number> => {
+  if (tasks.length === 0) {
+    return 0;
+  }
+
+  const initialStatus = getInitialStatus(await getProjectWorkflow(projectId));
+
+  const result = await prisma.task.createMany({
+    data: tasks.map((task) => ({
+      title: task.title,
+      description: task.description,
+      priority: task.priority,
+      status: initialStatus.key,
+      statusCategory: initialStatus.category,
+      dueDate:
+        task.dueOffsetDays !== null
+          ? new Date(startDate.getTime() + task.dueOffsetDays * DAY_IN_MS)
+          : null,
+      projectId,
+      creatorId,
+    })),
+  });
+
+  return result.count;
+};
+
+/**
+ * Copie les membres d'un projet et leurs rôles personnalisés dans un autre projet
+ * @param sourceProjectId - ID du projet d'origine
+ * @param targetProjectId - ID du nouveau projet
+ * @param ownerId - ID du propriétaire du nouveau projet (non ajouté comme membre)
+ */
+export const copyProjectMembers = async (
+  sourceProjectId: string,
+  targetProjectId: string,
+  ownerId: string
+): Promise<void> => {
+  const roles = await prisma.projectRole.findMany({
+    where: { projectId: sourceProjectId },
+  });
+
+  // Recréer les rôles personnalisés pour y rattacher les membres copiés
+  const roleIds = new Map<string, string>();
+  for (const role of roles) {
+    const copiedRole = await prisma.projectRole.create({
+      data: {
+        name: role.name,
+        permissions: role.permissions,
+        projectId: targetProjectId,
+      },
+    });
+    roleIds.set(role.id, copiedRole.id);
+  }
+
+  const members = await prisma.projectMember.findMany({
+    where: {
+      projectId: sourceProjectId,
+      userId: { not: ownerId },
+    },
+  });
+
+  if (members.length > 0) {
+    await prisma.projectMember.createMany({
+      data: members.map((member) => ({
+        userId: member.userId,
+        role: member.role,
+        customRoleId: member.customRoleId
+          ? roleIds.get(member.customRoleId) ?? null
+          : null,
+        projectId: targetProjectId,
+      })),
+    });
+  }
+};
+
+/**
+ * Copie les tâches d'un projet dans un autre projet, avec leurs sous-tâches,
+ * checklists, dépendances et valeurs des champs personnalisés
+ * (le workflow du projet d'origine doit avoir été copié au préalable)
+ * @param sourceProjectId - ID du projet d'origine
+ * @param targetProjectId - ID du nouveau projet
+ * @param creatorId - ID de l'utilisateur qui clone le projet
+ * @param options - Conservation des assignations, des statuts, des étiquettes et des champs personnalisés, décalage des échéances
+ * @returns Le nombre de tâches copiées
+ */
+export const copyProjectTasks = async (
+  sourceProjectId: string,
+  targetProjectId: string,
+  creatorId: string,
+  options: {
+    includeAssignees: boolean;
+    resetStatuses: boolean;
+    shiftFrom?: Date;
+    shiftTo?: Date;
+    labelIds?: Map<string, string>; // Étiquettes d'origine → copies
+    customFieldIds?: Map<string, string>; // Champs personnalisés d'origine → copies
+  }
+): Promise<number> => {
+  const tasks = await prisma.task.findMany({
+    where: { projectId: sourceProjectId },
+    include: {
+      assignees: true,
+      labels: true,
+      checklistItems: true,
+      blockedBy: true,
+      customFieldValues: {
+        include: { field: { select: { type: true } } },
+      },
+    },
+    orderBy: { createdAt: "asc" },
+  });
+
+  // Seuls les membres du nouveau projet peuvent rester assignés
+  // ou choisis dans un champ personnalisé de type USER
+  const targetMembers = await prisma.projectMember.findMany({
+    where: { projectId: targetProjectId },
+    select: { userId: true },
+  });
+  const assignableIds = new Set([
+    creatorId,
+    ...targetMembers.map((member) => member.userId),
+  ]);
+  const initialStatus = getInitialStatus(
+    await getProjectWorkflow(targetProjectId)
+  );
+
+  const taskIds = new Map<string, string>();
+  for (const task of tasks) {
+    const assigneeIds = options.includeAssignees
+      ? task.assignees
+          .map((assignee) => assignee.userId)
+          .filter((userId) => assignableIds.has(userId))
+      : [];
+
+    const copiedTask = await prisma.task.create({
+      data: {
+        title: task.title,
+        description: task.description,
+        priority: task.priority,
+        estimateMinutes: task.estimateMinutes,
+        status: options.resetStatuses ? initialStatus.key : task.status,
+        statusCategory: options.resetStatuses
+          ? initialStatus.category
+          : task.statusCategory,
+        startedAt: options.resetStatuses ? null : task.startedAt,
+        completedAt: options.resetStatuses ? null : task.completedAt,
+        dueDate:
+          options.shiftFrom && options.shiftTo
+            ? shiftDueDate(task.dueDate, options.shiftFrom, options.shiftTo)
+            : task.dueDate,
+        projectId: targetProjectId,
+        creatorId,
+        assignees: {
+          create: assigneeIds.map((userId) => ({ userId })),
+        },
+        labels: {
+          create: task.labels
+            .filter((taskLabel) => options.labelIds?.has(taskLabel.labelId))
+            .map((taskLabel) => ({
+              labelId: options.labelIds!.get(taskLabel.labelId)!,
+            })),
+        },
+        checklistItems: {
+          create: task.checklistItems.map((item) => ({
+            text: item.text,
+            done: options.resetStatuses ? false : item.done,
+            position: item.position,
+          })),
+        },
+        customFieldValues: {
+          create: task.customFieldValues
+            .filter(
+              (item) =>
+                options.customFieldIds?.has(item.fieldId) &&
+                (item.field.type !== CustomFieldType.USER ||
+                  assignableIds.has(JSON.parse(item.value)))
+            )
+            .map((item) => ({
+              fieldId: options.customFieldIds!.get(item.fieldId)!,
+              value: item.value,
+            })),
+        },
+      },
+    });
+    taskIds.set(task.id, copiedTask.id);
+  }
+
+  // Rattacher les sous-tâches copiées à leurs parentes copiées
+  for (const task of tasks) {
+    if (task.parentTaskId && taskIds.has(task.parentTaskId)) {
+      await prisma.task.update({
+        where: { id: taskIds.get(task.id)! },
+        data: { parentTaskId: taskIds.get(task.parentTaskId)! },
+      });
+    }
+  }
+
+  // Recréer les dépendances entre les tâches copiées
+  const dependencies = tasks.flatMap((task) => task.blockedBy);
+  if (dependencies.length > 0) {
+    await prisma.taskDependency.createMany({
+      data: dependencies.map((dependency) => ({
+        blockingTaskId: taskIds.get(dependency.blockingTaskId)!,
+        blockedTaskId: taskIds.get(dependency.blockedTaskId)!,
+      })),
+    });
+  }
+
+  return tasks.length;
+};
@@ -0,0 +1,70 @@
+import { PrismaClient } from "@prisma/client";
+
+const prisma = new PrismaClient();
+
+/**
+ * Durée de conservation des projets dans la corbeille avant purge définitive
+ * @returns Le nombre de jours (PROJECT_TRASH_RETENTION_DAYS, 30 par défaut)
+ */
+export const getTrashRetentionDays = (): number => {
+  return parseInt(process.env.PROJECT_TRASH_RETENTION_DAYS || "30", 10);
+};
+
+/**
+ * Calcule la date de purge d'un projet placé dans la corbeille
+ * @param deletedAt - Date de mise à la corbeille
+ * @returns La date à partir de laquelle le projet est supprimé définitivement
+ */
+export const getPurgeDate = (deletedAt: Date): Date => {
+  return new Date(
+    deletedAt.getTime() + getTrashRetentionDays() * 24 * 60 * 60 * 1000
+  );
+};
+
+/**
+ * Supprime définitivement les projets restés dans la corbeille au-delà de la durée
+ * de rétention (tâches, commentaires et membres sont supprimés en cascade)
+ * @returns Le nombre de projets purgés
+ */
+export const purgeDeletedProjects = async (): Promise<number> => {
+  const threshold = new Date(
+    Date.now() - getTrashRetentionDays() * 24 * 60 * 60 * 1000
+  );
+
+  const result = await prisma.project.deleteMany({
+    where: {
+      deletedAt: { lte: threshold },
+    },
+  });
+
+  return result.count;
+};
+
+/**
+ * Lance la purge périodique de la corbeille
+ * (PROJECT_TRASH_PURGE_INTERVAL_MINUTES, 60 par défaut)
+ * @returns Le timer, pour pouvoir l'arrêter
+ */
+export const startTrashPurgeJob = (): NodeJS.Timeout => {
+  const minutes = parseInt(
+    process.env.PROJECT_TRASH_PURGE_INTERVAL_MINUTES || "60",
+    10
+  );
+
+  const run = async () => {
+    try {
+      const count = await purgeDeletedProjects();
+      if (count > 0) {
+        console.log(`🗑️  ${count} projet(s) purgé(s) de la corbeille`);
+      }
+    } catch (error) {
+      console.error("Erreur lors de la purge de la corbeille:", error);
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, minutes * 60 * 1000);
+  // Ne pas empêcher l'arrêt du processus
+  timer.unref();
+  return timer;
+};
@@ -0,0 +1,151 @@
+import { PrismaClient } from "@prisma/client";
+import { generateOpaqueToken, hashToken } from "./tokens";
+
+const prisma = new PrismaClient();
+
+export type RefreshTokenRotation =
+  | { status: "ROTATED"; userId: string; familyId: string; refreshToken: string }
+  | { status: "INVALID" | "EXPIRED" | "REUSED" };
+
+/**
+ * Calcule la date d'expiration d'un refresh token
+ * @returns La date d'expiration (défaut: 30 jours)
+ */
+const getRefreshTokenExpiry = (): Date => {
+  const days = parseInt(process.env.REFRESH_TOKEN_EXPIRES_IN_DAYS || "30", 10);
+  return new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+};
+
+/**
+ * Émet un nouveau refresh token et le stocke (haché) en base
+ * @param userId - ID de l'utilisateur
+ * @param familyId - Famille de rotation à prolonger (nouvelle famille si absent)
+ * @returns Le refresh token en clair et l'ID de l'enregistrement créé
+ */
+export const issueRefreshToken = async (
+  userId: string,
+  familyId?: string
+): Promise<{ id: string; refreshToken: string }> => {
+  const refreshToken = generateOpaqueToken();
+
+  const stored = await prisma.refreshToken.create({
+    data: {
+      tokenHash: hashToken(refreshToken),
+      familyId: familyId || generateOpaqueToken(16),
+      expiresAt: getRefreshTokenExpiry(),
+      userId,
+    },
+  });
+
+  return { id: stored.id, refreshToken };
+};
+
+/**
+ * Révoque tous les refresh tokens encore actifs d'une famille,
+ * ainsi que la session correspondante (la famille porte l'ID de la session)
+ * @param familyId - ID de la famille de rotation
+ */
+export const revokeTokenFamily = async (familyId: string): Promise<void> => {
+  const revokedAt = new Date();
+
+  await prisma.refreshToken.updateMany({
+    where: { familyId, revokedAt: null },
+    data: { revokedAt },
+  });
+  await prisma.session.updateMany({
+    where: { id: familyId, revokedAt: null },
+    data: { revokedAt },
+  });
+};
+
+/**
+ * Révoque tous les refresh tokens et toutes les sessions actives d'un utilisateur
+ * @param userId - ID de l'utilisateur
+ */
+export const revokeAllUserRefreshTokens = async (
+  userId: string
+): Promise<void> => {
+  const revokedAt = new Date();
+
+  await prisma.refreshToken.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt },
+  });
+  await prisma.session.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt },
+  });
+};
+
+/**
+ * Échange un refresh token contre un nouveau (rotation)
+ * Un token déjà utilisé qui est rejoué révoque toute sa famille
+ * @param refreshToken - Le refresh token présenté par le client
+ * @returns Le résultat de la rotation
+ */
+export const rotateRefreshToken = async (
+  refreshToken: string
+): Promise<RefreshTokenRotation> => {
+  const stored = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(refreshToken) },
+  });
+
+  if (!stored) {
+    return { status: "INVALID" };
+  }
+
+  // Token déjà consommé ou révoqué : probable vol, on coupe toute la famille
+  if (stored.revokedAt) {
+    await revokeTokenFamily(stored.familyId);
+    return { status: "REUSED" };
+  }
+
+  if (stored.expiresAt < new Date()) {
+    return { status: "EXPIRED" };
+  }
+
+  // Consommer le token de façon atomique pour détecter les rejeux concurrents
+  const consumed = await prisma.refreshToken.updateMany({
+    where: { id: stored.id, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+
+  if (consumed.count === 0) {
+    await revokeTokenFamily(stored.familyId);
+    return { status: "REUSED" };
+  }
+
+  const next = await issueRefreshToken(stored.userId, stored.familyId);
+
+  await prisma.refreshToken.update({
+    where: { id: stored.id },
+    data: { replacedById: next.id },
+  });
+
+  return {
+    status: "ROTATED",
+    userId: stored.userId,
+    familyId: stored.familyId,
+    refreshToken: next.refreshToken,
+  };
+};
+
+/**
+ * Révoque la famille d'un refresh token (déconnexion)
+ * @param refreshToken - Le refresh token présenté par le client
+ * @returns true si le token était connu, false sinon
+ */
+export const revokeRefreshToken = async (
+  refreshToken: string
+): Promise<boolean> => {
+  const stored = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(refreshToken) },
+  });
+
+  if (!stored) {
+    return false;
+  }
+
+  await revokeTokenFamily(stored.familyId);
+  return true;
+};
@@ -95,3 +95,22 @@ export const sendAuthError = (
 ): void => {
   sendError(res, message, "Authentication failed", 401);
 };
+
+/**
+ * Envoie une réponse d'erreur indiquant quand réessayer (en-tête Retry-After)
+ * @param res - L'objet Response d'Express
+ * @param message - Le message d'erreur
+ * @param error - Le détail de l'erreur
+ * @param statusCode - Le code de statut HTTP (429 ou 423)
+ * @param retryAfterSeconds - Délai avant une nouvelle tentative, en secondes
+ */
+export const sendRetryLaterError = (
+  res: Response,
+  message: string,
+  error: string,
+  statusCode: number,
+  retryAfterSeconds: number
+): void => {
+  res.setHeader("Retry-After", retryAfterSeconds.toString());
+  sendError(res, message, error, statusCode);
+};
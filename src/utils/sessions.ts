@@ -0,0 +1,142 @@
+import { Request } from "express";
+import { PrismaClient, Session } from "@prisma/client";
+import { SessionContext } from "../types";
+import { revokeTokenFamily } from "./refreshTokens";
+
+const prisma = new PrismaClient();
+
+// Intervalle minimal entre deux mises à jour de lastSeenAt (évite une écriture par requête)
+const LAST_SEEN_UPDATE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Extrait le contexte de session (user agent, IP) d'une requête
+ * @param req - La requête Express
+ * @returns Le contexte de session
+ */
+export const getSessionContext = (req: Request): SessionContext => ({
+  userAgent: req.get("user-agent")?.slice(0, 255),
+  ipAddress: req.ip,
+});
+
+/**
+ * Formate une session pour les réponses
+ * @param session - La session
+ * @param currentSessionId - ID de la session à l'origine de la requête
+ * @returns Les informations publiques de la session
+ */
+export const formatSession = (session: Session, currentSessionId?: string) => ({
+  id: session.id,
+  userAgent: session.userAgent,
+  ipAddress: session.ipAddress,
+  createdAt: session.createdAt,
+  lastSeenAt: session.lastSeenAt,
+  current: session.id === currentSessionId,
+});
+
+/**
+ * Crée une session pour un utilisateur qui vient de s'authentifier
+ * @param userId - ID de l'utilisateur
+ * @param context - User agent et IP du client
+ * @returns La session créée
+ */
+export const createSession = async (
+  userId: string,
+  context: SessionContext
+): Promise<Session> => {
+  return prisma.session.create({
+    data: {
+      userId,
+      userAgent: context.userAgent || null,
+      ipAddress: context.ipAddress || null,
+    },
+  });
+};
+
+/**
+ * Vérifie qu'une session est toujours active et met à jour sa dernière activité
+ * @param sessionId - ID de la session
+ * @param userId - ID de l'utilisateur propriétaire
+ * @returns La session active, ou null si elle est inconnue ou révoquée
+ */
+export const touchSession = async (
+  sessionId: string,
+  userId: string
+): Promise<Session | null> => {
+  const session = await prisma.session.findFirst({
+    where: { id: sessionId, userId, revokedAt: null },
+  });
+
+  if (!session) {
+    return null;
+  }
+
+  const now = new Date();
+  if (now.getTime() - session.lastSeenAt.getTime() > LAST_SEEN_UPDATE_INTERVAL_MS) {
+    await prisma.session.update({
+      where: { id: session.id },
+      data: { lastSeenAt: now },
+    });
+  }
+
+  return session;
+};
+
+/**
+ * Liste les sessions actives d'un utilisateur
+ * @param userId - ID de l'utilisateur
+ * @returns Les sessions non révoquées, de la plus récemment utilisée à la plus ancienne
+ */
+export const getActiveSessions = async (userId: string): Promise<Session[]> => {
+  return prisma.session.findMany({
+    where: { userId, revokedAt: null },
+    orderBy: { lastSeenAt: "desc" },
+  });
+};
+
+/**
+ * Révoque une session d'un utilisateur et ses refresh tokens
+ * @param userId - ID de l'utilisateur
+ * @param sessionId - ID de la session
+ * @returns true si la session était active, false sinon
+ */
+export const revokeSession = async (
+  userId: string,
+  sessionId: string
+): Promise<boolean> => {
+  const session = await prisma.session.findFirst({
+    where: { id: sessionId, userId, revokedAt: null },
+  });
+
+  if (!session) {
+    return false;
+  }
+
+  await revokeTokenFamily(session.id);
+  return true;
+};
+
+/**
+ * Révoque toutes les sessions d'un utilisateur sauf la session courante
+ * @param userId - ID de l'utilisateur
+ * @param currentSessionId - ID de la session à conserver
+ * @returns Le nombre de sessions révoquées
+ */
+export const revokeOtherSessions = async (
+  userId: string,
+  currentSessionId?: string
+): Promise<number> => {
+  const sessions = await prisma.session.findMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(currentSessionId && { NOT: { id: currentSessionId } }),
+    },
+    select: { id: true },
+  });
+
+  for (const session of sessions) {
+    await revokeTokenFamily(session.id);
+  }
+
+  return sessions.length;
+};
@@ -0,0 +1,193 @@
+import { Prisma, PrismaClient } from "@prisma/client";
+import { StatusCategory, TaskProgress } from "../types";
+
+const prisma = new PrismaClient();
+
+/**
+ * Nombre maximal de niveaux de sous-tâches sous une tâche de premier niveau
+ * @returns La profondeur maximale (SUBTASK_MAX_DEPTH, 3 par défaut)
+ */
+export const getSubtaskMaxDepth = (): number => {
+  return parseInt(process.env.SUBTASK_MAX_DEPTH || "3", 10);
+};
+
+/**
+ * Condition Prisma du filtre par tâche parente des listes de tâches
+ * @param parentTaskId - Paramètre de requête parentTaskId ("none" pour les tâches de premier niveau)
+ * @returns La condition à combiner
+ */
+export const parentTaskFilterWhere = (
+  parentTaskId: unknown
+): Prisma.TaskWhereInput => {
+  if (typeof parentTaskId !== "string" || !parentTaskId.trim()) {
+    return {};
+  }
+
+  return {
+    parentTaskId: parentTaskId.trim() === "none" ? null : parentTaskId.trim(),
+  };
+};
+
+/**
+ * Calcule la profondeur d'une tâche dans l'arborescence des sous-tâches
+ * @param taskId - ID de la tâche
+ * @returns 0 pour une tâche de premier niveau, 1 pour une sous-tâche, etc.
+ */
+export const getTaskDepth = async (taskId: string): Promise<number> => {
+  let depth = 0;
+  let current = await prisma.task.findUnique({
+    where: { id: taskId },
+    select: { parentTaskId: true },
+  });
+
+  while (current?.parentTaskId) {
+    depth++;
+    current = await prisma.task.findUnique({
+      where: { id: current.parentTaskId },
+      select: { parentTaskId: true },
+    });
+  }
+
+  return depth;
+};
+
+/**
+ * Récupère les sous-tâches d'une tâche, à tous les niveaux, niveau par niveau
+ * @param taskId - ID de la tâche
+ * @returns Les IDs des descendants de chaque niveau (le premier est celui des sous-tâches directes)
+ */
+const getSubtaskLevels = async (taskId: string): Promise<string[][]> => {
+  const levels: string[][] = [];
+  let parentIds = [taskId];
+
+  while (parentIds.length > 0) {
+    const children = await prisma.task.findMany({
+      where: { parentTaskId: { in: parentIds } },
+      select: { id: true },
+    });
+    parentIds = children.map((child) => child.id);
+    if (parentIds.length > 0) {
+      levels.push(parentIds);
+    }
+  }
+
+  return levels;
+};
+
+/**
+ * Récupère les IDs de toutes les sous-tâches d'une tâche, à tous les niveaux
+ * @param taskId - ID de la tâche
+ * @returns Les IDs des descendants
+ */
+export const getDescendantIds = async (taskId: string): Promise<string[]> => {
+  return (await getSubtaskLevels(taskId)).flat();
+};
+
+/**
+ * Vérifie si une tâche peut devenir la parente d'une autre tâche du projet
+ * @param projectId - ID du projet
+ * @param parentTaskId - ID de la tâche parente
+ * @param taskId - ID de la tâche déplacée (absent à la création)
+ * @returns true si la parente appartient au projet et ne crée pas de cycle, false sinon
+ */
+export const isValidParentTask = async (
+  projectId: string,
+  parentTaskId: string,
+  taskId?: string
+): Promise<boolean> => {
+  const parent = await prisma.task.findFirst({
+    where: { id: parentTaskId, projectId },
+    select: { id: true },
+  });
+
+  if (!parent) return false;
+  if (!taskId) return true;
+
+  // Une tâche ne peut pas être rangée sous elle-même ni sous ses sous-tâches
+  if (parentTaskId === taskId) return false;
+  const descendantIds = await getDescendantIds(taskId);
+  return !descendantIds.includes(parentTaskId);
+};
+
+/**
+ * Calcule la profondeur atteinte par une tâche (et ses sous-tâches) rangée sous une parente
+ * @param parentTaskId - ID de la tâche parente
+ * @param taskId - ID de la tâche déplacée (absent à la création)
+ * @returns La profondeur de la sous-tâche la plus profonde
+ */
+export const getSubtaskDepth = async (
+  parentTaskId: string,
+  taskId?: string
+): Promise<number> => {
+  const height = taskId ? (await getSubtaskLevels(taskId)).length : 0;
+  return (await getTaskDepth(parentTaskId)) + 1 + height;
+};
+
+/**
+ * Vérifie si une tâche a des sous-tâches ouvertes, à tous les niveaux
+ * @param taskId - ID de la tâche
+ * @returns true si une sous-tâche n'est pas dans un statut de catégorie DONE
+ */
+export const hasOpenSubtasks = async (taskId: string): Promise<boolean> => {
+  const descendantIds = await getDescendantIds(taskId);
+  if (descendantIds.length === 0) return false;
+
+  const count = await prisma.task.count({
+    where: {
+      id: { in: descendantIds },
+      statusCategory: { not: StatusCategory.DONE },
+    },
+  });
+
+  return count > 0;
+};
+
+/**
+ * Récupère les sous-tâches directes d'une tâche
+ * @param taskId - ID de la tâche
+ * @returns Les sous-tâches, par date de création
+ */
+export const getTaskSubtasks = async (taskId: string) => {
+  return prisma.task.findMany({
+    where: { parentTaskId: taskId },
+    select: {
+      id: true,
+      title: true,
+      status: true,
+      statusCategory: true,
+      priority: true,
+      dueDate: true,
+      _count: {
+        select: { subtasks: true },
+      },
+    },
+    orderBy: { createdAt: "asc" },
+  });
+};
+
+/**
+ * Calcule l'avancement des sous-tâches d'une tâche, à tous les niveaux
+ * @param taskId - ID de la tâche
+ * @returns Le nombre de sous-tâches, de sous-tâches terminées et le pourcentage
+ */
+export const getSubtaskProgress = async (
+  taskId: string
+): Promise<TaskProgress> => {
+  const descendantIds = await getDescendantIds(taskId);
+  if (descendantIds.length === 0) {
+    return { total: 0, done: 0, percentDone: 0 };
+  }
+
+  const done = await prisma.task.count({
+    where: {
+      id: { in: descendantIds },
+      statusCategory: StatusCategory.DONE,
+    },
+  });
+
+  return {
+    total: descendantIds.length,
+    done,
+    percentDone: Math.round((done / descendantIds.length) * 100),
+  };
+};
@@ -0,0 +1,58 @@
+import { PrismaClient } from "@prisma/client";
+import { TaskProgress } from "../types";
+
+const prisma = new PrismaClient();
+
+/**
+ * Récupère la checklist d'une tâche
+ * @param taskId - ID de la tâche
+ * @returns Les éléments de la checklist, dans l'ordre
+ */
+export const getTaskChecklist = async (taskId: string) => {
+  return prisma.checklistItem.findMany({
+    where: { taskId },
+    orderBy: [{ position: "asc" }, { createdAt: "asc" }],
+  });
+};
+
+/**
+ * Calcule l'avancement d'une checklist
+ * @param items - Éléments de la checklist
+ * @returns Le nombre d'éléments, d'éléments cochés et le pourcentage
+ */
+export const getChecklistProgress = (
+  items: { done: boolean }[]
+): TaskProgress => {
+  const done = items.filter((item) => item.done).length;
+
+  return {
+    total: items.length,
+    done,
+    percentDone: items.length > 0 ? Math.round((done / items.length) * 100) : 0,
+  };
+};
+
+/**
+ * Range un élément de checklist à un rang donné et renumérote les autres
+ * @param taskId - ID de la tâche
+ * @param itemId - ID de l'élément à ranger
+ * @param position - Rang visé (ramené à la fin de la liste s'il la dépasse)
+ */
+export const moveChecklistItem = async (
+  taskId: string,
+  itemId: string,
+  position: number
+): Promise<void> => {
+  const items = await getTaskChecklist(taskId);
+  const ids = items.map((item) => item.id).filter((id) => id !== itemId);
+  ids.splice(Math.min(position, ids.length), 0, itemId);
+
+  await prisma.$transaction(
+    ids.map((id, index) =>
+      prisma.checklistItem.update({
+        where: { id },
+        data: { position: index },
+      })
+    )
+  );
+};
@@ -0,0 +1,119 @@
+import { PrismaClient } from "@prisma/client";
+import { StatusCategory } from "../types";
+
+const prisma = new PrismaClient();
+
+const dependencyTaskSelect = {
+  id: true,
+  title: true,
+  status: true,
+  statusCategory: true,
+};
+
+/**
+ * Vérifie si une nouvelle dépendance fermerait un cycle : la tâche bloquée
+ * bloque déjà, directement ou non, la tâche bloquante
+ * @param blockingTaskId - ID de la tâche bloquante
+ * @param blockedTaskId - ID de la tâche bloquée
+ * @returns true si la dépendance créerait un cycle, false sinon
+ */
+export const createsDependencyCycle = async (
+  blockingTaskId: string,
+  blockedTaskId: string
+): Promise<boolean> => {
+  const visited = new Set<string>([blockedTaskId]);
+  let frontier = [blockedTaskId];
+
+  while (frontier.length > 0) {
+    const dependencies = await prisma.taskDependency.findMany({
+      where: { blockingTaskId: { in: frontier } },
+      select: { blockedTaskId: true },
+    });
+
+    frontier = [];
+    for (const dependency of dependencies) {
+      if (dependency.blockedTaskId === blockingTaskId) {
+        return true;
+      }
+      if (!visited.has(dependency.blockedTaskId)) {
+        visited.add(dependency.blockedTaskId);
+        frontier.push(dependency.blockedTaskId);
+      }
+    }
+  }
+
+  return false;
+};
+
+/**
+ * Récupère les tâches non terminées qui bloquent une tâche
+ * @param taskId - ID de la tâche
+ * @returns Les tâches bloquantes dont le statut n'est pas de catégorie DONE
+ */
+export const getOpenBlockers = async (taskId: string) => {
+  const dependencies = await prisma.taskDependency.findMany({
+    where: {
+      blockedTaskId: taskId,
+      blockingTask: { statusCategory: { not: StatusCategory.DONE } },
+    },
+    include: {
+      blockingTask: { select: dependencyTaskSelect },
+    },
+  });
+
+  return dependencies.map((dependency) => dependency.blockingTask);
+};
+
+/**
+ * Identifie, parmi des tâches, celles qui ont une tâche bloquante non terminée
+ * @param taskIds - IDs des tâches
+ * @returns Les IDs des tâches bloquées
+ */
+export const getBlockedTaskIds = async (
+  taskIds: string[]
+): Promise<Set<string>> => {
+  if (taskIds.length === 0) {
+    return new Set();
+  }
+
+  const dependencies = await prisma.taskDependency.findMany({
+    where: {
+      blockedTaskId: { in: taskIds },
+      blockingTask: { statusCategory: { not: StatusCategory.DONE } },
+    },
+    select: { blockedTaskId: true },
+  });
+
+  return new Set(dependencies.map((dependency) => dependency.blockedTaskId));
+};
+
+/**
+ * Récupère les dépendances d'une tâche dans les deux sens
+ * @param taskId - ID de la tâche
+ * @returns Les tâches qui la bloquent et celles qu'elle bloque, avec l'ID de chaque dépendance
+ */
+export const getTaskDependencies = async (taskId: string) => {
+  const [blockedBy, blocks] = await Promise.all([
+    prisma.taskDependency.findMany({
+      where: { blockedTaskId: taskId },
+      include: { blockingTask: { select: dependencyTaskSelect } },
+      orderBy: { createdAt: "asc" },
+    }),
+    prisma.taskDependency.findMany({
+      where: { blockingTaskId: taskId },
+      include: { blockedTask: { select: dependencyTaskSelect } },
+      orderBy: { createdAt: "asc" },
+    }),
+  ]);
+
+  return {
+    blockedBy: blockedBy.map((dependency) => ({
+      id: dependency.id,
+      task: dependency.blockingTask,
+    })),
+    blocks: blocks.map((dependency) => ({
+      id: dependency.id,
+      task: dependency.blockedTask,
+    })),
+  };
+};
@@ -0,0 +1,118 @@
+import { Prisma, PrismaClient } from "@prisma/client";
+
+const prisma = new PrismaClient();
+
+/**
+ * Vérifie si les étiquettes appartiennent au projet
+ * @param projectId - ID du projet
+ * @param labelIds - IDs des étiquettes à vérifier
+ * @returns true si toutes les étiquettes appartiennent au projet, false sinon
+ */
+export const validateProjectLabels = async (
+  projectId: string,
+  labelIds: string[]
+): Promise<boolean> => {
+  if (labelIds.length === 0) return true;
+
+  const uniqueIds = Array.from(new Set(labelIds));
+  const count = await prisma.label.count({
+    where: {
+      projectId,
+      id: { in: uniqueIds },
+    },
+  });
+
+  return count === uniqueIds.length;
+};
+
+/**
+ * Condition Prisma du filtre par étiquettes des listes de tâches
+ * @param labelIds - Paramètre de requête labelIds (IDs séparés par des virgules ou répétés)
+ * @returns La condition à combiner : tâches portant au moins une des étiquettes
+ */
+export const labelFilterWhere = (labelIds: unknown): Prisma.TaskWhereInput => {
+  const ids = (Array.isArray(labelIds) ? labelIds : [labelIds])
+    .filter((value): value is string => typeof value === "string")
+    .flatMap((value) => value.split(","))
+    .map((value) => value.trim())
+    .filter(Boolean);
+
+  return ids.length > 0 ? { labels: { some: { labelId: { in: ids } } } } : {};
+};
+
+/**
+ * Met à jour les étiquettes d'une tâche
+ * @param taskId - ID de la tâche
+ * @param labelIds - IDs des étiquettes à appliquer
+ */
+export const updateTaskLabels = async (
+  taskId: string,
+  labelIds: string[]
+): Promise<void> => {
+  // Supprimer toutes les étiquettes existantes
+  await prisma.taskLabel.deleteMany({
+    where: { taskId },
+  });
+
+  // Ajouter les nouvelles étiquettes
+  if (labelIds.length > 0) {
+    await prisma.taskLabel.createMany({
+      data: Array.from(new Set(labelIds)).map((labelId) => ({
+        taskId,
+        labelId,
+      })),
+    });
+  }
+};
+
+/**
+ * Récupère les étiquettes d'une tâche
+ * @param taskId - ID de la tâche
+ * @returns Les étiquettes de la tâche, par ordre alphabétique
+ */
+export const getTaskLabels = async (taskId: string) => {
+  const taskLabels = await prisma.taskLabel.findMany({
+    where: { taskId },
+    include: {
+      label: {
+        select: {
+          id: true,
+          name: true,
+          color: true,
+        },
+      },
+    },
+    orderBy: { label: { name: "asc" } },
+  });
+
+  return taskLabels.map((taskLabel) => taskLabel.label);
+};
+
+/**
+ * Copie les étiquettes d'un projet dans un autre projet
+ * @param sourceProjectId - ID du projet d'origine
+ * @param targetProjectId - ID du nouveau projet
+ * @returns La correspondance entre les IDs d'origine et ceux des copies
+ */
+export const copyProjectLabels = async (
+  sourceProjectId: string,
+  targetProjectId: string
+): Promise<Map<string, string>> => {
+  const labels = await prisma.label.findMany({
+    where: { projectId: sourceProjectId },
+  });
+
+  const labelIds = new Map<string, string>();
+  for (const label of labels) {
+    const copiedLabel = await prisma.label.create({
+      data: {
+        name: label.name,
+        color: label.color,
+        projectId: targetProjectId,
+      },
+    });
+    labelIds.set(label.id, copiedLabel.id);
+  }
+
+  return labelIds;
+};
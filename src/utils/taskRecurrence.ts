@@ -0,0 +1,313 @@
+import { PrismaClient, Task, TaskRecurrence } from "@prisma/client";
+import { RecurrenceFrequency, RecurrenceRule } from "../types";
+import { getInitialStatus, getProjectWorkflow } from "./workflow";
+
+const prisma = new PrismaClient();
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+// Codes RRULE des jours, dans l'ordre de Date.getUTCDay()
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+/**
+ * Décode les jours d'une série (tableau JSON)
+ * @param weekdays - Jours stockés en base
+ * @returns Les codes des jours, ou un tableau vide si absents ou illisibles
+ */
+const parseWeekdays = (weekdays: string | null): string[] => {
+  if (!weekdays) return [];
+  try {
+    const parsed = JSON.parse(weekdays);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Convertit une série enregistrée en règle de répétition
+ * @param recurrence - La série
+ * @returns La règle, au format des requêtes
+ */
+export const toRecurrenceRule = (
+  recurrence: TaskRecurrence
+): RecurrenceRule => {
+  const weekdays = parseWeekdays(recurrence.weekdays);
+
+  return {
+    frequency: recurrence.frequency as RecurrenceRule["frequency"],
+    interval: recurrence.interval,
+    ...(weekdays.length > 0 ? { weekdays } : {}),
+    ...(recurrence.until ? { until: recurrence.until.toISOString() } : {}),
+    ...(recurrence.count !== null ? { count: recurrence.count } : {}),
+  };
+};
+
+/**
+ * Début (lundi, 00:00 UTC) de la semaine d'une date
+ * @param date - La date
+ * @returns Le lundi de la semaine
+ */
+const getWeekStart = (date: Date): number => {
+  const day = Date.UTC(
+    date.getUTCFullYear(),
+    date.getUTCMonth(),
+    date.getUTCDate()
+  );
+  return day - ((date.getUTCDay() + 6) % 7) * DAY_IN_MS;
+};
+
+/**
+ * Calcule l'échéance de l'occurrence suivante d'une série
+ * (l'heure de l'échéance est conservée)
+ * @param recurrence - La série (fréquence, intervalle, jours, première échéance)
+ * @param from - Échéance de la dernière occurrence
+ * @returns L'échéance suivante
+ */
+export const getNextOccurrenceDate = (
+  recurrence: Pick<
+    TaskRecurrence,
+    "frequency" | "interval" | "weekdays" | "startDate"
+  >,
+  from: Date
+): Date => {
+  const interval = Math.max(recurrence.interval, 1);
+
+  if (recurrence.frequency === RecurrenceFrequency.MONTHLY) {
+    // Même jour du mois que la première occurrence, ramené à la fin des mois courts
+    const month = from.getUTCMonth() + interval;
+    const year = from.getUTCFullYear() + Math.floor(month / 12);
+    const monthIndex = month % 12;
+    const daysInMonth = new Date(
+      Date.UTC(year, monthIndex + 1, 0)
+    ).getUTCDate();
+    const next = new Date(from);
+    next.setUTCFullYear(
+      year,
+      monthIndex,
+      Math.min(recurrence.startDate.getUTCDate(), daysInMonth)
+    );
+    return next;
+  }
+
+  if (recurrence.frequency === RecurrenceFrequency.WEEKLY) {
+    const weekdays = parseWeekdays(recurrence.weekdays);
+    if (weekdays.length > 0) {
+      // Premier jour retenu d'une semaine active (toutes les N semaines depuis la première)
+      const firstWeek = getWeekStart(recurrence.startDate);
+      for (let offset = 1; offset <= 7 * (interval + 1); offset++) {
+        const candidate = new Date(from.getTime() + offset * DAY_IN_MS);
+        const week = Math.round(
+          (getWeekStart(candidate) - firstWeek) / (7 * DAY_IN_MS)
+        );
+        if (
+          week % interval === 0 &&
+          weekdays.includes(WEEKDAY_CODES[candidate.getUTCDay()])
+        ) {
+          return candidate;
+        }
+      }
+    }
+    return new Date(from.getTime() + 7 * interval * DAY_IN_MS);
+  }
+
+  return new Date(from.getTime() + interval * DAY_IN_MS);
+};
+
+/**
+ * Définit, modifie ou arrête la répétition d'une tâche
+ * @param task - La tâche (son échéance sert de première occurrence)
+ * @param rule - La règle, ou null pour arrêter la série
+ */
+export const setTaskRecurrence = async (
+  task: Pick<Task, "id" | "dueDate" | "recurrenceId">,
+  rule: RecurrenceRule | null
+): Promise<void> => {
+  if (rule === null) {
+    // Les occurrences déjà créées sont conservées, hors série
+    if (task.recurrenceId) {
+      await prisma.taskRecurrence.delete({ where: { id: task.recurrenceId } });
+    }
+    return;
+  }
+
+  const data = {
+    frequency: rule.frequency,
+    interval: rule.interval ?? 1,
+    weekdays:
+      rule.frequency === RecurrenceFrequency.WEEKLY && rule.weekdays
+        ? JSON.stringify(Array.from(new Set(rule.weekdays)))
+        : null,
+    until: rule.until ? new Date(rule.until) : null,
+    count: rule.count ?? null,
+  };
+
+  if (task.recurrenceId) {
+    await prisma.taskRecurrence.update({
+      where: { id: task.recurrenceId },
+      data,
+    });
+    return;
+  }
+
+  await prisma.taskRecurrence.create({
+    data: {
+      ...data,
+      startDate: task.dueDate!,
+      nextRunAt: task.dueDate,
+      tasks: { connect: { id: task.id } },
+    },
+  });
+};
+
+/**
+ * Crée l'occurrence suivante d'une série à partir de sa dernière occurrence :
+ * titre, description, priorité, estimation et assignations (membres du projet) sont repris
+ * @param recurrenceId - ID de la série
+ * @param fromTaskId - Occurrence terminée (sans elle, seule une échéance atteinte déclenche la création)
+ * @returns La nouvelle tâche, ou null si la série est terminée ou pas encore due
+ */
+export const generateNextOccurrence = async (
+  recurrenceId: string,
+  fromTaskId?: string
+): Promise<Task | null> => {
+  const recurrence = await prisma.taskRecurrence.findUnique({
+    where: { id: recurrenceId },
+  });
+  if (!recurrence) return null;
+
+  const latest = await prisma.task.findFirst({
+    where: { recurrenceId },
+    include: { assignees: true },
+    // Par création : une occurrence sans échéance reste la dernière de la série
+    orderBy: { createdAt: "desc" },
+  });
+
+  if (!latest) return null;
+
+  // Échéance de référence : celle de la dernière occurrence, ou à défaut (échéances
+  // retirées) la dernière échéance connue de la série
+  const lastDueDate =
+    latest.dueDate ?? recurrence.nextRunAt ?? recurrence.startDate;
+
+  // Seule la dernière occurrence fait avancer la série
+  if (fromTaskId && latest.id !== fromTaskId) return null;
+  if (!fromTaskId && lastDueDate > new Date()) {
+    await prisma.taskRecurrence.update({
+      where: { id: recurrenceId },
+      data: { nextRunAt: lastDueDate },
+    });
+    return null;
+  }
+
+  const dueDate = getNextOccurrenceDate(recurrence, lastDueDate);
+  const isFinished =
+    (recurrence.count !== null &&
+      recurrence.occurrenceCount >= recurrence.count) ||
+    (recurrence.until !== null && dueDate > recurrence.until);
+  if (isFinished) {
+    await prisma.taskRecurrence.update({
+      where: { id: recurrenceId },
+      data: { nextRunAt: null },
+    });
+    return null;
+  }
+
+  // Réserver l'occurrence : une génération concurrente ne crée pas de doublon
+  const reserved = await prisma.taskRecurrence.updateMany({
+    where: { id: recurrenceId, occurrenceCount: recurrence.occurrenceCount },
+    data: {
+      occurrenceCount: recurrence.occurrenceCount + 1,
+      nextRunAt: dueDate,
+    },
+  });
+  if (reserved.count === 0) return null;
+
+  // Ne reprendre que les assignés encore membres du projet
+  const members = await prisma.projectMember.findMany({
+    where: {
+      projectId: latest.projectId,
+      userId: { in: latest.assignees.map((assignee) => assignee.userId) },
+    },
+    select: { userId: true },
+  });
+  const initialStatus = getInitialStatus(
+    await getProjectWorkflow(latest.projectId)
+  );
+
+  return prisma.task.create({
+    data: {
+      title: latest.title,
+      description: latest.description,
+      priority: latest.priority,
+      estimateMinutes: latest.estimateMinutes,
+      status: initialStatus.key,
+      statusCategory: initialStatus.category,
+      dueDate,
+      projectId: latest.projectId,
+      creatorId: latest.creatorId,
+      recurrenceId,
+      assignees: {
+        create: members.map((member) => ({ userId: member.userId })),
+      },
+    },
+  });
+};
+
+/**
+ * Crée les occurrences des séries dont la dernière échéance est atteinte
+ * (hors projets archivés ou dans la corbeille)
+ * @returns Le nombre d'occurrences créées
+ */
+export const generateDueOccurrences = async (): Promise<number> => {
+  const recurrences = await prisma.taskRecurrence.findMany({
+    where: {
+      nextRunAt: { lte: new Date() },
+      tasks: {
+        some: { project: { archivedAt: null, deletedAt: null } },
+      },
+    },
+    select: { id: true },
+  });
+
+  let count = 0;
+  for (const recurrence of recurrences) {
+    if (await generateNextOccurrence(recurrence.id)) {
+      count++;
+    }
+  }
+
+  return count;
+};
+
+/**
+ * Lance la création périodique des occurrences des tâches récurrentes
+ * (RECURRING_TASKS_INTERVAL_MINUTES, 15 par défaut)
+ * @returns Le timer, pour pouvoir l'arrêter
+ */
+export const startRecurringTasksJob = (): NodeJS.Timeout => {
+  const minutes = parseInt(
+    process.env.RECURRING_TASKS_INTERVAL_MINUTES || "15",
+    10
+  );
+
+  const run = async () => {
+    try {
+      const count = await generateDueOccurrences();
+      if (count > 0) {
+        console.log(`🔁 ${count} occurrence(s) de tâches récurrentes créée(s)`);
+      }
+    } catch (error) {
+      console.error(
+        "Erreur lors de la création des tâches récurrentes:",
+        error
+      );
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, minutes * 60 * 1000);
+  // Ne pas empêcher l'arrêt du processus
+  timer.unref();
+  return timer;
+};
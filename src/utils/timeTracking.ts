@@ -0,0 +1,222 @@
+import { Prisma, PrismaClient, TimeEntry } from "@prisma/client";
+import { TimeTotals } from "../types";
+
+const prisma = new PrismaClient();
+
+const MINUTE_IN_MS = 60 * 1000;
+
+export const timeEntryInclude = {
+  user: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+    },
+  },
+};
+
+/**
+ * Calcule la durée, en minutes arrondies, entre deux dates
+ * @param startedAt - Début
+ * @param endedAt - Fin
+ * @returns La durée en minutes
+ */
+export const getDurationMinutes = (startedAt: Date, endedAt: Date): number => {
+  return Math.max(
+    Math.round((endedAt.getTime() - startedAt.getTime()) / MINUTE_IN_MS),
+    0
+  );
+};
+
+/**
+ * Calcule la période d'une saisie de temps à partir des champs fournis
+ * (une durée seule se termine maintenant, ou au début indiqué augmenté de la durée)
+ * @param data - Début, fin ou durée fournis
+ * @param existing - Saisie modifiée (absente à la création)
+ * @returns La période, ou null si la fin précède le début
+ */
+export const resolveTimeEntryPeriod = (
+  data: { startedAt?: string; endedAt?: string; durationMinutes?: number },
+  existing?: Pick<TimeEntry, "startedAt" | "endedAt">
+): Pick<TimeEntry, "startedAt" | "endedAt" | "durationMinutes"> | null => {
+  let startedAt = data.startedAt
+    ? new Date(data.startedAt)
+    : existing?.startedAt;
+  let endedAt: Date | null = null;
+
+  if (data.durationMinutes !== undefined) {
+    if (!startedAt) {
+      endedAt = new Date();
+      startedAt = new Date(
+        endedAt.getTime() - data.durationMinutes * MINUTE_IN_MS
+      );
+    } else {
+      endedAt = new Date(
+        startedAt.getTime() + data.durationMinutes * MINUTE_IN_MS
+      );
+    }
+  } else if (data.endedAt !== undefined) {
+    endedAt = new Date(data.endedAt);
+  } else {
+    // Sans nouvelle fin, la saisie garde la sienne (null si le chronomètre tourne)
+    endedAt = existing?.endedAt ?? null;
+  }
+
+  if (!startedAt || (endedAt && endedAt <= startedAt)) {
+    return null;
+  }
+
+  return {
+    startedAt,
+    endedAt,
+    durationMinutes: endedAt ? getDurationMinutes(startedAt, endedAt) : null,
+  };
+};
+
+/**
+ * Récupère le chronomètre en cours d'un utilisateur (un seul à la fois)
+ * @param userId - ID de l'utilisateur
+ * @returns La saisie en cours avec sa tâche, ou null
+ */
+export const getRunningTimer = async (userId: string) => {
+  return prisma.timeEntry.findFirst({
+    where: { userId, endedAt: null },
+    include: {
+      task: {
+        select: { id: true, title: true, projectId: true },
+      },
+    },
+  });
+};
+
+/**
+ * Arrête les chronomètres en cours correspondant à une condition
+ * (projet archivé ou dans la corbeille, membre retiré du projet)
+ * @param where - Condition sur les saisies en cours
+ * @returns Le nombre de chronomètres arrêtés
+ */
+export const stopRunningTimers = async (
+  where: Prisma.TimeEntryWhereInput
+): Promise<number> => {
+  const runningEntries = await prisma.timeEntry.findMany({
+    where: { ...where, endedAt: null },
+    select: { id: true, startedAt: true },
+  });
+
+  const endedAt = new Date();
+  for (const entry of runningEntries) {
+    await prisma.timeEntry.update({
+      where: { id: entry.id },
+      data: {
+        endedAt,
+        durationMinutes: getDurationMinutes(entry.startedAt, endedAt),
+      },
+    });
+  }
+
+  return runningEntries.length;
+};
+
+/**
+ * Calcule le temps passé (saisies terminées) sur des tâches
+ * @param taskIds - IDs des tâches
+ * @returns Le temps passé en minutes, par ID de tâche
+ */
+export const getSpentMinutesByTask = async (
+  taskIds: string[]
+): Promise<Map<string, number>> => {
+  if (taskIds.length === 0) {
+    return new Map();
+  }
+
+  const groups = await prisma.timeEntry.groupBy({
+    by: ["taskId"],
+    where: { taskId: { in: taskIds }, endedAt: { not: null } },
+    _sum: { durationMinutes: true },
+  });
+
+  return new Map(
+    groups.map((group) => [group.taskId, group._sum.durationMinutes ?? 0])
+  );
+};
+
+/**
+ * Calcule le temps estimé et le temps passé d'une tâche
+ * @param task - La tâche (ID et estimation)
+ * @returns Les totaux en minutes
+ */
+export const getTaskTimeTotals = async (task: {
+  id: string;
+  estimateMinutes: number | null;
+}): Promise<TimeTotals> => {
+  const spent = await getSpentMinutesByTask([task.id]);
+
+  return {
+    estimateMinutes: task.estimateMinutes ?? 0,
+    spentMinutes: spent.get(task.id) ?? 0,
+  };
+};
+
+/**
+ * Calcule, pour des projets, le temps estimé et le temps passé, au total et par utilisateur
+ * @param projectIds - IDs des projets
+ * @param period - Restreint les saisies prises en compte à celles commencées dans la période
+ * @returns Les totaux par ID de projet, avec le temps passé par utilisateur
+ */
+export const getProjectsTimeTotals = async (
+  projectIds: string[],
+  period: { from?: Date; to?: Date } = {}
+): Promise<
+  Map<string, TimeTotals & { byUser: Map<string | null, number> }>
+> => {
+  const totals = new Map<
+    string,
+    TimeTotals & { byUser: Map<string | null, number> }
+  >(
+    projectIds.map((projectId) => [
+      projectId,
+      { estimateMinutes: 0, spentMinutes: 0, byUser: new Map() },
+    ])
+  );
+  if (projectIds.length === 0) {
+    return totals;
+  }
+
+  const tasks = await prisma.task.findMany({
+    where: { projectId: { in: projectIds } },
+    select: { id: true, projectId: true, estimateMinutes: true },
+  });
+  const taskProjects = new Map<string, string>();
+  for (const task of tasks) {
+    taskProjects.set(task.id, task.projectId);
+    totals.get(task.projectId)!.estimateMinutes += task.estimateMinutes ?? 0;
+  }
+
+  const startedAt: Prisma.DateTimeFilter = {};
+  if (period.from) startedAt.gte = period.from;
+  if (period.to) startedAt.lte = period.to;
+
+  const groups = await prisma.timeEntry.groupBy({
+    by: ["taskId", "userId"],
+    where: {
+      task: { projectId: { in: projectIds } },
+      endedAt: { not: null },
+      ...(period.from || period.to ? { startedAt } : {}),
+    },
+    _sum: { durationMinutes: true },
+  });
+
+  for (const group of groups) {
+    const projectTotals = totals.get(taskProjects.get(group.taskId)!);
+    if (!projectTotals) continue;
+
+    const minutes = group._sum.durationMinutes ?? 0;
+    projectTotals.spentMinutes += minutes;
+    projectTotals.byUser.set(
+      group.userId,
+      (projectTotals.byUser.get(group.userId) ?? 0) + minutes
+    );
+  }
+
+  return totals;
+};
@@ -0,0 +1,19 @@
+import crypto from "crypto";
+
+/**
+ * Génère un token opaque aléatoire (à transmettre une seule fois au client)
+ * @param bytes - Nombre d'octets aléatoires (défaut: 48)
+ * @returns Le token encodé en hexadécimal
+ */
+export const generateOpaqueToken = (bytes: number = 48): string => {
+  return crypto.randomBytes(bytes).toString("hex");
+};
+
+/**
+ * Calcule l'empreinte SHA-256 d'un token pour le stockage en base
+ * @param token - Le token en clair
+ * @returns L'empreinte hexadécimale du token
+ */
+export const hashToken = (token: string): string => {
+  return crypto.createHash("sha256").update(token).digest("hex");
+};
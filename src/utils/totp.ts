@@ -0,0 +1,151 @@
+import crypto from "crypto";
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const TOTP_DIGITS = 6;
+const TOTP_PERIOD_SECONDS = 30;
+
+/**
+ * Encode des octets en base32 (RFC 4648, sans padding)
+ * @param buffer - Les octets à encoder
+ * @returns La chaîne base32
+ */
+const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+/**
+ * Décode une chaîne base32 (RFC 4648, padding et espaces ignorés)
+ * @param input - La chaîne base32
+ * @returns Les octets décodés
+ */
+const base32Decode = (input: string): Buffer => {
+  const cleaned = input.toUpperCase().replace(/=+$/, "").replace(/\s/g, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error("Secret base32 invalide");
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+/**
+ * Calcule un code HOTP (RFC 4226)
+ * @param secret - Le secret partagé
+ * @param counter - Le compteur (pas de temps pour TOTP)
+ * @returns Le code à 6 chiffres
+ */
+const generateHotp = (secret: Buffer, counter: number): string => {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto.createHmac("sha1", secret).update(message).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const code = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS;
+
+  return code.toString().padStart(TOTP_DIGITS, "0");
+};
+
+/**
+ * Génère un nouveau secret TOTP
+ * @returns Le secret encodé en base32
+ */
+export const generateTotpSecret = (): string => {
+  return base32Encode(crypto.randomBytes(20));
+};
+
+/**
+ * Retourne le pas de temps TOTP courant (RFC 6238, période de 30 secondes)
+ * @param now - La date de référence
+ * @returns Le numéro du pas de temps
+ */
+export const getTotpStep = (now: Date = new Date()): number => {
+  return Math.floor(now.getTime() / 1000 / TOTP_PERIOD_SECONDS);
+};
+
+/**
+ * Vérifie un code TOTP en tolérant un léger décalage d'horloge
+ * @param secret - Le secret base32
+ * @param code - Le code saisi par l'utilisateur
+ * @param window - Nombre de pas tolérés avant/après le pas courant (défaut: 1)
+ * @returns Le pas de temps correspondant au code, ou null s'il est invalide
+ */
+export const verifyTotpCode = (
+  secret: string,
+  code: string,
+  window: number = 1
+): number | null => {
+  const normalized = code.replace(/\s/g, "");
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) {
+    return null;
+  }
+
+  const key = base32Decode(secret);
+  const currentStep = getTotpStep();
+
+  for (let offset = -window; offset <= window; offset++) {
+    const step = currentStep + offset;
+    const expected = generateHotp(key, step);
+
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Construit l'URI otpauth:// à afficher sous forme de QR code
+ * @param secret - Le secret base32
+ * @param accountName - Le nom du compte (email)
+ * @param issuer - Le nom de l'application
+ * @returns L'URI otpauth
+ */
+export const buildOtpauthUri = (
+  secret: string,
+  accountName: string,
+  issuer: string
+): string => {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}`;
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: TOTP_DIGITS.toString(),
+    period: TOTP_PERIOD_SECONDS.toString(),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
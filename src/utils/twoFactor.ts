@@ -0,0 +1,114 @@
+import { PrismaClient } from "@prisma/client";
+import { generateOpaqueToken, hashToken } from "./tokens";
+import { verifyTotpCode } from "./totp";
+
+const prisma = new PrismaClient();
+
+const RECOVERY_CODES_COUNT = 10;
+
+/**
+ * Normalise un code de récupération avant hachage (casse et espaces ignorés)
+ * @param code - Le code saisi
+ * @returns Le code normalisé
+ */
+const normalizeRecoveryCode = (code: string): string => {
+  return code.trim().toLowerCase();
+};
+
+/**
+ * Génère un nouveau jeu de codes de récupération (les anciens sont supprimés)
+ * @param userId - ID de l'utilisateur
+ * @returns Les codes en clair, à afficher une seule fois
+ */
+export const generateRecoveryCodes = async (
+  userId: string
+): Promise<string[]> => {
+  const codes = Array.from({ length: RECOVERY_CODES_COUNT }, () => {
+    const raw = generateOpaqueToken(5);
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+  await prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } });
+  await prisma.twoFactorRecoveryCode.createMany({
+    data: codes.map((code) => ({
+      codeHash: hashToken(normalizeRecoveryCode(code)),
+      userId,
+    })),
+  });
+
+  return codes;
+};
+
+/**
+ * Vérifie un code TOTP pour un utilisateur et empêche son rejeu
+ * @param user - L'utilisateur (secret et dernier pas de temps utilisé)
+ * @param code - Le code saisi
+ * @returns true si le code est valide et n'a pas déjà été utilisé
+ */
+export const consumeTotpCode = async (
+  user: { id: string; totpSecret: string | null },
+  code: string
+): Promise<boolean> => {
+  if (!user.totpSecret) {
+    return false;
+  }
+
+  const step = verifyTotpCode(user.totpSecret, code);
+  if (step === null) {
+    return false;
+  }
+
+  // N'accepter que des pas de temps postérieurs au dernier code utilisé
+  const updated = await prisma.user.updateMany({
+    where: {
+      id: user.id,
+      OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }],
+    },
+    data: { totpLastUsedStep: step },
+  });
+
+  return updated.count > 0;
+};
+
+/**
+ * Consomme un code de récupération (usage unique)
+ * @param userId - ID de l'utilisateur
+ * @param recoveryCode - Le code saisi
+ * @returns true si le code était valide et inutilisé
+ */
+export const consumeRecoveryCode = async (
+  userId: string,
+  recoveryCode: string
+): Promise<boolean> => {
+  const consumed = await prisma.twoFactorRecoveryCode.updateMany({
+    where: {
+      userId,
+      codeHash: hashToken(normalizeRecoveryCode(recoveryCode)),
+      usedAt: null,
+    },
+    data: { usedAt: new Date() },
+  });
+
+  return consumed.count > 0;
+};
+
+/**
+ * Vérifie le second facteur d'un utilisateur (code TOTP ou code de récupération)
+ * @param user - L'utilisateur
+ * @param factor - Le code TOTP ou le code de récupération saisi
+ * @returns true si le second facteur est valide
+ */
+export const verifySecondFactor = async (
+  user: { id: string; totpSecret: string | null },
+  factor: { code?: string; recoveryCode?: string }
+): Promise<boolean> => {
+  if (factor.code) {
+    return consumeTotpCode(user, factor.code);
+  }
+
+  if (factor.recoveryCode) {
+    return consumeRecoveryCode(user.id, factor.recoveryCode);
+  }
+
+  return false;
+};
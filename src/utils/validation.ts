@@ -1,4 +1,15 @@
-import { ValidationError } from "../types";
+import {
+  ContributorInput,
+  CustomFieldDefinition,
+  CustomFieldType,
+  CustomFieldValues,
+  RecurrenceRule,
+  Role,
+  StatusCategory,
+  UpdateWorkflowRequest,
+  ValidationError,
+} from "../types";
+import { CUSTOM_ROLE_ACTIONS } from "./permissions";
 
 /**
  * Valide un email
@@ -21,6 +32,15 @@ export const isValidPassword = (password: string): boolean => {
   return passwordRegex.test(password);
 };
 
+/**
+ * Valide une couleur hexadécimale
+ * @param color - La couleur à valider (#RRGGBB)
+ * @returns true si la couleur est valide, false sinon
+ */
+export const isValidColor = (color: unknown): boolean => {
+  return typeof color === "string" && /^#[0-9a-fA-F]{6}$/.test(color);
+};
+
 /**
  * Valide une date ISO
  * @param dateString - La date à valider
@@ -96,6 +116,26 @@ export const validateLoginData = (data: {
   return errors;
 };
 
+/**
+ * Valide les données de renouvellement/révocation de session
+ * @param data - Les données à valider
+ * @returns Un tableau d'erreurs de validation
+ */
+export const validateRefreshTokenData = (data: {
+  refreshToken: string;
+}): ValidationError[] => {
+  const errors: ValidationError[] = [];
+
+  if (!data.refreshToken || typeof data.refreshToken !== "string") {
+    errors.push({
+      field: "refreshToken",
+      message: "Le refresh token est requis",
+    });
+  }
+
+  return errors;
+};
+
 /**
  * Valide les données de mise à jour du profil
  * @param data - Les données à valider
@@ -177,216 +217,1501 @@ export const validateUpdatePasswordData = (data: {
 };
 
 /**
- * Valide les données de création de projet
+ * Valide les données de demande de réinitialisation du mot de passe
  * @param data - Les données à valider
  * @returns Un tableau d'erreurs de validation
  */
-export const validateCreateProjectData = (data: {
-  name: string;
-  description?: string;
-  contributors?: string[];
+export const validateForgotPasswordData = (data: {
+  email: string;
 }): ValidationError[] => {
   const errors: ValidationError[] = [];
 
-  // Validation du nom
-  if (!data.name) {
-    errors.push({ field: "name", message: "Le nom du projet est requis" });
-  } else if (data.name.trim().length < 2) {
+  if (!data.email) {
+    errors.push({ field: "email", message: "L'email est requis" });
+  } else if (!isValidEmail(data.email)) {
+    errors.push({ field: "email", message: "Format d'email invalide" });
+  }
+
+  return errors;
+};
+
+/**
+ * Valide les données de réinitialisation du mot de passe
+ * @param data - Les données à valider
+ * @returns Un tableau d'erreurs de validation
+ */
+export const validateResetPasswordData = (data: {
+  token: string;
+  newPassword: string;
+}): ValidationError[] => {
+  const errors: ValidationError[] = [];
+
+  if (!data.token || typeof data.token !== "string") {
     errors.push({
-      field: "name",
-      message: "Le nom du projet doit contenir au moins 2 caractères",
+      field: "token",
+      message: "Le token de réinitialisation est requis",
+    });
+  }
+
+  if (!data.newPassword) {
+    errors.push({
+      field: "newPassword",
+      message: "Le nouveau mot de passe est requis",
+    });
+  } else if (!isValidPassword(data.newPassword)) {
+    errors.push({
+      field: "newPassword",
+      message:
+        "Le nouveau mot de passe doit contenir au moins 8 caractères, une lettre majuscule, une lettre minuscule et un chiffre",
     });
+  }
+
+  return errors;
+};
+
+/**
+ * Valide les données de création d'un token d'accès personnel
+ * @param data - Les données à valider
+ * @returns Un tableau d'erreurs de validation
+ */
+export const validateCreatePersonalAccessTokenData = (data: {
+  name: string;
+  scope?: string;
+  projectIds?: string[];
+  expiresInDays?: number;
+}): ValidationError[] => {
+  const errors: ValidationError[] = [];
+
+  // Validation du nom
+  if (!data.name || !data.name.trim()) {
+    errors.push({ field: "name", message: "Le nom du token est requis" });
   } else if (data.name.trim().length > 100) {
     errors.push({
       field: "name",
-      message: "Le nom du projet ne peut pas dépasser 100 caractères",
+      message: "Le nom du token ne peut pas dépasser 100 caractères",
     });
   }
 
-  // Validation de la description
-  if (data.description && data.description.trim().length > 500) {
+  // Validation de la portée
+  if (data.scope !== undefined && !["READ", "WRITE"].includes(data.scope)) {
     errors.push({
-      field: "description",
-      message: "La description ne peut pas dépasser 500 caractères",
+      field: "scope",
+      message: "La portée doit être READ ou WRITE",
     });
   }
 
-  // Validation des contributeurs
-  if (data.contributors) {
-    if (!Array.isArray(data.contributors)) {
+  // Validation des projets autorisés
+  if (data.projectIds !== undefined) {
+    if (!Array.isArray(data.projectIds) || data.projectIds.length === 0) {
       errors.push({
-        field: "contributors",
-        message: "Les contributeurs doivent être un tableau",
+        field: "projectIds",
+        message: "Les projets autorisés doivent être un tableau non vide",
       });
     } else {
-      data.contributors.forEach((email, index) => {
-        if (!isValidEmail(email)) {
+      data.projectIds.forEach((projectId, index) => {
+        if (!projectId || typeof projectId !== "string") {
           errors.push({
-            field: `contributors[${index}]`,
-            message: "Format d'email invalide",
+            field: `projectIds[${index}]`,
+            message: "L'ID du projet est invalide",
           });
         }
       });
     }
   }
 
+  // Validation de la durée de validité
+  if (
+    data.expiresInDays !== undefined &&
+    (!Number.isInteger(data.expiresInDays) ||
+      data.expiresInDays < 1 ||
+      data.expiresInDays > 365)
+  ) {
+    errors.push({
+      field: "expiresInDays",
+      message: "La durée de validité doit être un nombre de jours entre 1 et 365",
+    });
+  }
+
   return errors;
 };
 
 /**
- * Valide les données de mise à jour de projet
+ * Valide un code de vérification TOTP
  * @param data - Les données à valider
  * @returns Un tableau d'erreurs de validation
  */
-export const validateUpdateProjectData = (data: {
-  name?: string;
-  description?: string;
-  contributors?: string[];
+export const validateTwoFactorCodeData = (data: {
+  code: string;
 }): ValidationError[] => {
   const errors: ValidationError[] = [];
 
-  // Validation du nom si fourni
-  if (data.name !== undefined) {
-    if (!data.name.trim()) {
-      errors.push({
-        field: "name",
-        message: "Le nom du projet ne peut pas être vide",
-      });
-    } else if (data.name.trim().length < 2) {
-      errors.push({
-        field: "name",
-        message: "Le nom du projet doit contenir au moins 2 caractères",
-      });
-    } else if (data.name.trim().length > 100) {
-      errors.push({
-        field: "name",
-        message: "Le nom du projet ne peut pas dépasser 100 caractères",
-      });
-    }
+  if (!data.code || typeof data.code !== "string") {
+    errors.push({ field: "code", message: "Le code de vérification est requis" });
+  } else if (!/^\d{6}$/.test(data.code.replace(/\s/g, ""))) {
+    errors.push({
+      field: "code",
+      message: "Le code de vérification doit contenir 6 chiffres",
+    });
   }
 
-  // Validation de la description si fournie
-  if (data.description !== undefined && data.description.trim().length > 500) {
+  return errors;
+};
+
+/**
+ * Valide un second facteur fourni sous forme de code TOTP ou de code de récupération
+ * @param data - Les données à valider
+ * @returns Un tableau d'erreurs de validation
+ */
+const validateSecondFactorData = (data: {
+  code?: string;
+  recoveryCode?: string;
+}): ValidationError[] => {
+  if (data.code !== undefined) {
+    return validateTwoFactorCodeData({ code: data.code });
+  }
+
+  if (!data.recoveryCode || typeof data.recoveryCode !== "string") {
+    return [
+      {
+        field: "code",
+        message: "Un code de vérification ou un code de récupération est requis",
+      },
+    ];
+  }
+
+  return [];
+};
+
+/**
+ * Valide les données de la seconde étape de connexion (2FA)
+ * @param data - Les données à valider
+ * @returns Un tableau d'erreurs de validation
+ */
+export const validateTwoFactorLoginData = (data: {
+  challengeToken: string;
+  code?: string;
+  recoveryCode?: string;
+}): ValidationError[] => {
+  const errors: ValidationError[] = [];
+
+  if (!data.challengeToken || typeof data.challengeToken !== "string") {
     errors.push({
-      field: "description",
-      message: "La description ne peut pas dépasser 500 caractères",
+      field: "challengeToken",
+      message: "Le token de challenge est requis",
     });
   }
-  // Validation des contributeurs
-  if (data.contributors !== undefined ) {
-    if (!Array.isArray(data.contributors)) {
+
+  return [...errors, ...validateSecondFactorData(data)];
+};
+
+/**
+ * Valide les données de désactivation de la 2FA
+ * @param data - Les données à valider
+ * @returns Un tableau d'erreurs de validation
+ */
+export const validateDisableTwoFactorData = (data: {
+  password: string;
+  code?: string;
+  recoveryCode?: string;
+}): ValidationError[] => {
+  const errors: ValidationError[] = [];
+
+  if (!data.password) {
+    errors.push({ field: "password", message: "Le mot de passe est requis" });
+  }
+
+  return [...errors, ...validateSecondFactorData(data)];
+};
+
+/**
+ * Valide les données de suppression de compte
+ * @param data - Les données à valider
+ * @returns Un tableau d'erreurs de validation
+ */
+export const validateDeleteAccountData = (data: {
+  password: string;
+  confirmEmail: string;
+}): ValidationError[] => {
+  const errors: ValidationError[] = [];
+
+  if (!data.password) {
+    errors.push({ field: "password", message: "Le mot de passe est requis" });
+  }
+
+  if (!data.confirmEmail) {
+    errors.push({
+      field: "confirmEmail",
+      message: "L'email du compte est requis pour confirmer la suppression",
+    });
+  }
+
+  return errors;
+};
+
+/**
+ * Valide une liste de contributeurs (emails seuls ou objets { email, role })
+ * @param contributors - Les contributeurs à valider
+ * @param errors - Le tableau d'erreurs à compléter
+ */
+const validateContributors = (
+  contributors: unknown,
+  errors: ValidationError[]
+): void => {
+  if (!Array.isArray(contributors)) {
+    errors.push({
+      field: "contributors",
+      message: "Les contributeurs doivent être un tableau",
+    });
+    return;
+  }
+
+  contributors.forEach((contributor, index) => {
+    const email =
+      typeof contributor === "string" ? contributor : contributor?.email;
+
+    if (typeof email !== "string" || !isValidEmail(email)) {
       errors.push({
-        field: "contributors",
-        message: "Les contributeurs doivent être un tableau",
+        field: `contributors[${index}]`,
+        message: "Format d'email invalide",
       });
-    } else {
-      data.contributors.forEach((email, index) => {
-        if (!isValidEmail(email)) {
-          errors.push({
-            field: `contributors[${index}]`,
-            message: "Format d'email invalide",
-          });
-        }
+    } else if (
+      typeof contributor === "object" &&
+      contributor.role !== undefined &&
+      !Object.values(Role).includes(contributor.role)
+    ) {
+      errors.push({
+        field: `contributors[${index}].role`,
+        message: "Le rôle doit être ADMIN, CONTRIBUTOR ou VIEWER",
       });
     }
-  }
-  return errors;
+  });
 };
 
 /**
- * Valide les données de création de tâche
+ * Valide les données de création de projet
  * @param data - Les données à valider
  * @returns Un tableau d'erreurs de validation
  */
-export const validateCreateTaskData = (data: {
-  title: string;
+export const validateCreateProjectData = (data: {
+  name: string;
   description?: string;
-  priority?: string;
-  dueDate?: string;
-  assigneeIds?: string[];
+  contributors?: ContributorInput[];
+  workspaceId?: string;
+  templateId?: string;
+  startDate?: string;
 }): ValidationError[] => {
   const errors: ValidationError[] = [];
 
-  // Validation du titre
-  if (!data.title) {
-    errors.push({ field: "title", message: "Le titre de la tâche est requis" });
-  } else if (data.title.trim().length < 2) {
+  // Validation du nom
+  if (!data.name) {
+    errors.push({ field: "name", message: "Le nom du projet est requis" });
+  } else if (data.name.trim().length < 2) {
     errors.push({
-      field: "title",
-      message: "Le titre de la tâche doit contenir au moins 2 caractères",
+      field: "name",
+      message: "Le nom du projet doit contenir au moins 2 caractères",
     });
-  } else if (data.title.trim().length > 200) {
+  } else if (data.name.trim().length > 100) {
     errors.push({
-      field: "title",
-      message: "Le titre de la tâche ne peut pas dépasser 200 caractères",
+      field: "name",
+      message: "Le nom du projet ne peut pas dépasser 100 caractères",
     });
   }
 
   // Validation de la description
-  if (data.description && data.description.trim().length > 1000) {
+  if (data.description && data.description.trim().length > 500) {
     errors.push({
       field: "description",
-      message: "La description ne peut pas dépasser 1000 caractères",
+      message: "La description ne peut pas dépasser 500 caractères",
     });
   }
 
-  // Validation de la priorité
-  if (
-    data.priority &&
-    !["LOW", "MEDIUM", "HIGH", "URGENT"].includes(data.priority)
-  ) {
+  // Validation des contributeurs
+  if (data.contributors) {
+    validateContributors(data.contributors, errors);
+  }
+
+  // Validation de l'espace de travail
+  if (data.workspaceId !== undefined && typeof data.workspaceId !== "string") {
     errors.push({
-      field: "priority",
-      message: "La priorité doit être LOW, MEDIUM, HIGH ou URGENT",
+      field: "workspaceId",
+      message: "L'espace de travail doit être un identifiant",
     });
   }
-  console.log('date format sent: ', data.dueDate)
-  // Validation de la date d'échéance
-  if (data.dueDate && !isValidDate(data.dueDate)) {
+
+  // Validation du modèle
+  if (data.templateId !== undefined && typeof data.templateId !== "string") {
     errors.push({
-      field: "dueDate",
-      message: "Format de date invalide (utilisez le format ISO)",
+      field: "templateId",
+      message: "Le modèle doit être un identifiant",
     });
   }
 
-  // Validation des assignations
-  if (data.assigneeIds) {
-    if (!Array.isArray(data.assigneeIds)) {
-      errors.push({
-        field: "assigneeIds",
-        message: "Les assignations doivent être un tableau",
-      });
-    } else {
-      data.assigneeIds.forEach((userId, index) => {
-        if (!userId || typeof userId !== "string") {
-          errors.push({
-            field: `assigneeIds[${index}]`,
-            message: "L'ID de l'utilisateur assigné est invalide",
-          });
-        }
-      });
-    }
+  if (data.startDate !== undefined && !isValidDate(data.startDate)) {
+    errors.push({
+      field: "startDate",
+      message: "Format de date invalide (utilisez le format ISO)",
+    });
   }
-  console.log(errors)
+
   return errors;
 };
 
 /**
- * Valide les données de mise à jour de tâche
+ * Valide les options de clonage d'un projet
  * @param data - Les données à valider
  * @returns Un tableau d'erreurs de validation
  */
-export const validateUpdateTaskData = (data: {
-  title?: string;
-  description?: string;
-  status?: string;
-  priority?: string;
-  dueDate?: string;
-  assigneeIds?: string[];
+export const validateCloneProjectData = (data: {
+  name?: string;
+  includeTasks?: boolean;
+  includeAssignees?: boolean;
+  includeMembers?: boolean;
+  resetStatuses?: boolean;
+  startDate?: string;
 }): ValidationError[] => {
   const errors: ValidationError[] = [];
 
-  // Validation du titre si fourni
+  // Validation du nom
+  if (data.name !== undefined) {
+    if (typeof data.name !== "string" || data.name.trim().length < 2) {
+      errors.push({
+        field: "name",
+        message: "Le nom du projet doit contenir au moins 2 caractères",
+      });
+    } else if (data.name.trim().length > 100) {
+      errors.push({
+        field: "name",
+        message: "Le nom du projet ne peut pas dépasser 100 caractères",
+      });
+    }
+  }
+
+  // Validation des options
+  (
+    [
+      "includeTasks",
+      "includeAssignees",
+      "includeMembers",
+      "resetStatuses",
+    ] as const
+  ).forEach((field) => {
+    if (data[field] !== undefined && typeof data[field] !== "boolean") {
+      errors.push({ field, message: `${field} doit être un booléen` });
+    }
+  });
+
+  if (data.includeAssignees && data.includeTasks === false) {
+    errors.push({
+      field: "includeAssignees",
+      message: "Les assignations ne peuvent être copiées sans les tâches",
+    });
+  }
+
+  // Validation de la date de démarrage
+  if (data.startDate !== undefined && !isValidDate(data.startDate)) {
+    errors.push({
+      field: "startDate",
+      message: "Format de date invalide (utilisez le format ISO)",
+    });
+  }
+
+  return errors;
+};
+
+/**
+ * Valide les données d'enregistrement d'un projet comme modèle
+ * @param data - Les données à valider
+ * @returns Un tableau d'erreurs de validation
+ */
+export const validateCreateProjectTemplateData = (data: {
+  name?: string;
+  description?: string;
+}): ValidationError[] => {
+  const errors: ValidationError[] = [];
+
+  // Validation du nom
+  if (data.name !== undefined) {
+    if (typeof data.name !== "string" || data.name.trim().length < 2) {
+      errors.push({
+        field: "name",
+        message: "Le nom du modèle doit contenir au moins 2 caractères",
+      });
+    } else if (data.name.trim().length > 100) {
+      errors.push({
+        field: "name",
+        message: "Le nom du modèle ne peut pas dépasser 100 caractères",
+      });
+    }
+  }
+
+  // Validation de la description
+  if (
+    data.description !== undefined &&
+    (typeof data.description !== "string" ||
+      data.description.trim().length > 500)
+  ) {
+    errors.push({
+      field: "description",
+      message: "La description ne peut pas dépasser 500 caractères",
+    });
+  }
+
+  return errors;
+};
+
+/**
+ * Valide les données de mise à jour de projet
+ * @param data - Les données à valider
+ * @returns Un tableau d'erreurs de validation
+ */
+export const validateUpdateProjectData = (data: {
+  name?: string;
+  description?: string;
+  contributors?: ContributorInput[];
+  requireTwoFactor?: boolean;
+  blockParentCompletion?: boolean;
+  workspaceId?: string | null;
+}): ValidationError[] => {
+  const errors: ValidationError[] = [];
+
+  // Validation du nom si fourni
+  if (data.name !== undefined) {
+    if (!data.name.trim()) {
+      errors.push({
+        field: "name",
+        message: "Le nom du projet ne peut pas être vide",
+      });
+    } else if (data.name.trim().length < 2) {
+      errors.push({
+        field: "name",
+        message: "Le nom du projet doit contenir au moins 2 caractères",
+      });
+    } else if (data.name.trim().length > 100) {
+      errors.push({
+        field: "name",
+        message: "Le nom du projet ne peut pas dépasser 100 caractères",
+      });
+    }
+  }
+
+  // Validation de la description si fournie
+  if (data.description !== undefined && data.description.trim().length > 500) {
+    errors.push({
+      field: "description",
+      message: "La description ne peut pas dépasser 500 caractères",
+    });
+  }
+  // Validation des contributeurs
+  if (data.contributors !== undefined ) {
+    validateContributors(data.contributors, errors);
+  }
+
+  // Validation de l'exigence 2FA si fournie
+  if (
+    data.requireTwoFactor !== undefined &&
+    typeof data.requireTwoFactor !== "boolean"
+  ) {
+    errors.push({
+      field: "requireTwoFactor",
+      message: "requireTwoFactor doit être un booléen",
+    });
+  }
+
+  // Validation du blocage des tâches parentes si fourni
+  if (
+    data.blockParentCompletion !== undefined &&
+    typeof data.blockParentCompletion !== "boolean"
+  ) {
+    errors.push({
+      field: "blockParentCompletion",
+      message: "blockParentCompletion doit être un booléen",
+    });
+  }
+
+  // Validation de l'espace de travail si fourni (null pour le retirer)
+  if (
+    data.workspaceId !== undefined &&
+    data.workspaceId !== null &&
+    typeof data.workspaceId !== "string"
+  ) {
+    errors.push({
+      field: "workspaceId",
+      message: "L'espace de travail doit être un identifiant ou null",
+    });
+  }
+  return errors;
+};
+
+/**
+ * Valide les données de création d'un espace de travail
+ * @param data - Les données à valider
+ * @returns Un tableau d'erreurs de validation
+ */
+export const validateCreateWorkspaceData = (data: {
+  name: string;
+  description?: string;
+}): ValidationError[] => {
+  const errors: ValidationError[] = [];
+
+  // Validation du nom
+  if (!data.name || typeof data.name !== "string") {
+    errors.push({
+      field: "name",
+      message: "Le nom de l'espace de travail est requis",
+    });
+  } else if (data.name.trim().length < 2) {
+    errors.push({
+      field: "name",
+      message:
+        "Le nom de l'espace de travail doit contenir au moins 2 caractères",
+    });
+  } else if (data.name.trim().length > 100) {
+    errors.push({
+      field: "name",
+      message:
+        "Le nom de l'espace de travail ne peut pas dépasser 100 caractères",
+    });
+  }
+
+  // Validation de la description
+  if (data.description && data.description.trim().length > 500) {
+    errors.push({
+      field: "description",
+      message: "La description ne peut pas dépasser 500 caractères",
+    });
+  }
+
+  return errors;
+};
+
+/**
+ * Valide les données de mise à jour d'un espace de travail
+ * @param data - Les données à valider
+ * @returns Un tableau d'erreurs de validation
+ */
+export const validateUpdateWorkspaceData = (data: {
+  name?: string;
+  description?: string;
+}): ValidationError[] => {
+  const errors: ValidationError[] = [];
+
+  // Validation du nom si fourni
+  if (data.name !== undefined) {
+    if (typeof data.name !== "string" || !data.name.trim()) {
+      errors.push({
+        field: "name",
+        message: "Le nom de l'espace de travail ne peut pas être vide",
+      });
+    } else if (data.name.trim().length < 2) {
+      errors.push({
+        field: "name",
+        message:
+          "Le nom de l'espace de travail doit contenir au moins 2 caractères",
+      });
+    } else if (data.name.trim().length > 100) {
+      errors.push({
+        field: "name",
+        message:
+          "Le nom de l'espace de travail ne peut pas dépasser 100 caractères",
+      });
+    }
+  }
+
+  // Validation de la description si fournie
+  if (data.description !== undefined && data.description.trim().length > 500) {
+    errors.push({
+      field: "description",
+      message: "La description ne peut pas dépasser 500 caractères",
+    });
+  }
+
+  return errors;
+};
+
+/**
+ * Valide les permissions d'un rôle personnalisé
+ * @param permissions - Les actions accordées
+ * @param errors - Le tableau d'erreurs à compléter
+ */
+const validateRolePermissions = (
+  permissions: unknown,
+  errors: ValidationError[]
+): void => {
+  if (!Array.isArray(permissions)) {
+    errors.push({
+      field: "permissions",
+      message: "Les permissions doivent être un tableau",
+    });
+    return;
+  }
+
+  permissions.forEach((permission, index) => {
+    if (!CUSTOM_ROLE_ACTIONS.includes(permission)) {
+      errors.push({
+        field: `permissions[${index}]`,
+        message: `Permission invalide. Valeurs possibles : ${CUSTOM_ROLE_ACTIONS.join(", ")}`,
+      });
+    }
+  });
+};
+
+/**
+ * Valide les données de création d'un rôle personnalisé
+ * @param data - Les données à valider
+ * @returns Un tableau d'erreurs de validation
+ */
+export const validateCreateProjectRoleData = (data: {
+  name: string;
+  permissions: string[];
+}): ValidationError[] => {
+  const errors: ValidationError[] = [];
+
+  // Validation du nom
+  if (!data.name || typeof data.name !== "string" || !data.name.trim()) {
+    errors.push({ field: "name", message: "Le nom du rôle est requis" });
+  } else if (data.name.trim().length > 50) {
+    errors.push({
+      field: "name",
+      message: "Le nom du rôle ne peut pas dépasser 50 caractères",
+    });
+  }
+
+  // Validation des permissions
+  validateRolePermissions(data.permissions, errors);
+
+  return errors;
+};
+
+/**
+ * Valide les données de mise à jour d'un rôle personnalisé
+ * @param data - Les données à valider
+ * @returns Un tableau d'erreurs de validation
+ */
+export const validateUpdateProjectRoleData = (data: {
+  name?: string;
+  permissions?: string[];
+}): ValidationError[] => {
+  const errors: ValidationError[] = [];
+
+  // Validation du nom si fourni
+  if (data.name !== undefined) {
+    if (typeof data.name !== "string" || !data.name.trim()) {
+      errors.push({
+        field: "name",
+        message: "Le nom du rôle ne peut pas être vide",
+      });
+    } else if (data.name.trim().length > 50) {
+      errors.push({
+        field: "name",
+        message: "Le nom du rôle ne peut pas dépasser 50 caractères",
+      });
+    }
+  }
+
+  // Validation des permissions si fournies
+  if (data.permissions !== undefined) {
+    validateRolePermissions(data.permissions, errors);
+  }
+
+  return errors;
+};
+
+/**
+ * Valide une liste d'IDs d'étiquettes (leur appartenance au projet est vérifiée ensuite)
+ * @param labelIds - Les IDs à valider
+ * @param errors - Tableau d'erreurs à compléter
+ */
+const validateLabelIds = (
+  labelIds: unknown,
+  errors: ValidationError[]
+): void => {
+  if (!Array.isArray(labelIds)) {
+    errors.push({
+      field: "labelIds",
+      message: "Les étiquettes doivent être un tableau",
+    });
+    return;
+  }
+
+  labelIds.forEach((labelId, index) => {
+    if (!labelId || typeof labelId !== "string") {
+      errors.push({
+        field: `labelIds[${index}]`,
+        message: "L'ID de l'étiquette est invalide",
+      });
+    }
+  });
+};
+
+/**
+ * Valide les données de création d'une étiquette
+ * @param data - Les données à valider
+ * @returns Un tableau d'erreurs de validation
+ */
+export const validateCreateLabelData = (data: {
+  name: string;
+  color: string;
+}): ValidationError[] => {
+  const errors: ValidationError[] = [];
+
+  if (!data.name || typeof data.name !== "string" || !data.name.trim()) {
+    errors.push({ field: "name", message: "Le nom de l'étiquette est requis" });
+  } else if (data.name.trim().length > 50) {
+    errors.push({
+      field: "name",
+      message: "Le nom de l'étiquette ne peut pas dépasser 50 caractères",
+    });
+  }
+
+  if (!isValidColor(data.color)) {
+    errors.push({
+      field: "color",
+      message: "La couleur doit être au format hexadécimal #RRGGBB",
+    });
+  }
+
+  return errors;
+};
+
+/**
+ * Valide les données de mise à jour d'une étiquette
+ * @param data - Les données à valider
+ * @returns Un tableau d'erreurs de validation
+ */
+export const validateUpdateLabelData = (data: {
+  name?: string;
+  color?: string;
+}): ValidationError[] => {
+  const errors: ValidationError[] = [];
+
+  if (data.name === undefined && data.color === undefined) {
+    errors.push({
+      field: "name",
+      message: "Au moins un champ (name, color) doit être fourni",
+    });
+  }
+
+  if (data.name !== undefined) {
+    if (typeof data.name !== "string" || !data.name.trim()) {
+      errors.push({
+        field: "name",
+        message: "Le nom de l'étiquette ne peut pas être vide",
+      });
+    } else if (data.name.trim().length > 50) {
+      errors.push({
+        field: "name",
+        message: "Le nom de l'étiquette ne peut pas dépasser 50 caractères",
+      });
+    }
+  }
+
+  if (data.color !== undefined && !isValidColor(data.color)) {
+    errors.push({
+      field: "color",
+      message: "La couleur doit être au format hexadécimal #RRGGBB",
+    });
+  }
+
+  return errors;
+};
+
+/**
+ * Valide les dates d'un jalon (la fin ne précède pas le début)
+ * @param data - Les dates à valider
+ * @param errors - Tableau d'erreurs à compléter
+ */
+const validateMilestoneDates = (
+  data: { startDate?: string | null; endDate?: string | null },
+  errors: ValidationError[]
+): void => {
+  if (
+    data.startDate !== undefined &&
+    data.startDate !== null &&
+    !isValidDate(data.startDate)
+  ) {
+    errors.push({
+      field: "startDate",
+      message: "Format de date invalide (utilisez le format ISO)",
+    });
+  }
+
+  if (
+    data.endDate !== undefined &&
+    data.endDate !== null &&
+    !isValidDate(data.endDate)
+  ) {
+    errors.push({
+      field: "endDate",
+      message: "Format de date invalide (utilisez le format ISO)",
+    });
+  }
+
+  if (
+    data.startDate &&
+    data.endDate &&
+    isValidDate(data.startDate) &&
+    isValidDate(data.endDate) &&
+    new Date(data.endDate) < new Date(data.startDate)
+  ) {
+    errors.push({
+      field: "endDate",
+      message: "La date de fin doit être postérieure à la date de début",
+    });
+  }
+};
+
+/**
+ * Valide les choix d'un champ personnalisé de type liste
+ * @param options - Les choix à valider
+ * @param errors - Tableau d'erreurs à compléter
+ */
+const validateCustomFieldOptions = (
+  options: unknown,
+  errors: ValidationError[]
+): void => {
+  if (!Array.isArray(options) || options.length === 0) {
+    errors.push({
+      field: "options",
+      message: "Les choix doivent être un tableau non vide",
+    });
+    return;
+  }
+
+  if (options.length > 50) {
+    errors.push({
+      field: "options",
+      message: "Un champ ne peut pas proposer plus de 50 choix",
+    });
+  }
+
+  options.forEach((option, index) => {
+    if (typeof option !== "string" || !option.trim()) {
+      errors.push({
+        field: `options[${index}]`,
+        message: "Un choix ne peut pas être vide",
+      });
+    } else if (option.trim().length > 50) {
+      errors.push({
+        field: `options[${index}]`,
+        message: "Un choix ne peut pas dépasser 50 caractères",
+      });
+    }
+  });
+
+  const names = options
+    .filter((option): option is string => typeof option === "string")
+    .map((option) => option.trim());
+  if (new Set(names).size !== names.length) {
+    errors.push({
+      field: "options",
+      message: "Les choix doivent être uniques",
+    });
+  }
+};
+
+/**
+ * Valide le nom d'un champ personnalisé
+ * @param name - Le nom à valider
+ * @param errors - Tableau d'erreurs à compléter
+ */
+const validateCustomFieldName = (
+  name: unknown,
+  errors: ValidationError[]
+): void => {
+  if (typeof name !== "string" || !name.trim()) {
+    errors.push({
+      field: "name",
+      message: "Le nom du champ est requis",
+    });
+  } else if (name.trim().length > 50) {
+    errors.push({
+      field: "name",
+      message: "Le nom du champ ne peut pas dépasser 50 caractères",
+    });
+  }
+};
+
+/**
+ * Valide les données de création d'un champ personnalisé
+ * @param data - Les données à valider
+ * @returns Un tableau d'erreurs de validation
+ */
+export const validateCreateCustomFieldData = (data: {
+  name: string;
+  type: string;
+  options?: string[];
+}): ValidationError[] => {
+  const errors: ValidationError[] = [];
+
+  validateCustomFieldName(data.name, errors);
+
+  if (!Object.values(CustomFieldType).includes(data.type as CustomFieldType)) {
+    errors.push({
+      field: "type",
+      message: `Type invalide. Valeurs possibles : ${Object.values(
+        CustomFieldType
+      ).join(", ")}`,
+    });
+    return errors;
+  }
+
+  // Seuls les champs à choix ont des options
+  const isSelect =
+    data.type === CustomFieldType.SINGLE_SELECT ||
+    data.type === CustomFieldType.MULTI_SELECT;
+  if (isSelect) {
+    validateCustomFieldOptions(data.options, errors);
+  } else if (data.options !== undefined) {
+    errors.push({
+      field: "options",
+      message: "Seuls les champs SINGLE_SELECT et MULTI_SELECT ont des choix",
+    });
+  }
+
+  return errors;
+};
+
+/**
+ * Valide les données de mise à jour d'un champ personnalisé
+ * (le type d'un champ ne change pas)
+ * @param data - Les données à valider
+ * @returns Un tableau d'erreurs de validation
+ */
+export const validateUpdateCustomFieldData = (data: {
+  name?: string;
+  options?: string[];
+}): ValidationError[] => {
+  const errors: ValidationError[] = [];
+
+  if (data.name === undefined && data.options === undefined) {
+    errors.push({
+      field: "name",
+      message: "Au moins un champ (name, options) doit être fourni",
+    });
+  }
+
+  if (data.name !== undefined) {
+    validateCustomFieldName(data.name, errors);
+  }
+
+  if (data.options !== undefined) {
+    validateCustomFieldOptions(data.options, errors);
+  }
+
+  return errors;
+};
+
+/**
+ * Valide les valeurs des champs personnalisés d'une tâche selon leur type
+ * (l'appartenance au projet des utilisateurs choisis est vérifiée ensuite)
+ * @param values - Valeurs par ID de champ (null pour effacer une valeur)
+ * @param definitions - Champs personnalisés du projet
+ * @param errors - Tableau d'erreurs à compléter
+ */
+const validateCustomFieldValues = (
+  values: unknown,
+  definitions: CustomFieldDefinition[],
+  errors: ValidationError[]
+): void => {
+  if (!values || typeof values !== "object" || Array.isArray(values)) {
+    errors.push({
+      field: "customFields",
+      message:
+        "Les champs personnalisés doivent être un objet { idDuChamp: valeur }",
+    });
+    return;
+  }
+
+  for (const [fieldId, value] of Object.entries(values)) {
+    const field = `customFields.${fieldId}`;
+    const definition = definitions.find((item) => item.id === fieldId);
+    if (!definition) {
+      errors.push({
+        field,
+        message: "Champ personnalisé inconnu dans ce projet",
+      });
+      continue;
+    }
+    if (value === null) continue;
+
+    const name = `« ${definition.name} »`;
+    switch (definition.type) {
+      case CustomFieldType.TEXT:
+        if (typeof value !== "string" || value.trim().length > 500) {
+          errors.push({
+            field,
+            message: `${name} doit être un texte de 500 caractères au plus`,
+          });
+        }
+        break;
+      case CustomFieldType.NUMBER:
+        if (typeof value !== "number" || !Number.isFinite(value)) {
+          errors.push({ field, message: `${name} doit être un nombre` });
+        }
+        break;
+      case CustomFieldType.DATE:
+        if (typeof value !== "string" || !isValidDate(value)) {
+          errors.push({
+            field,
+            message: `${name} doit être une date au format ISO`,
+          });
+        }
+        break;
+      case CustomFieldType.SINGLE_SELECT:
+        if (typeof value !== "string" || !definition.options.includes(value)) {
+          errors.push({
+            field,
+            message: `${name} doit être l'un des choix : ${definition.options.join(", ")}`,
+          });
+        }
+        break;
+      case CustomFieldType.MULTI_SELECT:
+        if (
+          !Array.isArray(value) ||
+          value.some(
+            (option) =>
+              typeof option !== "string" || !definition.options.includes(option)
+          )
+        ) {
+          errors.push({
+            field,
+            message: `${name} doit être une liste parmi les choix : ${definition.options.join(", ")}`,
+          });
+        }
+        break;
+      case CustomFieldType.USER:
+        if (typeof value !== "string" || !value) {
+          errors.push({
+            field,
+            message: `${name} doit être l'ID d'un membre du projet`,
+          });
+        }
+        break;
+    }
+  }
+};
+
+/**
+ * Valide les données de création d'un jalon
+ * @param data - Les données à valider
+ * @returns Un tableau d'erreurs de validation
+ */
+export const validateCreateMilestoneData = (data: {
+  name: string;
+  goal?: string;
+  startDate?: string;
+  endDate?: string;
+}): ValidationError[] => {
+  const errors: ValidationError[] = [];
+
+  if (!data.name || typeof data.name !== "string" || !data.name.trim()) {
+    errors.push({ field: "name", message: "Le nom du jalon est requis" });
+  } else if (data.name.trim().length > 100) {
+    errors.push({
+      field: "name",
+      message: "Le nom du jalon ne peut pas dépasser 100 caractères",
+    });
+  }
+
+  if (
+    data.goal !== undefined &&
+    (typeof data.goal !== "string" || data.goal.trim().length > 500)
+  ) {
+    errors.push({
+      field: "goal",
+      message: "L'objectif ne peut pas dépasser 500 caractères",
+    });
+  }
+
+  validateMilestoneDates(data, errors);
+
+  return errors;
+};
+
+/**
+ * Valide les données de mise à jour d'un jalon
+ * @param data - Les données à valider
+ * @returns Un tableau d'erreurs de validation
+ */
+export const validateUpdateMilestoneData = (data: {
+  name?: string;
+  goal?: string | null;
+  startDate?: string | null;
+  endDate?: string | null;
+}): ValidationError[] => {
+  const errors: ValidationError[] = [];
+
+  if (
+    data.name === undefined &&
+    data.goal === undefined &&
+    data.startDate === undefined &&
+    data.endDate === undefined
+  ) {
+    errors.push({
+      field: "name",
+      message:
+        "Au moins un champ (name, goal, startDate, endDate) doit être fourni",
+    });
+  }
+
+  if (data.name !== undefined) {
+    if (typeof data.name !== "string" || !data.name.trim()) {
+      errors.push({
+        field: "name",
+        message: "Le nom du jalon ne peut pas être vide",
+      });
+    } else if (data.name.trim().length > 100) {
+      errors.push({
+        field: "name",
+        message: "Le nom du jalon ne peut pas dépasser 100 caractères",
+      });
+    }
+  }
+
+  if (
+    data.goal !== undefined &&
+    data.goal !== null &&
+    (typeof data.goal !== "string" || data.goal.trim().length > 500)
+  ) {
+    errors.push({
+      field: "goal",
+      message: "L'objectif ne peut pas dépasser 500 caractères",
+    });
+  }
+
+  validateMilestoneDates(data, errors);
+
+  return errors;
+};
+
+/**
+ * Valide les données de clôture d'un jalon
+ * @param data - Les données à valider
+ * @returns Un tableau d'erreurs de validation
+ */
+export const validateCloseMilestoneData = (data: {
+  rollOver?: boolean;
+  targetMilestoneId?: string;
+}): ValidationError[] => {
+  const errors: ValidationError[] = [];
+
+  if (data.rollOver !== undefined && typeof data.rollOver !== "boolean") {
+    errors.push({
+      field: "rollOver",
+      message: "rollOver doit être un booléen",
+    });
+  }
+
+  if (data.targetMilestoneId !== undefined) {
+    if (!data.targetMilestoneId || typeof data.targetMilestoneId !== "string") {
+      errors.push({
+        field: "targetMilestoneId",
+        message: "L'ID du jalon cible est invalide",
+      });
+    } else if (data.rollOver !== true) {
+      errors.push({
+        field: "targetMilestoneId",
+        message: "Le jalon cible n'est utilisé qu'avec rollOver",
+      });
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Valide une règle de répétition de tâche
+ * @param recurrence - La règle à valider
+ * @param errors - Tableau d'erreurs à compléter
+ */
+const validateRecurrenceRule = (
+  recurrence: unknown,
+  errors: ValidationError[]
+): void => {
+  if (
+    !recurrence ||
+    typeof recurrence !== "object" ||
+    Array.isArray(recurrence)
+  ) {
+    errors.push({
+      field: "recurrence",
+      message: "La répétition doit être un objet",
+    });
+    return;
+  }
+
+  const rule = recurrence as Record<string, unknown>;
+  const { frequency, interval, weekdays, until, count } = rule;
+
+  if (
+    typeof frequency !== "string" ||
+    !["DAILY", "WEEKLY", "MONTHLY"].includes(frequency)
+  ) {
+    errors.push({
+      field: "recurrence.frequency",
+      message: "La fréquence doit être DAILY, WEEKLY ou MONTHLY",
+    });
+  }
+
+  if (
+    interval !== undefined &&
+    (typeof interval !== "number" ||
+      !Number.isInteger(interval) ||
+      interval < 1 ||
+      interval > 365)
+  ) {
+    errors.push({
+      field: "recurrence.interval",
+      message: "L'intervalle doit être un entier entre 1 et 365",
+    });
+  }
+
+  if (weekdays !== undefined) {
+    if (frequency !== "WEEKLY") {
+      errors.push({
+        field: "recurrence.weekdays",
+        message: "Les jours ne s'appliquent qu'à une répétition WEEKLY",
+      });
+    } else if (
+      !Array.isArray(weekdays) ||
+      weekdays.length === 0 ||
+      weekdays.some(
+        (day: unknown) =>
+          typeof day !== "string" ||
+          !["MO", "TU", "WE", "TH", "FR", "SA", "SU"].includes(day)
+      )
+    ) {
+      errors.push({
+        field: "recurrence.weekdays",
+        message: "Les jours doivent être parmi MO, TU, WE, TH, FR, SA, SU",
+      });
+    }
+  }
+
+  if (until !== undefined && count !== undefined) {
+    errors.push({
+      field: "recurrence.until",
+      message:
+        "Indiquez soit une date de fin (until), soit un nombre d'occurrences (count)",
+    });
+  }
+
+  if (
+    until !== undefined &&
+    (typeof until !== "string" || !isValidDate(until))
+  ) {
+    errors.push({
+      field: "recurrence.until",
+      message: "Format de date invalide (utilisez le format ISO)",
+    });
+  }
+
+  if (
+    count !== undefined &&
+    (typeof count !== "number" ||
+      !Number.isInteger(count) ||
+      count < 1 ||
+      count > 1000)
+  ) {
+    errors.push({
+      field: "recurrence.count",
+      message: "Le nombre d'occurrences doit être un entier entre 1 et 1000",
+    });
+  }
+};
+
+/**
+ * Valide l'estimation de l'effort d'une tâche
+ * @param estimateMinutes - L'estimation à valider (null accepté pour l'effacer)
+ * @param errors - Tableau d'erreurs à compléter
+ */
+const validateEstimateMinutes = (
+  estimateMinutes: unknown,
+  errors: ValidationError[]
+): void => {
+  if (
+    estimateMinutes !== undefined &&
+    estimateMinutes !== null &&
+    (typeof estimateMinutes !== "number" ||
+      !Number.isInteger(estimateMinutes) ||
+      estimateMinutes < 1 ||
+      estimateMinutes > 100000)
+  ) {
+    errors.push({
+      field: "estimateMinutes",
+      message:
+        "L'estimation doit être un nombre entier de minutes entre 1 et 100000",
+    });
+  }
+};
+
+/**
+ * Valide les données de création de tâche
+ * @param data - Les données à valider
+ * @returns Un tableau d'erreurs de validation
+ */
+export const validateCreateTaskData = (
+  data: {
+    title: string;
+    description?: string;
+    priority?: string;
+    dueDate?: string;
+    estimateMinutes?: number | null;
+    assigneeIds?: string[];
+    labelIds?: string[];
+    milestoneId?: string | null;
+    parentTaskId?: string | null;
+    recurrence?: RecurrenceRule;
+    customFields?: CustomFieldValues;
+  },
+  customFieldDefinitions: CustomFieldDefinition[] = []
+): ValidationError[] => {
+  const errors: ValidationError[] = [];
+
+  // Validation du titre
+  if (!data.title) {
+    errors.push({ field: "title", message: "Le titre de la tâche est requis" });
+  } else if (data.title.trim().length < 2) {
+    errors.push({
+      field: "title",
+      message: "Le titre de la tâche doit contenir au moins 2 caractères",
+    });
+  } else if (data.title.trim().length > 200) {
+    errors.push({
+      field: "title",
+      message: "Le titre de la tâche ne peut pas dépasser 200 caractères",
+    });
+  }
+
+  // Validation de la description
+  if (data.description && data.description.trim().length > 1000) {
+    errors.push({
+      field: "description",
+      message: "La description ne peut pas dépasser 1000 caractères",
+    });
+  }
+
+  // Validation de la priorité
+  if (
+    data.priority &&
+    !["LOW", "MEDIUM", "HIGH", "URGENT"].includes(data.priority)
+  ) {
+    errors.push({
+      field: "priority",
+      message: "La priorité doit être LOW, MEDIUM, HIGH ou URGENT",
+    });
+  }
+  console.log('date format sent: ', data.dueDate)
+  // Validation de la date d'échéance
+  if (data.dueDate && !isValidDate(data.dueDate)) {
+    errors.push({
+      field: "dueDate",
+      message: "Format de date invalide (utilisez le format ISO)",
+    });
+  }
+
+  // Validation de l'estimation si fournie
+  validateEstimateMinutes(data.estimateMinutes, errors);
+
+  // Validation des assignations
+  if (data.assigneeIds) {
+    if (!Array.isArray(data.assigneeIds)) {
+      errors.push({
+        field: "assigneeIds",
+        message: "Les assignations doivent être un tableau",
+      });
+    } else {
+      data.assigneeIds.forEach((userId, index) => {
+        if (!userId || typeof userId !== "string") {
+          errors.push({
+            field: `assigneeIds[${index}]`,
+            message: "L'ID de l'utilisateur assigné est invalide",
+          });
+        }
+      });
+    }
+  }
+
+  // Validation des étiquettes
+  if (data.labelIds !== undefined) {
+    validateLabelIds(data.labelIds, errors);
+  }
+
+  // Validation du jalon si fourni (son appartenance au projet est vérifiée ensuite)
+  if (
+    data.milestoneId !== undefined &&
+    data.milestoneId !== null &&
+    (typeof data.milestoneId !== "string" || !data.milestoneId)
+  ) {
+    errors.push({
+      field: "milestoneId",
+      message: "L'ID du jalon est invalide",
+    });
+  }
+
+  // Validation de la tâche parente si fournie (son appartenance au projet et la
+  // profondeur des sous-tâches sont vérifiées ensuite)
+  if (
+    data.parentTaskId !== undefined &&
+    data.parentTaskId !== null &&
+    (typeof data.parentTaskId !== "string" || !data.parentTaskId)
+  ) {
+    errors.push({
+      field: "parentTaskId",
+      message: "L'ID de la tâche parente est invalide",
+    });
+  }
+  // Validation de la répétition si fournie (elle se cale sur l'échéance)
+  if (data.recurrence !== undefined) {
+    validateRecurrenceRule(data.recurrence, errors);
+    if (!data.dueDate) {
+      errors.push({
+        field: "dueDate",
+        message: "Une tâche récurrente doit avoir une date d'échéance",
+      });
+    }
+  }
+
+  // Validation des champs personnalisés si fournis
+  if (data.customFields !== undefined) {
+    validateCustomFieldValues(
+      data.customFields,
+      customFieldDefinitions,
+      errors
+    );
+  }
+
+  console.log(errors)
+  return errors;
+};
+
+/**
+ * Valide les données de mise à jour de tâche
+ * @param data - Les données à valider
+ * @returns Un tableau d'erreurs de validation
+ */
+export const validateUpdateTaskData = (
+  data: {
+    title?: string;
+    description?: string;
+    status?: string;
+    statusReason?: string;
+    priority?: string;
+    dueDate?: string;
+    estimateMinutes?: number | null;
+    assigneeIds?: string[];
+    labelIds?: string[];
+    milestoneId?: string | null;
+    parentTaskId?: string | null;
+    overrideDependencies?: boolean;
+    recurrence?: RecurrenceRule | null;
+    customFields?: CustomFieldValues;
+  },
+  customFieldDefinitions: CustomFieldDefinition[] = []
+): ValidationError[] => {
+  const errors: ValidationError[] = [];
+
+  // Validation du titre si fourni
   if (data.title !== undefined) {
     if (!data.title.trim()) {
       errors.push({
@@ -414,14 +1739,27 @@ export const validateUpdateTaskData = (data: {
     });
   }
 
-  // Validation du statut si fourni
+  // Validation du statut si fourni (son existence dans le workflow du projet est
+  // vérifiée à la mise à jour)
   if (
-    data.status &&
-    !["TODO", "IN_PROGRESS", "DONE", "CANCELLED"].includes(data.status)
+    data.status !== undefined &&
+    (typeof data.status !== "string" || !data.status.trim())
   ) {
     errors.push({
       field: "status",
-      message: "Le statut doit être TODO, IN_PROGRESS, DONE ou CANCELLED",
+      message: "Le statut doit être la clé d'un statut du projet",
+    });
+  }
+
+  // Validation du motif de changement de statut si fourni
+  if (
+    data.statusReason !== undefined &&
+    (typeof data.statusReason !== "string" ||
+      data.statusReason.trim().length > 500)
+  ) {
+    errors.push({
+      field: "statusReason",
+      message: "Le motif ne peut pas dépasser 500 caractères",
     });
   }
 
@@ -448,6 +1786,9 @@ export const validateUpdateTaskData = (data: {
     });
   }
 
+  // Validation de l'estimation si fournie (null pour l'effacer)
+  validateEstimateMinutes(data.estimateMinutes, errors);
+
   // Validation des assignations si fournies
   if (data.assigneeIds !== undefined) {
     if (!Array.isArray(data.assigneeIds)) {
@@ -467,6 +1808,369 @@ export const validateUpdateTaskData = (data: {
     }
   }
 
+  // Validation des étiquettes si fournies
+  if (data.labelIds !== undefined) {
+    validateLabelIds(data.labelIds, errors);
+  }
+
+  // Validation du jalon si fourni (son appartenance au projet est vérifiée ensuite)
+  if (
+    data.milestoneId !== undefined &&
+    data.milestoneId !== null &&
+    (typeof data.milestoneId !== "string" || !data.milestoneId)
+  ) {
+    errors.push({
+      field: "milestoneId",
+      message: "L'ID du jalon est invalide",
+    });
+  }
+
+  // Validation de la tâche parente si fournie (son appartenance au projet et la
+  // profondeur des sous-tâches sont vérifiées ensuite)
+  if (
+    data.parentTaskId !== undefined &&
+    data.parentTaskId !== null &&
+    (typeof data.parentTaskId !== "string" || !data.parentTaskId)
+  ) {
+    errors.push({
+      field: "parentTaskId",
+      message: "L'ID de la tâche parente est invalide",
+    });
+  }
+
+  // Validation du passe-droit sur les dépendances si fourni
+  if (
+    data.overrideDependencies !== undefined &&
+    typeof data.overrideDependencies !== "boolean"
+  ) {
+    errors.push({
+      field: "overrideDependencies",
+      message: "overrideDependencies doit être un booléen",
+    });
+  }
+
+  // Validation de la répétition si fournie (null pour l'arrêter)
+  if (data.recurrence !== undefined && data.recurrence !== null) {
+    validateRecurrenceRule(data.recurrence, errors);
+  }
+
+  // Validation des champs personnalisés si fournis
+  if (data.customFields !== undefined) {
+    validateCustomFieldValues(
+      data.customFields,
+      customFieldDefinitions,
+      errors
+    );
+  }
+
+  return errors;
+};
+
+/**
+ * Valide le rang d'un élément de checklist
+ * @param position - Le rang à valider
+ * @param errors - Tableau d'erreurs à compléter
+ */
+const validateChecklistPosition = (
+  position: unknown,
+  errors: ValidationError[]
+): void => {
+  if (
+    position !== undefined &&
+    (typeof position !== "number" ||
+      !Number.isInteger(position) ||
+      position < 0)
+  ) {
+    errors.push({
+      field: "position",
+      message: "Le rang doit être un entier positif ou nul",
+    });
+  }
+};
+
+/**
+ * Valide les données de création d'un élément de checklist
+ * @param data - Les données à valider
+ * @returns Un tableau d'erreurs de validation
+ */
+export const validateCreateChecklistItemData = (data: {
+  text: string;
+  position?: number;
+}): ValidationError[] => {
+  const errors: ValidationError[] = [];
+
+  if (!data.text || typeof data.text !== "string" || !data.text.trim()) {
+    errors.push({ field: "text", message: "Le texte de l'élément est requis" });
+  } else if (data.text.trim().length > 500) {
+    errors.push({
+      field: "text",
+      message: "Le texte de l'élément ne peut pas dépasser 500 caractères",
+    });
+  }
+
+  validateChecklistPosition(data.position, errors);
+
+  return errors;
+};
+
+/**
+ * Valide les données de mise à jour d'un élément de checklist
+ * @param data - Les données à valider
+ * @returns Un tableau d'erreurs de validation
+ */
+export const validateUpdateChecklistItemData = (data: {
+  text?: string;
+  done?: boolean;
+  position?: number;
+}): ValidationError[] => {
+  const errors: ValidationError[] = [];
+
+  if (
+    data.text === undefined &&
+    data.done === undefined &&
+    data.position === undefined
+  ) {
+    errors.push({
+      field: "text",
+      message: "Au moins un champ (text, done, position) doit être fourni",
+    });
+  }
+
+  if (data.text !== undefined) {
+    if (typeof data.text !== "string" || !data.text.trim()) {
+      errors.push({
+        field: "text",
+        message: "Le texte de l'élément ne peut pas être vide",
+      });
+    } else if (data.text.trim().length > 500) {
+      errors.push({
+        field: "text",
+        message: "Le texte de l'élément ne peut pas dépasser 500 caractères",
+      });
+    }
+  }
+
+  if (data.done !== undefined && typeof data.done !== "boolean") {
+    errors.push({ field: "done", message: "done doit être un booléen" });
+  }
+
+  validateChecklistPosition(data.position, errors);
+
+  return errors;
+};
+
+/**
+ * Valide les données de création d'une dépendance entre tâches
+ * @param data - Les données à valider
+ * @returns Un tableau d'erreurs de validation
+ */
+export const validateCreateTaskDependencyData = (data: {
+  blockingTaskId?: string;
+  blockedTaskId?: string;
+}): ValidationError[] => {
+  const errors: ValidationError[] = [];
+
+  if (
+    (data.blockingTaskId === undefined) ===
+    (data.blockedTaskId === undefined)
+  ) {
+    errors.push({
+      field: "blockingTaskId",
+      message: "Indiquez soit blockingTaskId, soit blockedTaskId",
+    });
+    return errors;
+  }
+
+  const field =
+    data.blockingTaskId !== undefined ? "blockingTaskId" : "blockedTaskId";
+  const value = data.blockingTaskId ?? data.blockedTaskId;
+  if (!value || typeof value !== "string") {
+    errors.push({ field, message: "L'ID de la tâche est invalide" });
+  }
+
+  return errors;
+};
+
+/**
+ * Valide les champs d'une saisie de temps (dates, durée, note)
+ * @param data - Les champs à valider
+ * @param errors - Tableau d'erreurs à compléter
+ */
+const validateTimeEntryFields = (
+  data: {
+    startedAt?: string;
+    endedAt?: string;
+    durationMinutes?: number;
+    note?: string | null;
+  },
+  errors: ValidationError[]
+): void => {
+  if (
+    data.startedAt !== undefined &&
+    (typeof data.startedAt !== "string" || !isValidDate(data.startedAt))
+  ) {
+    errors.push({
+      field: "startedAt",
+      message: "Format de date invalide (utilisez le format ISO)",
+    });
+  }
+
+  if (
+    data.endedAt !== undefined &&
+    (typeof data.endedAt !== "string" || !isValidDate(data.endedAt))
+  ) {
+    errors.push({
+      field: "endedAt",
+      message: "Format de date invalide (utilisez le format ISO)",
+    });
+  }
+
+  if (data.endedAt !== undefined && data.durationMinutes !== undefined) {
+    errors.push({
+      field: "durationMinutes",
+      message: "Indiquez soit endedAt, soit durationMinutes",
+    });
+  }
+
+  if (
+    data.durationMinutes !== undefined &&
+    (typeof data.durationMinutes !== "number" ||
+      !Number.isInteger(data.durationMinutes) ||
+      data.durationMinutes < 1 ||
+      data.durationMinutes > 1440)
+  ) {
+    errors.push({
+      field: "durationMinutes",
+      message: "La durée doit être un nombre entier de minutes entre 1 et 1440",
+    });
+  }
+
+  if (
+    data.note !== undefined &&
+    data.note !== null &&
+    (typeof data.note !== "string" || data.note.trim().length > 500)
+  ) {
+    errors.push({
+      field: "note",
+      message: "La note ne peut pas dépasser 500 caractères",
+    });
+  }
+};
+
+/**
+ * Valide les données d'une saisie de temps manuelle
+ * @param data - Les données à valider
+ * @returns Un tableau d'erreurs de validation
+ */
+export const validateCreateTimeEntryData = (data: {
+  startedAt?: string;
+  endedAt?: string;
+  durationMinutes?: number;
+  note?: string;
+}): ValidationError[] => {
+  const errors: ValidationError[] = [];
+
+  if (data.endedAt === undefined && data.durationMinutes === undefined) {
+    errors.push({
+      field: "durationMinutes",
+      message: "Indiquez la durée (durationMinutes) ou la fin (endedAt)",
+    });
+  }
+
+  if (data.endedAt !== undefined && data.startedAt === undefined) {
+    errors.push({
+      field: "startedAt",
+      message: "Le début est requis avec la fin",
+    });
+  }
+
+  validateTimeEntryFields(data, errors);
+
+  return errors;
+};
+
+/**
+ * Valide les données de mise à jour d'une saisie de temps
+ * @param data - Les données à valider
+ * @returns Un tableau d'erreurs de validation
+ */
+export const validateUpdateTimeEntryData = (data: {
+  startedAt?: string;
+  endedAt?: string;
+  durationMinutes?: number;
+  note?: string | null;
+}): ValidationError[] => {
+  const errors: ValidationError[] = [];
+
+  if (
+    data.startedAt === undefined &&
+    data.endedAt === undefined &&
+    data.durationMinutes === undefined &&
+    data.note === undefined
+  ) {
+    errors.push({
+      field: "startedAt",
+      message:
+        "Au moins un champ (startedAt, endedAt, durationMinutes, note) doit être fourni",
+    });
+  }
+
+  validateTimeEntryFields(data, errors);
+
+  return errors;
+};
+
+/**
+ * Valide les données de démarrage ou d'arrêt du chronomètre
+ * @param data - Les données à valider
+ * @returns Un tableau d'erreurs de validation
+ */
+export const validateTimerData = (data: {
+  note?: string;
+}): ValidationError[] => {
+  const errors: ValidationError[] = [];
+
+  validateTimeEntryFields({ note: data.note }, errors);
+
+  return errors;
+};
+
+/**
+ * Valide la période d'un rapport de temps passé (paramètres de requête)
+ * @param data - Les bornes à valider
+ * @returns Un tableau d'erreurs de validation
+ */
+export const validateTimePeriodData = (data: {
+  from?: unknown;
+  to?: unknown;
+}): ValidationError[] => {
+  const errors: ValidationError[] = [];
+
+  for (const field of ["from", "to"] as const) {
+    const value = data[field];
+    if (
+      value !== undefined &&
+      (typeof value !== "string" || !isValidDate(value))
+    ) {
+      errors.push({
+        field,
+        message: "Format de date invalide (utilisez le format ISO)",
+      });
+    }
+  }
+
+  if (
+    errors.length === 0 &&
+    typeof data.from === "string" &&
+    typeof data.to === "string" &&
+    new Date(data.from) > new Date(data.to)
+  ) {
+    errors.push({
+      field: "to",
+      message: "La fin de la période doit suivre son début",
+    });
+  }
+
   return errors;
 };
 
@@ -531,3 +2235,133 @@ export const validateUpdateCommentData = (data: {
 
   return errors;
 };
+
+/**
+ * Valide le workflow d'un projet (liste ordonnée et complète des statuts)
+ * @param data - Les données à valider
+ * @returns Un tableau d'erreurs de validation
+ */
+export const validateUpdateWorkflowData = (data: {
+  statuses: UpdateWorkflowRequest["statuses"];
+}): ValidationError[] => {
+  const errors: ValidationError[] = [];
+
+  if (!Array.isArray(data.statuses) || data.statuses.length === 0) {
+    errors.push({
+      field: "statuses",
+      message: "Le workflow doit contenir au moins un statut",
+    });
+    return errors;
+  }
+
+  if (data.statuses.length > 20) {
+    errors.push({
+      field: "statuses",
+      message: "Le workflow ne peut pas contenir plus de 20 statuts",
+    });
+  }
+
+  const keys = data.statuses.map((status) => status?.key);
+  const categories = Object.values(StatusCategory) as string[];
+
+  data.statuses.forEach((status, index) => {
+    if (!status || typeof status !== "object") {
+      errors.push({
+        field: `statuses[${index}]`,
+        message: "Le statut est invalide",
+      });
+      return;
+    }
+
+    // Validation de la clé
+    if (
+      typeof status.key !== "string" ||
+      !/^[A-Z][A-Z0-9_]{0,29}$/.test(status.key)
+    ) {
+      errors.push({
+        field: `statuses[${index}].key`,
+        message:
+          "La clé doit être en majuscules (lettres, chiffres, _) et ne pas dépasser 30 caractères",
+      });
+    } else if (keys.indexOf(status.key) !== index) {
+      errors.push({
+        field: `statuses[${index}].key`,
+        message: "Cette clé est déjà utilisée par un autre statut",
+      });
+    }
+
+    // Validation du nom
+    if (
+      typeof status.name !== "string" ||
+      !status.name.trim() ||
+      status.name.trim().length > 50
+    ) {
+      errors.push({
+        field: `statuses[${index}].name`,
+        message:
+          "Le nom du statut est requis et ne peut pas dépasser 50 caractères",
+      });
+    }
+
+    // Validation de la catégorie
+    if (!categories.includes(status.category)) {
+      errors.push({
+        field: `statuses[${index}].category`,
+        message: "La catégorie doit être TODO, IN_PROGRESS ou DONE",
+      });
+    }
+
+    // Validation des transitions
+    if (
+      status.allowedTransitions !== undefined &&
+      status.allowedTransitions !== null
+    ) {
+      if (!Array.isArray(status.allowedTransitions)) {
+        errors.push({
+          field: `statuses[${index}].allowedTransitions`,
+          message: "Les transitions doivent être un tableau de clés de statuts",
+        });
+      } else {
+        status.allowedTransitions.forEach((key, transitionIndex) => {
+          if (!keys.includes(key) || key === status.key) {
+            errors.push({
+              field: `statuses[${index}].allowedTransitions[${transitionIndex}]`,
+              message: "La transition doit viser un autre statut du workflow",
+            });
+          }
+        });
+      }
+    }
+
+    if (
+      status.requiresReason !== undefined &&
+      typeof status.requiresReason !== "boolean"
+    ) {
+      errors.push({
+        field: `statuses[${index}].requiresReason`,
+        message: "requiresReason doit être un booléen",
+      });
+    }
+
+    if (
+      status.isCancellation !== undefined &&
+      typeof status.isCancellation !== "boolean"
+    ) {
+      errors.push({
+        field: `statuses[${index}].isCancellation`,
+        message: "isCancellation doit être un booléen",
+      });
+    } else if (
+      status.isCancellation === true &&
+      status.category !== StatusCategory.DONE
+    ) {
+      errors.push({
+        field: `statuses[${index}].isCancellation`,
+        message:
+          "Seul un statut de catégorie DONE peut être un statut d'abandon",
+      });
+    }
+  });
+
+  return errors;
+};
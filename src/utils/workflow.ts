@@ -0,0 +1,226 @@
+import { PrismaClient, ProjectStatus } from "@prisma/client";
+import {
+  StatusCategory,
+  TaskStatus,
+  UpdateWorkflowRequest,
+  WorkflowStatus,
+} from "../types";
+
+const prisma = new PrismaClient();
+
+/**
+ * Workflow des projets qui n'ont pas défini leurs propres statuts
+ */
+export const DEFAULT_WORKFLOW: WorkflowStatus[] = [
+  {
+    key: TaskStatus.TODO,
+    name: "À faire",
+    category: StatusCategory.TODO,
+    allowedTransitions: [
+      TaskStatus.IN_PROGRESS,
+      TaskStatus.DONE,
+      TaskStatus.CANCELLED,
+    ],
+    requiresReason: false,
+    isCancellation: false,
+  },
+  {
+    key: TaskStatus.IN_PROGRESS,
+    name: "En cours",
+    category: StatusCategory.IN_PROGRESS,
+    allowedTransitions: [TaskStatus.TODO, TaskStatus.DONE, TaskStatus.CANCELLED],
+    requiresReason: false,
+    isCancellation: false,
+  },
+  {
+    key: TaskStatus.DONE,
+    name: "Terminé",
+    category: StatusCategory.DONE,
+    // Une tâche terminée ne peut être que rouverte
+    allowedTransitions: [TaskStatus.IN_PROGRESS],
+    requiresReason: false,
+    isCancellation: false,
+  },
+  {
+    key: TaskStatus.CANCELLED,
+    name: "Annulé",
+    category: StatusCategory.DONE,
+    // Une tâche annulée repasse par TODO avant d'être reprise
+    allowedTransitions: [TaskStatus.TODO],
+    requiresReason: false,
+    isCancellation: true,
+  },
+];
+
+/**
+ * Convertit un statut enregistré en statut de workflow (transitions décodées)
+ * @param status - Le statut du projet
+ * @returns Le statut de workflow
+ */
+const toWorkflowStatus = (status: ProjectStatus): WorkflowStatus => {
+  let allowedTransitions: string[] | null = null;
+  if (status.allowedTransitions) {
+    try {
+      const parsed = JSON.parse(status.allowedTransitions);
+      allowedTransitions = Array.isArray(parsed) ? parsed : null;
+    } catch {
+      allowedTransitions = null;
+    }
+  }
+
+  return {
+    key: status.key,
+    name: status.name,
+    category: status.category as StatusCategory,
+    allowedTransitions,
+    requiresReason: status.requiresReason,
+    isCancellation: status.isCancellation,
+  };
+};
+
+/**
+ * Récupère le workflow d'un projet, dans l'ordre des colonnes
+ * @param projectId - ID du projet
+ * @returns Les statuts du projet, ou le workflow par défaut s'il n'en a pas défini
+ */
+export const getProjectWorkflow = async (
+  projectId: string
+): Promise<WorkflowStatus[]> => {
+  const statuses = await prisma.projectStatus.findMany({
+    where: { projectId },
+    orderBy: { position: "asc" },
+  });
+
+  return statuses.length > 0 ? statuses.map(toWorkflowStatus) : DEFAULT_WORKFLOW;
+};
+
+/**
+ * Statut attribué aux nouvelles tâches : le premier de catégorie TODO
+ * @param workflow - Workflow du projet
+ * @returns Le statut initial
+ */
+export const getInitialStatus = (workflow: WorkflowStatus[]): WorkflowStatus => {
+  return (
+    workflow.find((status) => status.category === StatusCategory.TODO) ??
+    workflow[0]
+  );
+};
+
+/**
+ * Vérifie si une tâche peut passer d'un statut à un autre
+ * @param workflow - Workflow du projet
+ * @param from - Statut actuel de la tâche
+ * @param to - Statut demandé
+ * @returns true si la transition est autorisée, false sinon
+ */
+export const isTransitionAllowed = (
+  workflow: WorkflowStatus[],
+  from: string,
+  to: string
+): boolean => {
+  const current = workflow.find((status) => status.key === from);
+
+  // Un statut disparu du workflow n'impose aucune règle
+  if (!current || current.allowedTransitions === null) {
+    return true;
+  }
+
+  return current.allowedTransitions.includes(to);
+};
+
+/**
+ * Remplace le workflow d'un projet et met à jour la catégorie des tâches
+ * @param projectId - ID du projet
+ * @param statuses - Liste ordonnée et complète des statuts
+ * @returns Le nouveau workflow
+ */
+export const replaceProjectWorkflow = async (
+  projectId: string,
+  statuses: UpdateWorkflowRequest["statuses"]
+): Promise<WorkflowStatus[]> => {
+  await prisma.$transaction([
+    prisma.projectStatus.deleteMany({ where: { projectId } }),
+    ...statuses.map((status, index) =>
+      prisma.projectStatus.create({
+        data: {
+          key: status.key,
+          name: status.name.trim(),
+          category: status.category,
+          position: index,
+          allowedTransitions: status.allowedTransitions
+            ? JSON.stringify(Array.from(new Set(status.allowedTransitions)))
+            : null,
+          requiresReason: status.requiresReason === true,
+          isCancellation: status.isCancellation === true,
+          projectId,
+        },
+      })
+    ),
+    // Les statistiques s'appuient sur la catégorie enregistrée sur chaque tâche
+    ...statuses.map((status) =>
+      prisma.task.updateMany({
+        where: { projectId, status: status.key },
+        data: { statusCategory: status.category },
+      })
+    ),
+  ]);
+
+  return getProjectWorkflow(projectId);
+};
+
+/**
+ * Copie le workflow d'un projet dans un autre projet
+ * @param sourceProjectId - ID du projet d'origine
+ * @param targetProjectId - ID du nouveau projet
+ */
+export const copyProjectWorkflow = async (
+  sourceProjectId: string,
+  targetProjectId: string
+): Promise<void> => {
+  const statuses = await prisma.projectStatus.findMany({
+    where: { projectId: sourceProjectId },
+  });
+
+  if (statuses.length > 0) {
+    await prisma.projectStatus.createMany({
+      data: statuses.map((status) => ({
+        key: status.key,
+        name: status.name,
+        category: status.category,
+        position: status.position,
+        allowedTransitions: status.allowedTransitions,
+        requiresReason: status.requiresReason,
+        isCancellation: status.isCancellation,
+        projectId: targetProjectId,
+      })),
+    });
+  }
+};
+
+/**
+ * Calcule les dates de démarrage et de fin d'une tâche qui change de statut
+ * (le démarrage est conservé, la fin est effacée à la réouverture ; une tâche
+ * terminée sans être passée par « en cours » démarre à sa fin, une tâche annulée
+ * n'a pas de date de fin)
+ * @param task - Dates actuelles de la tâche
+ * @param target - Statut visé
+ * @param changedAt - Date du changement
+ * @returns Les dates à enregistrer
+ */
+export const getStatusTimestamps = (
+  task: { startedAt: Date | null; completedAt: Date | null },
+  target: WorkflowStatus,
+  changedAt: Date
+): { startedAt: Date | null; completedAt: Date | null } => {
+  const isCompleted =
+    target.category === StatusCategory.DONE && !target.isCancellation;
+
+  return {
+    startedAt:
+      task.startedAt ??
+      (target.category === StatusCategory.IN_PROGRESS || isCompleted
+        ? changedAt
+        : null),
+    completedAt: isCompleted ? task.completedAt ?? changedAt : null,
+  };
+};